@@ -0,0 +1,140 @@
+// sw.js
+// Offline support: keeps map tiles of the active basemap and the built app
+// shell so the map still works without a connection. Registered from
+// src/utils/offlineTiles.ts, which also writes the config read here.
+
+// Keep in step with src/config/offline.ts
+const TILE_CACHE = "tiles-v1";
+const META_CACHE = "tiles-meta-v1";
+const SHELL_CACHE = "shell-v1";
+const CONFIG_KEY = "/__tile-cache/config";
+const EVICTIONS_KEY = "/__tile-cache/evictions";
+
+const CURRENT_CACHES = [TILE_CACHE, META_CACHE, SHELL_CACHE];
+
+// { patterns: RegExp[], maxTiles: number }, loaded lazily since the worker
+// is stopped and restarted by the browser at will
+let config = null;
+
+async function loadConfig() {
+  const meta = await caches.open(META_CACHE);
+  const res = await meta.match(CONFIG_KEY);
+  const saved = res ? await res.json() : {};
+  config = {
+    patterns: (saved.patterns ?? []).map((p) => new RegExp(p)),
+    maxTiles: saved.maxTiles ?? 5000,
+  };
+  return config;
+}
+
+self.addEventListener("install", () => self.skipWaiting());
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      // Drop caches left by older versions of this worker
+      const names = await caches.keys();
+      await Promise.all(
+        names
+          .filter((name) => !CURRENT_CACHES.includes(name))
+          .map((name) => caches.delete(name))
+      );
+      await self.clients.claim();
+    })()
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "config") event.waitUntil(loadConfig());
+  if (event.data?.type === "trim") event.waitUntil(trimTiles());
+});
+
+// ---- Tiles ----
+
+// Oldest first: Cache.keys() lists entries in the order they were added
+async function trimTiles() {
+  const { maxTiles } = config ?? (await loadConfig());
+  const cache = await caches.open(TILE_CACHE);
+  const keys = await cache.keys();
+  const excess = keys.length - maxTiles;
+  if (excess <= 0) return;
+  await Promise.all(keys.slice(0, excess).map((key) => cache.delete(key)));
+
+  // Recorded so the app can show how much was evicted
+  const meta = await caches.open(META_CACHE);
+  const previous = await meta.match(EVICTIONS_KEY);
+  const { count = 0 } = previous ? await previous.json() : {};
+  await meta.put(
+    EVICTIONS_KEY,
+    Response.json({ count: count + excess, lastAt: new Date().toISOString() })
+  );
+}
+
+let trimTimer;
+function scheduleTrim() {
+  clearTimeout(trimTimer);
+  trimTimer = setTimeout(trimTiles, 2000);
+}
+
+// Cached tiles of any basemap are served; only the active one's are added
+async function tileResponse(request) {
+  const cache = await caches.open(TILE_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  // Tiles are requested with CORS, so errors show up as such. Opaque
+  // responses from layers loaded without it are passed through uncached:
+  // their status is unknown and browsers bill each one as several MB of quota.
+  const response = await fetch(request);
+  const { patterns } = config ?? (await loadConfig());
+  if (response.ok && patterns.some((p) => p.test(request.url))) {
+    await cache.put(request, response.clone());
+    scheduleTrim();
+  }
+  return response;
+}
+
+// ---- App shell ----
+
+// Pages come from the network when possible, so deploys show up at once
+async function pageResponse(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(self.registration.scope, response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match(self.registration.scope);
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+// Built assets have content hashes in their names and never change, nor do
+// the version-pinned scripts index.html loads (with CORS) from CDNs
+async function assetResponse(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  const scope = new URL(self.registration.scope);
+
+  if (request.mode === "navigate" && url.origin === scope.origin) {
+    event.respondWith(pageResponse(request));
+  } else if (
+    url.href.startsWith(`${scope.href}assets/`) ||
+    (request.destination === "script" && url.origin !== scope.origin)
+  ) {
+    event.respondWith(assetResponse(request));
+  } else if (request.destination === "image") {
+    event.respondWith(tileResponse(request));
+  }
+});
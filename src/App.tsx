@@ -1,14 +1,19 @@
-import { useRef, useState } from "react";
+import { useRef } from "react";
 import { Provider } from "react-redux";
 import MapView from "./components/MapView";
 import Cart from "./components/Cart";
+import PlaceSearch from "./components/PlaceSearch";
+import ProjectSwitcher from "./components/ProjectSwitcher";
+import BasemapSelect from "./components/BasemapSelect";
+import OverlayMenu from "./components/OverlayMenu";
+import ShareButton from "./components/ShareButton";
+import OfflineMenu from "./components/OfflineMenu";
 import { Toaster } from "react-hot-toast";
 import L from "leaflet";
-import type { BasemapKey } from "./types";
+import type { GeocodeResult } from "./api/geocoder";
 import { store } from "./redux/store";
 
 export default function App() {
-  const [basemap, setBasemap] = useState<BasemapKey>("esriImagery");
   const mapRef = useRef<L.Map | null>(null);
 
   const locateMe = () => {
@@ -33,6 +38,20 @@ export default function App() {
     );
   };
 
+  const flyToPlace = (place: GeocodeResult) => {
+    const map = mapRef.current;
+    if (!map) return;
+    if (place.bbox) {
+      const [west, south, east, north] = place.bbox;
+      map.flyToBounds([
+        [south, west],
+        [north, east],
+      ]);
+    } else {
+      map.flyTo([place.lat, place.lng], 14);
+    }
+  };
+
   return (
     <Provider store={store}>
       <div className="grid grid-cols-[1fr_360px] grid-rows-[64px_1fr] h-screen">
@@ -41,22 +60,17 @@ export default function App() {
           <div className="flex items-center gap-3">
             <div className="w-7 h-7 rounded-lg bg-gradient-to-br from-blue-500 to-cyan-400" />
             <div className="font-semibold">Satellite Data Client</div>
+            <ProjectSwitcher />
           </div>
 
+          <PlaceSearch onLocate={flyToPlace} />
+
           <div className="flex items-center gap-3">
-            {/* Basemap dropdown (OSM + ESRI layers) */}
-            <label className="text-sm text-gray-600">Basemap</label>
-            <select
-              value={basemap}
-              aria-label="Select base map"
-              onChange={(e) => setBasemap(e.target.value as BasemapKey)}
-              className="border rounded-md px-2 py-1 text-sm"
-            >
-              <option value="osm">OpenStreetMap</option>
-              <option value="esriImagery">Esri World Imagery</option>
-              <option value="esriStreets">Esri World Streets</option>
-              <option value="esriTopo">Esri Topographic</option>
-            </select>
+            {/* Basemap dropdown, generated from config/basemaps.ts */}
+            <BasemapSelect />
+            <OverlayMenu />
+            <ShareButton getMap={() => mapRef.current} />
+            <OfflineMenu getMap={() => mapRef.current} />
 
             {/* My Location button (in header) */}
             <button
@@ -71,7 +85,6 @@ export default function App() {
         {/* Map */}
         <div className="overflow-hidden">
           <MapView
-            basemap={basemap}
             onMapReady={async (m) => {
               mapRef.current = m;
               if (!window.L) {
@@ -0,0 +1,152 @@
+// api/client.ts
+// JSON client for our own backend: retries transient failures and maps
+// HTTP errors to ApiError codes the UI can act on
+
+export type ApiErrorCode =
+  | "network"
+  | "validation"
+  | "unauthorized"
+  | "not_found"
+  | "conflict"
+  | "rate_limited"
+  | "server";
+
+export class ApiError extends Error {
+  code: ApiErrorCode;
+  status?: number;
+  // Per-field messages for validation errors, keyed by request field path
+  fieldErrors: Record<string, string>;
+
+  constructor(
+    code: ApiErrorCode,
+    message: string,
+    status?: number,
+    fieldErrors: Record<string, string> = {}
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.code = code;
+    this.status = status;
+    this.fieldErrors = fieldErrors;
+  }
+
+  get retryable() {
+    return (
+      this.code === "network" ||
+      this.code === "server" ||
+      this.code === "rate_limited"
+    );
+  }
+}
+
+// Error bodies look like { error: { message, fields } }
+interface ErrorBody {
+  error?: { message?: string; fields?: Record<string, string> };
+}
+
+const DEFAULT_MESSAGES: Record<ApiErrorCode, string> = {
+  network: "Couldn't reach the server. Check your connection and try again.",
+  validation: "Some details were rejected. Check the form and try again.",
+  unauthorized: "You're not allowed to do that.",
+  not_found: "That record doesn't exist.",
+  conflict: "This request conflicts with one already made.",
+  rate_limited: "Too many requests. Please wait a moment.",
+  server: "The server had a problem. Please try again shortly.",
+};
+
+function codeForStatus(status: number): ApiErrorCode {
+  if (status === 400 || status === 422) return "validation";
+  if (status === 401 || status === 403) return "unauthorized";
+  if (status === 404) return "not_found";
+  if (status === 409) return "conflict";
+  if (status === 429) return "rate_limited";
+  return "server";
+}
+
+export async function toApiError(res: Response): Promise<ApiError> {
+  const code = codeForStatus(res.status);
+  const body: ErrorBody = await res.json().catch(() => ({}));
+  return new ApiError(
+    code,
+    body.error?.message ?? DEFAULT_MESSAGES[code],
+    res.status,
+    body.error?.fields ?? {}
+  );
+}
+
+export interface RequestOptions {
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  body?: unknown;
+  // Sent as Idempotency-Key so retried writes are applied once
+  idempotencyKey?: string;
+  signal?: AbortSignal;
+  retries?: number;
+}
+
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 500;
+
+function retryDelay(attempt: number, res?: Response): number {
+  const retryAfter = Number(res?.headers.get("Retry-After"));
+  if (retryAfter > 0) return retryAfter * 1000;
+  // Exponential backoff with jitter
+  return BASE_DELAY_MS * 2 ** attempt * (0.5 + Math.random() / 2);
+}
+
+// The abort listener is removed once the delay is over, so a long-lived
+// signal doesn't collect one per retry
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    // Cancelled while the failed response was read: don't wait at all
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Writes are only retried with an idempotency key, so they can't double-apply
+export async function apiRequest<T>(
+  baseUrl: string,
+  path: string,
+  {
+    method = "GET",
+    body,
+    idempotencyKey,
+    signal,
+    retries = MAX_RETRIES,
+  }: RequestOptions = {}
+): Promise<T> {
+  const canRetry = method === "GET" || !!idempotencyKey;
+  const headers: Record<string, string> = { Accept: "application/json" };
+  if (body !== undefined) headers["Content-Type"] = "application/json";
+  if (idempotencyKey) headers["Idempotency-Key"] = idempotencyKey;
+
+  for (let attempt = 0; ; attempt++) {
+    let res: Response | undefined;
+    let error: ApiError;
+    try {
+      res = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal,
+      });
+      if (res.ok) {
+        return res.status === 204 ? (undefined as T) : await res.json();
+      }
+      error = await toApiError(res);
+    } catch (err) {
+      if ((err as Error).name === "AbortError") throw err;
+      error = new ApiError("network", DEFAULT_MESSAGES.network);
+    }
+    if (!canRetry || !error.retryable || attempt >= retries) throw error;
+    await sleep(retryDelay(attempt, res), signal);
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it, vi } from "vitest";
+import { cachedGeocoder, lazyGeocoder } from "./geocoder";
+import type { GeocodeResult, Geocoder } from "./geocoder";
+
+const lyon: GeocodeResult = { id: "1", label: "Lyon", lat: 45.76, lng: 4.84 };
+
+// A provider whose answers are released by hand, like a slow network
+function slowProvider() {
+  const calls: { query: string; signal?: AbortSignal }[] = [];
+  let release: (results: GeocodeResult[]) => void = () => {};
+  const provider: Geocoder = {
+    search: vi.fn((query: string, signal?: AbortSignal) => {
+      calls.push({ query, signal });
+      return new Promise<GeocodeResult[]>((resolve, reject) => {
+        release = resolve;
+        // Like fetch, give up when the signal aborts
+        signal?.addEventListener("abort", () => reject(signal.reason));
+      });
+    }),
+    reverse: vi.fn(async () => null),
+  };
+  return { provider, calls, release: (r: GeocodeResult[]) => release(r) };
+}
+
+const options = { minIntervalMs: 0, cacheSize: 10 };
+const tick = () => new Promise((r) => setTimeout(r, 0));
+
+describe("cachedGeocoder", () => {
+  it("shares one provider call between identical requests", async () => {
+    const { provider, release } = slowProvider();
+    const geocoder = cachedGeocoder(provider, options);
+    const first = geocoder.search("Lyon");
+    const second = geocoder.search("  lyon ");
+    await tick();
+    release([lyon]);
+    expect(await first).toEqual([lyon]);
+    expect(await second).toEqual([lyon]);
+    expect(await geocoder.search("LYON")).toEqual([lyon]);
+    expect(provider.search).toHaveBeenCalledTimes(1);
+  });
+
+  it("lets other callers finish when one gives up", async () => {
+    const { provider, calls, release } = slowProvider();
+    const geocoder = cachedGeocoder(provider, options);
+    const controller = new AbortController();
+    const impatient = geocoder.search("Lyon", controller.signal);
+    const patient = geocoder.search("Lyon", new AbortController().signal);
+    await tick();
+
+    controller.abort();
+    await expect(impatient).rejects.toMatchObject({ name: "AbortError" });
+    expect(calls[0].signal?.aborted).toBe(false);
+    release([lyon]);
+    expect(await patient).toEqual([lyon]);
+  });
+
+  it("drops and forgets the call when every caller gives up", async () => {
+    const { provider, calls, release } = slowProvider();
+    const geocoder = cachedGeocoder(provider, options);
+    const controller = new AbortController();
+    const request = geocoder.search("Lyon", controller.signal);
+    await tick();
+
+    controller.abort();
+    await expect(request).rejects.toMatchObject({ name: "AbortError" });
+    expect(calls[0].signal?.aborted).toBe(true);
+
+    // The next caller starts afresh instead of getting the aborted call
+    const again = geocoder.search("Lyon");
+    await tick();
+    release([lyon]);
+    expect(await again).toEqual([lyon]);
+    expect(provider.search).toHaveBeenCalledTimes(2);
+  });
+
+  it("doesn't cache failures", async () => {
+    const provider: Geocoder = {
+      search: vi
+        .fn()
+        .mockRejectedValueOnce(new Error("offline"))
+        .mockResolvedValueOnce([lyon]),
+      reverse: vi.fn(),
+    };
+    const geocoder = cachedGeocoder(provider, options);
+    await expect(geocoder.search("Lyon")).rejects.toThrow("offline");
+    expect(await geocoder.search("Lyon")).toEqual([lyon]);
+  });
+});
+
+describe("lazyGeocoder", () => {
+  it("loads the provider once, on first use", async () => {
+    const provider: Geocoder = {
+      search: vi.fn(async () => [lyon]),
+      reverse: vi.fn(async () => lyon),
+    };
+    const load = vi.fn(async () => provider);
+    const geocoder = lazyGeocoder(load);
+    expect(load).not.toHaveBeenCalled();
+    expect(await geocoder.search("Lyon")).toEqual([lyon]);
+    expect(await geocoder.reverse(45.76, 4.84)).toEqual(lyon);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,261 @@
+// api/geocoder.ts
+// Pluggable place search. Providers only know how to talk to their service;
+// caching and rate limiting are layered on by `cachedGeocoder`.
+import type { PolygonalGeometry } from "../utils/validation";
+
+export interface GeocodeResult {
+  id: string;
+  // Full display name, e.g. "Lyon, Métropole de Lyon, Rhône, France"
+  label: string;
+  lat: number;
+  lng: number;
+  // [west, south, east, north]
+  bbox?: [number, number, number, number];
+  // Administrative or feature outline, when the provider returns one
+  boundary?: PolygonalGeometry;
+}
+
+export interface Geocoder {
+  search(query: string, signal?: AbortSignal): Promise<GeocodeResult[]>;
+  reverse(
+    lat: number,
+    lng: number,
+    signal?: AbortSignal
+  ): Promise<GeocodeResult | null>;
+}
+
+export class GeocoderError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "GeocoderError";
+    this.status = status;
+  }
+}
+
+// ---- Nominatim ----
+
+export interface NominatimOptions {
+  baseUrl: string;
+  // Nominatim's usage policy asks for a contact address. Browsers don't let
+  // scripts set User-Agent, so it travels as the `email` parameter instead.
+  email?: string;
+  // Accept-Language for result labels
+  language?: string;
+  limit?: number;
+}
+
+interface NominatimPlace {
+  place_id: number;
+  display_name: string;
+  lat: string;
+  lon: string;
+  // [south, north, west, east] as strings
+  boundingbox?: [string, string, string, string];
+  geojson?: GeoJSON.Geometry;
+}
+
+function fromNominatim(place: NominatimPlace): GeocodeResult {
+  const [south, north, west, east] = (place.boundingbox ?? []).map(Number);
+  const boundary =
+    place.geojson?.type === "Polygon" || place.geojson?.type === "MultiPolygon"
+      ? place.geojson
+      : undefined;
+  return {
+    id: `nominatim:${place.place_id}`,
+    label: place.display_name,
+    lat: Number(place.lat),
+    lng: Number(place.lon),
+    bbox: place.boundingbox ? [west, south, east, north] : undefined,
+    boundary,
+  };
+}
+
+export function createNominatimGeocoder({
+  baseUrl,
+  email,
+  language,
+  limit = 5,
+}: NominatimOptions): Geocoder {
+  const get = async <T>(
+    path: string,
+    params: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<T> => {
+    const query = new URLSearchParams({ format: "jsonv2", ...params });
+    if (email) query.set("email", email);
+    if (language) query.set("accept-language", language);
+    const res = await fetch(`${baseUrl}/${path}?${query}`, { signal });
+    if (!res.ok) {
+      throw new GeocoderError(`Geocoder returned ${res.status}`, res.status);
+    }
+    return res.json();
+  };
+
+  return {
+    async search(q, signal) {
+      const places = await get<NominatimPlace[]>(
+        "search",
+        {
+          q,
+          limit: String(limit),
+          polygon_geojson: "1",
+          // Simplify outlines to ~100 m so huge boundaries stay light
+          polygon_threshold: "0.001",
+        },
+        signal
+      );
+      return places.map(fromNominatim);
+    },
+    async reverse(lat, lng, signal) {
+      const place = await get<NominatimPlace & { error?: string }>(
+        "reverse",
+        { lat: String(lat), lon: String(lng) },
+        signal
+      );
+      return place.error ? null : fromNominatim(place);
+    },
+  };
+}
+
+// ---- Caching and rate limiting ----
+
+export interface CacheOptions {
+  // Minimum time between requests reaching the provider
+  minIntervalMs: number;
+  // Entries kept, least recently used evicted first
+  cacheSize: number;
+}
+
+function abortError(signal: AbortSignal) {
+  return signal.reason ?? new DOMException("Aborted", "AbortError");
+}
+
+// Runs tasks one after another, at most one start per `intervalMs`.
+// Tasks aborted while queued never reach the provider.
+function createThrottle(intervalMs: number) {
+  let tail: Promise<unknown> = Promise.resolve();
+  let lastStart = -Infinity;
+
+  return <T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    const run = async () => {
+      if (signal?.aborted) throw abortError(signal);
+      const wait = lastStart + intervalMs - Date.now();
+      if (wait > 0) await new Promise((r) => setTimeout(r, wait));
+      if (signal?.aborted) throw abortError(signal);
+      lastStart = Date.now();
+      return task();
+    };
+    const result = tail.then(run, run);
+    tail = result.catch(() => undefined);
+    return result;
+  };
+}
+
+interface SharedRequest {
+  promise: Promise<unknown>;
+  // Cancels the provider call once every caller has given up
+  controller: AbortController;
+  // Callers still waiting; those without a signal never give up
+  waiting: number;
+  settled: boolean;
+}
+
+export function cachedGeocoder(
+  provider: Geocoder,
+  { minIntervalMs, cacheSize }: CacheOptions
+): Geocoder {
+  const throttle = createThrottle(minIntervalMs);
+  const cache = new Map<string, SharedRequest>();
+
+  const forget = (key: string, shared: SharedRequest) => {
+    if (cache.get(key) === shared) cache.delete(key);
+  };
+
+  // Identical requests share one provider call, which belongs to none of
+  // the callers: one giving up only rejects its own promise, and the call is
+  // dropped (and forgotten) when the last one does. Failures aren't cached.
+  const cached = <T>(
+    key: string,
+    request: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> => {
+    let shared = cache.get(key);
+    if (shared) {
+      cache.delete(key);
+    } else {
+      const controller = new AbortController();
+      const promise = throttle(
+        () => request(controller.signal),
+        controller.signal
+      );
+      const created: SharedRequest = {
+        promise,
+        controller,
+        waiting: 0,
+        settled: false,
+      };
+      promise.then(
+        () => (created.settled = true),
+        () => {
+          created.settled = true;
+          forget(key, created);
+        }
+      );
+      shared = created;
+    }
+    cache.set(key, shared);
+    if (cache.size > cacheSize) cache.delete(cache.keys().next().value!);
+
+    const entry = shared;
+    const promise = entry.promise as Promise<T>;
+    entry.waiting++;
+    if (!signal) return promise;
+    return new Promise<T>((resolve, reject) => {
+      const giveUp = () => {
+        reject(abortError(signal));
+        if (--entry.waiting === 0 && !entry.settled) {
+          entry.controller.abort();
+          forget(key, entry);
+        }
+      };
+      if (signal.aborted) return giveUp();
+      signal.addEventListener("abort", giveUp, { once: true });
+      promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener("abort", giveUp));
+    });
+  };
+
+  return {
+    search(query, signal) {
+      const q = query.trim().replace(/\s+/g, " ");
+      return cached(
+        `search:${q.toLowerCase()}`,
+        (shared) => provider.search(q, shared),
+        signal
+      );
+    },
+    // ~1 m precision so nearby clicks reuse the answer
+    reverse(lat, lng, signal) {
+      const key = `reverse:${lat.toFixed(5)},${lng.toFixed(5)}`;
+      return cached(
+        key,
+        (shared) => provider.reverse(lat, lng, shared),
+        signal
+      );
+    },
+  };
+}
+
+// Loads the provider on first use, so it stays out of the main bundle
+export function lazyGeocoder(load: () => Promise<Geocoder>): Geocoder {
+  let provider: Promise<Geocoder> | undefined;
+  const get = () => (provider ??= load());
+  return {
+    search: async (query, signal) => (await get()).search(query, signal),
+    reverse: async (lat, lng, signal) =>
+      (await get()).reverse(lat, lng, signal),
+  };
+}
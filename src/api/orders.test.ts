@@ -0,0 +1,152 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { http, HttpResponse } from "msw";
+import { setupServer } from "msw/node";
+import { getOrder, submitOrder } from "./orders";
+import type { CustomerDetails } from "./orders";
+import { ApiError } from "./client";
+import { handlers } from "../mocks/handlers";
+import { API_BASE_URL, TERMS } from "../config/checkout";
+import { DEFAULT_PRICE_TABLE } from "../config/pricing";
+import { buildOrderRequest } from "../utils/checkout";
+import { priceCart } from "../utils/pricing";
+import { boxRegion } from "../test/regions";
+
+const server = setupServer(...handlers);
+beforeAll(() => server.listen({ onUnhandledRequest: "error" }));
+afterEach(() => {
+  server.resetHandlers();
+  vi.useRealTimers();
+});
+afterAll(() => server.close());
+
+const customer: CustomerDetails = {
+  name: "Ada Obi",
+  email: "ada@example.com",
+  organization: "Field Survey Ltd",
+  phone: "+234 803 555 0100",
+  notes: "",
+};
+
+const regions = [
+  boxRegion("a", [7.2, 10.2, 7.4, 10.4]),
+  boxRegion("b", [8, 11, 8.1, 11.1]),
+];
+const order = buildOrderRequest(
+  regions,
+  priceCart(regions, DEFAULT_PRICE_TABLE),
+  customer,
+  TERMS.version
+);
+
+describe("ordering against the mock backend", () => {
+  it("places an order and follows its status", async () => {
+    // Big enough for a volume discount, which the total must allow for
+    expect(order.discount).toBeGreaterThan(0);
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const placed = await submitOrder(API_BASE_URL, order, "key-status");
+    expect(placed).toMatchObject({
+      status: "received",
+      itemCount: 2,
+      total: order.quotedTotal,
+    });
+
+    vi.setSystemTime(Date.now() + 30_000);
+    expect((await getOrder(API_BASE_URL, placed.id)).status).toBe("scheduled");
+    vi.setSystemTime(Date.now() + 30_000);
+    expect((await getOrder(API_BASE_URL, placed.id)).status).toBe("delivered");
+  });
+
+  it("replays a retried submission instead of ordering twice", async () => {
+    const first = await submitOrder(API_BASE_URL, order, "key-replay");
+    const again = await submitOrder(API_BASE_URL, order, "key-replay");
+    expect(again.id).toBe(first.id);
+
+    const changed = { ...order, currency: "EUR" };
+    const conflict = await submitOrder(
+      API_BASE_URL,
+      changed,
+      "key-replay"
+    ).catch((e) => e);
+    expect(conflict).toBeInstanceOf(ApiError);
+    expect(conflict.code).toBe("conflict");
+  });
+
+  it("returns field errors for rejected details", async () => {
+    const invalid = {
+      ...order,
+      customer: { ...customer, email: "not an email" },
+      quotedTotal: order.quotedTotal + 1,
+    };
+    const error = await submitOrder(API_BASE_URL, invalid, "key-invalid").catch(
+      (e) => e
+    );
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.code).toBe("validation");
+    expect(Object.keys(error.fieldErrors).sort()).toEqual([
+      "customer.email",
+      "quotedTotal",
+    ]);
+    expect(error.retryable).toBe(false);
+  });
+
+  it("retries server errors and cleans up after each wait", async () => {
+    let failures = 1;
+    server.use(
+      http.post(`${API_BASE_URL}/orders`, () => {
+        if (failures-- > 0) return HttpResponse.json({}, { status: 503 });
+      })
+    );
+    const controller = new AbortController();
+    const add = vi.spyOn(controller.signal, "addEventListener");
+    const remove = vi.spyOn(controller.signal, "removeEventListener");
+
+    const placed = await submitOrder(
+      API_BASE_URL,
+      order,
+      "key-retry",
+      controller.signal
+    );
+    expect(placed.status).toBe("received");
+    const listeners = (spy: typeof add) =>
+      spy.mock.calls.filter(([type]) => type === "abort").map(([, fn]) => fn);
+    // One retry, so one wait whose abort listener must be removed afterwards
+    const removed = listeners(remove);
+    expect(listeners(add).filter((fn) => removed.includes(fn))).toHaveLength(1);
+  });
+
+  it("stops retrying when aborted during a wait", async () => {
+    server.use(
+      http.get(`${API_BASE_URL}/orders/:id`, () =>
+        HttpResponse.json({}, { status: 503 })
+      )
+    );
+    const controller = new AbortController();
+    const pending = getOrder(API_BASE_URL, "ORD-00001", controller.signal);
+    setTimeout(() => controller.abort(), 50);
+    await expect(pending).rejects.toMatchObject({ name: "AbortError" });
+  });
+
+  it("doesn't wait to retry once already aborted", async () => {
+    const controller = new AbortController();
+    // Cancelled just as the failed response comes back
+    const fetch = vi.spyOn(globalThis, "fetch").mockImplementation(async () => {
+      controller.abort();
+      return HttpResponse.json({}, { status: 503 });
+    });
+    try {
+      const pending = getOrder(API_BASE_URL, "ORD-00001", controller.signal);
+      await expect(pending).rejects.toMatchObject({ name: "AbortError" });
+      expect(fetch).toHaveBeenCalledTimes(1);
+    } finally {
+      fetch.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,91 @@
+// api/orders.ts
+import type { ProductOptions } from "../types";
+import { apiRequest } from "./client";
+
+export interface CustomerDetails {
+  name: string;
+  email: string;
+  organization: string;
+  phone: string;
+  notes: string;
+}
+
+export interface OrderItemRequest {
+  regionId: string;
+  name: string;
+  geometry: GeoJSON.Geometry;
+  product?: ProductOptions;
+  sceneIds: string[];
+  // Present when the region is fulfilled as separate grid tiles
+  tiles?: OrderTileRequest[];
+  areaKm2: number;
+  subtotal: number;
+}
+
+export interface OrderTileRequest {
+  label: string;
+  geometry: GeoJSON.Polygon | GeoJSON.MultiPolygon;
+  areaKm2: number;
+  subtotal: number;
+}
+
+export interface OrderRequest {
+  customer: CustomerDetails;
+  items: OrderItemRequest[];
+  currency: string;
+  // Volume discount taken off the items' subtotals
+  discount: number;
+  // What the customer was shown; the server reprices and rejects mismatches
+  quotedTotal: number;
+  termsVersion: string;
+}
+
+export type OrderStatus =
+  | "received"
+  | "processing"
+  | "scheduled"
+  | "delivered"
+  | "failed"
+  | "cancelled";
+
+export interface Order {
+  id: string;
+  status: OrderStatus;
+  createdAt: string;
+  updatedAt: string;
+  currency: string;
+  total: number;
+  itemCount: number;
+  statusMessage?: string;
+}
+
+// Statuses after which an order no longer changes
+export const FINAL_ORDER_STATUSES: OrderStatus[] = [
+  "delivered",
+  "failed",
+  "cancelled",
+];
+
+export function submitOrder(
+  baseUrl: string,
+  order: OrderRequest,
+  idempotencyKey: string,
+  signal?: AbortSignal
+): Promise<Order> {
+  return apiRequest<Order>(baseUrl, "/orders", {
+    method: "POST",
+    body: order,
+    idempotencyKey,
+    signal,
+  });
+}
+
+export function getOrder(
+  baseUrl: string,
+  id: string,
+  signal?: AbortSignal
+): Promise<Order> {
+  return apiRequest<Order>(baseUrl, `/orders/${encodeURIComponent(id)}`, {
+    signal,
+  });
+}
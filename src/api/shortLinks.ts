@@ -0,0 +1,79 @@
+// api/shortLinks.ts
+// Storage for permalinks too long to put in a URL. The app only needs to
+// save a payload and get it back by id, so any key-value service will do.
+import { ApiError, apiRequest } from "./client";
+
+export interface ShortLinkStore {
+  // Returns the id to put in the link
+  save(data: string): Promise<string>;
+  // Throws ApiError "not_found" for unknown or expired ids
+  load(id: string): Promise<string>;
+}
+
+interface ShortLink {
+  id: string;
+  data: string;
+}
+
+// Our backend: POST /links { data } → { id }, GET /links/:id → { id, data }
+export function createApiShortLinkStore(baseUrl: string): ShortLinkStore {
+  return {
+    async save(data) {
+      const link = await apiRequest<ShortLink>(baseUrl, "/links", {
+        method: "POST",
+        body: { data },
+        // Same payload, same link, so retrying is safe
+        idempotencyKey: await digest(data),
+      });
+      return link.id;
+    },
+    async load(id) {
+      const link = await apiRequest<ShortLink>(
+        baseUrl,
+        `/links/${encodeURIComponent(id)}`
+      );
+      return link.data;
+    },
+  };
+}
+
+// Keeps links in this browser only. Useful offline and in development, but
+// the links can't be opened anywhere else.
+export function createLocalShortLinkStore(
+  storageKey = "data-sales:links"
+): ShortLinkStore {
+  const read = (): Record<string, string> => {
+    try {
+      return JSON.parse(localStorage.getItem(storageKey) ?? "{}");
+    } catch {
+      return {};
+    }
+  };
+  return {
+    async save(data) {
+      const id = (await digest(data)).slice(0, 12);
+      localStorage.setItem(
+        storageKey,
+        JSON.stringify({ ...read(), [id]: data })
+      );
+      return id;
+    },
+    async load(id) {
+      const data = read()[id];
+      if (data === undefined) {
+        throw new ApiError("not_found", "This short link doesn't exist.", 404);
+      }
+      return data;
+    },
+  };
+}
+
+async function digest(data: string): Promise<string> {
+  const hash = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(data)
+  );
+  return Array.from(new Uint8Array(hash), (b) =>
+    b.toString(16).padStart(2, "0")
+  ).join("");
+}
@@ -0,0 +1,104 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { http, HttpResponse } from "msw";
+import { setupServer } from "msw/node";
+import { booleanIntersects } from "@turf/turf";
+import {
+  buildSearchBody,
+  fetchNextPage,
+  searchItems,
+  StacApiError,
+  toSceneSelection,
+} from "./stac";
+import type { SceneFilters } from "./stac";
+import { handlers } from "../mocks/handlers";
+import { STAC_API_URL, STAC_COLLECTIONS } from "../config/stac";
+import { DEFAULT_PRICE_TABLE } from "../config/pricing";
+import { priceCart } from "../utils/pricing";
+import { boxRegion } from "../test/regions";
+
+const server = setupServer(...handlers);
+beforeAll(() => server.listen({ onUnhandledRequest: "error" }));
+afterEach(() => server.resetHandlers());
+afterAll(() => server.close());
+
+const region = boxRegion("aoi", [7.2, 10.2, 7.6, 10.6]);
+const filters: SceneFilters = {
+  dateFrom: "2026-01-01",
+  dateTo: "2026-03-31",
+  maxCloudCover: 30,
+  collections: ["sentinel-2-l2a", "naip"],
+  maxGsd: 20,
+};
+
+describe("scene search against the mock catalog", () => {
+  it("finds, pages through and prices scenes for a region", async () => {
+    const body = buildSearchBody(
+      region.geojson.geometry,
+      filters,
+      STAC_COLLECTIONS,
+      5
+    );
+    const first = await searchItems(STAC_API_URL, body, filters.maxGsd);
+    expect(first.items).toHaveLength(5);
+    expect(first.matched).toBeGreaterThan(5);
+    expect(first.next?.method).toBe("POST");
+
+    const second = await fetchNextPage(first.next!, body, filters.maxGsd);
+    const items = [...first.items, ...second.items];
+    expect(new Set(items.map((i) => i.id)).size).toBe(items.length);
+    for (const item of items) {
+      expect(item.collection).toBe("sentinel-2-l2a");
+      expect(item.properties["eo:cloud_cover"]).toBeLessThanOrEqual(30);
+      expect(item.properties.datetime! >= "2026-01-01").toBe(true);
+      expect(booleanIntersects(item, region.geojson)).toBe(true);
+    }
+
+    const scenes = items.slice(0, 2).map(toSceneSelection);
+    expect(scenes[0].thumbnail).toMatch(/^data:image\/svg/);
+    const quote = priceCart([{ ...region, scenes }], DEFAULT_PRICE_TABLE);
+    const [line] = quote.lineItems;
+    expect(line.scenes.map((s) => s.sceneId)).toEqual(scenes.map((s) => s.id));
+    expect(line.subtotal).toBeGreaterThan(0);
+  });
+
+  it("doesn't search when no collection passes the filters", async () => {
+    let searched = false;
+    server.use(
+      http.post(`${STAC_API_URL}/search`, () => {
+        searched = true;
+        return HttpResponse.json({ type: "FeatureCollection", features: [] });
+      })
+    );
+    const body = buildSearchBody(
+      region.geojson.geometry,
+      { ...filters, maxGsd: 0.1 },
+      STAC_COLLECTIONS,
+      5
+    );
+    expect(body.collections).toEqual([]);
+    expect(await searchItems(STAC_API_URL, body, 0.1)).toEqual({
+      items: [],
+      next: null,
+      matched: 0,
+    });
+    expect(searched).toBe(false);
+  });
+
+  it("reports catalog errors with their description", async () => {
+    server.use(
+      http.post(`${STAC_API_URL}/search`, () =>
+        HttpResponse.json({ description: "bad geometry" }, { status: 400 })
+      )
+    );
+    const body = buildSearchBody(
+      region.geojson.geometry,
+      filters,
+      STAC_COLLECTIONS,
+      5
+    );
+    const error = await searchItems(STAC_API_URL, body, null).catch((e) => e);
+    expect(error).toBeInstanceOf(StacApiError);
+    expect(error.message).toBe("Catalog search failed: bad geometry");
+    expect(error.status).toBe(400);
+  });
+});
@@ -0,0 +1,222 @@
+// api/stac.ts
+// Minimal client for the STAC API item-search endpoint (POST /search)
+import type { SceneSelection } from "../types";
+
+export interface StacAsset {
+  href: string;
+  type?: string;
+  title?: string;
+  roles?: string[];
+}
+
+export interface StacLink {
+  rel: string;
+  href: string;
+  type?: string;
+  method?: "GET" | "POST";
+  body?: Record<string, unknown>;
+  merge?: boolean;
+}
+
+export interface StacItemProperties {
+  datetime: string | null;
+  "eo:cloud_cover"?: number;
+  gsd?: number;
+  platform?: string;
+  [key: string]: unknown;
+}
+
+export interface StacItem extends GeoJSON.Feature {
+  stac_version?: string;
+  id: string;
+  collection?: string;
+  properties: StacItemProperties;
+  assets: Record<string, StacAsset>;
+  links?: StacLink[];
+}
+
+export interface StacItemCollection {
+  type: "FeatureCollection";
+  features: StacItem[];
+  links?: StacLink[];
+  numberMatched?: number;
+  context?: { matched?: number };
+}
+
+export interface SceneFilters {
+  dateFrom: string; // YYYY-MM-DD, "" for open
+  dateTo: string;
+  maxCloudCover: number; // percent
+  collections: string[];
+  maxGsd: number | null; // metres
+}
+
+export interface StacCollectionOption {
+  id: string;
+  label: string;
+  gsd: number; // nominal resolution in metres
+}
+
+export interface SceneSearchPage {
+  items: StacItem[];
+  next: StacLink | null;
+  matched?: number;
+}
+
+export class StacApiError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "StacApiError";
+    this.status = status;
+  }
+}
+
+// RFC 3339 interval with ".." for an open end
+export function datetimeInterval(from: string, to: string): string | undefined {
+  if (!from && !to) return undefined;
+  const start = from ? `${from}T00:00:00Z` : "..";
+  const end = to ? `${to}T23:59:59Z` : "..";
+  return `${start}/${end}`;
+}
+
+// Collections known to be coarser than `maxGsd` are left out of the request;
+// item-level gsd is filtered again on the results since few APIs index it.
+// When none is left, `collections` is empty and searchItems finds nothing.
+export function buildSearchBody(
+  geometry: GeoJSON.Geometry,
+  filters: SceneFilters,
+  collections: StacCollectionOption[],
+  limit: number
+): Record<string, unknown> {
+  const selected = collections.filter(
+    (c) =>
+      (filters.collections.length === 0 ||
+        filters.collections.includes(c.id)) &&
+      (filters.maxGsd === null || c.gsd <= filters.maxGsd)
+  );
+  const body: Record<string, unknown> = {
+    intersects: geometry,
+    collections: selected.map((c) => c.id),
+    limit,
+    query: { "eo:cloud_cover": { lte: filters.maxCloudCover } },
+    sortby: [{ field: "properties.datetime", direction: "desc" }],
+  };
+  const datetime = datetimeInterval(filters.dateFrom, filters.dateTo);
+  if (datetime) body.datetime = datetime;
+  return body;
+}
+
+async function postSearch(
+  url: string,
+  body: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<StacItemCollection> {
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/geo+json",
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (err) {
+    if ((err as Error).name === "AbortError") throw err;
+    throw new StacApiError("The imagery catalog could not be reached");
+  }
+  if (!res.ok) {
+    const detail = await res
+      .json()
+      .then((j) => j.description ?? j.detail ?? j.message)
+      .catch(() => undefined);
+    throw new StacApiError(
+      detail ? `Catalog search failed: ${detail}` : `Catalog search failed`,
+      res.status
+    );
+  }
+  return res.json();
+}
+
+function toPage(
+  collection: StacItemCollection,
+  maxGsd: number | null
+): SceneSearchPage {
+  const items = collection.features.filter(
+    (item) =>
+      maxGsd === null ||
+      item.properties.gsd === undefined ||
+      item.properties.gsd <= maxGsd
+  );
+  return {
+    items,
+    next: collection.links?.find((l) => l.rel === "next") ?? null,
+    matched: collection.numberMatched ?? collection.context?.matched,
+  };
+}
+
+export async function searchItems(
+  apiUrl: string,
+  body: Record<string, unknown>,
+  maxGsd: number | null,
+  signal?: AbortSignal
+): Promise<SceneSearchPage> {
+  // Servers read an empty list as "every collection" or as an error
+  if (Array.isArray(body.collections) && body.collections.length === 0) {
+    return { items: [], next: null, matched: 0 };
+  }
+  return toPage(await postSearch(`${apiUrl}/search`, body, signal), maxGsd);
+}
+
+// Follow a "next" link; POST links carry the body to send (merged with the
+// original request when `merge` is set)
+export async function fetchNextPage(
+  link: StacLink,
+  previousBody: Record<string, unknown>,
+  maxGsd: number | null,
+  signal?: AbortSignal
+): Promise<SceneSearchPage> {
+  if (link.method === "POST") {
+    const body = link.merge
+      ? { ...previousBody, ...link.body }
+      : link.body ?? previousBody;
+    return toPage(await postSearch(link.href, body, signal), maxGsd);
+  }
+  let res: Response;
+  try {
+    res = await fetch(link.href, {
+      headers: { Accept: "application/geo+json" },
+      signal,
+    });
+  } catch (err) {
+    if ((err as Error).name === "AbortError") throw err;
+    throw new StacApiError("The imagery catalog could not be reached");
+  }
+  if (!res.ok) throw new StacApiError("Catalog search failed", res.status);
+  return toPage(await res.json(), maxGsd);
+}
+
+export function itemThumbnail(item: StacItem): string | undefined {
+  const assets = Object.values(item.assets ?? {});
+  return (
+    item.assets?.thumbnail?.href ??
+    assets.find((a) => a.roles?.includes("thumbnail"))?.href ??
+    assets.find((a) => a.roles?.includes("overview"))?.href
+  );
+}
+
+// The part of an item kept in the cart
+export function toSceneSelection(item: StacItem): SceneSelection {
+  return {
+    id: item.id,
+    collection: item.collection ?? "",
+    datetime: item.properties.datetime ?? "",
+    cloudCover: item.properties["eo:cloud_cover"],
+    gsd: item.properties.gsd,
+    thumbnail: itemThumbnail(item),
+    footprint: item.geometry,
+  };
+}
@@ -0,0 +1,81 @@
+import { useEffect } from "react";
+import { TileLayer, WMSTileLayer } from "react-leaflet";
+import { useAppSelector } from "../hooks";
+import { selectBaseLayer, selectOverlays } from "../redux/selectors";
+import { wmtsUrlTemplate } from "../utils/basemaps";
+import type { LayerSource } from "../utils/basemaps";
+import { setTileCacheSource } from "../utils/offlineTiles";
+
+type SourceLayerProps = {
+  source: LayerSource;
+  opacity?: number;
+  zIndex?: number;
+};
+
+function SourceLayer({ source, opacity = 1, zIndex }: SourceLayerProps) {
+  // Leaflet copies undefined options over its defaults, so leave them out.
+  // Tiles load with CORS so the tile cache can tell good responses from bad.
+  const common = {
+    opacity,
+    zIndex,
+    crossOrigin: true,
+    ...(source.attribution && { attribution: source.attribution }),
+    ...(source.minZoom !== undefined && { minZoom: source.minZoom }),
+    ...(source.maxZoom !== undefined && { maxZoom: source.maxZoom }),
+  };
+  switch (source.type) {
+    case "xyz":
+      return (
+        <TileLayer
+          {...common}
+          url={source.url}
+          {...(source.subdomains && { subdomains: source.subdomains })}
+        />
+      );
+    case "wmts":
+      return <TileLayer {...common} url={wmtsUrlTemplate(source)} />;
+    case "wms":
+      return (
+        <WMSTileLayer
+          {...common}
+          url={source.url}
+          params={{
+            layers: source.layers,
+            styles: source.styles ?? "",
+            format: source.format ?? "image/png",
+            transparent: source.transparent ?? true,
+            version: source.version ?? "1.1.1",
+          }}
+        />
+      );
+  }
+}
+
+// The selected base layer with the visible overlays stacked above it
+export default function BasemapLayers() {
+  const base = useAppSelector(selectBaseLayer);
+  const overlays = useAppSelector(selectOverlays);
+
+  // Only the base layer's tiles are cached for offline use
+  useEffect(() => {
+    setTileCacheSource(base);
+  }, [base]);
+
+  return (
+    <>
+      {/* Keyed by id so switching layers swaps the Leaflet layer */}
+      <SourceLayer key={base.id} source={base} zIndex={1} />
+      {overlays.map(
+        ({ source, visible, opacity }, i) =>
+          visible && (
+            <SourceLayer
+              key={source.id}
+              source={source}
+              opacity={opacity}
+              zIndex={10 + i}
+            />
+          )
+      )}
+    </>
+  );
+}
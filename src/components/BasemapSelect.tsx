@@ -0,0 +1,36 @@
+import { useEffect } from "react";
+import { useAppDispatch, useAppSelector } from "../hooks";
+import { selectBaseLayer } from "../redux/selectors";
+import { loadBasemapRegistry, setBaseLayer } from "../redux/slices/layersSlice";
+
+// Header basemap dropdown, generated from the layer registry
+export default function BasemapSelect() {
+  const baseLayers = useAppSelector((s) => s.layers.registry.baseLayers);
+  const current = useAppSelector(selectBaseLayer);
+  const dispatch = useAppDispatch();
+
+  // Pick up layers from the deployment's registry file, if configured
+  useEffect(() => {
+    dispatch(loadBasemapRegistry());
+  }, [dispatch]);
+
+  return (
+    <>
+      <label htmlFor="basemap-select" className="text-sm text-gray-600">
+        Basemap
+      </label>
+      <select
+        id="basemap-select"
+        value={current.id}
+        onChange={(e) => dispatch(setBaseLayer(e.target.value))}
+        className="border rounded-md px-2 py-1 text-sm"
+      >
+        {baseLayers.map((layer) => (
+          <option key={layer.id} value={layer.id}>
+            {layer.label}
+          </option>
+        ))}
+      </select>
+    </>
+  );
+}
@@ -0,0 +1,114 @@
+import { useEffect, useRef, useState } from "react";
+import { useMap } from "react-leaflet";
+import L from "leaflet";
+import toast from "react-hot-toast";
+import { useAppDispatch, useAppSelector } from "../hooks";
+import { addRegion } from "../redux/slices/cartSlice";
+import { focusRegion, setBoundaryPickLevel } from "../redux/slices/mapSlice";
+import { loadBoundaries } from "../utils/boundaries";
+import type { BoundaryFeature } from "../utils/boundaries";
+import { boundaryHoverStyle, boundaryStyle } from "../utils/mapStyles";
+import { createRegion } from "../utils/region";
+import { validateOrRepair } from "../utils/validation";
+import { BOUNDARIES_URL, BOUNDARY_LEVELS } from "../config/boundaries";
+
+// Boundary-pick mode: shows the chosen admin level, highlights the unit under
+// the cursor and adds clicked units to the cart under their official name
+export default function BoundaryLayer() {
+  const map = useMap();
+  const dispatch = useAppDispatch();
+  const levelId = useAppSelector((s) => s.map.boundaryPickLevel);
+  const regions = useAppSelector((s) => s.cart.regions);
+  const level = BOUNDARY_LEVELS.find((l) => l.id === levelId);
+  const [features, setFeatures] = useState<BoundaryFeature[] | null>(null);
+
+  const pick = (boundary: BoundaryFeature) => {
+    const { id, name } = boundary.properties;
+    if (regions.some((r) => r.geojson.properties?.boundaryId === id)) {
+      toast(`${name} is already in the cart`, { icon: "ℹ️" });
+      return;
+    }
+    const checked = validateOrRepair({
+      type: "Feature",
+      properties: { boundaryId: id },
+      geometry: boundary.geometry,
+    });
+    if (!checked.feature) {
+      const reason = checked.issues
+        .filter((i) => i.severity === "error")
+        .map((i) => i.message)
+        .join("; ");
+      toast.error(`Can't add ${name}: ${reason}`);
+      return;
+    }
+    const region = createRegion(checked.feature, name);
+    dispatch(addRegion(region));
+    dispatch(focusRegion(region.id));
+    toast.success(`${name} added to cart`);
+  };
+  // Layer listeners outlive renders, so they call through a ref
+  const pickRef = useRef(pick);
+  pickRef.current = pick;
+
+  // Fetch the level's file the first time it's picked
+  useEffect(() => {
+    setFeatures(null);
+    if (!level) return;
+    let cancelled = false;
+    const toastId = toast.loading(
+      `Loading ${level.label.toLowerCase()} boundaries…`
+    );
+    loadBoundaries(`${BOUNDARIES_URL}/${level.file}`)
+      .then((loaded) => {
+        if (!cancelled) setFeatures(loaded);
+      })
+      .catch((err) => {
+        console.error("Failed to load boundaries:", err);
+        if (cancelled) return;
+        toast.error(`Couldn't load ${level.label.toLowerCase()} boundaries`);
+        dispatch(setBoundaryPickLevel(null));
+      })
+      .finally(() => toast.dismiss(toastId));
+    return () => {
+      cancelled = true;
+    };
+  }, [level, dispatch]);
+
+  useEffect(() => {
+    if (!features) return;
+    const layer: L.GeoJSON = L.geoJSON(features, {
+      style: () => boundaryStyle,
+      onEachFeature: (feature, path) => {
+        path.bindTooltip((feature as BoundaryFeature).properties.name, {
+          sticky: true,
+        });
+        path.on({
+          mouseover: () => {
+            (path as L.Path).setStyle(boundaryHoverStyle);
+            (path as L.Path).bringToFront();
+          },
+          mouseout: () => layer.resetStyle(path),
+          click: (e) => {
+            L.DomEvent.stopPropagation(e);
+            pickRef.current(feature as BoundaryFeature);
+          },
+        });
+      },
+    }).addTo(map);
+    return () => {
+      layer.remove();
+    };
+  }, [map, features]);
+
+  // Esc leaves pick mode
+  useEffect(() => {
+    if (!level) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") dispatch(setBoundaryPickLevel(null));
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, [level, dispatch]);
+
+  return null;
+}
@@ -0,0 +1,27 @@
+import { useAppDispatch, useAppSelector } from "../hooks";
+import { setBoundaryPickLevel } from "../redux/slices/mapSlice";
+import { BOUNDARY_LEVELS } from "../config/boundaries";
+
+// Turns boundary-pick mode on for an admin level, or off
+export default function BoundaryPickSelect() {
+  const level = useAppSelector((s) => s.map.boundaryPickLevel);
+  const dispatch = useAppDispatch();
+
+  return (
+    <select
+      value={level ?? ""}
+      onChange={(e) => dispatch(setBoundaryPickLevel(e.target.value || null))}
+      title="Click administrative areas on the map to add them (Esc to stop)"
+      className={`px-2 py-1 rounded border text-sm ${
+        level ? "bg-orange-100 border-orange-400" : "bg-white"
+      }`}
+    >
+      <option value="">Pick boundary…</option>
+      {BOUNDARY_LEVELS.map((l) => (
+        <option key={l.id} value={l.id}>
+          {l.label}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -1,61 +1,172 @@
 import { useAppDispatch, useAppSelector } from "../hooks";
-import { clearCart, removeRegion } from "../redux/slices/cartSlice";
+import { clearCart, toggleCartGroup } from "../redux/slices/cartSlice";
+import { openCheckout } from "../redux/slices/checkoutSlice";
 import toast from "react-hot-toast";
-import { FaRegTrashAlt } from "react-icons/fa";
+import { FaChevronDown, FaChevronRight } from "react-icons/fa";
+import {
+  selectCartGroups,
+  selectCartQuote,
+  selectProductIssues,
+  selectRuleViolations,
+} from "../redux/selectors";
+import { undo } from "../redux/slices/historySlice";
+import { formatArea, formatMoney } from "../utils/format";
+import CartItem from "./CartItem";
+import CartToolbar from "./CartToolbar";
+import CheckoutDialog from "./CheckoutDialog";
+import ExportMenu from "./ExportMenu";
+import OverlapPanel from "./OverlapPanel";
+import ProjectNotes from "./ProjectNotes";
+import QuoteButton from "./QuoteButton";
+import RulesPanel from "./RulesPanel";
 
 export default function Cart() {
   const regions = useAppSelector((s) => s.cart.regions);
+  const query = useAppSelector((s) => s.cart.view.query);
+  const groups = useAppSelector(selectCartGroups);
+  const quote = useAppSelector(selectCartQuote);
+  const productIssues = useAppSelector(selectProductIssues);
+  const violations = useAppSelector(selectRuleViolations);
   const dispatch = useAppDispatch();
-
-  const handleRemove = (id: string) => {
-    dispatch(removeRegion(id));
-    const nextCount = regions.length - 1;
-    toast("Region removed. Cart: " + nextCount, { icon: "ℹ️" });
-  };
+  // Headers only once the user has started grouping
+  const grouped = groups.some((g) => g.name !== null);
 
   return (
     <aside className="h-[calc(100vh-64px)] bg-white border-l flex flex-col">
       <div className="px-4 py-3 border-b flex items-center justify-between">
         <div className="font-semibold">Cart</div>
-        <button
-          className="text-sm text-red-600 hover:no-underline border border-red-600 rounded-lg px-3 py-2 font-semibold cursor-pointer hover:text-white hover:bg-red-600 transition-colors duration-500 ease-in-out"
-          onClick={() => {
-            dispatch(clearCart());
-            toast("Cart cleared.", { icon: "🧹" });
-          }}
-        >
-          Clear Cart
-        </button>
+        <div className="flex items-center gap-2">
+          <ExportMenu regions={regions} />
+          <button
+            className="text-sm text-red-600 hover:no-underline border border-red-600 rounded-lg px-3 py-2 font-semibold cursor-pointer hover:text-white hover:bg-red-600 transition-colors duration-500 ease-in-out"
+            onClick={() => {
+              dispatch(clearCart());
+              toast(
+                (t) => (
+                  <span className="flex items-center gap-3">
+                    Cart cleared.
+                    <button
+                      className="text-blue-600 font-semibold cursor-pointer"
+                      onClick={() => {
+                        dispatch(undo());
+                        toast.dismiss(t.id);
+                      }}
+                    >
+                      Undo
+                    </button>
+                  </span>
+                ),
+                { icon: "🧹" }
+              );
+            }}
+          >
+            Clear Cart
+          </button>
+        </div>
       </div>
 
       <div className="flex-1 overflow-auto p-3 space-y-3">
+        <ProjectNotes />
+        <RulesPanel />
+        <OverlapPanel />
         {regions.length === 0 ? (
           <p className="text-sm text-gray-500">
             No regions selected yet. Draw a polygon or rectangle on the map.
           </p>
         ) : (
-          regions.map((r) => (
-            <div key={r.id} className="border rounded-lg p-3 shadow-sm">
-              <div className="flex justify-between items-center">
-                <div className="font-medium">{r.name}</div>
-                <button
-                  className="text-red-600 text-sm hover:no-underline cursor-pointer"
-                  onClick={() => handleRemove(r.id)}
-                >
-                  <FaRegTrashAlt />
-                </button>
-              </div>
-              <div className="text-xs text-gray-500 mt-1">
-                GeoJSON type: {r.geojson.geometry?.type}
-              </div>
-            </div>
-          ))
+          <>
+            <CartToolbar />
+            {groups.length === 0 && (
+              <p className="text-sm text-gray-500">
+                No regions match “{query}”.
+              </p>
+            )}
+            {groups.map((group) => (
+              <section key={group.name ?? ""} className="space-y-3">
+                {grouped && (
+                  <button
+                    className="w-full flex items-center gap-2 text-sm font-semibold text-gray-700 cursor-pointer"
+                    disabled={group.name === null}
+                    onClick={() =>
+                      group.name !== null &&
+                      dispatch(toggleCartGroup(group.name))
+                    }
+                  >
+                    {group.name !== null &&
+                      (group.collapsed ? (
+                        <FaChevronRight />
+                      ) : (
+                        <FaChevronDown />
+                      ))}
+                    <span className="flex-1 truncate text-left">
+                      {group.name ?? "Ungrouped"}
+                    </span>
+                    <span className="font-normal text-gray-500">
+                      {group.items.length} ·{" "}
+                      {formatMoney(group.subtotal, quote.currency)}
+                    </span>
+                  </button>
+                )}
+                {!group.collapsed &&
+                  group.items.map((item) => (
+                    <CartItem
+                      key={item.region.id}
+                      item={item}
+                      currency={quote.currency}
+                      cartSize={regions.length}
+                    />
+                  ))}
+              </section>
+            ))}
+          </>
         )}
       </div>
 
-      <div className="px-4 py-3 border-t text-sm text-gray-600">
-        Total items: <span className="font-semibold">{regions.length}</span>
+      <div className="px-4 py-3 border-t text-sm text-gray-600 space-y-1">
+        <div className="flex justify-between">
+          <span>Total items</span>
+          <span className="font-semibold">{regions.length}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Billable area</span>
+          <span>{formatArea(quote.billableAreaKm2)}</span>
+        </div>
+        {quote.discount > 0 && (
+          <div className="flex justify-between text-green-700">
+            <span>
+              Volume discount ({Math.round(quote.discountRate * 100)}%)
+            </span>
+            <span>−{formatMoney(quote.discount, quote.currency)}</span>
+          </div>
+        )}
+        <div className="flex justify-between text-base text-gray-900">
+          <span className="font-semibold">Order total</span>
+          <span className="font-semibold">
+            {formatMoney(quote.total, quote.currency)}
+          </span>
+        </div>
+        <button
+          className="w-full mt-2 bg-blue-600 text-white rounded-lg px-3 py-2 font-semibold cursor-pointer hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed"
+          disabled={
+            regions.length === 0 ||
+            productIssues.size > 0 ||
+            violations.length > 0
+          }
+          title={
+            productIssues.size > 0
+              ? "Fix the product options marked in red first"
+              : violations.length > 0
+              ? "Fix the problems listed above the cart first"
+              : undefined
+          }
+          onClick={() => dispatch(openCheckout())}
+        >
+          Checkout
+        </button>
+        <QuoteButton />
       </div>
+
+      <CheckoutDialog />
     </aside>
   );
 }
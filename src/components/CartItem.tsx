@@ -0,0 +1,397 @@
+import { useState } from "react";
+import toast from "react-hot-toast";
+import {
+  FaPen,
+  FaRegEdit,
+  FaRegTrashAlt,
+  FaSatellite,
+  FaTags,
+  FaTh,
+  FaTimes,
+} from "react-icons/fa";
+import { useAppDispatch, useAppSelector } from "../hooks";
+import {
+  removeRegion,
+  removeScene,
+  removeTile,
+  renameRegion,
+  setCartQuery,
+  toggleRegionChecked,
+  untagRegions,
+  updateRegionProduct,
+} from "../redux/slices/cartSlice";
+import { openCatalog, setSceneFilters } from "../redux/slices/catalogSlice";
+import {
+  focusRegion,
+  setHighlightedRegion,
+  startEditingRegion,
+} from "../redux/slices/mapSlice";
+import { selectProductIssues } from "../redux/selectors";
+import type { CartListItem } from "../utils/cartView";
+import { formatArea, formatLength, formatMoney } from "../utils/format";
+import { describeProduct } from "../utils/products";
+import { formatCoordinate } from "../utils/coordinates";
+import { outerVertices } from "../utils/geometry";
+import { PRODUCT_CATALOG } from "../config/products";
+import ProductOptionsEditor from "./ProductOptionsEditor";
+import RegionNotesEditor from "./RegionNotesEditor";
+import TileGridEditor from "./TileGridEditor";
+
+type Props = {
+  item: CartListItem;
+  currency: string;
+  cartSize: number;
+};
+
+type Panel = "product" | "tiles" | "vertices" | "notes";
+
+// One cart line: the region, its product, scenes or tiles, and its notes
+export default function CartItem({
+  item: { region: r, line },
+  currency,
+  cartSize,
+}: Props) {
+  const highlighted = useAppSelector((s) => s.map.highlightedRegionId === r.id);
+  const editingId = useAppSelector((s) => s.map.editing?.regionId);
+  const coordinateFormat = useAppSelector((s) => s.map.coordinateFormat);
+  const checked = useAppSelector((s) => s.cart.checkedIds.includes(r.id));
+  const issues = useAppSelector(selectProductIssues).get(r.id);
+  const dispatch = useAppDispatch();
+  // One expandable panel at a time keeps long carts readable
+  const [panel, setPanel] = useState<Panel | null>(null);
+  const [draftName, setDraftName] = useState<string | null>(null);
+
+  const toggle = (p: Panel) => setPanel(panel === p ? null : p);
+
+  const handleRemove = () => {
+    dispatch(removeRegion(r.id));
+    toast("Region removed. Cart: " + (cartSize - 1), { icon: "ℹ️" });
+  };
+
+  const submitName = () => {
+    if (draftName !== null && draftName.trim() !== r.name) {
+      dispatch(renameRegion({ regionId: r.id, name: draftName }));
+    }
+    setDraftName(null);
+  };
+
+  return (
+    <div
+      className={`border rounded-lg p-3 shadow-sm cursor-pointer transition-colors ${
+        highlighted ? "border-orange-400 bg-orange-50" : ""
+      } ${checked ? "ring-2 ring-blue-300" : ""}`}
+      onMouseEnter={() => dispatch(setHighlightedRegion(r.id))}
+      onMouseLeave={() => dispatch(setHighlightedRegion(null))}
+      onClick={() => dispatch(focusRegion(r.id))}
+    >
+      <div className="flex justify-between items-center gap-2">
+        <input
+          type="checkbox"
+          checked={checked}
+          title="Select for bulk actions"
+          onClick={(e) => e.stopPropagation()}
+          onChange={() => dispatch(toggleRegionChecked(r.id))}
+          className="shrink-0"
+        />
+        {draftName !== null ? (
+          <form
+            className="flex-1 min-w-0"
+            onClick={(e) => e.stopPropagation()}
+            onSubmit={(e) => {
+              e.preventDefault();
+              submitName();
+            }}
+          >
+            <input
+              autoFocus
+              value={draftName}
+              onChange={(e) => setDraftName(e.target.value)}
+              onBlur={submitName}
+              onKeyDown={(e) => e.key === "Escape" && setDraftName(null)}
+              className="w-full border rounded px-1 py-0.5 font-medium"
+            />
+          </form>
+        ) : (
+          <div
+            className="flex-1 min-w-0 font-medium truncate"
+            title={`${r.name}\nDouble-click to rename`}
+            onDoubleClick={(e) => {
+              e.stopPropagation();
+              setDraftName(r.name);
+            }}
+          >
+            {r.name}
+          </div>
+        )}
+        <div className="flex items-center gap-3 shrink-0">
+          <button
+            className="text-gray-500 text-sm cursor-pointer"
+            title="Rename"
+            onClick={(e) => {
+              e.stopPropagation();
+              setDraftName(r.name);
+            }}
+          >
+            <FaPen />
+          </button>
+          <button
+            className={`text-sm cursor-pointer ${
+              r.notes || r.tags || r.group ? "text-amber-600" : "text-gray-500"
+            }`}
+            title="Notes, tags and group"
+            onClick={(e) => {
+              e.stopPropagation();
+              toggle("notes");
+            }}
+          >
+            <FaTags />
+          </button>
+          <button
+            className="text-violet-600 text-sm cursor-pointer"
+            title="Find archive imagery"
+            onClick={(e) => {
+              e.stopPropagation();
+              // Seed the search from the line item's product
+              if (r.product) {
+                dispatch(
+                  setSceneFilters({
+                    dateFrom: r.product.acquisitionStart,
+                    dateTo: r.product.acquisitionEnd,
+                    maxCloudCover: r.product.maxCloudCover,
+                  })
+                );
+              }
+              dispatch(openCatalog(r.id));
+              dispatch(focusRegion(r.id));
+            }}
+          >
+            <FaSatellite />
+          </button>
+          <button
+            className={`text-sm cursor-pointer ${
+              r.tiles ? "text-teal-700" : "text-teal-500"
+            }`}
+            title="Split into tiles"
+            onClick={(e) => {
+              e.stopPropagation();
+              toggle("tiles");
+              dispatch(focusRegion(r.id));
+            }}
+          >
+            <FaTh />
+          </button>
+          {r.id === editingId ? (
+            <span className="text-xs text-orange-600">Editing…</span>
+          ) : (
+            <button
+              className="text-blue-600 text-sm cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+              title="Edit vertices"
+              disabled={!!editingId}
+              onClick={(e) => {
+                e.stopPropagation();
+                dispatch(startEditingRegion(r));
+                dispatch(focusRegion(r.id));
+              }}
+            >
+              <FaRegEdit />
+            </button>
+          )}
+          <button
+            className="text-red-600 text-sm hover:no-underline cursor-pointer"
+            title="Remove"
+            onClick={(e) => {
+              e.stopPropagation();
+              handleRemove();
+            }}
+          >
+            <FaRegTrashAlt />
+          </button>
+        </div>
+      </div>
+      {r.tags && (
+        <div className="flex flex-wrap gap-1 mt-1">
+          {r.tags.map((tag) => (
+            <span
+              key={tag}
+              className="inline-flex items-center gap-1 bg-amber-100 text-amber-800 rounded-full px-2 text-xs"
+            >
+              <button
+                className="cursor-pointer"
+                title="Show regions with this tag"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  dispatch(setCartQuery(`#${tag}`));
+                }}
+              >
+                #{tag}
+              </button>
+              <button
+                className="cursor-pointer hover:text-red-600"
+                title="Remove tag"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  dispatch(untagRegions({ regionIds: [r.id], tag }));
+                }}
+              >
+                <FaTimes className="text-[0.6rem]" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      {r.notes && panel !== "notes" && (
+        <div
+          className="text-xs text-gray-600 mt-1 truncate italic"
+          title={r.notes}
+        >
+          {r.notes}
+        </div>
+      )}
+      {panel === "notes" && (
+        <RegionNotesEditor region={r} onClose={() => setPanel(null)} />
+      )}
+      <div className="text-xs text-gray-500 mt-1">
+        GeoJSON type: {r.geojson.geometry?.type}
+      </div>
+      <div className="text-xs text-gray-500 flex justify-between gap-2">
+        <span className="font-mono">
+          {formatCoordinate(r.center, coordinateFormat)}
+        </span>
+        <button
+          className="text-blue-700 cursor-pointer hover:underline shrink-0"
+          onClick={(e) => {
+            e.stopPropagation();
+            toggle("vertices");
+          }}
+        >
+          {panel === "vertices" ? "Hide" : "Show"} vertices
+        </button>
+      </div>
+      {panel === "vertices" && (
+        <ol className="mt-1 max-h-32 overflow-auto text-xs font-mono text-gray-600 list-decimal list-inside select-text">
+          {outerVertices(r.geojson).map((vertex, j) => (
+            <li key={j}>{formatCoordinate(vertex, coordinateFormat)}</li>
+          ))}
+        </ol>
+      )}
+      {r.product && (
+        <>
+          <button
+            className={`text-xs mt-1 text-left cursor-pointer hover:underline ${
+              issues ? "text-red-600" : "text-blue-700"
+            }`}
+            title="Configure product"
+            onClick={(e) => {
+              e.stopPropagation();
+              toggle("product");
+            }}
+          >
+            {issues && "⚠ "}
+            {describeProduct(r.product, PRODUCT_CATALOG)}
+          </button>
+          {panel === "product" && (
+            <ProductOptionsEditor
+              product={r.product}
+              issues={issues ?? []}
+              onChange={(product) =>
+                dispatch(updateRegionProduct({ regionId: r.id, product }))
+              }
+            />
+          )}
+          {r.product.mode === "tasking" && line.scenes.length > 0 && (
+            <div className="text-xs text-amber-600 mt-1">
+              Archive scenes are picked for a new tasking order
+            </div>
+          )}
+        </>
+      )}
+      <div className="text-xs text-gray-500 mt-1 flex justify-between">
+        <span>
+          {formatArea(line.areaKm2)} · perimeter{" "}
+          {formatLength(line.perimeterKm)}
+        </span>
+        <span className="font-semibold text-gray-800">
+          {formatMoney(line.subtotal, currency)}
+        </span>
+      </div>
+      {line.scenes.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {(r.scenes ?? []).map((scene, j) => (
+            <li
+              key={scene.id}
+              className="flex items-center gap-2 text-xs text-gray-600"
+            >
+              {scene.thumbnail && (
+                <img
+                  src={scene.thumbnail}
+                  alt=""
+                  className="w-6 h-6 object-cover rounded"
+                />
+              )}
+              <span className="flex-1 truncate" title={scene.id}>
+                {scene.datetime.slice(0, 10)} · {scene.collection}
+                {scene.cloudCover !== undefined &&
+                  ` · ${scene.cloudCover.toFixed(0)}% cloud`}
+              </span>
+              <span>{formatMoney(line.scenes[j].subtotal, currency)}</span>
+              <button
+                className="text-gray-400 hover:text-red-600 cursor-pointer"
+                title="Remove scene"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  dispatch(removeScene({ regionId: r.id, sceneId: scene.id }));
+                }}
+              >
+                <FaTimes />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {panel === "tiles" && (
+        <TileGridEditor region={r} onClose={() => setPanel(null)} />
+      )}
+      {line.tiles.length > 0 && (
+        <div className="mt-2 text-xs text-gray-600">
+          <div className="text-teal-700">
+            {line.tiles.length} tiles · {r.tileGrid?.sizeKm} km{" "}
+            {r.tileGrid?.alignment === "utm" ? "UTM grid" : "grid"}
+          </div>
+          <ul className="mt-1 max-h-40 overflow-auto space-y-0.5">
+            {(r.tiles ?? []).map((tile, j) => (
+              <li key={tile.id} className="flex items-center gap-2">
+                <span className="flex-1 truncate font-mono">{tile.label}</span>
+                <span>{formatArea(line.tiles[j].areaKm2)}</span>
+                <span className="w-16 text-right">
+                  {formatMoney(line.tiles[j].subtotal, currency)}
+                </span>
+                <button
+                  className="text-gray-400 hover:text-red-600 cursor-pointer"
+                  title="Remove tile"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    dispatch(removeTile({ regionId: r.id, tileId: tile.id }));
+                  }}
+                >
+                  <FaTimes />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {line.uniqueAreaKm2 < line.areaKm2 - 1e-6 && (
+        <div className="text-xs text-red-600 mt-1">
+          {formatArea(line.areaKm2 - line.uniqueAreaKm2)} already covered by
+          other regions (not billed)
+        </div>
+      )}
+      {line.scenes.length === 0 &&
+        line.billableAreaKm2 > line.uniqueAreaKm2 + 1e-6 && (
+          <div className="text-xs text-amber-600 mt-1">
+            Billed at the {formatArea(line.billableAreaKm2)} minimum
+          </div>
+        )}
+    </div>
+  );
+}
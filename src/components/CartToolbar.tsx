@@ -0,0 +1,246 @@
+import { useState } from "react";
+import toast from "react-hot-toast";
+import {
+  FaSearch,
+  FaSortAmountDown,
+  FaSortAmountUp,
+  FaTimes,
+} from "react-icons/fa";
+import { useAppDispatch, useAppSelector } from "../hooks";
+import {
+  mergeCartRegions,
+  removeRegions,
+  setCartQuery,
+  setCartSort,
+  setCheckedRegions,
+  setRegionGroup,
+  tagRegions,
+} from "../redux/slices/cartSlice";
+import type { CartSortKey } from "../redux/slices/cartSlice";
+import {
+  selectCartGroups,
+  selectCartLabels,
+  selectCheckedRegions,
+} from "../redux/selectors";
+import { undo } from "../redux/slices/historySlice";
+import ExportMenu from "./ExportMenu";
+
+const SORT_LABELS: Record<CartSortKey, string> = {
+  added: "Date added",
+  name: "Name",
+  area: "Area",
+  price: "Price",
+};
+
+const buttonClass =
+  "text-xs border rounded px-2 py-0.5 cursor-pointer hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed";
+
+// Search, sort and selection for the cart list, plus actions on the ticked
+// regions
+export default function CartToolbar() {
+  const view = useAppSelector((s) => s.cart.view);
+  const groups = useAppSelector(selectCartGroups);
+  const labels = useAppSelector(selectCartLabels);
+  const checked = useAppSelector(selectCheckedRegions);
+  const dispatch = useAppDispatch();
+  // The bulk action waiting for a tag or group name
+  const [naming, setNaming] = useState<"tag" | "group" | null>(null);
+  const [label, setLabel] = useState("");
+
+  // Everything the search lets through, collapsed groups included
+  const matchingIds = groups.flatMap((g) => g.items.map((i) => i.region.id));
+  const checkedIds = checked.map((r) => r.id);
+  const allChecked =
+    matchingIds.length > 0 &&
+    matchingIds.every((id) => checkedIds.includes(id));
+
+  const deleteChecked = () => {
+    dispatch(removeRegions(checkedIds));
+    toast(
+      (t) => (
+        <span className="flex items-center gap-3">
+          {checkedIds.length} region(s) removed.
+          <button
+            className="text-blue-600 font-semibold cursor-pointer"
+            onClick={() => {
+              dispatch(undo());
+              toast.dismiss(t.id);
+            }}
+          >
+            Undo
+          </button>
+        </span>
+      ),
+      { icon: "🗑️" }
+    );
+  };
+
+  const applyLabel = () => {
+    if (naming === "tag") {
+      dispatch(tagRegions({ regionIds: checkedIds, tag: label }));
+    } else if (naming === "group") {
+      dispatch(setRegionGroup({ regionIds: checkedIds, group: label }));
+    }
+    setNaming(null);
+    setLabel("");
+  };
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex items-center gap-2">
+        <label className="flex-1 flex items-center gap-2 border rounded px-2 py-1">
+          <FaSearch className="text-gray-400" />
+          <input
+            value={view.query}
+            onChange={(e) => dispatch(setCartQuery(e.target.value))}
+            placeholder="Search names or #tags"
+            className="flex-1 min-w-0 outline-none"
+          />
+          {view.query && (
+            <button
+              className="text-gray-400 hover:text-gray-700 cursor-pointer"
+              title="Clear search"
+              onClick={() => dispatch(setCartQuery(""))}
+            >
+              <FaTimes />
+            </button>
+          )}
+        </label>
+        <select
+          value={view.sortBy}
+          onChange={(e) =>
+            dispatch(
+              setCartSort({
+                sortBy: e.target.value as CartSortKey,
+                sortDir: view.sortDir,
+              })
+            )
+          }
+          className="border rounded px-1 py-1"
+          title="Sort by"
+        >
+          {Object.entries(SORT_LABELS).map(([key, text]) => (
+            <option key={key} value={key}>
+              {text}
+            </option>
+          ))}
+        </select>
+        <button
+          className="border rounded p-1.5 cursor-pointer hover:bg-gray-100"
+          title={view.sortDir === "asc" ? "Ascending" : "Descending"}
+          onClick={() =>
+            dispatch(
+              setCartSort({
+                sortBy: view.sortBy,
+                sortDir: view.sortDir === "asc" ? "desc" : "asc",
+              })
+            )
+          }
+        >
+          {view.sortDir === "asc" ? <FaSortAmountUp /> : <FaSortAmountDown />}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={allChecked}
+            disabled={matchingIds.length === 0}
+            onChange={() =>
+              dispatch(setCheckedRegions(allChecked ? [] : matchingIds))
+            }
+          />
+          {checked.length > 0
+            ? `${checked.length} selected`
+            : view.query
+            ? "Select matching"
+            : "Select all"}
+        </label>
+        {checked.length > 0 && (
+          <>
+            <button className={buttonClass} onClick={deleteChecked}>
+              Delete
+            </button>
+            <button
+              className={buttonClass}
+              disabled={checked.length < 2}
+              title="Union the selected regions into one"
+              onClick={() => {
+                if (dispatch(mergeCartRegions(checkedIds))) {
+                  toast.success(`${checkedIds.length} regions merged`);
+                } else {
+                  toast.error("These regions couldn't be merged");
+                }
+              }}
+            >
+              Merge
+            </button>
+            <button
+              className={buttonClass}
+              onClick={() => setNaming(naming === "tag" ? null : "tag")}
+            >
+              Tag…
+            </button>
+            <button
+              className={buttonClass}
+              onClick={() => setNaming(naming === "group" ? null : "group")}
+            >
+              Group…
+            </button>
+            {checked.some((r) => r.group) && (
+              <button
+                className={buttonClass}
+                onClick={() =>
+                  dispatch(setRegionGroup({ regionIds: checkedIds, group: "" }))
+                }
+              >
+                Ungroup
+              </button>
+            )}
+            <ExportMenu regions={checked} compact />
+            <button
+              className="text-gray-400 hover:text-gray-700 cursor-pointer"
+              title="Clear selection"
+              onClick={() => dispatch(setCheckedRegions([]))}
+            >
+              <FaTimes />
+            </button>
+          </>
+        )}
+      </div>
+
+      {naming && checked.length > 0 && (
+        <form
+          className="flex items-center gap-2 text-xs"
+          onSubmit={(e) => {
+            e.preventDefault();
+            applyLabel();
+          }}
+        >
+          <input
+            autoFocus
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            onKeyDown={(e) => e.key === "Escape" && setNaming(null)}
+            list="cart-bulk-labels"
+            placeholder={naming === "tag" ? "Tag name" : "Group name"}
+            className="flex-1 border rounded px-1 py-0.5"
+          />
+          <datalist id="cart-bulk-labels">
+            {(naming === "tag" ? labels.tags : labels.groups).map((l) => (
+              <option key={l} value={l} />
+            ))}
+          </datalist>
+          <button
+            type="submit"
+            disabled={!label.trim()}
+            className="bg-blue-600 text-white rounded px-2 py-0.5 cursor-pointer disabled:opacity-40"
+          >
+            {naming === "tag" ? "Tag" : "Move"} {checked.length}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
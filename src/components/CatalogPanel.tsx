@@ -0,0 +1,264 @@
+import { useEffect, useRef } from "react";
+import { FaTimes } from "react-icons/fa";
+import { useAppDispatch, useAppSelector } from "../hooks";
+import {
+  closeCatalog,
+  loadMoreScenes,
+  searchScenes,
+  setHoveredScene,
+  setSceneFilters,
+} from "../redux/slices/catalogSlice";
+import { addScene, removeScene } from "../redux/slices/cartSlice";
+import { itemThumbnail, toSceneSelection } from "../api/stac";
+import { STAC_COLLECTIONS } from "../config/stac";
+
+// Resolution choices for the "max resolution" filter, in metres
+const GSD_OPTIONS = [1, 10, 30];
+
+const collectionLabel = (id?: string) =>
+  STAC_COLLECTIONS.find((c) => c.id === id)?.label ?? id ?? "";
+
+// Archive scene search for the region opened from the cart
+export default function CatalogPanel() {
+  const dispatch = useAppDispatch();
+  const catalog = useAppSelector((s) => s.catalog);
+  const region = useAppSelector((s) =>
+    s.cart.regions.find((r) => r.id === s.catalog.regionId)
+  );
+  const { filters, items, status } = catalog;
+  // The running search, aborted when superseded or the panel closes
+  const pendingRef = useRef<{ abort: () => void } | null>(null);
+
+  const search = () => {
+    pendingRef.current?.abort();
+    pendingRef.current = dispatch(searchScenes());
+  };
+
+  // Search as soon as a region is opened
+  useEffect(() => {
+    if (!catalog.regionId) return;
+    pendingRef.current?.abort();
+    pendingRef.current = dispatch(searchScenes());
+  }, [catalog.regionId, dispatch]);
+
+  useEffect(() => () => pendingRef.current?.abort(), []);
+
+  // The region was removed from the cart
+  useEffect(() => {
+    if (catalog.regionId && !region) dispatch(closeCatalog());
+  }, [catalog.regionId, region, dispatch]);
+
+  if (!catalog.regionId || !region) return null;
+
+  const ordered = new Set((region.scenes ?? []).map((s) => s.id));
+  const toggleCollection = (id: string) =>
+    dispatch(
+      setSceneFilters({
+        collections: filters.collections.includes(id)
+          ? filters.collections.filter((c) => c !== id)
+          : [...filters.collections, id],
+      })
+    );
+
+  return (
+    <div className="absolute top-2 left-14 bottom-4 w-80 bg-white shadow-lg rounded-lg z-[1000] flex flex-col">
+      <div className="px-3 py-2 border-b flex items-center justify-between">
+        <div className="min-w-0">
+          <div className="font-semibold">Archive imagery</div>
+          <div className="text-xs text-gray-500 truncate" title={region.name}>
+            {region.name}
+          </div>
+        </div>
+        <button
+          onClick={() => dispatch(closeCatalog())}
+          className="text-gray-500 hover:text-gray-700 cursor-pointer"
+          aria-label="Close"
+        >
+          <FaTimes />
+        </button>
+      </div>
+
+      <form
+        className="px-3 py-2 border-b space-y-2 text-xs text-gray-600"
+        onSubmit={(e) => {
+          e.preventDefault();
+          search();
+        }}
+      >
+        <div className="grid grid-cols-2 gap-2">
+          <label>
+            From
+            <input
+              type="date"
+              value={filters.dateFrom}
+              max={filters.dateTo || undefined}
+              onChange={(e) =>
+                dispatch(setSceneFilters({ dateFrom: e.target.value }))
+              }
+              className="mt-1 w-full border rounded-md px-1 py-0.5 text-sm"
+            />
+          </label>
+          <label>
+            To
+            <input
+              type="date"
+              value={filters.dateTo}
+              min={filters.dateFrom || undefined}
+              onChange={(e) =>
+                dispatch(setSceneFilters({ dateTo: e.target.value }))
+              }
+              className="mt-1 w-full border rounded-md px-1 py-0.5 text-sm"
+            />
+          </label>
+        </div>
+        <label className="block">
+          Max cloud cover: {filters.maxCloudCover}%
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={5}
+            value={filters.maxCloudCover}
+            onChange={(e) =>
+              dispatch(
+                setSceneFilters({ maxCloudCover: Number(e.target.value) })
+              )
+            }
+            className="w-full"
+          />
+        </label>
+        <div className="flex flex-wrap gap-x-3 gap-y-1">
+          {STAC_COLLECTIONS.map((c) => (
+            <label key={c.id} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={filters.collections.includes(c.id)}
+                onChange={() => toggleCollection(c.id)}
+              />
+              {c.label}
+            </label>
+          ))}
+        </div>
+        <label className="flex items-center gap-2">
+          Resolution
+          <select
+            value={filters.maxGsd ?? ""}
+            onChange={(e) =>
+              dispatch(
+                setSceneFilters({
+                  maxGsd: e.target.value ? Number(e.target.value) : null,
+                })
+              )
+            }
+            className="border rounded-md px-1 py-0.5 text-sm"
+          >
+            <option value="">Any</option>
+            {GSD_OPTIONS.map((gsd) => (
+              <option key={gsd} value={gsd}>
+                {gsd} m or better
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="submit"
+          disabled={filters.collections.length === 0}
+          className="w-full px-3 py-1 bg-blue-600 text-white rounded cursor-pointer hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Search
+        </button>
+      </form>
+
+      <div className="flex-1 overflow-auto">
+        {status === "failed" && (
+          <p className="p-3 text-sm text-red-600">{catalog.error}</p>
+        )}
+        {status === "succeeded" && items.length === 0 && (
+          <p className="p-3 text-sm text-gray-500">
+            No scenes match these filters.
+          </p>
+        )}
+        {items.length > 0 && (
+          <div className="px-3 pt-2 text-xs text-gray-500">
+            {catalog.matched !== null
+              ? `${items.length} of ${catalog.matched} scenes`
+              : `${items.length} scenes`}
+          </div>
+        )}
+        <ul className="divide-y">
+          {items.map((item) => {
+            const thumbnail = itemThumbnail(item);
+            const inCart = ordered.has(item.id);
+            const cloud = item.properties["eo:cloud_cover"];
+            return (
+              <li
+                key={item.id}
+                className={`flex gap-2 p-2 ${
+                  item.id === catalog.hoveredItemId ? "bg-violet-50" : ""
+                }`}
+                onMouseEnter={() => dispatch(setHoveredScene(item.id))}
+                onMouseLeave={() => dispatch(setHoveredScene(null))}
+              >
+                {thumbnail ? (
+                  <img
+                    src={thumbnail}
+                    alt=""
+                    loading="lazy"
+                    className="w-14 h-14 object-cover rounded bg-gray-100 shrink-0"
+                  />
+                ) : (
+                  <div className="w-14 h-14 rounded bg-gray-100 shrink-0" />
+                )}
+                <div className="min-w-0 flex-1 text-xs">
+                  <div className="font-medium text-sm">
+                    {item.properties.datetime?.slice(0, 10) ?? "Undated"}
+                  </div>
+                  <div className="text-gray-600">
+                    {collectionLabel(item.collection)}
+                  </div>
+                  <div className="text-gray-500">
+                    {cloud !== undefined && `${cloud.toFixed(1)}% cloud`}
+                    {item.properties.gsd !== undefined &&
+                      ` · ${item.properties.gsd} m`}
+                  </div>
+                </div>
+                <button
+                  onClick={() =>
+                    dispatch(
+                      inCart
+                        ? removeScene({ regionId: region.id, sceneId: item.id })
+                        : addScene({
+                            regionId: region.id,
+                            scene: toSceneSelection(item),
+                          })
+                    )
+                  }
+                  className={`self-center px-2 py-1 text-xs rounded cursor-pointer transition-colors ${
+                    inCart
+                      ? "bg-green-100 text-green-800 hover:bg-green-200"
+                      : "bg-blue-600 text-white hover:bg-blue-700"
+                  }`}
+                >
+                  {inCart ? "Added ✓" : "Add"}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+        {status === "loading" && (
+          <p className="p-3 text-sm text-gray-500">Searching…</p>
+        )}
+        {catalog.next && status !== "loading" && (
+          <button
+            onClick={() => {
+              pendingRef.current = dispatch(loadMoreScenes());
+            }}
+            className="w-full p-2 text-sm text-blue-600 hover:bg-gray-50 cursor-pointer"
+          >
+            Load more
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,324 @@
+import { useEffect, useState } from "react";
+import type { FormEvent } from "react";
+import { FaTimes } from "react-icons/fa";
+import { useAppDispatch, useAppSelector } from "../hooks";
+import {
+  closeCheckout,
+  placeOrder,
+  refreshOrder,
+  setCheckoutStep,
+  setTermsAccepted,
+  updateCustomer,
+} from "../redux/slices/checkoutSlice";
+import type { CheckoutStep } from "../redux/slices/checkoutSlice";
+import type { CustomerDetails } from "../api/orders";
+import { FINAL_ORDER_STATUSES } from "../api/orders";
+import { selectCartQuote } from "../redux/selectors";
+import { validateCustomer } from "../utils/checkout";
+import { formatArea, formatMoney } from "../utils/format";
+import { describeProduct } from "../utils/products";
+import { PRODUCT_CATALOG } from "../config/products";
+import { ORDER_POLL_INTERVAL_MS, TERMS } from "../config/checkout";
+
+const STEPS: [CheckoutStep, string][] = [
+  ["review", "Review"],
+  ["details", "Details"],
+  ["terms", "Terms"],
+  ["confirmation", "Confirmation"],
+];
+
+const CUSTOMER_FIELDS: [keyof CustomerDetails, string, string][] = [
+  ["name", "Name", "text"],
+  ["email", "Email", "email"],
+  ["organization", "Organization (optional)", "text"],
+  ["phone", "Phone (optional)", "tel"],
+];
+
+const inputClass = "mt-0.5 w-full border rounded-md px-2 py-1 text-sm";
+const primaryClass =
+  "px-3 py-1.5 bg-blue-600 text-white rounded-md text-sm cursor-pointer hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed";
+const secondaryClass =
+  "px-3 py-1.5 bg-gray-100 rounded-md text-sm cursor-pointer hover:bg-gray-200";
+
+// Review → details → terms → submit, then the placed order's live status
+export default function CheckoutDialog() {
+  const checkout = useAppSelector((s) => s.checkout);
+  const regions = useAppSelector((s) => s.cart.regions);
+  const quote = useAppSelector(selectCartQuote);
+  const dispatch = useAppDispatch();
+  // Client-side errors only show once the customer tried to continue
+  const [showErrors, setShowErrors] = useState(false);
+
+  const { step, customer, order } = checkout;
+  const orderFinal = !order || FINAL_ORDER_STATUSES.includes(order.status);
+
+  // Only poll while the confirmation is on screen
+  const polling = checkout.open && !orderFinal;
+  useEffect(() => {
+    if (!polling) return;
+    const timer = setInterval(
+      () => dispatch(refreshOrder()),
+      ORDER_POLL_INTERVAL_MS
+    );
+    return () => clearInterval(timer);
+  }, [dispatch, polling]);
+
+  if (!checkout.open) return null;
+
+  const customerErrors = validateCustomer(customer);
+  const fieldError = (key: keyof CustomerDetails) =>
+    (showErrors ? customerErrors[key] : undefined) ??
+    checkout.fieldErrors[`customer.${key}`];
+
+  const handleDetails = (e: FormEvent) => {
+    e.preventDefault();
+    setShowErrors(true);
+    if (Object.keys(customerErrors).length === 0)
+      dispatch(setCheckoutStep("terms"));
+  };
+
+  const stepIndex = STEPS.findIndex(([s]) => s === step);
+
+  return (
+    <div className="fixed inset-0 z-[3000] bg-black/40 flex items-center justify-center">
+      <div className="bg-white rounded-lg shadow-xl w-[32rem] max-h-[90vh] flex flex-col">
+        <div className="px-4 py-3 border-b flex items-center justify-between">
+          <h2 className="font-semibold">Checkout</h2>
+          <button
+            onClick={() => dispatch(closeCheckout())}
+            disabled={checkout.submitting}
+            className="text-gray-500 hover:text-gray-800 cursor-pointer disabled:opacity-40"
+            aria-label="Close checkout"
+          >
+            <FaTimes />
+          </button>
+        </div>
+
+        <ol className="flex gap-1 px-4 pt-3 text-xs">
+          {STEPS.map(([s, label], i) => (
+            <li
+              key={s}
+              className={`flex-1 border-t-4 pt-1 ${
+                i <= stepIndex
+                  ? "border-blue-600 text-blue-700"
+                  : "border-gray-200 text-gray-400"
+              }`}
+            >
+              {label}
+            </li>
+          ))}
+        </ol>
+
+        <div className="flex-1 overflow-auto p-4 text-sm">
+          {step === "review" && (
+            <div className="space-y-2">
+              <ul className="divide-y border rounded-md">
+                {regions.map((r, i) => (
+                  <li
+                    key={r.id}
+                    className="px-3 py-2 flex justify-between gap-3"
+                  >
+                    <div>
+                      <div className="font-medium">{r.name}</div>
+                      <div className="text-xs text-gray-500">
+                        {r.product
+                          ? describeProduct(r.product, PRODUCT_CATALOG)
+                          : "No product selected"}
+                        {r.scenes?.length
+                          ? ` · ${r.scenes.length} archive scene(s)`
+                          : ""}
+                      </div>
+                    </div>
+                    <div className="text-right whitespace-nowrap">
+                      <div>
+                        {formatMoney(
+                          quote.lineItems[i].subtotal,
+                          quote.currency
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {formatArea(quote.lineItems[i].billableAreaKm2)}
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+              {quote.discount > 0 && (
+                <div className="flex justify-between text-green-700">
+                  <span>Volume discount</span>
+                  <span>−{formatMoney(quote.discount, quote.currency)}</span>
+                </div>
+              )}
+              <div className="flex justify-between font-semibold">
+                <span>Order total</span>
+                <span>{formatMoney(quote.total, quote.currency)}</span>
+              </div>
+            </div>
+          )}
+
+          {step === "details" && (
+            <form
+              id="checkout-details"
+              onSubmit={handleDetails}
+              className="space-y-2"
+            >
+              {CUSTOMER_FIELDS.map(([key, label, type]) => (
+                <label key={key} className="block">
+                  {label}
+                  <input
+                    type={type}
+                    value={customer[key]}
+                    onChange={(e) =>
+                      dispatch(updateCustomer({ [key]: e.target.value }))
+                    }
+                    className={`${inputClass} ${
+                      fieldError(key) ? "border-red-500" : ""
+                    }`}
+                  />
+                  {fieldError(key) && (
+                    <span className="text-xs text-red-600">
+                      {fieldError(key)}
+                    </span>
+                  )}
+                </label>
+              ))}
+              <label className="block">
+                Notes for the order desk (optional)
+                <textarea
+                  value={customer.notes}
+                  onChange={(e) =>
+                    dispatch(updateCustomer({ notes: e.target.value }))
+                  }
+                  rows={3}
+                  className={inputClass}
+                />
+              </label>
+            </form>
+          )}
+
+          {step === "terms" && (
+            <div className="space-y-3">
+              <div className="border rounded-md p-3 bg-gray-50 space-y-2 text-xs text-gray-700 max-h-60 overflow-auto">
+                {TERMS.text.map((paragraph) => (
+                  <p key={paragraph}>{paragraph}</p>
+                ))}
+              </div>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={checkout.termsAccepted}
+                  onChange={(e) => dispatch(setTermsAccepted(e.target.checked))}
+                />
+                I accept the terms of sale (version {TERMS.version})
+              </label>
+            </div>
+          )}
+
+          {step === "confirmation" && checkout.queued && (
+            <div className="space-y-2">
+              <p className="text-amber-700 font-semibold">
+                Order saved — you're offline
+              </p>
+              <p>
+                It will be sent automatically when the connection returns, even
+                if you close this page. Its progress is shown in the Offline
+                menu, and a confirmation will be sent to {customer.email}.
+              </p>
+            </div>
+          )}
+
+          {step === "confirmation" && order && (
+            <div className="space-y-2">
+              <p className="text-green-700 font-semibold">
+                Order {order.id} placed
+              </p>
+              <p>
+                {order.itemCount} item(s),{" "}
+                {formatMoney(order.total, order.currency)}. A confirmation was
+                sent to {customer.email}.
+              </p>
+              <div className="border rounded-md px-3 py-2">
+                <div className="flex justify-between">
+                  <span>Status</span>
+                  <span className="font-semibold capitalize">
+                    {order.status}
+                  </span>
+                </div>
+                {order.statusMessage && (
+                  <div className="text-xs text-gray-500">
+                    {order.statusMessage}
+                  </div>
+                )}
+                <div className="text-xs text-gray-400">
+                  Updated {new Date(order.updatedAt).toLocaleString()}
+                  {polling && " · refreshing automatically"}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {checkout.error && (
+            <p className="mt-3 text-red-600">✖ {checkout.error}</p>
+          )}
+        </div>
+
+        <div className="px-4 py-3 border-t flex justify-end gap-2">
+          {step === "review" && (
+            <button
+              className={primaryClass}
+              disabled={regions.length === 0}
+              onClick={() => dispatch(setCheckoutStep("details"))}
+            >
+              Continue
+            </button>
+          )}
+          {step === "details" && (
+            <>
+              <button
+                className={secondaryClass}
+                onClick={() => dispatch(setCheckoutStep("review"))}
+              >
+                Back
+              </button>
+              <button
+                type="submit"
+                form="checkout-details"
+                className={primaryClass}
+              >
+                Continue
+              </button>
+            </>
+          )}
+          {step === "terms" && (
+            <>
+              <button
+                className={secondaryClass}
+                disabled={checkout.submitting}
+                onClick={() => dispatch(setCheckoutStep("details"))}
+              >
+                Back
+              </button>
+              <button
+                className={primaryClass}
+                disabled={!checkout.termsAccepted || checkout.submitting}
+                onClick={() => dispatch(placeOrder())}
+              >
+                {checkout.submitting
+                  ? "Placing order…"
+                  : `Place order · ${formatMoney(quote.total, quote.currency)}`}
+              </button>
+            </>
+          )}
+          {step === "confirmation" && (
+            <button
+              className={primaryClass}
+              onClick={() => dispatch(closeCheckout())}
+            >
+              Done
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
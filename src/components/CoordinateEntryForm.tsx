@@ -0,0 +1,143 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import type { PolygonalGeometry } from "../utils/validation";
+import { parseAngle, parseVertexList } from "../utils/coordinates";
+import { bboxToPolygon, verticesToPolygon } from "../utils/shapes";
+
+type Props = {
+  onSubmit: (feature: GeoJSON.Feature<PolygonalGeometry>) => void;
+  onClose: () => void;
+};
+
+type Mode = "vertices" | "bbox";
+
+const BBOX_FIELDS = [
+  ["west", "West (min lng)"],
+  ["south", "South (min lat)"],
+  ["east", "East (max lng)"],
+  ["north", "North (max lat)"],
+] as const;
+
+type BBoxField = (typeof BBOX_FIELDS)[number][0];
+
+// Builds an AOI from typed vertices or a bounding box
+export default function CoordinateEntryForm({ onSubmit, onClose }: Props) {
+  const [mode, setMode] = useState<Mode>("vertices");
+  const [vertices, setVertices] = useState("");
+  const [bbox, setBBox] = useState<Record<BBoxField, string>>({
+    west: "",
+    south: "",
+    east: "",
+    north: "",
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  const buildVertices = () => {
+    const points = parseVertexList(vertices);
+    if (points.length < 3) throw new Error("Enter at least 3 vertices");
+    return verticesToPolygon(points);
+  };
+
+  const buildBBox = () => {
+    const [west, south, east, north] = BBOX_FIELDS.map(([key, label]) => {
+      if (bbox[key].trim() === "") throw new Error(`${label} is empty`);
+      try {
+        return parseAngle(bbox[key]).value;
+      } catch {
+        throw new Error(`${label} is not a decimal or DMS angle`);
+      }
+    });
+    if (Math.abs(west) > 180 || Math.abs(east) > 180)
+      throw new Error("Longitudes must be between -180 and 180");
+    if (Math.abs(south) > 90 || Math.abs(north) > 90)
+      throw new Error("Latitudes must be between -90 and 90");
+    if (south >= north) throw new Error("South must be less than north");
+    if (west === east) throw new Error("West and east must differ");
+    return bboxToPolygon(west, south, east, north);
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      onSubmit(mode === "vertices" ? buildVertices() : buildBBox());
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const tabClass = (m: Mode) =>
+    `flex-1 px-2 py-1 text-sm rounded cursor-pointer ${
+      mode === m ? "bg-blue-600 text-white" : "bg-gray-100 hover:bg-gray-200"
+    }`;
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="absolute top-16 right-4 bg-white shadow-lg p-4 rounded-lg z-[1000] w-72"
+    >
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="font-semibold">Enter coordinates</h3>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-gray-500 hover:text-gray-700 cursor-pointer"
+          aria-label="Close"
+        >
+          ✕
+        </button>
+      </div>
+      <div className="flex gap-1 mb-3">
+        <button
+          type="button"
+          onClick={() => setMode("vertices")}
+          className={tabClass("vertices")}
+        >
+          Vertices
+        </button>
+        <button
+          type="button"
+          onClick={() => setMode("bbox")}
+          className={tabClass("bbox")}
+        >
+          Bounding box
+        </button>
+      </div>
+
+      {mode === "vertices" ? (
+        <label className="block text-xs text-gray-600">
+          One vertex per line: decimal "lat, lng", DMS, UTM or MGRS
+          <textarea
+            value={vertices}
+            onChange={(e) => setVertices(e.target.value)}
+            rows={6}
+            placeholder={"9.10, 7.40\n9°06′N 7°33′E\n32N 340600 992956"}
+            className="mt-1 w-full border rounded-md px-2 py-1 text-sm font-mono"
+          />
+        </label>
+      ) : (
+        <div className="grid grid-cols-2 gap-2">
+          {BBOX_FIELDS.map(([key, label]) => (
+            <label key={key} className="text-xs text-gray-600">
+              {label}
+              <input
+                type="text"
+                value={bbox[key]}
+                onChange={(e) => setBBox({ ...bbox, [key]: e.target.value })}
+                className="mt-1 w-full border rounded-md px-2 py-1 text-sm"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+      <button
+        type="submit"
+        className="mt-3 w-full px-3 py-1 bg-blue-600 text-white rounded cursor-pointer hover:bg-blue-700 transition-colors"
+      >
+        Preview on map
+      </button>
+    </form>
+  );
+}
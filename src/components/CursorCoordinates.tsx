@@ -0,0 +1,66 @@
+import { useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { useMap, useMapEvents } from "react-leaflet";
+import L from "leaflet";
+import { useAppDispatch, useAppSelector } from "../hooks";
+import { setCoordinateFormat } from "../redux/slices/mapSlice";
+import {
+  COORDINATE_FORMAT_LABELS,
+  formatCoordinate,
+} from "../utils/coordinates";
+import type { CoordinateFormat } from "../utils/coordinates";
+
+// Live cursor position, in a Leaflet control stacked with the scale bar
+export default function CursorCoordinates() {
+  const map = useMap();
+  const format = useAppSelector((s) => s.map.coordinateFormat);
+  const dispatch = useAppDispatch();
+  const [container, setContainer] = useState<HTMLElement | null>(null);
+  const [position, setPosition] = useState<[number, number] | null>(null);
+
+  useEffect(() => {
+    const control = new L.Control({ position: "bottomleft" });
+    control.onAdd = () => {
+      const div = L.DomUtil.create("div", "leaflet-control");
+      // Keep clicks on the format picker from reaching the map
+      L.DomEvent.disableClickPropagation(div);
+      setContainer(div);
+      return div;
+    };
+    control.addTo(map);
+    return () => {
+      control.remove();
+    };
+  }, [map]);
+
+  useMapEvents({
+    mousemove: (e) => setPosition([e.latlng.wrap().lng, e.latlng.lat]),
+    mouseout: () => setPosition(null),
+  });
+
+  if (!container) return null;
+  return createPortal(
+    <div className="flex items-center gap-2 bg-white/90 rounded px-2 py-0.5 text-xs shadow">
+      <span className="font-mono min-w-44">
+        {position ? formatCoordinate(position, format) : "—"}
+      </span>
+      <select
+        value={format}
+        aria-label="Coordinate format"
+        onChange={(e) =>
+          dispatch(setCoordinateFormat(e.target.value as CoordinateFormat))
+        }
+        className="bg-transparent cursor-pointer"
+      >
+        {(Object.keys(COORDINATE_FORMAT_LABELS) as CoordinateFormat[]).map(
+          (key) => (
+            <option key={key} value={key}>
+              {COORDINATE_FORMAT_LABELS[key]}
+            </option>
+          )
+        )}
+      </select>
+    </div>,
+    container
+  );
+}
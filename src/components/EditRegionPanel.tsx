@@ -0,0 +1,97 @@
+import { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import { useAppDispatch, useAppSelector } from "../hooks";
+import { updateRegion } from "../redux/slices/cartSlice";
+import { stopEditingRegion } from "../redux/slices/mapSlice";
+import { nameRegion } from "../redux/slices/offlineSlice";
+import { DEFAULT_PRICE_TABLE } from "../config/pricing";
+import { priceRegion } from "../utils/pricing";
+import { validateGeometry } from "../utils/validation";
+import { regionCenter } from "../utils/geometry";
+import { formatArea, formatMoney } from "../utils/format";
+
+// Save / cancel bar for vertex editing of a cart region
+export default function EditRegionPanel() {
+  const dispatch = useAppDispatch();
+  const editing = useAppSelector((s) => s.map.editing);
+  const region = useAppSelector((s) =>
+    s.cart.regions.find((r) => r.id === s.map.editing?.regionId)
+  );
+  const [saving, setSaving] = useState(false);
+
+  // The region was removed from the cart mid-edit
+  useEffect(() => {
+    if (editing && !region) dispatch(stopEditingRegion());
+  }, [editing, region, dispatch]);
+
+  if (!editing || !region) return null;
+
+  const draft = { ...region, geojson: editing.draft };
+  const validation = validateGeometry(editing.draft);
+  const before = priceRegion(region, DEFAULT_PRICE_TABLE);
+  const after = priceRegion(draft, DEFAULT_PRICE_TABLE);
+  const errors = validation.issues.filter((i) => i.severity === "error");
+
+  const handleSave = async () => {
+    if (!validation.valid) return;
+    setSaving(true);
+    try {
+      const center = regionCenter(editing.draft);
+      // Names the user chose stay; place names follow the new shape
+      const name = region.customName
+        ? region.name
+        : await dispatch(nameRegion({ regionId: region.id, center })).unwrap();
+      dispatch(updateRegion({ ...draft, name, center }));
+      dispatch(stopEditingRegion());
+      toast.success(`${name} updated`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = () => {
+    dispatch(stopEditingRegion());
+    toast("Edit cancelled");
+  };
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-white shadow-lg p-4 rounded-lg z-[2000] w-80 text-center">
+      <h3 className="font-semibold mb-1">Editing region</h3>
+      <p className="text-sm mb-2 truncate" title={region.name}>
+        {region.name}
+      </p>
+      <div className="text-xs text-gray-600 mb-3">
+        {formatArea(after.areaKm2)} ·{" "}
+        {formatMoney(after.subtotal, DEFAULT_PRICE_TABLE.currency)}
+        {after.subtotal !== before.subtotal && (
+          <span className="text-gray-400">
+            {" "}
+            (was {formatMoney(before.subtotal, DEFAULT_PRICE_TABLE.currency)})
+          </span>
+        )}
+      </div>
+      {errors.length > 0 && (
+        <ul className="text-xs text-left text-red-600 mb-3 space-y-1">
+          {errors.map((issue) => (
+            <li key={issue.code}>✖ {issue.message}</li>
+          ))}
+        </ul>
+      )}
+      <div className="flex justify-between space-x-2">
+        <button
+          onClick={handleSave}
+          disabled={!validation.valid || saving}
+          className="flex-1 px-3 py-1 bg-blue-600 text-white rounded cursor-pointer hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? "Saving…" : "Save"}
+        </button>
+        <button
+          onClick={handleCancel}
+          className="flex-1 px-3 py-1 bg-gray-400 text-white rounded cursor-pointer hover:bg-gray-500 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { FaFileExport } from "react-icons/fa";
+import type { Region } from "../types";
+import { EXPORT_FORMATS, exportRegions } from "../io/export";
+import type { ExportFormatKey } from "../io/export";
+import { downloadBlob } from "../utils/download";
+
+type Props = {
+  regions: Region[];
+  // Small button for toolbars
+  compact?: boolean;
+};
+
+export default function ExportMenu({ regions, compact = false }: Props) {
+  const [open, setOpen] = useState(false);
+
+  const handleExport = async (format: ExportFormatKey) => {
+    setOpen(false);
+    try {
+      const blob = await exportRegions(format, regions);
+      const stamp = new Date().toISOString().slice(0, 10);
+      downloadBlob(blob, `aois-${stamp}.${EXPORT_FORMATS[format].extension}`);
+    } catch (err) {
+      console.error("Export failed:", err);
+      toast.error(`Could not export ${EXPORT_FORMATS[format].label}`);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        disabled={regions.length === 0}
+        onClick={() => setOpen((o) => !o)}
+        className={`border cursor-pointer flex items-center gap-2 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed ${
+          compact
+            ? "text-xs rounded px-2 py-0.5"
+            : "text-sm border-gray-400 rounded-lg px-3 py-2 font-semibold"
+        }`}
+      >
+        <FaFileExport /> Export
+      </button>
+      {open && (
+        <ul className="absolute right-0 mt-1 w-44 bg-white border rounded-lg shadow-lg z-[1000] py-1">
+          {(Object.keys(EXPORT_FORMATS) as ExportFormatKey[]).map((key) => (
+            <li key={key}>
+              <button
+                onClick={() => handleExport(key)}
+                className="w-full text-left px-3 py-1.5 text-sm hover:bg-gray-100 cursor-pointer"
+              >
+                {EXPORT_FORMATS[key].label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
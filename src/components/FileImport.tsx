@@ -0,0 +1,126 @@
+import { useEffect, useRef, useState } from "react";
+import toast from "react-hot-toast";
+import type { Region } from "../types";
+import { useAppDispatch } from "../hooks";
+import { addRegions } from "../redux/slices/cartSlice";
+import { IMPORT_ACCEPT, importFiles } from "../io/import";
+import type { ImportResult } from "../io/import";
+
+type Props = {
+  onImported?: (regions: Region[]) => void;
+};
+
+function showSummary({ regions, issues }: ImportResult) {
+  const message = (
+    <div className="text-sm">
+      <div className="font-semibold">
+        Imported {regions.length} region{regions.length === 1 ? "" : "s"}
+      </div>
+      {issues.length > 0 && (
+        <ul className="mt-1 text-xs text-gray-600 list-disc pl-4 max-h-40 overflow-auto">
+          {issues.map((issue, i) => (
+            <li key={i}>
+              {issue.file}
+              {issue.feature ? ` › ${issue.feature}` : ""}: {issue.reason}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+  if (regions.length === 0) toast.error(message, { duration: 8000 });
+  else if (issues.length > 0) toast(message, { icon: "⚠️", duration: 8000 });
+  else toast.success(message);
+}
+
+// "Import" button plus a drop target covering the window while files are dragged
+export default function FileImport({ onImported }: Props) {
+  const dispatch = useAppDispatch();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+
+  const handleFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    const result = await importFiles(files);
+    // One action so the whole import is a single undo step
+    if (result.regions.length > 0) dispatch(addRegions(result.regions));
+    showSummary(result);
+    if (result.regions.length > 0) onImported?.(result.regions);
+  };
+
+  // Keep the latest handler for the window listeners without re-binding them
+  const handleFilesRef = useRef(handleFiles);
+  handleFilesRef.current = handleFiles;
+
+  useEffect(() => {
+    let depth = 0;
+    const hasFiles = (e: DragEvent) =>
+      e.dataTransfer?.types.includes("Files") ?? false;
+
+    const onDragEnter = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      depth++;
+      setDragging(true);
+    };
+    const onDragLeave = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      depth = Math.max(0, depth - 1);
+      if (depth === 0) setDragging(false);
+    };
+    const onDragOver = (e: DragEvent) => {
+      if (hasFiles(e)) e.preventDefault();
+    };
+    const onDrop = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      depth = 0;
+      setDragging(false);
+      handleFilesRef.current(Array.from(e.dataTransfer?.files ?? []));
+    };
+
+    window.addEventListener("dragenter", onDragEnter);
+    window.addEventListener("dragleave", onDragLeave);
+    window.addEventListener("dragover", onDragOver);
+    window.addEventListener("drop", onDrop);
+    return () => {
+      window.removeEventListener("dragenter", onDragEnter);
+      window.removeEventListener("dragleave", onDragLeave);
+      window.removeEventListener("dragover", onDragOver);
+      window.removeEventListener("drop", onDrop);
+    };
+  }, []);
+
+  return (
+    <>
+      <button
+        onClick={() => inputRef.current?.click()}
+        className="px-2 py-1 bg-gray-700 text-white rounded transition-colors duration-300 hover:bg-gray-800"
+        title="GeoJSON, KML, GPX, WKT or zipped Shapefile"
+      >
+        Import
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept={IMPORT_ACCEPT}
+        className="hidden"
+        onChange={(e) => {
+          handleFiles(Array.from(e.target.files ?? []));
+          e.target.value = "";
+        }}
+      />
+
+      {dragging && (
+        <div className="fixed inset-0 z-[3000] bg-blue-600/20 border-4 border-dashed border-blue-600 flex items-center justify-center pointer-events-none">
+          <div className="bg-white rounded-lg shadow-lg px-6 py-4 text-center">
+            <div className="font-semibold">Drop files to import AOIs</div>
+            <div className="text-sm text-gray-500">
+              GeoJSON, KML, GPX, WKT or zipped Shapefile
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -1,40 +1,51 @@
 import { useEffect, useRef, useState } from "react";
-import { MapContainer, TileLayer, ScaleControl, useMap } from "react-leaflet";
+import {
+  CircleMarker,
+  MapContainer,
+  ScaleControl,
+  Tooltip,
+  useMap,
+} from "react-leaflet";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
 import "leaflet-editable";
-import type { BasemapKey, Region } from "../types";
+import type { Region } from "../types";
 import { useAppDispatch, useAppSelector } from "../hooks";
 import { addRegion, setSelectedRegion } from "../redux/slices/cartSlice";
+import { setBoundaryPickLevel } from "../redux/slices/mapSlice";
+import { redo, undo } from "../redux/slices/historySlice";
+import { nameRegion } from "../redux/slices/offlineSlice";
+import { selectCanRedo, selectCanUndo } from "../redux/selectors";
 import { toast } from "react-hot-toast";
-
-// Basemaps
-const BASEMAPS: Record<BasemapKey, { url: string; attribution: string }> = {
-  osm: {
-    url: "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png",
-    attribution: "&copy; OpenStreetMap contributors",
-  },
-  esriImagery: {
-    url: "https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}",
-    attribution: "Tiles &copy; Esri",
-  },
-  esriStreets: {
-    url: "https://server.arcgisonline.com/ArcGIS/rest/services/World_Street_Map/MapServer/tile/{z}/{y}/{x}",
-    attribution: "Tiles &copy; Esri",
-  },
-  esriTopo: {
-    url: "https://server.arcgisonline.com/ArcGIS/rest/services/World_Topo_Map/MapServer/tile/{z}/{y}/{x}",
-    attribution: "Tiles &copy; Esri",
-  },
-};
-
-// Styles
-const defaultStyle = { color: "blue", weight: 2, fillOpacity: 0.2 };
-const highlightStyle = { color: "orange", weight: 3, fillOpacity: 0.4 };
-const inCartStyle = { color: "green", weight: 2, fillOpacity: 0.3 };
+import { FaRedo, FaUndo } from "react-icons/fa";
+import { defaultStyle, highlightStyle, invalidStyle } from "../utils/mapStyles";
+import { repairGeometry, validateGeometry } from "../utils/validation";
+import type { ValidationIssue, ValidationResult } from "../utils/validation";
+import { clipToUncovered, coveredAreaKm2 } from "../utils/overlap";
+import { formatArea } from "../utils/format";
+import { regionCenter } from "../utils/geometry";
+import { bufferPoint, circlePolygon, corridorPolygon } from "../utils/shapes";
+import type { ShapeTool } from "../utils/shapes";
+import type { PolygonalGeometry } from "../utils/validation";
+import { SHAPE_TOOLS } from "../config/drawing";
+import { defaultProduct } from "../utils/products";
+import { PRODUCT_CATALOG } from "../config/products";
+import RegionLayers from "./RegionLayers";
+import OverlapLayers from "./OverlapLayers";
+import RuleLayers from "./RuleLayers";
+import EditRegionPanel from "./EditRegionPanel";
+import FileImport from "./FileImport";
+import CoordinateEntryForm from "./CoordinateEntryForm";
+import CatalogPanel from "./CatalogPanel";
+import SceneFootprints from "./SceneFootprints";
+import BasemapLayers from "./BasemapLayers";
+import BoundaryLayer from "./BoundaryLayer";
+import BoundaryPickSelect from "./BoundaryPickSelect";
+import CursorCoordinates from "./CursorCoordinates";
+import TileLayers from "./TileLayers";
+import PermalinkLoader from "./PermalinkLoader";
 
 type Props = {
-  basemap: BasemapKey;
   onMapReady?: (map: L.Map) => void;
 };
 
@@ -44,44 +55,34 @@ type GeoLayer = (L.Polygon | L.Rectangle) & {
   options: { regionId?: string };
 };
 
-// Reverse geocode
-async function getRegionName(lat: number, lng: number): Promise<string> {
-  try {
-    const res = await fetch(
-      `https://nominatim.openstreetmap.org/reverse?format=jsonv2&lat=${lat}&lon=${lng}`
-    );
-    const data = await res.json();
-    return data?.display_name || `${lat.toFixed(3)}, ${lng.toFixed(3)}`;
-  } catch {
-    return `${lat.toFixed(3)}, ${lng.toFixed(3)}`;
-  }
-}
-
-// Compute centroid for Redux state
-function computeCenter(gj: GeoJSON.Feature): [number, number] {
-  const coords =
-    gj.geometry.type === "Polygon"
-      ? gj.geometry.coordinates[0]
-      : gj.geometry.type === "MultiPolygon"
-      ? gj.geometry.coordinates[0][0]
-      : [];
-
-  const lats = coords.map((c: number[]) => c[1]);
-  const lngs = coords.map((c: number[]) => c[0]);
-  return [
-    lngs.reduce((a: number, b: number) => a + b, 0) / lngs.length,
-    lats.reduce((a: number, b: number) => a + b, 0) / lats.length,
-  ];
-}
+// Markers and polylines are sketches for the shape tools, not AOIs themselves
+const isSketch = (layer: L.Layer) =>
+  layer instanceof L.Marker ||
+  (layer instanceof L.Polyline && !(layer instanceof L.Polygon));
 
 // Handles drawing new features
 function EditableHandler({
   onSelectRegion,
+  onGeometryChange,
+  onSketchCommit,
+  onSketchCancel,
 }: {
   onSelectRegion: (layer: GeoLayer, gj: GeoJSON.Feature) => void;
+  onGeometryChange: (layer: GeoLayer, finished: boolean) => void;
+  onSketchCommit: (layer: L.Marker | L.Polyline) => void;
+  onSketchCancel: (layer: L.Marker | L.Polyline) => void;
 }) {
   const map = useMap();
   const dispatch = useAppDispatch();
+  // Layer listeners outlive renders, so they call through refs to stay fresh
+  const onSelectRef = useRef(onSelectRegion);
+  const onChangeRef = useRef(onGeometryChange);
+  const onSketchCommitRef = useRef(onSketchCommit);
+  const onSketchCancelRef = useRef(onSketchCancel);
+  onSelectRef.current = onSelectRegion;
+  onChangeRef.current = onGeometryChange;
+  onSketchCommitRef.current = onSketchCommit;
+  onSketchCancelRef.current = onSketchCancel;
 
   useEffect(() => {
     try {
@@ -92,24 +93,25 @@ function EditableHandler({
       const handleCreated = (e: any) => {
         try {
           const layer = e.layer as GeoLayer;
-          if (!layer.toGeoJSON) return;
+          if (!layer.toGeoJSON || isSketch(layer)) return;
           const gj = layer.toGeoJSON();
           (layer as any).options.regionId = crypto.randomUUID();
 
           if ((layer as any).setStyle) (layer as any).setStyle(defaultStyle);
 
           // Click to select
-          layer.on("click", () => onSelectRegion(layer, gj));
+          layer.on("click", () => onSelectRef.current(layer, gj));
 
           // Update Redux on edit
           layer.on("editable:editing", () => {
+            onChangeRef.current(layer, false);
             const updatedGj = layer.toGeoJSON();
             dispatch(
               setSelectedRegion({
                 id: (layer as any).options.regionId,
                 name: "Updating...",
                 geojson: updatedGj,
-                center: computeCenter(updatedGj),
+                center: regionCenter(updatedGj),
               })
             );
           });
@@ -118,16 +120,29 @@ function EditableHandler({
         }
       };
 
+      // Validate once the shape is finished; sketches get converted instead
+      const handleCommit = (e: L.LeafletEvent) => {
+        if (isSketch(e.layer)) onSketchCommitRef.current(e.layer);
+        else onChangeRef.current(e.layer as GeoLayer, true);
+      };
+      const handleCancel = (e: L.LeafletEvent) => {
+        if (isSketch(e.layer)) onSketchCancelRef.current(e.layer);
+      };
+
       map.on("editable:created", handleCreated);
+      map.on("editable:drawing:commit", handleCommit);
+      map.on("editable:drawing:cancel", handleCancel);
       return () => {
         // Wrap map.off in a function to ensure it returns void
         map.off("editable:created", handleCreated);
+        map.off("editable:drawing:commit", handleCommit);
+        map.off("editable:drawing:cancel", handleCancel);
       };
     } catch (err) {
       console.error("Error initializing editable:", err);
       return () => {}; // Return an empty cleanup function in case of error
     }
-  }, [map, onSelectRegion, dispatch]);
+  }, [map, dispatch]);
 
   return null;
 }
@@ -148,6 +163,58 @@ function StopDrawingOnEsc() {
   return null;
 }
 
+// Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes
+function HistoryShortcuts() {
+  const dispatch = useAppDispatch();
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      // Leave text fields their own undo
+      const target = e.target as HTMLElement | null;
+      if (
+        target?.isContentEditable ||
+        ["INPUT", "TEXTAREA", "SELECT"].includes(target?.tagName ?? "")
+      )
+        return;
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        dispatch(undo());
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        dispatch(redo());
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [dispatch]);
+  return null;
+}
+
+// Marks the vertices behind validation errors
+function ValidationMarkers({ issues }: { issues: ValidationIssue[] }) {
+  return (
+    <>
+      {issues.flatMap((issue, i) =>
+        issue.points.map(([lng, lat], j) => (
+          <CircleMarker
+            key={`${i}-${j}`}
+            center={[lat, lng]}
+            radius={7}
+            pathOptions={{
+              color: issue.severity === "error" ? "red" : "orange",
+              fillOpacity: 0.8,
+            }}
+          >
+            <Tooltip>{issue.message}</Tooltip>
+          </CircleMarker>
+        ))
+      )}
+    </>
+  );
+}
+
 // Compute centroid for Redux state
 // function computeCenter(gj: GeoJSON.Feature): [number, number] {
 //   const coords =
@@ -164,35 +231,83 @@ function StopDrawingOnEsc() {
 //   ];
 // }
 
-export default function MapView({ basemap, onMapReady }: Props) {
+export default function MapView({ onMapReady }: Props) {
   const dispatch = useAppDispatch();
   const cartRegions = useAppSelector((s) => s.cart.regions);
+  const canUndo = useAppSelector(selectCanUndo);
+  const canRedo = useAppSelector(selectCanRedo);
   const mapRef = useRef<L.Map | null>(null);
   const [selected, setSelected] = useState<{
     layer: GeoLayer;
     geojson: GeoJSON.Feature;
     name: string;
   } | null>(null);
+  // Latest check of a draft that has issues (cleared once it's clean)
+  const [validation, setValidation] = useState<{
+    layer: GeoLayer;
+    result: ValidationResult;
+  } | null>(null);
+  // The shape tool being sketched and the distance typed for each tool
+  const [sketchTool, setSketchTool] = useState<ShapeTool | null>(null);
+  const [distances, setDistances] = useState<Record<ShapeTool, string>>({
+    circle: String(SHAPE_TOOLS.circle.defaultDistance),
+    point: String(SHAPE_TOOLS.point.defaultDistance),
+    corridor: String(SHAPE_TOOLS.corridor.defaultDistance),
+  });
+  const [showCoordinateForm, setShowCoordinateForm] = useState(false);
+
+  // Validate a draft, marking it red while it has blocking errors
+  const checkDraft = (
+    layer: GeoLayer,
+    isSelected = selected?.layer === layer
+  ): ValidationResult => {
+    const result = validateGeometry(layer.toGeoJSON());
+    layer.setStyle(
+      !result.valid ? invalidStyle : isSelected ? highlightStyle : defaultStyle
+    );
+    if (result.issues.length > 0) {
+      setValidation({ layer, result });
+    } else if (validation?.layer === layer) {
+      setValidation(null);
+    }
+    return result;
+  };
+
+  const handleGeometryChange = (layer: GeoLayer, finished: boolean) => {
+    const result = checkDraft(layer);
+    // Only toast once the shape is finished, not on every vertex drag
+    if (!result.valid && finished) {
+      toast.error(
+        `Invalid shape: ${result.issues
+          .filter((i) => i.severity === "error")
+          .map((i) => i.message)
+          .join("; ")}`,
+        { id: "geometry-validation" }
+      );
+    }
+  };
 
   // Select region
   const handleSelectRegion = async (layer: GeoLayer, gj: GeoJSON.Feature) => {
     try {
-      // Reset previous style
+      // Reset previous style (cart layers are owned by RegionLayers, so a
+      // selection is always a draft)
       if (selected?.layer && (selected.layer as any).setStyle) {
-        const prevId = (selected.layer as any).options.regionId;
-        const inCart = cartRegions.some((r) => r.id === prevId);
-        (selected.layer as any).setStyle(inCart ? inCartStyle : defaultStyle);
+        (selected.layer as any).setStyle(defaultStyle);
       }
 
-      // Highlight current
-      if ((layer as any).setStyle) (layer as any).setStyle(highlightStyle);
+      // Highlight current (or mark it invalid)
+      checkDraft(layer, true);
 
-      // Get centroid for name
-      const center = computeCenter(gj);
-      const name = await getRegionName(center[1], center[0]);
+      // Get centroid for name from the current shape; `gj` is captured when
+      // drawing starts and may not have any vertices yet
+      const center = regionCenter(layer.toGeoJSON());
+      const id = (layer as any).options.regionId;
+      const name = await dispatch(
+        nameRegion({ regionId: id, center })
+      ).unwrap();
 
       // Update Redux
-      const id = (layer as any).options.regionId;
       dispatch(
         setSelectedRegion({
           id,
@@ -209,18 +324,107 @@ export default function MapView({ basemap, onMapReady }: Props) {
     }
   };
 
-  // Confirm add
-  const handleConfirmAdd = () => {
+  // Start a drawing tool, dropping any sketch in progress
+  const startDrawing = (tool: "polygon" | "rectangle" | ShapeTool) => {
+    const editTools = mapRef.current?.editTools;
+    if (!editTools) return;
+    editTools.stopDrawing();
+    dispatch(setBoundaryPickLevel(null));
+    setSketchTool(tool === "polygon" || tool === "rectangle" ? null : tool);
+    if (tool === "polygon") editTools.startPolygon();
+    else if (tool === "rectangle") editTools.startRectangle();
+    else if (tool === "corridor") editTools.startPolyline();
+    else editTools.startMarker();
+  };
+
+  // Put a generated polygon on the map as a selected, editable draft
+  const addDraft = (feature: GeoJSON.Feature<PolygonalGeometry>) => {
+    const map = mapRef.current;
+    if (!map) return;
+    const { geometry } = feature;
+    // createPolygon fires editable:created, so the draft is wired up like a
+    // hand-drawn one
+    const layer = map.editTools.createPolygon(
+      L.GeoJSON.coordsToLatLngs(
+        geometry.coordinates,
+        geometry.type === "Polygon" ? 1 : 2
+      )
+    ) as GeoLayer;
+    layer.addTo(map);
+    layer.enableEdit(map);
+    map.fitBounds(layer.getBounds(), { padding: [40, 40], maxZoom: 16 });
+    handleSelectRegion(layer, layer.toGeoJSON());
+  };
+
+  // Convert a finished marker or polyline into a circle, buffer or corridor
+  const handleSketchCommit = (layer: L.Marker | L.Polyline) => {
+    const tool = sketchTool;
+    layer.disableEdit();
+    layer.remove();
+    setSketchTool(null);
+    if (!tool) return;
+
+    const { distanceLabel, unit } = SHAPE_TOOLS[tool];
+    const distance = Number(distances[tool]);
+    if (!(distance > 0)) {
+      toast.error(`${distanceLabel} must be a positive number`);
+      return;
+    }
+    let feature: GeoJSON.Feature<PolygonalGeometry> | null = null;
+    if (layer instanceof L.Marker) {
+      const { lat, lng } = layer.getLatLng();
+      feature =
+        tool === "circle"
+          ? circlePolygon([lng, lat], distance, unit)
+          : bufferPoint([lng, lat], distance, unit);
+    } else {
+      const coords = layer.toGeoJSON().geometry.coordinates as [
+        number,
+        number
+      ][];
+      feature = corridorPolygon(coords, distance, unit);
+    }
+    if (!feature) {
+      toast.error("Could not build a shape from that sketch");
+      return;
+    }
+    addDraft(feature);
+  };
+
+  const handleSketchCancel = (layer: L.Marker | L.Polyline) => {
+    layer.remove();
+    setSketchTool(null);
+  };
+
+  const handleCoordinateSubmit = (
+    feature: GeoJSON.Feature<PolygonalGeometry>
+  ) => {
+    setShowCoordinateForm(false);
+    addDraft(feature);
+  };
+
+  // Confirm add, optionally keeping only the part not already in the cart
+  const handleConfirmAdd = (clip = false) => {
     if (!selected) return;
     const id = (selected.layer as any).options.regionId;
-    const freshGj = selected.layer.toGeoJSON();
-    if (!freshGj) return;
+    const drawnGj = selected.layer.toGeoJSON();
+    if (!drawnGj) return;
+    if (!checkDraft(selected.layer).valid) {
+      toast.error("Fix or repair the shape before adding it to the cart");
+      return;
+    }
+    const freshGj = clip ? clipToUncovered(drawnGj, cartRegions) : drawnGj;
+    if (!freshGj) {
+      toast.error("This area is already fully covered by the cart");
+      return;
+    }
 
     const region: Region = {
       id,
       name: selected.name,
       geojson: freshGj,
-      center: computeCenter(freshGj),
+      center: regionCenter(freshGj),
+      product: defaultProduct(PRODUCT_CATALOG),
     };
     // Log region attributes for debugging
     console.log("Selected Region Attributes:", {
@@ -233,12 +437,34 @@ export default function MapView({ basemap, onMapReady }: Props) {
     dispatch(addRegion(region));
     toast.success(`${region.name} added to cart`);
 
-    if ((selected.layer as any).setStyle)
-      (selected.layer as any).setStyle(inCartStyle);
+    // The draft is replaced by the layer RegionLayers renders from the store
+    selected.layer.disableEdit();
+    selected.layer.remove();
     setSelected(null);
     dispatch(setSelectedRegion(null));
   };
 
+  // Replace the draft's geometry with the repaired one
+  const handleRepair = () => {
+    if (!selected) return;
+    const repaired = repairGeometry(selected.layer.toGeoJSON());
+    if (!repaired) {
+      toast.error("This shape can't be repaired automatically");
+      return;
+    }
+    const { geometry } = repaired;
+    const layer = selected.layer;
+    layer.disableEdit();
+    layer.setLatLngs(
+      L.GeoJSON.coordsToLatLngs(
+        geometry.coordinates,
+        geometry.type === "Polygon" ? 1 : 2
+      )
+    );
+    layer.enableEdit();
+    if (checkDraft(layer).valid) toast.success("Shape repaired");
+  };
+
   // Cancel add
   const handleCancelAdd = () => {
     if (!selected) return;
@@ -249,6 +475,16 @@ export default function MapView({ basemap, onMapReady }: Props) {
     toast("Add to cart cancelled");
   };
 
+  const selectedIssues =
+    selected && validation?.layer === selected.layer
+      ? validation.result.issues
+      : [];
+  const selectedHasErrors = selectedIssues.some((i) => i.severity === "error");
+  const selectedOverlapKm2 =
+    selected && !selectedHasErrors && cartRegions.length > 0
+      ? coveredAreaKm2(selected.layer.toGeoJSON(), cartRegions)
+      : 0;
+
   return (
     <div className="h-[calc(100vh-64px)] relative">
       <MapContainer
@@ -266,44 +502,169 @@ export default function MapView({ basemap, onMapReady }: Props) {
           }
         }}
       >
-        <TileLayer {...BASEMAPS[basemap]} />
+        <BasemapLayers />
         <ScaleControl position="bottomleft" />
-        <EditableHandler onSelectRegion={handleSelectRegion} />
+        <CursorCoordinates />
+        <SceneFootprints />
+        <RegionLayers />
+        <OverlapLayers />
+        <RuleLayers />
+        <TileLayers />
+        <BoundaryLayer />
+        <EditableHandler
+          onSelectRegion={handleSelectRegion}
+          onGeometryChange={handleGeometryChange}
+          onSketchCommit={handleSketchCommit}
+          onSketchCancel={handleSketchCancel}
+        />
         <StopDrawingOnEsc />
+        <HistoryShortcuts />
+        <PermalinkLoader />
+        {validation && <ValidationMarkers issues={validation.result.issues} />}
       </MapContainer>
 
       {/* Floating draw buttons */}
       <div className="absolute top-2 right-4 bg-white p-2 rounded shadow space-x-2 z-[1000]">
         <button
-          onClick={() =>
-            mapRef.current && (mapRef.current as any).editTools.startPolygon()
-          }
+          onClick={() => startDrawing("polygon")}
           className="px-2 py-1 bg-blue-500 text-white rounded transition-colors duration-300 hover:bg-blue-600"
         >
           Polygon
         </button>
         <button
-          onClick={() =>
-            mapRef.current && (mapRef.current as any).editTools.startRectangle()
-          }
+          onClick={() => startDrawing("rectangle")}
           className="px-2 py-1 bg-green-500 text-white rounded transition-colors duration-300 hover:bg-green-600"
         >
           Rectangle
         </button>
+        {(Object.keys(SHAPE_TOOLS) as ShapeTool[]).map((tool) => (
+          <button
+            key={tool}
+            onClick={() => startDrawing(tool)}
+            className={`px-2 py-1 text-white rounded transition-colors duration-300 ${
+              sketchTool === tool
+                ? "bg-teal-700"
+                : "bg-teal-500 hover:bg-teal-600"
+            }`}
+          >
+            {SHAPE_TOOLS[tool].label}
+          </button>
+        ))}
+        <BoundaryPickSelect />
+        <button
+          onClick={() => setShowCoordinateForm((v) => !v)}
+          title="Enter coordinates or a bounding box"
+          className="px-2 py-1 bg-indigo-500 text-white rounded transition-colors duration-300 hover:bg-indigo-600"
+        >
+          Coordinates
+        </button>
+        <button
+          onClick={() => dispatch(undo())}
+          disabled={!canUndo}
+          title="Undo (Ctrl+Z)"
+          className="px-2 py-1 bg-gray-200 rounded transition-colors duration-300 hover:bg-gray-300 disabled:opacity-40"
+        >
+          <FaUndo />
+        </button>
+        <button
+          onClick={() => dispatch(redo())}
+          disabled={!canRedo}
+          title="Redo (Ctrl+Shift+Z)"
+          className="px-2 py-1 bg-gray-200 rounded transition-colors duration-300 hover:bg-gray-300 disabled:opacity-40"
+        >
+          <FaRedo />
+        </button>
+        <FileImport
+          onImported={(regions) => {
+            const bounds = L.geoJSON(regions.map((r) => r.geojson)).getBounds();
+            if (bounds.isValid()) mapRef.current?.fitBounds(bounds);
+          }}
+        />
       </div>
 
+      {/* Distance for the shape tool being sketched */}
+      {sketchTool && (
+        <div className="absolute top-16 right-4 bg-white p-2 rounded shadow z-[1000] text-sm flex items-center gap-2">
+          <label className="flex items-center gap-1">
+            {SHAPE_TOOLS[sketchTool].distanceLabel}
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={distances[sketchTool]}
+              onChange={(e) =>
+                setDistances({ ...distances, [sketchTool]: e.target.value })
+              }
+              className="w-20 border rounded-md px-2 py-0.5"
+            />
+            {SHAPE_TOOLS[sketchTool].unit}
+          </label>
+          <span className="text-gray-500">{SHAPE_TOOLS[sketchTool].hint}</span>
+        </div>
+      )}
+
+      {showCoordinateForm && (
+        <CoordinateEntryForm
+          onSubmit={handleCoordinateSubmit}
+          onClose={() => setShowCoordinateForm(false)}
+        />
+      )}
+
+      {/* Archive scene search for a cart region */}
+      <CatalogPanel />
+
+      {/* Save / cancel for cart region edits */}
+      <EditRegionPanel />
+
       {/* Confirmation panel */}
       {selected && (
         <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-white shadow-lg p-4 rounded-lg z-[2000] w-80 text-center">
           <h3 className="font-semibold mb-2">Add Region?</h3>
           <p className="text-sm mb-4">{selected.name}</p>
+          {selectedOverlapKm2 > 0 && (
+            <div className="text-xs text-red-600 mb-3">
+              {formatArea(selectedOverlapKm2)} overlaps regions already in the
+              cart.{" "}
+              <button
+                onClick={() => handleConfirmAdd(true)}
+                className="underline cursor-pointer"
+              >
+                Add only the new area
+              </button>
+            </div>
+          )}
+          {selectedIssues.length > 0 && (
+            <ul className="text-xs text-left mb-3 space-y-1">
+              {selectedIssues.map((issue) => (
+                <li
+                  key={issue.code}
+                  className={
+                    issue.severity === "error"
+                      ? "text-red-600"
+                      : "text-amber-600"
+                  }
+                >
+                  {issue.severity === "error" ? "✖" : "⚠"} {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
           <div className="flex justify-between space-x-2">
             <button
-              onClick={handleConfirmAdd}
-              className="flex-1 px-3 py-1 bg-blue-600 text-white rounded cursor-pointer hover:bg-blue-700 transition-colors"
+              onClick={() => handleConfirmAdd()}
+              disabled={selectedHasErrors}
+              className="flex-1 px-3 py-1 bg-blue-600 text-white rounded cursor-pointer hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
               Add to Cart
             </button>
+            {selectedIssues.some((i) => i.repairable) && (
+              <button
+                onClick={handleRepair}
+                className="flex-1 px-3 py-1 bg-amber-500 text-white rounded cursor-pointer hover:bg-amber-600 transition-colors"
+              >
+                Repair
+              </button>
+            )}
             <button
               onClick={handleCancelAdd}
               className="flex-1 px-3 py-1 bg-gray-400 text-white rounded cursor-pointer hover:bg-gray-500 transition-colors"
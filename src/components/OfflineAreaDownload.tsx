@@ -0,0 +1,200 @@
+import { useEffect, useRef, useState } from "react";
+import toast from "react-hot-toast";
+import L from "leaflet";
+import { FaDownload } from "react-icons/fa";
+import { useAppSelector } from "../hooks";
+import { selectBaseLayer } from "../redux/selectors";
+import {
+  countTiles,
+  downloadTiles,
+  requestPersistentStorage,
+  tilesInBounds,
+  tileUrl,
+} from "../utils/offlineTiles";
+import { formatBytes } from "../utils/format";
+import {
+  ESTIMATED_TILE_KB,
+  OFFLINE_MAX_DOWNLOAD_TILES,
+  OFFLINE_MAX_ZOOM,
+  TILE_CACHE_MAX_TILES,
+} from "../config/offline";
+
+type Props = {
+  getMap: () => L.Map | null;
+  // Tiles already cached, to warn before older ones get evicted
+  cachedTiles: number | null;
+  onDownloaded: () => void;
+};
+
+const selectClass = "border rounded px-1 py-0.5";
+
+// "Download this area": the visible map's basemap tiles over a zoom range
+export default function OfflineAreaDownload({
+  getMap,
+  cachedTiles,
+  onDownloaded,
+}: Props) {
+  const base = useAppSelector(selectBaseLayer);
+  const online = useAppSelector((s) => s.offline.online);
+  const map = getMap();
+  const minZoom = base.minZoom ?? 0;
+  const maxZoom = Math.min(base.maxZoom ?? OFFLINE_MAX_ZOOM, OFFLINE_MAX_ZOOM);
+  const viewZoom = Math.max(
+    minZoom,
+    Math.min(maxZoom, Math.floor(map?.getZoom() ?? minZoom))
+  );
+  // Follows the map until a zoom is picked
+  const [range, setRange] = useState<[number, number] | null>(null);
+  const [fromZoom, toZoom] = range ?? [
+    viewZoom,
+    Math.min(viewZoom + 2, maxZoom),
+  ];
+  const [progress, setProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+  const controller = useRef<AbortController | null>(null);
+
+  // Stop downloading when the app goes away
+  useEffect(() => () => controller.current?.abort(), []);
+
+  if (!map) return null;
+  if (base.type === "wms") {
+    return (
+      <p className="text-xs text-gray-500">
+        {base.label} is drawn on request and can't be downloaded ahead. Its
+        tiles are still kept as you browse.
+      </p>
+    );
+  }
+
+  const b = map.getBounds();
+  const bounds: [number, number, number, number] = [
+    b.getWest(),
+    b.getSouth(),
+    b.getEast(),
+    b.getNorth(),
+  ];
+  const count = countTiles(bounds, fromZoom, toZoom);
+  const tooMany = count > OFFLINE_MAX_DOWNLOAD_TILES;
+  const evicts =
+    cachedTiles !== null && cachedTiles + count > TILE_CACHE_MAX_TILES;
+
+  const start = async () => {
+    const abort = new AbortController();
+    controller.current = abort;
+    setProgress({ done: 0, total: count });
+    // Downloaded areas are worth protecting from the browser's own cleanup
+    requestPersistentStorage().catch(() => undefined);
+    try {
+      const urls = tilesInBounds(bounds, fromZoom, toZoom).map((tile) =>
+        tileUrl(base, tile)
+      );
+      const result = await downloadTiles(urls, {
+        signal: abort.signal,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      const summary = `${result.downloaded} tile(s) downloaded, ${result.alreadyCached} already saved`;
+      if (result.corsBlocked)
+        toast.error(
+          `${base.label}'s server doesn't allow its tiles to be saved for offline use`
+        );
+      else if (result.cancelled) toast(`Download cancelled: ${summary}`);
+      else if (result.failed > 0)
+        toast.error(`${summary}, ${result.failed} failed`);
+      else toast.success(`Area saved for offline use: ${summary}`);
+      onDownloaded();
+    } catch (err) {
+      console.error("Offline download failed:", err);
+      toast.error("Couldn't save this area for offline use");
+    } finally {
+      controller.current = null;
+      setProgress(null);
+      setRange(null);
+    }
+  };
+
+  const zoomOptions = Array.from(
+    { length: maxZoom - minZoom + 1 },
+    (_, i) => minZoom + i
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-xs">
+        <span>Zoom</span>
+        <select
+          value={fromZoom}
+          disabled={!!progress}
+          onChange={(e) => {
+            const z = Number(e.target.value);
+            setRange([z, Math.max(z, toZoom)]);
+          }}
+          className={selectClass}
+        >
+          {zoomOptions.map((z) => (
+            <option key={z} value={z}>
+              {z}
+            </option>
+          ))}
+        </select>
+        <span>to</span>
+        <select
+          value={toZoom}
+          disabled={!!progress}
+          onChange={(e) => {
+            const z = Number(e.target.value);
+            setRange([Math.min(fromZoom, z), z]);
+          }}
+          className={selectClass}
+        >
+          {zoomOptions.map((z) => (
+            <option key={z} value={z}>
+              {z}
+            </option>
+          ))}
+        </select>
+        <span className="text-gray-500">(map is at {viewZoom})</span>
+      </div>
+      <p className={`text-xs ${tooMany ? "text-red-600" : "text-gray-600"}`}>
+        {count.toLocaleString()} tile(s), about{" "}
+        {formatBytes(count * ESTIMATED_TILE_KB * 1024)}
+        {tooMany &&
+          `. The limit is ${OFFLINE_MAX_DOWNLOAD_TILES.toLocaleString()}: zoom the map in or lower the deepest zoom.`}
+      </p>
+      {evicts && !tooMany && (
+        <p className="text-xs text-amber-700">
+          This goes past the {TILE_CACHE_MAX_TILES.toLocaleString()}-tile cache
+          limit, so the oldest saved tiles will be removed.
+        </p>
+      )}
+      {progress ? (
+        <div className="flex items-center gap-2">
+          <progress
+            className="flex-1"
+            value={progress.done}
+            max={progress.total}
+          />
+          <span className="text-xs tabular-nums">
+            {progress.done}/{progress.total}
+          </span>
+          <button
+            className="text-xs text-red-600 cursor-pointer"
+            onClick={() => controller.current?.abort()}
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <button
+          disabled={tooMany || !online}
+          onClick={start}
+          title={online ? undefined : "Connect to the internet to download"}
+          className="w-full flex items-center justify-center gap-2 border rounded-md px-2 py-1 text-sm cursor-pointer hover:bg-gray-50 disabled:opacity-50"
+        >
+          <FaDownload /> Download this area for offline use
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+import { useCallback, useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import L from "leaflet";
+import { FaChevronDown, FaRegTrashAlt, FaWifi } from "react-icons/fa";
+import { useAppDispatch, useAppSelector } from "../hooks";
+import {
+  connectionChanged,
+  flushOfflineQueue,
+  jobRemoved,
+  jobRetried,
+  restoreQueuedOrder,
+} from "../redux/slices/offlineSlice";
+import type { QueuedJob } from "../redux/slices/offlineSlice";
+import {
+  clearTileCache,
+  tileCacheStats,
+  tileCachingSupported,
+} from "../utils/offlineTiles";
+import type { TileCacheStats } from "../utils/offlineTiles";
+import { formatBytes, formatMoney } from "../utils/format";
+import { OFFLINE_QUEUE_RETRY_MS } from "../config/offline";
+import OfflineAreaDownload from "./OfflineAreaDownload";
+
+type Props = {
+  getMap: () => L.Map | null;
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+const describeJob = (job: QueuedJob) =>
+  job.kind === "order"
+    ? `Order · ${job.request.items.length} item(s) · ${formatMoney(
+        job.request.quotedTotal,
+        job.request.currency
+      )}`
+    : `Place name for ${job.placeholder}`;
+
+// Header menu for working offline: connection state, the work waiting for a
+// connection, and the map tile cache with its limits
+export default function OfflineMenu({ getMap }: Props) {
+  const { online, queue, flushing } = useAppSelector((s) => s.offline);
+  const dispatch = useAppDispatch();
+  const [open, setOpen] = useState(false);
+  const [stats, setStats] = useState<TileCacheStats | null>(null);
+  const pending = queue.filter((job) => !job.error).length;
+  const refused = queue.length - pending;
+
+  const flush = useCallback(
+    () =>
+      dispatch(flushOfflineQueue())
+        .unwrap()
+        .then(({ placed, refused }) => {
+          for (const order of placed) {
+            toast.success(`Queued order ${order.id} placed`);
+          }
+          if (refused > 0) {
+            toast.error(
+              "Some queued work was refused. Open the Offline menu for details."
+            );
+          }
+        })
+        // Nothing to send, or already sending
+        .catch(() => undefined),
+    [dispatch]
+  );
+
+  useEffect(() => {
+    const goOnline = () => {
+      dispatch(connectionChanged(true));
+      flush();
+    };
+    const goOffline = () => dispatch(connectionChanged(false));
+    window.addEventListener("online", goOnline);
+    window.addEventListener("offline", goOffline);
+    // Work left over from an earlier visit
+    flush();
+    return () => {
+      window.removeEventListener("online", goOnline);
+      window.removeEventListener("offline", goOffline);
+    };
+  }, [dispatch, flush]);
+
+  // The browser's online flag only means a network is there; keep trying
+  // in case the server itself was out of reach
+  useEffect(() => {
+    if (!online || pending === 0) return;
+    const timer = setInterval(flush, OFFLINE_QUEUE_RETRY_MS);
+    return () => clearInterval(timer);
+  }, [online, pending, flush]);
+
+  const refreshStats = useCallback(() => {
+    if (!tileCachingSupported()) return;
+    tileCacheStats()
+      .then(setStats)
+      .catch((err) => console.error("Failed to read tile cache:", err));
+  }, []);
+
+  useEffect(() => {
+    if (open) refreshStats();
+  }, [open, refreshStats]);
+
+  const clearCache = () =>
+    clearTileCache()
+      .then(() => toast.success("Saved map tiles removed"))
+      .catch(() => toast.error("Couldn't clear the tile cache"))
+      .finally(refreshStats);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className={`border rounded-md px-2 py-1 text-sm flex items-center gap-2 cursor-pointer hover:bg-gray-100 ${
+          online ? "" : "border-amber-500 text-amber-700"
+        }`}
+        title={online ? "Offline maps and queued work" : "You're offline"}
+      >
+        <FaWifi />
+        {online ? "Offline maps" : "Offline"}
+        {queue.length > 0 && (
+          <span className="bg-amber-500 text-white rounded-full px-1.5 text-xs">
+            {queue.length}
+          </span>
+        )}
+        <FaChevronDown className="text-xs" />
+      </button>
+
+      {/* Hidden rather than unmounted so a download keeps going */}
+      <div
+        className={`absolute right-0 mt-1 w-96 bg-white border rounded-lg shadow-lg z-[2000] text-sm divide-y ${
+          open ? "" : "hidden"
+        }`}
+      >
+        <section className="p-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold">
+              {online ? "Online" : "You're offline"}
+            </h3>
+            {online && pending > 0 && (
+              <button
+                disabled={flushing}
+                onClick={flush}
+                className="text-blue-600 text-xs font-semibold cursor-pointer disabled:opacity-50"
+              >
+                {flushing ? "Sending…" : "Send now"}
+              </button>
+            )}
+          </div>
+          {queue.length === 0 ? (
+            <p className="text-xs text-gray-500">
+              Nothing waiting. Orders and place names that need a connection are
+              kept here until it returns.
+            </p>
+          ) : (
+            <>
+              <p className="text-xs text-gray-500">
+                {pending} waiting for a connection
+                {refused > 0 && `, ${refused} refused`}. Kept on this device
+                even if the page is closed.
+              </p>
+              <ul className="max-h-48 overflow-auto divide-y border rounded-md">
+                {queue.map((job) => (
+                  <li key={job.id} className="px-2 py-1.5">
+                    <div className="flex items-center gap-2">
+                      <span
+                        className="flex-1 truncate"
+                        title={describeJob(job)}
+                      >
+                        {describeJob(job)}
+                      </span>
+                      <button
+                        title="Discard"
+                        disabled={flushing}
+                        onClick={() => dispatch(jobRemoved(job.id))}
+                        className="text-red-500 hover:text-red-700 cursor-pointer disabled:opacity-50"
+                      >
+                        <FaRegTrashAlt />
+                      </button>
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      Queued {formatTime(job.queuedAt)}
+                    </div>
+                    {job.error && (
+                      <div className="text-xs text-red-600">
+                        ✖ {job.error}{" "}
+                        <button
+                          className="text-blue-600 cursor-pointer"
+                          onClick={() => {
+                            dispatch(jobRetried(job.id));
+                            flush();
+                          }}
+                        >
+                          Retry
+                        </button>
+                        {job.kind === "order" && (
+                          <>
+                            {" · "}
+                            <button
+                              className="text-blue-600 cursor-pointer"
+                              onClick={() => {
+                                dispatch(restoreQueuedOrder(job.id));
+                                toast.success(
+                                  "Order areas put back in the cart"
+                                );
+                              }}
+                            >
+                              Put back in cart
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </section>
+
+        <section className="p-3 space-y-2">
+          <h3 className="font-semibold">Offline map tiles</h3>
+          {!tileCachingSupported() ? (
+            <p className="text-xs text-gray-500">
+              {import.meta.env.VITE_USE_MOCKS === "true"
+                ? "Tile caching is off while the API mocks are running."
+                : "This browser can't keep map tiles for offline use."}
+            </p>
+          ) : (
+            <>
+              {stats && (
+                <div className="space-y-1 text-xs text-gray-600">
+                  <div className="flex justify-between">
+                    <span>
+                      {stats.tiles.toLocaleString()} of{" "}
+                      {stats.maxTiles.toLocaleString()} tiles saved
+                    </span>
+                    <button
+                      onClick={clearCache}
+                      disabled={stats.tiles === 0}
+                      className="text-red-600 cursor-pointer disabled:opacity-50"
+                    >
+                      Clear
+                    </button>
+                  </div>
+                  <progress
+                    className="w-full"
+                    value={stats.tiles}
+                    max={stats.maxTiles}
+                  />
+                  <p>
+                    {stats.evicted > 0
+                      ? `${stats.evicted.toLocaleString()} older tile(s) removed to stay under the limit${
+                          stats.lastEvictedAt
+                            ? `, most recently ${formatTime(
+                                stats.lastEvictedAt
+                              )}`
+                            : ""
+                        }.`
+                      : "Once the limit is reached the oldest tiles are removed first."}
+                  </p>
+                  {stats.usageBytes !== undefined &&
+                    stats.quotaBytes !== undefined && (
+                      <p>
+                        This site uses {formatBytes(stats.usageBytes)} of{" "}
+                        {formatBytes(stats.quotaBytes)} the browser allows.
+                      </p>
+                    )}
+                  <p>
+                    {stats.persisted
+                      ? "Storage is persistent and won't be cleared by the browser."
+                      : "The browser may clear saved tiles when disk space runs low."}
+                  </p>
+                </div>
+              )}
+              <OfflineAreaDownload
+                getMap={getMap}
+                cachedTiles={stats?.tiles ?? null}
+                onDownloaded={refreshStats}
+              />
+            </>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { GeoJSON, Tooltip } from "react-leaflet";
+import { useAppSelector } from "../hooks";
+import { selectOverlaps } from "../redux/selectors";
+import { overlapStyle } from "../utils/mapStyles";
+import { formatArea } from "../utils/format";
+
+// Shows where cart regions overlap each other
+export default function OverlapLayers() {
+  const overlaps = useAppSelector(selectOverlaps);
+
+  return (
+    <>
+      {overlaps.map((o) => (
+        <GeoJSON
+          // GeoJSON data is immutable in react-leaflet; remount on change
+          key={`${o.regionIds.join("|")}:${o.areaKm2}`}
+          data={o.geometry}
+          style={overlapStyle}
+          interactive={false}
+        >
+          <Tooltip sticky>Overlap: {formatArea(o.areaKm2)}</Tooltip>
+        </GeoJSON>
+      ))}
+    </>
+  );
+}
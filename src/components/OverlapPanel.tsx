@@ -0,0 +1,66 @@
+import toast from "react-hot-toast";
+import { useAppDispatch, useAppSelector } from "../hooks";
+import { selectOverlaps } from "../redux/selectors";
+import {
+  clipRegionToUnique,
+  mergeCartRegions,
+} from "../redux/slices/cartSlice";
+import { formatArea } from "../utils/format";
+
+// Lists overlapping pairs in the cart with merge / clip actions
+export default function OverlapPanel() {
+  const dispatch = useAppDispatch();
+  const overlaps = useAppSelector(selectOverlaps);
+  const regions = useAppSelector((s) => s.cart.regions);
+
+  if (overlaps.length === 0) return null;
+  const nameOf = (id: string) => regions.find((r) => r.id === id)?.name ?? id;
+
+  return (
+    <div className="border border-red-300 bg-red-50 rounded-lg p-3 text-sm space-y-2">
+      <div className="font-semibold text-red-700">
+        {overlaps.length} overlapping area{overlaps.length === 1 ? "" : "s"}
+      </div>
+      <p className="text-xs text-gray-600">
+        Shared ground is only billed once. Merge or clip to tidy up the order.
+      </p>
+      {overlaps.map(({ regionIds: [newer, older], areaKm2 }) => (
+        <div key={`${newer}|${older}`} className="border-t pt-2">
+          <div className="text-xs truncate" title={nameOf(newer)}>
+            {nameOf(newer)}
+          </div>
+          <div className="text-xs truncate" title={nameOf(older)}>
+            ∩ {nameOf(older)}
+          </div>
+          <div className="flex items-center justify-between mt-1">
+            <span className="text-xs font-semibold">{formatArea(areaKm2)}</span>
+            <div className="flex gap-2">
+              <button
+                className="text-xs text-blue-700 hover:underline cursor-pointer"
+                onClick={() => {
+                  if (dispatch(mergeCartRegions([older, newer]))) {
+                    toast.success("Regions merged");
+                  } else {
+                    toast.error("These regions couldn't be merged");
+                  }
+                }}
+              >
+                Merge
+              </button>
+              <button
+                className="text-xs text-blue-700 hover:underline cursor-pointer"
+                title="Remove the overlapping part from the newer region"
+                onClick={() => {
+                  dispatch(clipRegionToUnique(newer));
+                  toast.success("Newer region clipped");
+                }}
+              >
+                Clip newer
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { useState } from "react";
+import { FaLayerGroup } from "react-icons/fa";
+import { useAppDispatch, useAppSelector } from "../hooks";
+import { selectOverlays } from "../redux/selectors";
+import { setOverlayOpacity, toggleOverlay } from "../redux/slices/layersSlice";
+
+// Header dropdown to show/hide overlay layers and set their opacity
+export default function OverlayMenu() {
+  const overlays = useAppSelector(selectOverlays);
+  const dispatch = useAppDispatch();
+  const [open, setOpen] = useState(false);
+  const visibleCount = overlays.filter((o) => o.visible).length;
+
+  if (overlays.length === 0) return null;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className="border rounded-md px-2 py-1 text-sm flex items-center gap-1 cursor-pointer hover:bg-gray-100"
+      >
+        <FaLayerGroup /> Overlays{visibleCount > 0 && ` (${visibleCount})`}
+      </button>
+      {open && (
+        <ul className="absolute right-0 mt-1 w-64 bg-white border rounded-lg shadow-lg z-[2000] p-2 space-y-2 text-sm">
+          {overlays.map(({ source, visible, opacity }) => (
+            <li key={source.id}>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={visible}
+                  onChange={() => dispatch(toggleOverlay(source.id))}
+                />
+                {source.label}
+              </label>
+              <label className="flex items-center gap-2 pl-5 text-xs text-gray-500">
+                Opacity
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  step={5}
+                  value={Math.round(opacity * 100)}
+                  disabled={!visible}
+                  onChange={(e) =>
+                    dispatch(
+                      setOverlayOpacity({
+                        id: source.id,
+                        opacity: Number(e.target.value) / 100,
+                      })
+                    )
+                  }
+                  className="flex-1"
+                />
+                <span className="w-8 text-right">
+                  {Math.round(opacity * 100)}%
+                </span>
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
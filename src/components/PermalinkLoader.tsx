@@ -0,0 +1,105 @@
+import { useEffect } from "react";
+import { useMap } from "react-leaflet";
+import toast from "react-hot-toast";
+import { useAppDispatch, useAppStore } from "../hooks";
+import { replaceRegions } from "../redux/slices/cartSlice";
+import { setBaseLayer } from "../redux/slices/layersSlice";
+import { parsePermalinkHash } from "../utils/permalink";
+import type { SharedState } from "../utils/permalink";
+import { resolvePermalink } from "../utils/share";
+
+// Opens permalinks (#s=… or #l=…) found in the URL on load or pasted later
+export default function PermalinkLoader() {
+  const map = useMap();
+  const dispatch = useAppDispatch();
+  const store = useAppStore();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const applyView = (shared: SharedState) => {
+      if (shared.baseLayerId) dispatch(setBaseLayer(shared.baseLayerId));
+      map.setView(shared.view.center, shared.view.zoom);
+    };
+
+    const apply = (shared: SharedState) => {
+      dispatch(replaceRegions(shared.regions));
+      applyView(shared);
+      toast.success(
+        `Opened shared view with ${shared.regions.length} region(s)`
+      );
+    };
+
+    const open = async () => {
+      const ref = parsePermalinkHash(window.location.hash);
+      if (!ref) return;
+
+      let shared: SharedState;
+      try {
+        shared = await resolvePermalink(ref);
+      } catch (err) {
+        console.error("Failed to open permalink:", err);
+        if (!cancelled) {
+          toast.error(`Couldn't open the link: ${(err as Error).message}`);
+        }
+        return;
+      }
+      if (cancelled) return;
+      // Drop the hash so a reload doesn't open the link again
+      history.replaceState(
+        null,
+        "",
+        window.location.pathname + window.location.search
+      );
+
+      // A link without regions only moves the map; the cart stays as it is
+      if (shared.regions.length === 0) {
+        applyView(shared);
+        toast.success("Opened shared view");
+        return;
+      }
+      const current = store.getState().cart.regions;
+      if (current.length === 0) {
+        apply(shared);
+        return;
+      }
+      toast(
+        (t) => (
+          <span className="flex flex-col gap-2">
+            <span>
+              This link contains {shared.regions.length} region(s). Replace the{" "}
+              {current.length} in your cart?
+            </span>
+            <span className="flex gap-3">
+              <button
+                className="text-blue-600 font-semibold cursor-pointer"
+                onClick={() => {
+                  toast.dismiss(t.id);
+                  apply(shared);
+                }}
+              >
+                Replace cart
+              </button>
+              <button
+                className="text-gray-600 cursor-pointer"
+                onClick={() => toast.dismiss(t.id)}
+              >
+                Keep my cart
+              </button>
+            </span>
+          </span>
+        ),
+        { icon: "🔗", duration: Infinity }
+      );
+    };
+
+    open();
+    window.addEventListener("hashchange", open);
+    return () => {
+      cancelled = true;
+      window.removeEventListener("hashchange", open);
+    };
+  }, [map, dispatch, store]);
+
+  return null;
+}
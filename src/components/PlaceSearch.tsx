@@ -0,0 +1,199 @@
+import { useEffect, useState } from "react";
+import type { KeyboardEvent } from "react";
+import toast from "react-hot-toast";
+import { FaPlus, FaSearch } from "react-icons/fa";
+import { useAppDispatch } from "../hooks";
+import { addRegion } from "../redux/slices/cartSlice";
+import { focusRegion } from "../redux/slices/mapSlice";
+import type { GeocodeResult } from "../api/geocoder";
+import { geocoder } from "../utils/geocode";
+import { createRegion } from "../utils/region";
+import { validateOrRepair } from "../utils/validation";
+import { formatCoordinate, tryParseCoordinate } from "../utils/coordinates";
+import {
+  GEOCODER_DEBOUNCE_MS,
+  GEOCODER_MIN_QUERY_LENGTH,
+} from "../config/geocoding";
+
+type Props = {
+  onLocate: (place: GeocodeResult) => void;
+};
+
+// "Lyon, Auvergne-Rhône-Alpes, France" → "Lyon"
+const shortName = (label: string) => label.split(",")[0].trim();
+
+// Header place search: fly to a result, or add its boundary to the cart
+export default function PlaceSearch({ onLocate }: Props) {
+  const dispatch = useAppDispatch();
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<GeocodeResult[]>([]);
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [active, setActive] = useState(0);
+
+  // Typed positions (decimal, DMS, UTM, MGRS) are located without geocoding
+  const coordinate = tryParseCoordinate(query);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (q.length < GEOCODER_MIN_QUERY_LENGTH || tryParseCoordinate(q)) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+    const controller = new AbortController();
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const found = await geocoder.search(q, controller.signal);
+        setResults(found);
+        setActive(0);
+        setError(null);
+      } catch (err) {
+        if ((err as Error).name === "AbortError") return;
+        setResults([]);
+        setError("Place search is unavailable right now");
+      }
+      setLoading(false);
+    }, GEOCODER_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  const locate = (place: GeocodeResult) => {
+    onLocate(place);
+    setQuery(shortName(place.label));
+    setOpen(false);
+  };
+
+  const locateCoordinate = ([lng, lat]: [number, number]) => {
+    onLocate({ id: "coordinate", label: query.trim(), lat, lng });
+    setOpen(false);
+  };
+
+  const addBoundary = (place: GeocodeResult) => {
+    if (!place.boundary) return;
+    const name = shortName(place.label);
+    const checked = validateOrRepair({
+      type: "Feature",
+      properties: { source: place.id },
+      geometry: place.boundary,
+    });
+    if (!checked.feature) {
+      const reason = checked.issues
+        .filter((i) => i.severity === "error")
+        .map((i) => i.message)
+        .join("; ");
+      toast.error(`Can't add ${name}: ${reason}`);
+      return;
+    }
+    const region = createRegion(checked.feature, name);
+    dispatch(addRegion(region));
+    dispatch(focusRegion(region.id));
+    toast.success(
+      checked.repaired
+        ? `${name} added to cart (boundary repaired)`
+        : `${name} added to cart`
+    );
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Escape") {
+      setOpen(false);
+    } else if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setOpen(true);
+      setActive((i) => (i + step + results.length) % (results.length || 1));
+    } else if (e.key === "Enter" && coordinate) {
+      locateCoordinate(coordinate);
+    } else if (e.key === "Enter" && results[active]) {
+      locate(results[active]);
+    }
+  };
+
+  const showList = open && query.trim().length >= GEOCODER_MIN_QUERY_LENGTH;
+
+  return (
+    <div className="relative w-72">
+      <FaSearch className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-400 text-xs" />
+      <input
+        type="search"
+        value={query}
+        placeholder="Search places or coordinates"
+        aria-label="Search places"
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        // Result buttons cancel their mousedown, so clicking them keeps focus
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        className="w-full border rounded-md pl-7 pr-2 py-1 text-sm"
+      />
+      {open && coordinate && (
+        <ul className="absolute z-[2000] mt-1 w-full bg-white border rounded-md shadow-lg text-sm">
+          <li className="px-3 py-2 bg-blue-50">
+            <button
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => locateCoordinate(coordinate)}
+              className="w-full text-left cursor-pointer"
+            >
+              <div className="font-medium">Go to coordinate</div>
+              <div className="text-xs text-gray-500 font-mono">
+                {formatCoordinate(coordinate, "decimal")}
+              </div>
+            </button>
+          </li>
+        </ul>
+      )}
+      {showList && !coordinate && (
+        <ul className="absolute z-[2000] mt-1 w-full bg-white border rounded-md shadow-lg text-sm max-h-80 overflow-auto">
+          {loading && <li className="px-3 py-2 text-gray-500">Searching…</li>}
+          {!loading && error && (
+            <li className="px-3 py-2 text-red-600">{error}</li>
+          )}
+          {!loading && !error && results.length === 0 && (
+            <li className="px-3 py-2 text-gray-500">No places found</li>
+          )}
+          {!loading &&
+            results.map((place, i) => (
+              <li
+                key={place.id}
+                onMouseEnter={() => setActive(i)}
+                className={`flex items-start gap-2 px-3 py-2 ${
+                  i === active ? "bg-blue-50" : ""
+                }`}
+              >
+                <button
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => locate(place)}
+                  className="flex-1 text-left cursor-pointer"
+                >
+                  <div className="font-medium">{shortName(place.label)}</div>
+                  <div className="text-xs text-gray-500 line-clamp-2">
+                    {place.label}
+                  </div>
+                </button>
+                {place.boundary && (
+                  <button
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => addBoundary(place)}
+                    title="Add this boundary to the cart"
+                    className="mt-0.5 flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800 cursor-pointer whitespace-nowrap"
+                  >
+                    <FaPlus /> Add area
+                  </button>
+                )}
+              </li>
+            ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import type {
+  AcquisitionMode,
+  ProcessingLevel,
+  ProductOptions,
+} from "../types";
+import {
+  changeProduct,
+  findSensor,
+  PROCESSING_LEVEL_LABELS,
+} from "../utils/products";
+import type { ProductField, ProductIssue } from "../utils/products";
+import { PRODUCT_CATALOG } from "../config/products";
+
+type Props = {
+  product: ProductOptions;
+  issues: ProductIssue[];
+  onChange: (product: ProductOptions) => void;
+};
+
+const MODE_LABELS: Record<AcquisitionMode, string> = {
+  archive: "Archive",
+  tasking: "New tasking",
+};
+
+const inputClass = "mt-0.5 w-full border rounded-md px-1 py-0.5 text-sm";
+
+// Product options of one cart line item, limited to what the catalog offers
+export default function ProductOptionsEditor({
+  product,
+  issues,
+  onChange,
+}: Props) {
+  const sensor = findSensor(PRODUCT_CATALOG, product.sensor);
+  const update = (change: Partial<ProductOptions>) =>
+    onChange(changeProduct(product, change, PRODUCT_CATALOG));
+  const fieldClass = (field: ProductField) =>
+    issues.some((i) => i.field === field) ? "text-red-600" : "";
+
+  const toggleBand = (id: string) =>
+    update({
+      bands: product.bands.includes(id)
+        ? product.bands.filter((b) => b !== id)
+        : [...product.bands, id],
+    });
+
+  return (
+    <div
+      className="mt-2 space-y-2 text-xs text-gray-600"
+      // Keep clicks inside the editor from focusing the region on the map
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex gap-1">
+        {(["archive", "tasking"] as AcquisitionMode[]).map((mode) => (
+          <button
+            key={mode}
+            disabled={!sensor?.modes.includes(mode)}
+            onClick={() => update({ mode })}
+            className={`flex-1 px-2 py-1 rounded cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed ${
+              product.mode === mode
+                ? "bg-blue-600 text-white"
+                : "bg-gray-100 hover:bg-gray-200"
+            }`}
+          >
+            {MODE_LABELS[mode]}
+          </button>
+        ))}
+      </div>
+
+      <label className={`block ${fieldClass("sensor")}`}>
+        Sensor
+        <select
+          value={product.sensor}
+          onChange={(e) => update({ sensor: e.target.value })}
+          className={inputClass}
+        >
+          {!sensor && <option value={product.sensor}>{product.sensor}</option>}
+          {PRODUCT_CATALOG.sensors.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className={fieldClass("resolutionTier")}>
+          Resolution
+          <select
+            value={product.resolutionTier}
+            onChange={(e) => update({ resolutionTier: e.target.value })}
+            className={inputClass}
+          >
+            {sensor?.tiers.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={fieldClass("processingLevel")}>
+          Processing
+          <select
+            value={product.processingLevel}
+            onChange={(e) =>
+              update({ processingLevel: e.target.value as ProcessingLevel })
+            }
+            className={inputClass}
+          >
+            {sensor?.processingLevels.map((level) => (
+              <option key={level} value={level}>
+                {PROCESSING_LEVEL_LABELS[level]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <fieldset className={fieldClass("bands")}>
+        <legend>Bands</legend>
+        <div className="flex flex-wrap gap-x-3 gap-y-1 mt-0.5">
+          {sensor?.bands.map((band) => (
+            <label key={band.id} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={product.bands.includes(band.id)}
+                onChange={() => toggleBand(band.id)}
+              />
+              {band.label}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className={fieldClass("acquisitionStart")}>
+          Acquired from
+          <input
+            type="date"
+            value={product.acquisitionStart}
+            onChange={(e) => update({ acquisitionStart: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+        <label className={fieldClass("acquisitionEnd")}>
+          To
+          <input
+            type="date"
+            value={product.acquisitionEnd}
+            onChange={(e) => update({ acquisitionEnd: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      {sensor?.cloudCover && (
+        <label className={`block ${fieldClass("maxCloudCover")}`}>
+          Max cloud cover: {product.maxCloudCover}%
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={5}
+            value={product.maxCloudCover}
+            onChange={(e) => update({ maxCloudCover: Number(e.target.value) })}
+            className="w-full"
+          />
+        </label>
+      )}
+
+      {issues.length > 0 && (
+        <ul className="text-red-600 space-y-0.5">
+          {issues.map((issue) => (
+            <li key={`${issue.field}:${issue.message}`}>✖ {issue.message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { useState } from "react";
+import { FaRegStickyNote } from "react-icons/fa";
+import { useAppDispatch, useAppSelector } from "../hooks";
+import { setProjectNotes } from "../redux/slices/projectsSlice";
+
+// Free-text notes on the open project (customer, deadlines, …)
+export default function ProjectNotes() {
+  const notes = useAppSelector(
+    (s) => s.projects.projects.find((p) => p.id === s.projects.activeId)?.notes
+  );
+  const dispatch = useAppDispatch();
+  const [open, setOpen] = useState(false);
+
+  // No project yet (still loading, or storage unavailable)
+  if (notes === undefined) return null;
+
+  return (
+    <div className="border rounded-lg p-2 text-sm">
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className="flex items-center gap-2 text-gray-700 cursor-pointer w-full"
+      >
+        <FaRegStickyNote />
+        Project notes
+        {!open && notes && (
+          <span className="truncate text-gray-400 flex-1 text-left">
+            {notes}
+          </span>
+        )}
+      </button>
+      {open && (
+        <textarea
+          value={notes}
+          onChange={(e) => dispatch(setProjectNotes(e.target.value))}
+          rows={4}
+          placeholder="Customer, contact, deadlines…"
+          className="mt-2 w-full border rounded p-2 resize-y"
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import {
+  FaCheck,
+  FaChevronDown,
+  FaFolderOpen,
+  FaPlus,
+  FaRegCopy,
+  FaRegEdit,
+  FaRegTrashAlt,
+  FaTimes,
+} from "react-icons/fa";
+import { useAppDispatch, useAppSelector } from "../hooks";
+import {
+  createProject,
+  deleteProject,
+  duplicateProject,
+  initProjects,
+  renameProject,
+  switchProject,
+} from "../redux/slices/projectsSlice";
+import type { ProjectMeta } from "../redux/slices/projectsSlice";
+
+const formatUpdated = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+// Header dropdown to open, create, rename, copy and delete saved projects
+export default function ProjectSwitcher() {
+  const { projects, activeId, status, error } = useAppSelector(
+    (s) => s.projects
+  );
+  const dispatch = useAppDispatch();
+  const [open, setOpen] = useState(false);
+  // Row being renamed, with its draft name
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(
+    null
+  );
+  const [confirmingDelete, setConfirmingDelete] = useState<string | null>(null);
+  const active = projects.find((p) => p.id === activeId);
+
+  useEffect(() => {
+    dispatch(initProjects());
+  }, [dispatch]);
+
+  // Thunks reject with a message meant for the user
+  const report = (promise: Promise<unknown>) =>
+    promise.catch((message: string) => toast.error(message));
+
+  const submitRename = () => {
+    if (!renaming) return;
+    report(dispatch(renameProject(renaming)).unwrap());
+    setRenaming(null);
+  };
+
+  if (status === "failed") {
+    return (
+      <span className="text-sm text-gray-500" title={error ?? undefined}>
+        Projects unavailable
+      </span>
+    );
+  }
+
+  const row = (project: ProjectMeta) => {
+    const isActive = project.id === activeId;
+    if (renaming?.id === project.id) {
+      return (
+        <form
+          className="flex items-center gap-1"
+          onSubmit={(e) => {
+            e.preventDefault();
+            submitRename();
+          }}
+        >
+          <input
+            autoFocus
+            value={renaming.name}
+            onChange={(e) => setRenaming({ ...renaming, name: e.target.value })}
+            onKeyDown={(e) => e.key === "Escape" && setRenaming(null)}
+            className="flex-1 border rounded px-1 py-0.5"
+          />
+          <button type="submit" title="Save name" className="cursor-pointer">
+            <FaCheck />
+          </button>
+          <button
+            type="button"
+            title="Cancel"
+            onClick={() => setRenaming(null)}
+            className="cursor-pointer"
+          >
+            <FaTimes />
+          </button>
+        </form>
+      );
+    }
+    if (confirmingDelete === project.id) {
+      return (
+        <div className="flex items-center gap-2">
+          <span className="flex-1 truncate">Delete “{project.name}”?</span>
+          <button
+            className="text-red-600 font-semibold cursor-pointer"
+            onClick={() => {
+              setConfirmingDelete(null);
+              report(
+                dispatch(deleteProject(project.id))
+                  .unwrap()
+                  .then(() => toast.success(`${project.name} deleted`))
+              );
+            }}
+          >
+            Delete
+          </button>
+          <button
+            className="text-gray-600 cursor-pointer"
+            onClick={() => setConfirmingDelete(null)}
+          >
+            Cancel
+          </button>
+        </div>
+      );
+    }
+    return (
+      <div className="flex items-center gap-2">
+        <button
+          className="flex-1 text-left min-w-0 cursor-pointer"
+          onClick={() => {
+            setOpen(false);
+            report(dispatch(switchProject(project.id)).unwrap());
+          }}
+        >
+          <div className={`truncate ${isActive ? "font-semibold" : ""}`}>
+            {project.name}
+          </div>
+          <div className="text-xs text-gray-500">
+            {project.regionCount} region(s) · {formatUpdated(project.updatedAt)}
+          </div>
+        </button>
+        <button
+          title="Rename"
+          className="text-gray-500 hover:text-gray-800 cursor-pointer"
+          onClick={() => setRenaming({ id: project.id, name: project.name })}
+        >
+          <FaRegEdit />
+        </button>
+        <button
+          title="Duplicate"
+          className="text-gray-500 hover:text-gray-800 cursor-pointer"
+          onClick={() =>
+            report(
+              dispatch(duplicateProject(project.id))
+                .unwrap()
+                .then((copy) => toast.success(`Created ${copy.name}`))
+            )
+          }
+        >
+          <FaRegCopy />
+        </button>
+        <button
+          title="Delete"
+          className="text-red-500 hover:text-red-700 cursor-pointer"
+          onClick={() => setConfirmingDelete(project.id)}
+        >
+          <FaRegTrashAlt />
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((o) => !o)}
+        disabled={status !== "ready"}
+        className="border rounded-md px-2 py-1 text-sm flex items-center gap-2 cursor-pointer hover:bg-gray-100 disabled:opacity-50 max-w-56"
+      >
+        <FaFolderOpen className="shrink-0" />
+        <span className="truncate">{active?.name ?? "Loading projects…"}</span>
+        <FaChevronDown className="shrink-0 text-xs" />
+      </button>
+      {open && (
+        <div className="absolute left-0 mt-1 w-80 bg-white border rounded-lg shadow-lg z-[2000] text-sm">
+          <ul className="max-h-80 overflow-auto divide-y">
+            {projects.map((project) => (
+              <li
+                key={project.id}
+                className={`px-3 py-2 ${
+                  project.id === activeId ? "bg-blue-50" : ""
+                }`}
+              >
+                {row(project)}
+              </li>
+            ))}
+          </ul>
+          <button
+            className="w-full flex items-center gap-2 px-3 py-2 border-t text-blue-600 font-semibold cursor-pointer hover:bg-gray-50"
+            onClick={() => {
+              setOpen(false);
+              report(dispatch(createProject(undefined)).unwrap());
+            }}
+          >
+            <FaPlus /> New project
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
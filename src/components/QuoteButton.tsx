@@ -0,0 +1,70 @@
+import toast from "react-hot-toast";
+import { FaFileInvoiceDollar } from "react-icons/fa";
+import { useAppSelector } from "../hooks";
+import {
+  selectBaseLayer,
+  selectCartQuote,
+  selectProductIssues,
+  selectRuleViolations,
+} from "../redux/selectors";
+import { newQuoteNumber, renderQuote } from "../utils/quote";
+import { downloadBlob } from "../utils/download";
+import { QUOTE_BRANDING, QUOTE_LAYOUT } from "../config/quote";
+
+// "Generate quote": the cart as a printable, branded quote in a new tab
+export default function QuoteButton() {
+  const regions = useAppSelector((s) => s.cart.regions);
+  const quote = useAppSelector(selectCartQuote);
+  const productIssues = useAppSelector(selectProductIssues);
+  // Nothing is quoted that couldn't be ordered
+  const violations = useAppSelector(selectRuleViolations);
+  const basemap = useAppSelector(selectBaseLayer);
+  const coordinateFormat = useAppSelector((s) => s.map.coordinateFormat);
+
+  const generate = () => {
+    const number = newQuoteNumber(QUOTE_LAYOUT.numberPrefix);
+    const html = renderQuote(
+      {
+        number,
+        issuedAt: new Date(),
+        regions,
+        quote,
+        basemap,
+        coordinateFormat,
+      },
+      QUOTE_BRANDING,
+      QUOTE_LAYOUT
+    );
+    // Opened straight from the click so pop-up blockers let it through
+    const win = window.open("", "_blank");
+    if (!win) {
+      downloadBlob(new Blob([html], { type: "text/html" }), `${number}.html`);
+      toast("Pop-ups are blocked, so the quote was downloaded instead", {
+        icon: "ℹ️",
+      });
+      return;
+    }
+    win.document.open();
+    win.document.write(html);
+    win.document.close();
+  };
+
+  return (
+    <button
+      className="w-full flex items-center justify-center gap-2 border border-gray-400 rounded-lg px-3 py-2 font-semibold cursor-pointer hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+      disabled={
+        regions.length === 0 || productIssues.size > 0 || violations.length > 0
+      }
+      title={
+        productIssues.size > 0
+          ? "Fix the product options marked in red first"
+          : violations.length > 0
+          ? "Fix the problems listed above the cart first"
+          : "Printable quote with maps, to save as PDF"
+      }
+      onClick={generate}
+    >
+      <FaFileInvoiceDollar /> Generate quote
+    </button>
+  );
+}
@@ -0,0 +1,164 @@
+import { useEffect, useRef } from "react";
+import { useMap } from "react-leaflet";
+import L from "leaflet";
+import type { Region } from "../types";
+import { useAppDispatch, useAppSelector } from "../hooks";
+import {
+  commitEditStep,
+  setHighlightedRegion,
+  updateEditDraft,
+} from "../redux/slices/mapSlice";
+import { selectViolatingRegionIds } from "../redux/selectors";
+import {
+  highlightStyle,
+  inCartStyle,
+  inCartViolationStyle,
+} from "../utils/mapStyles";
+import type { PolygonalGeometry } from "../utils/validation";
+
+type RegionLayer = {
+  layer: L.GeoJSON;
+  // The region the layer was built from, to detect updates by reference
+  region: Region;
+};
+
+// Renders cart.regions onto the map. The store is the source of truth: layers
+// are created, rebuilt and removed by regionId whenever the cart changes.
+export default function RegionLayers() {
+  const map = useMap();
+  const dispatch = useAppDispatch();
+  const regions = useAppSelector((s) => s.cart.regions);
+  const highlightedId = useAppSelector((s) => s.map.highlightedRegionId);
+  const focus = useAppSelector((s) => s.map.focus);
+  const editingId = useAppSelector((s) => s.map.editing?.regionId ?? null);
+  const editDraft = useAppSelector((s) => s.map.editing?.draft ?? null);
+  const violatingIds = useAppSelector(selectViolatingRegionIds);
+  const groupRef = useRef<L.FeatureGroup | null>(null);
+  const layersRef = useRef(new Map<string, RegionLayer>());
+  // The shape under edit and the last geometry it reported to the store, so
+  // drafts coming from elsewhere (undo/redo) can be told apart and applied
+  const editShapeRef = useRef<L.Polygon | null>(null);
+  const emittedDraftRef = useRef<GeoJSON.Feature | null>(null);
+  const editDraftRef = useRef(editDraft);
+  editDraftRef.current = editDraft;
+
+  // One feature group holds every cart layer for the lifetime of the map
+  useEffect(() => {
+    const group = L.featureGroup().addTo(map);
+    const layers = layersRef.current;
+    groupRef.current = group;
+    return () => {
+      group.remove();
+      layers.clear();
+      groupRef.current = null;
+    };
+  }, [map]);
+
+  // Sync layers with the store. Re-runs when editing stops so a cancelled
+  // edit is rebuilt from the stored geometry.
+  useEffect(() => {
+    const group = groupRef.current;
+    if (!group) return;
+    const layers = layersRef.current;
+    const ids = new Set(regions.map((r) => r.id));
+
+    for (const [id, entry] of layers) {
+      if (!ids.has(id)) {
+        group.removeLayer(entry.layer);
+        layers.delete(id);
+      }
+    }
+
+    for (const region of regions) {
+      const existing = layers.get(region.id);
+      if (existing?.region === region) continue;
+      if (existing) group.removeLayer(existing.layer);
+
+      const layer = L.geoJSON(region.geojson, { style: inCartStyle });
+      layer.bindTooltip(region.name, { sticky: true });
+      layer.on("mouseover", () => dispatch(setHighlightedRegion(region.id)));
+      layer.on("mouseout", () => dispatch(setHighlightedRegion(null)));
+      group.addLayer(layer);
+      layers.set(region.id, { layer, region });
+    }
+  }, [regions, editingId, dispatch]);
+
+  // Restyle on highlight changes (and after layers are rebuilt)
+  useEffect(() => {
+    for (const [id, { layer }] of layersRef.current) {
+      if (id === highlightedId || id === editingId) {
+        layer.setStyle(highlightStyle);
+        layer.bringToFront();
+      } else {
+        layer.setStyle(
+          violatingIds.has(id) ? inCartViolationStyle : inCartStyle
+        );
+      }
+    }
+  }, [highlightedId, editingId, regions, violatingIds]);
+
+  // Vertex editing of one cart region; edits flow into the store as a draft
+  useEffect(() => {
+    if (!editingId) return;
+    const layers = layersRef.current;
+    const entry = layers.get(editingId);
+    const shape = entry?.layer.getLayers()[0] as L.Polygon | undefined;
+    if (!entry || !shape) return;
+
+    const emit = (action: typeof updateEditDraft | typeof commitEditStep) => {
+      const gj = shape.toGeoJSON();
+      emittedDraftRef.current = gj;
+      dispatch(action(gj));
+    };
+    const handleEditing = () => emit(updateEditDraft);
+    // Completed vertex operations become undo steps
+    const handleStep = () => emit(commitEditStep);
+    const stepEvents =
+      "editable:vertex:dragend editable:vertex:deleted editable:dragend";
+
+    editShapeRef.current = shape;
+    emittedDraftRef.current = editDraftRef.current;
+    shape.enableEdit(map);
+    shape.on("editable:editing", handleEditing);
+    shape.on(stepEvents, handleStep);
+
+    return () => {
+      shape.off("editable:editing", handleEditing);
+      shape.off(stepEvents, handleStep);
+      shape.disableEdit();
+      editShapeRef.current = null;
+      // Drop the edited layer; the sync effect rebuilds it from the store
+      groupRef.current?.removeLayer(entry.layer);
+      layers.delete(editingId);
+    };
+  }, [editingId, map, dispatch]);
+
+  // Apply drafts that didn't come from the shape itself (undo/redo)
+  useEffect(() => {
+    const shape = editShapeRef.current;
+    if (!shape || !editDraft || editDraft === emittedDraftRef.current) return;
+    const geometry = editDraft.geometry as PolygonalGeometry;
+    emittedDraftRef.current = editDraft;
+    shape.disableEdit();
+    shape.setLatLngs(
+      L.GeoJSON.coordsToLatLngs(
+        geometry.coordinates,
+        geometry.type === "Polygon" ? 1 : 2
+      )
+    );
+    shape.enableEdit(map);
+  }, [editDraft, map]);
+
+  // Fly to a region when the cart asks for it
+  useEffect(() => {
+    if (!focus) return;
+    const entry = layersRef.current.get(focus.regionId);
+    if (!entry) return;
+    const bounds = entry.layer.getBounds();
+    if (bounds.isValid()) {
+      map.flyToBounds(bounds, { padding: [40, 40], maxZoom: 16 });
+    }
+  }, [focus, map]);
+
+  return null;
+}
@@ -0,0 +1,110 @@
+import { useState } from "react";
+import type { Region } from "../types";
+import { useAppDispatch, useAppSelector } from "../hooks";
+import {
+  setRegionGroup,
+  setRegionNotes,
+  tagRegions,
+} from "../redux/slices/cartSlice";
+import { selectCartLabels } from "../redux/selectors";
+
+type Props = {
+  region: Region;
+  onClose: () => void;
+};
+
+const inputClass = "w-full border rounded px-1 py-0.5";
+
+// Notes, tags and group for one cart region; none of it goes into the order
+export default function RegionNotesEditor({ region, onClose }: Props) {
+  const labels = useAppSelector(selectCartLabels);
+  const dispatch = useAppDispatch();
+  // Committed on blur so each edit is one undo step, not one per keystroke
+  const [notes, setNotes] = useState(region.notes ?? "");
+  const [group, setGroup] = useState(region.group ?? "");
+  const [tag, setTag] = useState("");
+
+  const tagsId = `tags-${region.id}`;
+  const groupsId = `groups-${region.id}`;
+
+  const saveNotes = () => {
+    if (notes !== (region.notes ?? "")) {
+      dispatch(setRegionNotes({ regionId: region.id, notes }));
+    }
+  };
+
+  const saveGroup = () => {
+    if (group.trim() !== (region.group ?? "")) {
+      dispatch(setRegionGroup({ regionIds: [region.id], group }));
+    }
+  };
+
+  return (
+    <div
+      className="mt-2 space-y-2 text-xs text-gray-600"
+      // Keep clicks inside the editor from focusing the region on the map
+      onClick={(e) => e.stopPropagation()}
+    >
+      <label className="block">
+        Notes
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          onBlur={saveNotes}
+          rows={3}
+          placeholder="Why this area, who asked for it…"
+          className="mt-0.5 w-full border rounded p-1 resize-y"
+        />
+      </label>
+      <form
+        className="block"
+        onSubmit={(e) => {
+          e.preventDefault();
+          dispatch(tagRegions({ regionIds: [region.id], tag }));
+          setTag("");
+        }}
+      >
+        <label>
+          Add tag
+          <input
+            value={tag}
+            onChange={(e) => setTag(e.target.value)}
+            list={tagsId}
+            placeholder="e.g. priority — press Enter"
+            className={`mt-0.5 ${inputClass}`}
+          />
+        </label>
+        <datalist id={tagsId}>
+          {labels.tags.map((t) => (
+            <option key={t} value={t} />
+          ))}
+        </datalist>
+      </form>
+      <label className="block">
+        Group
+        <input
+          value={group}
+          onChange={(e) => setGroup(e.target.value)}
+          onBlur={saveGroup}
+          onKeyDown={(e) => e.key === "Enter" && saveGroup()}
+          list={groupsId}
+          placeholder="None"
+          className={`mt-0.5 ${inputClass}`}
+        />
+        <datalist id={groupsId}>
+          {labels.groups.map((g) => (
+            <option key={g} value={g} />
+          ))}
+        </datalist>
+      </label>
+      <div className="flex justify-end">
+        <button
+          className="text-blue-700 cursor-pointer hover:underline"
+          onClick={onClose}
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  );
+}
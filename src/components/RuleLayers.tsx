@@ -0,0 +1,36 @@
+import { GeoJSON } from "react-leaflet";
+import { useAppSelector } from "../hooks";
+import { selectRuleViolations } from "../redux/selectors";
+import { restrictedZoneStyle, ruleViolationStyle } from "../utils/mapStyles";
+
+// Restricted zones, and where the cart breaks the order rules: the part of a
+// region inside a zone, or the gap between regions that are too close
+export default function RuleLayers() {
+  const zones = useAppSelector((s) => s.rules.zones);
+  const violations = useAppSelector(selectRuleViolations);
+
+  return (
+    <>
+      {zones?.map((zone) => (
+        <GeoJSON
+          key={zone.id}
+          data={zone.feature}
+          style={restrictedZoneStyle}
+          interactive={false}
+        />
+      ))}
+      {violations.map(
+        (v, i) =>
+          v.geometry && (
+            <GeoJSON
+              // GeoJSON data is immutable in react-leaflet; remount on change
+              key={`${v.rule}:${i}:${JSON.stringify(v.geometry.geometry)}`}
+              data={v.geometry}
+              style={ruleViolationStyle}
+              interactive={false}
+            />
+          )
+      )}
+    </>
+  );
+}
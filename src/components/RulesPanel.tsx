@@ -0,0 +1,74 @@
+import { useEffect } from "react";
+import toast from "react-hot-toast";
+import { useAppDispatch, useAppSelector } from "../hooks";
+import { selectRuleViolations } from "../redux/selectors";
+import { mergeCartRegions } from "../redux/slices/cartSlice";
+import { focusRegion, setHighlightedRegion } from "../redux/slices/mapSlice";
+import { loadRestrictedZones } from "../redux/slices/rulesSlice";
+
+// Why the cart can't be ordered as it is: restricted zones and order limits
+export default function RulesPanel() {
+  const dispatch = useAppDispatch();
+  const violations = useAppSelector(selectRuleViolations);
+  const zonesStatus = useAppSelector((s) => s.rules.zonesStatus);
+
+  useEffect(() => {
+    dispatch(loadRestrictedZones());
+  }, [dispatch]);
+
+  if (violations.length === 0) return null;
+
+  return (
+    <div className="border border-red-300 bg-red-50 rounded-lg p-3 text-sm space-y-2">
+      <div className="font-semibold text-red-700">
+        {violations.length} problem{violations.length === 1 ? "" : "s"} to fix
+        before checkout
+      </div>
+      {violations.map((v, i) => (
+        <div
+          key={`${v.rule}:${v.regionIds.join("|")}:${i}`}
+          className="border-t pt-2 text-xs"
+          onMouseEnter={() =>
+            v.regionIds[0] && dispatch(setHighlightedRegion(v.regionIds[0]))
+          }
+          onMouseLeave={() => dispatch(setHighlightedRegion(null))}
+        >
+          <p className="text-gray-700">{v.message}</p>
+          <div className="flex gap-2 justify-end mt-1">
+            {v.regionIds.length > 0 && (
+              <button
+                className="text-blue-700 hover:underline cursor-pointer"
+                onClick={() => dispatch(focusRegion(v.regionIds[0]))}
+              >
+                Show on map
+              </button>
+            )}
+            {v.rule === "minDistance" && (
+              <button
+                className="text-blue-700 hover:underline cursor-pointer"
+                onClick={() => {
+                  if (dispatch(mergeCartRegions(v.regionIds))) {
+                    toast.success("Regions merged");
+                  } else {
+                    toast.error("These regions couldn't be merged");
+                  }
+                }}
+              >
+                Merge
+              </button>
+            )}
+            {v.rule === "zonesUnavailable" && (
+              <button
+                className="text-blue-700 hover:underline cursor-pointer disabled:opacity-50"
+                disabled={zonesStatus === "loading"}
+                onClick={() => dispatch(loadRestrictedZones())}
+              >
+                {zonesStatus === "loading" ? "Loading…" : "Try again"}
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
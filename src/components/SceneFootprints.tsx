@@ -0,0 +1,35 @@
+import { GeoJSON, Tooltip } from "react-leaflet";
+import { useAppDispatch, useAppSelector } from "../hooks";
+import { setHoveredScene } from "../redux/slices/catalogSlice";
+import { footprintHighlightStyle, footprintStyle } from "../utils/mapStyles";
+
+// Outlines of the catalog search results; the hovered one is filled
+export default function SceneFootprints() {
+  const dispatch = useAppDispatch();
+  const items = useAppSelector((s) => s.catalog.items);
+  const hoveredId = useAppSelector((s) => s.catalog.hoveredItemId);
+
+  return (
+    <>
+      {items.map((item) => (
+        <GeoJSON
+          key={item.id}
+          data={item}
+          style={
+            item.id === hoveredId ? footprintHighlightStyle : footprintStyle
+          }
+          eventHandlers={{
+            mouseover: () => dispatch(setHoveredScene(item.id)),
+            mouseout: () => dispatch(setHoveredScene(null)),
+          }}
+        >
+          <Tooltip sticky>
+            {item.id}
+            <br />
+            {item.properties.datetime?.slice(0, 10)}
+          </Tooltip>
+        </GeoJSON>
+      ))}
+    </>
+  );
+}
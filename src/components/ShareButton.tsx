@@ -0,0 +1,58 @@
+import { useState } from "react";
+import toast from "react-hot-toast";
+import L from "leaflet";
+import { FaLink } from "react-icons/fa";
+import { useAppSelector } from "../hooks";
+import { selectBaseLayer } from "../redux/selectors";
+import { createShareUrl } from "../utils/share";
+
+type Props = {
+  getMap: () => L.Map | null;
+};
+
+// Copies a link that reopens the current view, basemap and cart
+export default function ShareButton({ getMap }: Props) {
+  const regions = useAppSelector((s) => s.cart.regions);
+  const baseLayer = useAppSelector(selectBaseLayer);
+  const [busy, setBusy] = useState(false);
+
+  const share = async () => {
+    const map = getMap();
+    if (!map) return;
+    const center = map.getCenter();
+    setBusy(true);
+    try {
+      const { url, short } = await createShareUrl(
+        {
+          view: { center: [center.lat, center.lng], zoom: map.getZoom() },
+          baseLayerId: baseLayer.id,
+          regions,
+        },
+        `${window.location.origin}${window.location.pathname}`
+      );
+      try {
+        await navigator.clipboard.writeText(url);
+        toast.success(short ? "Short link copied" : "Link copied");
+      } catch {
+        // Clipboard access denied (e.g. insecure origin); let them copy it
+        window.prompt("Copy this link", url);
+      }
+    } catch (err) {
+      console.error("Failed to create share link:", err);
+      toast.error(`Couldn't create a link: ${(err as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={share}
+      disabled={busy}
+      title="Copy a link to this view and cart"
+      className="flex items-center gap-1 border rounded-md px-2 py-1.5 text-sm hover:bg-gray-50 cursor-pointer disabled:opacity-50"
+    >
+      <FaLink /> Share
+    </button>
+  );
+}
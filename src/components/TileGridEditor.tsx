@@ -0,0 +1,124 @@
+import { useEffect, useMemo, useState } from "react";
+import type { Region, TileAlignment, TileGridOptions } from "../types";
+import { useAppDispatch } from "../hooks";
+import { setRegionTiles } from "../redux/slices/cartSlice";
+import { setTilePreview } from "../redux/slices/mapSlice";
+import { tileGrid } from "../utils/tiling";
+import type { PolygonalGeometry } from "../utils/validation";
+import { DEFAULT_TILE_GRID, TILE_SIZES_KM } from "../config/tiling";
+
+type Props = {
+  region: Region;
+  onClose: () => void;
+};
+
+const ALIGNMENT_LABELS: Record<TileAlignment, string> = {
+  utm: "UTM grid",
+  fixed: "From region corner",
+};
+
+// Grid settings for splitting a cart region into tiles, previewed on the map
+export default function TileGridEditor({ region, onClose }: Props) {
+  const dispatch = useAppDispatch();
+  const [grid, setGrid] = useState<TileGridOptions>(
+    region.tileGrid ?? DEFAULT_TILE_GRID
+  );
+
+  const result = useMemo(() => {
+    try {
+      const tiles = tileGrid(
+        region.geojson as GeoJSON.Feature<PolygonalGeometry>,
+        grid
+      );
+      return { tiles, error: null };
+    } catch (err) {
+      return { tiles: [], error: (err as Error).message };
+    }
+  }, [region.geojson, grid]);
+
+  useEffect(() => {
+    dispatch(
+      setTilePreview({ regionId: region.id, grid, tiles: result.tiles })
+    );
+  }, [dispatch, region.id, grid, result.tiles]);
+
+  // Drop the preview when the editor closes
+  useEffect(() => {
+    return () => {
+      dispatch(setTilePreview(null));
+    };
+  }, [dispatch]);
+
+  const apply = (tiles = result.tiles) => {
+    dispatch(setRegionTiles({ regionId: region.id, grid, tiles }));
+    onClose();
+  };
+
+  return (
+    <div
+      className="mt-2 space-y-2 text-xs text-gray-600"
+      // Keep clicks inside the editor from focusing the region on the map
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex gap-2">
+        <label className="flex-1">
+          Cell size
+          <select
+            value={grid.sizeKm}
+            onChange={(e) =>
+              setGrid({ ...grid, sizeKm: Number(e.target.value) })
+            }
+            className="mt-0.5 w-full border rounded-md px-1 py-0.5 text-sm"
+          >
+            {TILE_SIZES_KM.map((km) => (
+              <option key={km} value={km}>
+                {km} × {km} km
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex-1">
+          Alignment
+          <select
+            value={grid.alignment}
+            onChange={(e) =>
+              setGrid({ ...grid, alignment: e.target.value as TileAlignment })
+            }
+            className="mt-0.5 w-full border rounded-md px-1 py-0.5 text-sm"
+          >
+            {(Object.keys(ALIGNMENT_LABELS) as TileAlignment[]).map((a) => (
+              <option key={a} value={a}>
+                {ALIGNMENT_LABELS[a]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      {result.error ? (
+        <div className="text-red-600">{result.error}</div>
+      ) : (
+        <div>{result.tiles.length} tile(s), previewed on the map</div>
+      )}
+      <div className="flex gap-2">
+        <button
+          disabled={result.tiles.length === 0}
+          onClick={() => apply()}
+          className="flex-1 bg-teal-600 text-white rounded px-2 py-1 cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {region.tiles ? "Replace tiles" : "Split into tiles"}
+        </button>
+        {region.tiles && (
+          <button
+            onClick={() => apply([])}
+            className="flex-1 border rounded px-2 py-1 cursor-pointer"
+          >
+            Order as one area
+          </button>
+        )}
+        <button onClick={onClose} className="px-2 py-1 cursor-pointer">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { GeoJSON } from "react-leaflet";
+import type { Layer } from "leaflet";
+import type { RegionTile } from "../types";
+import { useAppSelector } from "../hooks";
+import { tilePreviewStyle, tileStyle } from "../utils/mapStyles";
+
+const asCollection = (tiles: RegionTile[]): GeoJSON.FeatureCollection => ({
+  type: "FeatureCollection",
+  features: tiles.map((t) => ({
+    type: "Feature",
+    properties: { label: t.label },
+    geometry: t.geometry,
+  })),
+});
+
+// GeoJSON data is immutable in react-leaflet; remount when the tiles change
+const tilesKey = (tiles: RegionTile[]) =>
+  `${tiles.length}:${tiles[0]?.id}:${tiles[tiles.length - 1]?.id}`;
+
+const bindLabel = (feature: GeoJSON.Feature, layer: Layer) =>
+  layer.bindTooltip(String(feature.properties?.label), { sticky: true });
+
+// Tile grids of cart regions, and the grid being previewed in the cart
+export default function TileLayers() {
+  const regions = useAppSelector((s) => s.cart.regions);
+  const preview = useAppSelector((s) => s.map.tilePreview);
+
+  return (
+    <>
+      {regions.map(
+        (r) =>
+          r.tiles &&
+          r.id !== preview?.regionId && (
+            <GeoJSON
+              key={`${r.id}:${tilesKey(r.tiles)}`}
+              data={asCollection(r.tiles)}
+              style={tileStyle}
+              onEachFeature={bindLabel}
+            />
+          )
+      )}
+      {preview && (
+        <GeoJSON
+          key={`preview:${tilesKey(preview.tiles)}`}
+          data={asCollection(preview.tiles)}
+          style={tilePreviewStyle}
+          onEachFeature={bindLabel}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,76 @@
+// config/basemaps.ts
+import type { BasemapRegistry } from "../utils/basemaps";
+
+// Optional JSON file with more layers, in the same shape as BASEMAP_REGISTRY.
+// It's fetched at startup so deployments can add layers without a rebuild.
+export const BASEMAP_REGISTRY_URL = import.meta.env.VITE_BASEMAPS_URL || "";
+
+const ESRI = "https://server.arcgisonline.com/ArcGIS/rest/services";
+
+export const BASEMAP_REGISTRY: BasemapRegistry = {
+  defaultBaseLayer: "esriImagery",
+  baseLayers: [
+    {
+      id: "osm",
+      label: "OpenStreetMap",
+      type: "xyz",
+      url: "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png",
+      attribution: "&copy; OpenStreetMap contributors",
+      maxZoom: 19,
+    },
+    {
+      id: "esriImagery",
+      label: "Esri World Imagery",
+      type: "xyz",
+      url: `${ESRI}/World_Imagery/MapServer/tile/{z}/{y}/{x}`,
+      attribution: "Tiles &copy; Esri",
+    },
+    {
+      id: "esriStreets",
+      label: "Esri World Streets",
+      type: "xyz",
+      url: `${ESRI}/World_Street_Map/MapServer/tile/{z}/{y}/{x}`,
+      attribution: "Tiles &copy; Esri",
+    },
+    {
+      id: "esriTopo",
+      label: "Esri Topographic",
+      type: "xyz",
+      url: `${ESRI}/World_Topo_Map/MapServer/tile/{z}/{y}/{x}`,
+      attribution: "Tiles &copy; Esri",
+    },
+    {
+      id: "s2cloudless",
+      label: "Sentinel-2 cloudless 2020",
+      type: "wmts",
+      encoding: "rest",
+      url: "https://tiles.maps.eox.at/wmts/1.0.0/{Layer}/default/{TileMatrixSet}/{TileMatrix}/{TileRow}/{TileCol}.jpg",
+      layer: "s2cloudless-2020_3857",
+      tileMatrixSet: "g",
+      attribution:
+        "Sentinel-2 cloudless by EOX IT Services GmbH (contains modified Copernicus Sentinel data 2020)",
+      maxZoom: 15,
+    },
+  ],
+  overlays: [
+    {
+      id: "esriLabels",
+      label: "Boundaries & places",
+      type: "xyz",
+      url: `${ESRI}/Reference/World_Boundaries_and_Places/MapServer/tile/{z}/{y}/{x}`,
+      attribution: "Labels &copy; Esri",
+      opacity: 1,
+    },
+    {
+      id: "osmOverlay",
+      label: "OSM roads & labels (WMS)",
+      type: "wms",
+      url: "https://ows.terrestris.de/osm/service",
+      layers: "OSM-Overlay-WMS",
+      format: "image/png",
+      transparent: true,
+      attribution: "&copy; terrestris, OpenStreetMap contributors",
+      opacity: 0.8,
+    },
+  ],
+};
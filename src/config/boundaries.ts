@@ -0,0 +1,20 @@
+// config/boundaries.ts
+import type { BoundaryLevel } from "../utils/boundaries";
+
+// Directory holding one GeoJSON file per level. Defaults to the simplified
+// Natural Earth files in public/boundaries; point it at a self-hosted copy
+// for more detail or for levels we don't bundle (LGAs).
+export const BOUNDARIES_URL =
+  import.meta.env.VITE_BOUNDARIES_URL ||
+  `${import.meta.env.BASE_URL}boundaries`;
+
+const SELF_HOSTED = !!import.meta.env.VITE_BOUNDARIES_URL;
+
+export const BOUNDARY_LEVELS: BoundaryLevel[] = [
+  { id: "country", label: "Country", file: "nga-country.geojson" },
+  { id: "state", label: "State", file: "nga-state.geojson" },
+  // Too large to bundle; only offered when a self-hosted source has it
+  ...(SELF_HOSTED
+    ? [{ id: "lga", label: "LGA", file: "nga-lga.geojson" }]
+    : []),
+];
@@ -0,0 +1,16 @@
+// config/checkout.ts
+
+export const API_BASE_URL = import.meta.env.VITE_API_URL || "/api";
+
+// How often a submitted order's status is refreshed
+export const ORDER_POLL_INTERVAL_MS = 5000;
+
+// Bump the version whenever the text changes; orders record which one was accepted
+export const TERMS = {
+  version: "2025-01",
+  text: [
+    "Imagery is licensed for internal use by the ordering organization only and may not be resold or redistributed.",
+    "Archive orders are delivered within 5 business days of confirmation. Tasking windows are best effort; a collection that doesn't meet the requested cloud cover is re-attempted within the window at no extra cost.",
+    "Quoted prices are valid for 30 days. Orders can be cancelled free of charge until processing starts.",
+  ],
+};
@@ -0,0 +1,26 @@
+// config/drawing.ts
+import type { ShapeTool, ShapeToolConfig } from "../utils/shapes";
+
+export const SHAPE_TOOLS: Record<ShapeTool, ShapeToolConfig> = {
+  circle: {
+    label: "Circle",
+    distanceLabel: "Radius",
+    unit: "km",
+    defaultDistance: 5,
+    hint: "Click the map to place the centre",
+  },
+  point: {
+    label: "Point",
+    distanceLabel: "Buffer",
+    unit: "m",
+    defaultDistance: 500,
+    hint: "Click the map to place the point",
+  },
+  corridor: {
+    label: "Corridor",
+    distanceLabel: "Width",
+    unit: "m",
+    defaultDistance: 200,
+    hint: "Click to add vertices, click the last one again to finish",
+  },
+};
@@ -0,0 +1,20 @@
+// config/geocoding.ts
+
+// "nominatim" or "offline"; the mocks use the offline gazetteer by default
+export const GEOCODER_PROVIDER =
+  import.meta.env.VITE_GEOCODER ||
+  (import.meta.env.VITE_USE_MOCKS === "true" ? "offline" : "nominatim");
+
+export const NOMINATIM_URL =
+  import.meta.env.VITE_NOMINATIM_URL || "https://nominatim.openstreetmap.org";
+
+// Contact address sent with every Nominatim request, as its policy requires
+export const GEOCODER_EMAIL = import.meta.env.VITE_GEOCODER_EMAIL || "";
+
+// Nominatim allows at most one request per second
+export const GEOCODER_MIN_INTERVAL_MS = 1000;
+export const GEOCODER_CACHE_SIZE = 200;
+
+// Wait this long after the last keystroke before searching
+export const GEOCODER_DEBOUNCE_MS = 400;
+export const GEOCODER_MIN_QUERY_LENGTH = 3;
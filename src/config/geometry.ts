@@ -0,0 +1,9 @@
+// config/geometry.ts
+import type { GeometryLimits } from "../utils/validation";
+
+export const GEOMETRY_LIMITS: GeometryLimits = {
+  // 1 ha; anything smaller is almost certainly a sliver or a stray click
+  minAreaKm2: 0.01,
+  maxAreaKm2: 1_000_000,
+  maxVertices: 5000,
+};
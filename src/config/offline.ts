@@ -0,0 +1,23 @@
+// config/offline.ts
+
+// Cache names shared with public/sw.js; bump the suffix there and here to
+// drop every cached tile on the next deploy
+export const TILE_CACHE_NAME = "tiles-v1";
+export const TILE_META_CACHE_NAME = "tiles-meta-v1";
+
+// Tiles kept across all basemaps. Past this the service worker removes the
+// oldest tiles first.
+export const TILE_CACHE_MAX_TILES = 5000;
+
+// "Download this area" limits: deeper zooms multiply the tile count by four
+// per level, and most tile servers forbid bulk downloads beyond this
+export const OFFLINE_MAX_ZOOM = 17;
+export const OFFLINE_MAX_DOWNLOAD_TILES = 2000;
+export const OFFLINE_DOWNLOAD_CONCURRENCY = 4;
+
+// Typical size of a raster tile, for download estimates only
+export const ESTIMATED_TILE_KB = 25;
+
+// While online, queued work that hasn't gone through is retried this often
+// (and whenever the browser reports the connection coming back)
+export const OFFLINE_QUEUE_RETRY_MS = 60_000;
@@ -0,0 +1,16 @@
+// config/pricing.ts
+import type { PriceTable } from "../utils/pricing";
+
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  currency: "USD",
+  pricePerKm2: 12,
+  archivePricePerKm2: 5,
+  // Anything smaller is billed as this much area
+  minBillableAreaKm2: 25,
+  // Applied to the whole order by total billable area; highest matching tier wins
+  volumeDiscounts: [
+    { minAreaKm2: 500, discount: 0.05 },
+    { minAreaKm2: 2000, discount: 0.1 },
+    { minAreaKm2: 10000, discount: 0.15 },
+  ],
+};
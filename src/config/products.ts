@@ -0,0 +1,84 @@
+// config/products.ts
+import type { ProductCatalog, SpectralBand } from "../utils/products";
+
+const OPTICAL_BANDS: SpectralBand[] = [
+  { id: "pan", label: "Panchromatic" },
+  { id: "blue", label: "Blue" },
+  { id: "green", label: "Green" },
+  { id: "red", label: "Red" },
+  { id: "nir", label: "Near infrared" },
+];
+
+export const PRODUCT_CATALOG: ProductCatalog = {
+  defaultSensor: "sentinel-2",
+  archiveLookbackDays: 365,
+  taskingWindowDays: 30,
+  sensors: [
+    {
+      id: "sentinel-2",
+      label: "Sentinel-2 MSI",
+      modes: ["archive"],
+      tiers: [{ id: "10m", label: "10 m", gsd: 10, priceMultiplier: 1 }],
+      processingLevels: ["raw", "orthorectified"],
+      bands: [
+        { id: "blue", label: "Blue (B02)" },
+        { id: "green", label: "Green (B03)" },
+        { id: "red", label: "Red (B04)" },
+        { id: "nir", label: "Near infrared (B08)" },
+        { id: "swir1", label: "SWIR 1 (B11)" },
+        { id: "swir2", label: "SWIR 2 (B12)" },
+      ],
+      defaultBands: ["blue", "green", "red", "nir"],
+      cloudCover: true,
+      taskingMultiplier: 1,
+    },
+    {
+      id: "landsat",
+      label: "Landsat 8/9 OLI",
+      modes: ["archive"],
+      tiers: [
+        { id: "15m", label: "15 m (pan)", gsd: 15, priceMultiplier: 1 },
+        { id: "30m", label: "30 m", gsd: 30, priceMultiplier: 0.8 },
+      ],
+      processingLevels: ["raw", "orthorectified", "pansharpened"],
+      bands: OPTICAL_BANDS,
+      defaultBands: ["blue", "green", "red"],
+      cloudCover: true,
+      taskingMultiplier: 1,
+    },
+    {
+      id: "vhr-optical",
+      label: "VHR optical",
+      modes: ["archive", "tasking"],
+      tiers: [
+        { id: "0.3m", label: "30 cm", gsd: 0.3, priceMultiplier: 4 },
+        { id: "0.5m", label: "50 cm", gsd: 0.5, priceMultiplier: 2.5 },
+        { id: "1.5m", label: "1.5 m", gsd: 1.5, priceMultiplier: 1.5 },
+      ],
+      processingLevels: ["raw", "orthorectified", "pansharpened"],
+      bands: OPTICAL_BANDS,
+      defaultBands: ["pan", "blue", "green", "red"],
+      cloudCover: true,
+      taskingMultiplier: 1.8,
+    },
+    {
+      id: "sar-x",
+      label: "X-band SAR",
+      modes: ["archive", "tasking"],
+      tiers: [
+        { id: "1m", label: "1 m (spotlight)", gsd: 1, priceMultiplier: 3 },
+        { id: "3m", label: "3 m (stripmap)", gsd: 3, priceMultiplier: 1.5 },
+      ],
+      processingLevels: ["raw", "orthorectified"],
+      bands: [
+        { id: "hh", label: "HH" },
+        { id: "hv", label: "HV" },
+        { id: "vh", label: "VH" },
+        { id: "vv", label: "VV" },
+      ],
+      defaultBands: ["vv"],
+      cloudCover: false,
+      taskingMultiplier: 1.5,
+    },
+  ],
+};
@@ -0,0 +1,23 @@
+// config/quote.ts
+import type { QuoteBranding, QuoteLayout } from "../utils/quote";
+
+// Letterhead for printed quotes. The logo is any image URL; files in public/
+// are served from the base URL.
+export const QUOTE_BRANDING: QuoteBranding = {
+  companyName: "Satellite Data Client",
+  logoUrl: `${import.meta.env.BASE_URL}vite.svg`,
+  address: ["Plot 12, Adeola Odeku Street", "Victoria Island, Lagos"],
+  contact: ["sales@example.com", "+234 1 000 0000"],
+  accentColor: "#2563eb",
+  footer: "Thank you for your business.",
+};
+
+export const QUOTE_LAYOUT: QuoteLayout = {
+  paperSize: "A4",
+  numberPrefix: "Q",
+  // Should match the validity stated in the terms of sale
+  validityDays: 30,
+  showSnapshots: true,
+  snapshot: { width: 640, height: 280, padding: 24, maxZoom: 17 },
+  showTerms: true,
+};
@@ -0,0 +1,17 @@
+// config/rules.ts
+import type { CartRules } from "../utils/rules";
+
+// GeoJSON FeatureCollection of the areas we may not sell imagery over, each
+// feature with a "name" and optionally a "reason". Fetched at startup so the
+// list can change without a rebuild; the last copy loaded is kept for
+// working offline.
+export const RESTRICTED_ZONES_URL =
+  import.meta.env.VITE_RESTRICTED_ZONES_URL ||
+  `${import.meta.env.BASE_URL}restricted-zones.geojson`;
+
+// Contractual limits on a single order
+export const CART_RULES: CartRules = {
+  maxRegions: 25,
+  maxTotalAreaKm2: 50_000,
+  minDistanceKm: 0.5,
+};
@@ -0,0 +1,9 @@
+// config/sharing.ts
+
+// Where oversized permalinks are stored: "api" (our backend, /links) or
+// "local" (this browser only, for offline use and development)
+export const SHORT_LINK_PROVIDER = import.meta.env.VITE_SHORT_LINKS || "api";
+
+// Links longer than this use a short link instead. Browsers cope with far
+// more, but chat apps and mail clients often truncate or mangle long URLs.
+export const PERMALINK_MAX_LENGTH = 2000;
@@ -0,0 +1,17 @@
+// config/stac.ts
+import type { StacCollectionOption } from "../api/stac";
+
+export const STAC_API_URL =
+  import.meta.env.VITE_STAC_API_URL ||
+  "https://earth-search.aws.element84.com/v1";
+
+export const STAC_COLLECTIONS: StacCollectionOption[] = [
+  { id: "sentinel-2-l2a", label: "Sentinel-2 L2A", gsd: 10 },
+  { id: "landsat-c2-l2", label: "Landsat 8/9 C2 L2", gsd: 30 },
+  { id: "naip", label: "NAIP (US only)", gsd: 0.6 },
+];
+
+export const SCENE_PAGE_SIZE = 20;
+
+// The default date range ends today and reaches this far back
+export const SCENE_LOOKBACK_DAYS = 90;
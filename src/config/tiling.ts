@@ -0,0 +1,13 @@
+// config/tiling.ts
+import type { TileGridOptions } from "../types";
+
+// Cell sizes offered in the cart, roughly matching our sensors' footprints
+export const TILE_SIZES_KM = [5, 10, 20, 25, 50, 100];
+
+export const DEFAULT_TILE_GRID: TileGridOptions = {
+  sizeKm: 10,
+  alignment: "utm",
+};
+
+// Larger grids are refused; pick a bigger cell size instead
+export const MAX_TILES = 400;
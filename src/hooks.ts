@@ -1,6 +1,7 @@
-import { useDispatch, useSelector } from "react-redux";
-import type { RootState, AppDispatch } from "./redux/store";
+import { useDispatch, useSelector, useStore } from "react-redux";
+import type { RootState, AppDispatch, AppStore } from "./redux/store";
 import type { TypedUseSelectorHook } from "react-redux";
 
 export const useAppDispatch = () => useDispatch<AppDispatch>();
 export const useAppSelector: TypedUseSelectorHook<RootState> = useSelector;
+export const useAppStore = () => useStore<RootState>() as AppStore;
@@ -0,0 +1,36 @@
+// io/export/csv.ts
+import type { Region } from "../../types";
+import { measureRegion } from "../../utils/pricing";
+import { regionProperties } from "./properties";
+import { geometryToWKT } from "./wkt";
+
+// RFC 4180: quote fields containing separators, quotes or line breaks
+function csvField(value: unknown): string {
+  const text =
+    value === undefined || value === null
+      ? ""
+      : typeof value === "object"
+      ? JSON.stringify(value)
+      : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCSV(regions: Region[]): string {
+  const rows = regions.map((r) => ({
+    ...regionProperties(r),
+    area_km2: measureRegion(r).areaKm2.toFixed(4),
+    wkt: geometryToWKT(r.geojson.geometry),
+  }));
+
+  // Union of keys so attributes carried by only some regions get a column
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  const lines = [
+    columns.map(csvField).join(","),
+    ...rows.map((row) =>
+      columns
+        .map((c) => csvField((row as Record<string, unknown>)[c]))
+        .join(",")
+    ),
+  ];
+  return lines.join("\r\n");
+}
@@ -0,0 +1,20 @@
+// io/export/geojson.ts
+import type { Region } from "../../types";
+import { regionProperties } from "./properties";
+
+export function toFeatureCollection(
+  regions: Region[]
+): GeoJSON.FeatureCollection {
+  return {
+    type: "FeatureCollection",
+    features: regions.map((r) => ({
+      type: "Feature",
+      properties: regionProperties(r),
+      geometry: r.geojson.geometry,
+    })),
+  };
+}
+
+export function toGeoJSON(regions: Region[]): string {
+  return JSON.stringify(toFeatureCollection(regions), null, 2);
+}
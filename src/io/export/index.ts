@@ -0,0 +1,57 @@
+// io/export/index.ts
+import type { Region } from "../../types";
+import { toGeoJSON } from "./geojson";
+import { toKML } from "./kml";
+import { toWKT } from "./wkt";
+import { toCSV } from "./csv";
+import { toShapefile } from "./shapefile";
+
+export interface ExportFormat {
+  label: string;
+  extension: string;
+  mimeType: string;
+  serialize: (regions: Region[]) => string | Promise<ArrayBuffer>;
+}
+
+export const EXPORT_FORMATS = {
+  geojson: {
+    label: "GeoJSON",
+    extension: "geojson",
+    mimeType: "application/geo+json",
+    serialize: toGeoJSON,
+  },
+  kml: {
+    label: "KML",
+    extension: "kml",
+    mimeType: "application/vnd.google-earth.kml+xml",
+    serialize: toKML,
+  },
+  wkt: {
+    label: "WKT",
+    extension: "wkt",
+    mimeType: "text/plain",
+    serialize: toWKT,
+  },
+  csv: {
+    label: "CSV",
+    extension: "csv",
+    mimeType: "text/csv",
+    serialize: toCSV,
+  },
+  shapefile: {
+    label: "Shapefile (.zip)",
+    extension: "zip",
+    mimeType: "application/zip",
+    serialize: toShapefile,
+  },
+} satisfies Record<string, ExportFormat>;
+
+export type ExportFormatKey = keyof typeof EXPORT_FORMATS;
+
+export async function exportRegions(
+  format: ExportFormatKey,
+  regions: Region[]
+): Promise<Blob> {
+  const { serialize, mimeType } = EXPORT_FORMATS[format] as ExportFormat;
+  return new Blob([await serialize(regions)], { type: mimeType });
+}
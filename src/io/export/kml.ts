@@ -0,0 +1,61 @@
+// io/export/kml.ts
+import type { Region } from "../../types";
+import { regionProperties } from "./properties";
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const ring = (coords: GeoJSON.Position[]) =>
+  `<LinearRing><coordinates>${coords
+    .map((c) => `${c[0]},${c[1]}`)
+    .join(" ")}</coordinates></LinearRing>`;
+
+function polygonKml(rings: GeoJSON.Position[][]): string {
+  const [outer, ...holes] = rings;
+  return `<Polygon><outerBoundaryIs>${ring(outer)}</outerBoundaryIs>${holes
+    .map((h) => `<innerBoundaryIs>${ring(h)}</innerBoundaryIs>`)
+    .join("")}</Polygon>`;
+}
+
+function geometryKml(geometry: GeoJSON.Geometry): string {
+  switch (geometry.type) {
+    case "Polygon":
+      return polygonKml(geometry.coordinates);
+    case "MultiPolygon":
+      return `<MultiGeometry>${geometry.coordinates
+        .map(polygonKml)
+        .join("")}</MultiGeometry>`;
+    default:
+      throw new Error(`${geometry.type} cannot be exported to KML`);
+  }
+}
+
+function placemark(region: Region): string {
+  const { name, ...props } = regionProperties(region);
+  const data = Object.entries(props)
+    .map(
+      ([key, value]) =>
+        `<Data name="${escapeXml(key)}"><value>${escapeXml(
+          typeof value === "object" ? JSON.stringify(value) : String(value)
+        )}</value></Data>`
+    )
+    .join("");
+  return `<Placemark><name>${escapeXml(
+    String(name)
+  )}</name><ExtendedData>${data}</ExtendedData>${geometryKml(
+    region.geojson.geometry
+  )}</Placemark>`;
+}
+
+export function toKML(regions: Region[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2"><Document>',
+    ...regions.map(placemark),
+    "</Document></kml>",
+  ].join("\n");
+}
@@ -0,0 +1,27 @@
+// io/export/properties.ts
+import type { Region } from "../../types";
+import { productProperties } from "../../utils/products";
+
+// Flat attribute set written by every exporter. Flat keys keep it usable in
+// DBF and CSV columns; `name` is what the importers read back as Region.name.
+export function regionProperties(region: Region): Record<string, unknown> {
+  return {
+    ...region.geojson.properties,
+    id: region.id,
+    name: region.name,
+    center_lon: region.center[0],
+    center_lat: region.center[1],
+    ...(region.product && productProperties(region.product)),
+    ...(region.scenes?.length && {
+      scene_ids: region.scenes.map((s) => s.id).join(";"),
+    }),
+    ...(region.tileGrid &&
+      region.tiles && {
+        tile_grid: `${region.tileGrid.sizeKm}km ${region.tileGrid.alignment}`,
+        tile_count: region.tiles.length,
+      }),
+    ...(region.group && { group: region.group }),
+    ...(region.tags?.length && { tags: region.tags.join(";") }),
+    ...(region.notes && { notes: region.notes }),
+  };
+}
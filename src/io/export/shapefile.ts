@@ -0,0 +1,48 @@
+// io/export/shapefile.ts
+import { zip } from "@mapbox/shp-write";
+import type { Region } from "../../types";
+import { PRODUCT_DBF_FIELDS } from "../../utils/products";
+import { toFeatureCollection } from "./geojson";
+
+// shp-write names layers by shapefile type, so Polygon and MultiPolygon
+// features would overwrite each other; write everything as multipolygons
+function asMultiPolygon(feature: GeoJSON.Feature): GeoJSON.Feature {
+  const geometry = feature.geometry;
+  return geometry.type === "Polygon"
+    ? {
+        ...feature,
+        geometry: { type: "MultiPolygon", coordinates: [geometry.coordinates] },
+      }
+    : feature;
+}
+
+// DBF keeps 10 characters of each field name; product fields get short
+// names that the importer reads back
+function dbfProperties(
+  properties: GeoJSON.GeoJsonProperties
+): GeoJSON.GeoJsonProperties {
+  return Object.fromEntries(
+    Object.entries(properties ?? {}).map(([key, value]) => [
+      PRODUCT_DBF_FIELDS[key] ?? key,
+      value,
+    ])
+  );
+}
+
+// Zipped .shp/.shx/.dbf/.prj in WGS84
+export function toShapefile(regions: Region[]): Promise<ArrayBuffer> {
+  const fc = toFeatureCollection(regions);
+  return zip<"arraybuffer">(
+    {
+      ...fc,
+      features: fc.features.map((f) =>
+        asMultiPolygon({ ...f, properties: dbfProperties(f.properties) })
+      ),
+    },
+    {
+      outputType: "arraybuffer",
+      compression: "DEFLATE",
+      types: { polygon: "aois" },
+    }
+  );
+}
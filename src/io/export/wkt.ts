@@ -0,0 +1,13 @@
+// io/export/wkt.ts
+import wellknown from "wellknown";
+import type { GeoJSONGeometry } from "wellknown";
+import type { Region } from "../../types";
+
+export function geometryToWKT(geometry: GeoJSON.Geometry): string {
+  return wellknown.stringify(geometry as GeoJSONGeometry);
+}
+
+// One geometry per line, matching what the WKT importer reads
+export function toWKT(regions: Region[]): string {
+  return regions.map((r) => geometryToWKT(r.geojson.geometry)).join("\n");
+}
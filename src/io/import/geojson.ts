@@ -0,0 +1,29 @@
+// io/import/geojson.ts
+import { parseCrs, reprojectToWgs84 } from "./reproject";
+
+type GeoJSONWithCrs = GeoJSON.GeoJSON & {
+  crs?: { type?: string; properties?: { name?: string } };
+};
+
+// Accepts a FeatureCollection, a single Feature or a bare geometry. Files with
+// a legacy (2008 spec) `crs` member are reprojected to WGS84.
+export function parseGeoJSON(text: string): GeoJSON.FeatureCollection {
+  const data = JSON.parse(text) as GeoJSONWithCrs;
+  let fc: GeoJSON.FeatureCollection;
+
+  if (data.type === "FeatureCollection") {
+    fc = data;
+  } else if (data.type === "Feature") {
+    fc = { type: "FeatureCollection", features: [data] };
+  } else if (data.type) {
+    fc = {
+      type: "FeatureCollection",
+      features: [{ type: "Feature", properties: {}, geometry: data }],
+    };
+  } else {
+    throw new Error("Not a GeoJSON object");
+  }
+
+  const crsName = data.crs?.properties?.name;
+  return crsName ? reprojectToWgs84(fc, parseCrs(crsName)) : fc;
+}
@@ -0,0 +1,22 @@
+// io/import/gpx.ts
+import { gpx } from "@tmcw/togeojson";
+import { parseXml } from "./xml";
+
+// GPX has no polygons, so closed tracks and routes are read as AOI outlines
+function closeRing(feature: GeoJSON.Feature): GeoJSON.Feature {
+  const geom = feature.geometry;
+  if (geom?.type !== "LineString" || geom.coordinates.length < 4)
+    return feature;
+  const first = geom.coordinates[0];
+  const last = geom.coordinates[geom.coordinates.length - 1];
+  if (first[0] !== last[0] || first[1] !== last[1]) return feature;
+  return {
+    ...feature,
+    geometry: { type: "Polygon", coordinates: [geom.coordinates] },
+  };
+}
+
+export function parseGPX(text: string): GeoJSON.FeatureCollection {
+  const fc = gpx(parseXml(text)) as GeoJSON.FeatureCollection;
+  return { ...fc, features: fc.features.map(closeRing) };
+}
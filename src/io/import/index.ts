@@ -0,0 +1,149 @@
+// io/import/index.ts
+import type { Region } from "../../types";
+import { createRegion } from "../../utils/region";
+import { validateOrRepair } from "../../utils/validation";
+import { parseGeoJSON } from "./geojson";
+import { parseKML } from "./kml";
+import { parseGPX } from "./gpx";
+import { parseWKT } from "./wkt";
+import { parseShapefile } from "./shapefile";
+
+export interface ImportIssue {
+  file: string;
+  feature?: string;
+  reason: string;
+}
+
+export interface ImportResult {
+  regions: Region[];
+  issues: ImportIssue[];
+}
+
+type Parser = (file: File) => Promise<GeoJSON.FeatureCollection>;
+
+const PARSERS: Record<string, Parser> = {
+  geojson: async (f) => parseGeoJSON(await f.text()),
+  json: async (f) => parseGeoJSON(await f.text()),
+  kml: async (f) => parseKML(await f.text()),
+  gpx: async (f) => parseGPX(await f.text()),
+  wkt: async (f) => parseWKT(await f.text()),
+  txt: async (f) => parseWKT(await f.text()),
+  zip: async (f) => parseShapefile(await f.arrayBuffer()),
+};
+
+export const IMPORT_ACCEPT = Object.keys(PARSERS)
+  .map((ext) => `.${ext}`)
+  .join(",");
+
+// Attribute names commonly used for a feature's label, in priority order
+const NAME_KEYS = ["name", "title", "label", "id"];
+
+function featureName(feature: GeoJSON.Feature): string | undefined {
+  const props = feature.properties ?? {};
+  for (const key of NAME_KEYS) {
+    const match = Object.keys(props).find((k) => k.toLowerCase() === key);
+    const value = match ? props[match] : undefined;
+    if (value !== undefined && value !== null && String(value).trim()) {
+      return String(value).trim();
+    }
+  }
+  return undefined;
+}
+
+// GeometryCollections are reduced to their polygonal members
+function polygonalGeometry(
+  geometry: GeoJSON.Geometry | null
+): GeoJSON.Polygon | GeoJSON.MultiPolygon | null {
+  if (!geometry) return null;
+  if (geometry.type === "Polygon" || geometry.type === "MultiPolygon")
+    return geometry;
+  if (geometry.type === "GeometryCollection") {
+    const polygons = geometry.geometries.flatMap((g) => {
+      const p = polygonalGeometry(g);
+      if (!p) return [];
+      return p.type === "Polygon" ? [p.coordinates] : p.coordinates;
+    });
+    if (polygons.length === 0) return null;
+    return polygons.length === 1
+      ? { type: "Polygon", coordinates: polygons[0] }
+      : { type: "MultiPolygon", coordinates: polygons };
+  }
+  return null;
+}
+
+// Every polygonal feature becomes its own region
+export function featuresToRegions(
+  fc: GeoJSON.FeatureCollection,
+  fileName: string
+): ImportResult {
+  const base = fileName.replace(/\.[^.]+$/, "");
+  const regions: Region[] = [];
+  const issues: ImportIssue[] = [];
+
+  fc.features.forEach((feature, i) => {
+    const name = featureName(feature) ?? `${base} #${i + 1}`;
+    const geometry = polygonalGeometry(feature.geometry);
+    if (!geometry) {
+      issues.push({
+        file: fileName,
+        feature: name,
+        reason: feature.geometry
+          ? `${feature.geometry.type} is not an area`
+          : "Feature has no geometry",
+      });
+      return;
+    }
+
+    const checked = validateOrRepair({ ...feature, geometry });
+    const errors = checked.issues
+      .filter((issue) => issue.severity === "error")
+      .map((issue) => issue.message)
+      .join("; ");
+    if (!checked.feature) {
+      issues.push({ file: fileName, feature: name, reason: errors });
+      return;
+    }
+    if (checked.repaired) {
+      issues.push({
+        file: fileName,
+        feature: name,
+        reason: `Repaired (${errors})`,
+      });
+    }
+    regions.push(createRegion(checked.feature, name));
+  });
+
+  return { regions, issues };
+}
+
+export async function importFile(file: File): Promise<ImportResult> {
+  const ext = file.name.split(".").pop()?.toLowerCase() ?? "";
+  const parser = PARSERS[ext];
+  if (!parser) {
+    return {
+      regions: [],
+      issues: [{ file: file.name, reason: `Unsupported file type .${ext}` }],
+    };
+  }
+  try {
+    return featuresToRegions(await parser(file), file.name);
+  } catch (err) {
+    return {
+      regions: [],
+      issues: [
+        {
+          file: file.name,
+          reason: err instanceof Error ? err.message : "Could not be read",
+        },
+      ],
+    };
+  }
+}
+
+export async function importFiles(files: File[]): Promise<ImportResult> {
+  const results = await Promise.all(files.map(importFile));
+  return {
+    regions: results.flatMap((r) => r.regions),
+    issues: results.flatMap((r) => r.issues),
+  };
+}
@@ -0,0 +1,7 @@
+// io/import/kml.ts
+import { kml } from "@tmcw/togeojson";
+import { parseXml } from "./xml";
+
+export function parseKML(text: string): GeoJSON.FeatureCollection {
+  return kml(parseXml(text)) as GeoJSON.FeatureCollection;
+}
@@ -0,0 +1,46 @@
+// io/import/reproject.ts
+import proj4 from "proj4";
+import { coordEach } from "@turf/turf";
+
+const WGS84 = "EPSG:4326";
+
+// proj4 ships WGS84 and Web Mercator; UTM zones are generated on demand
+function resolveEpsg(code: number): string | undefined {
+  const name = `EPSG:${code}`;
+  if (proj4.defs(name)) return name;
+  const zone = code % 100;
+  if (zone >= 1 && zone <= 60) {
+    if (code - zone === 32600) return `+proj=utm +zone=${zone} +datum=WGS84`;
+    if (code - zone === 32700)
+      return `+proj=utm +zone=${zone} +south +datum=WGS84`;
+  }
+  return undefined;
+}
+
+// Accepts "EPSG:3857", "urn:ogc:def:crs:EPSG::3857", "3857", …
+export function parseCrs(crs: string): string {
+  if (/CRS84$/i.test(crs)) return WGS84;
+  const match = /(?:EPSG:{1,2})?(\d{4,5})$/i.exec(crs.trim());
+  const def = match ? resolveEpsg(Number(match[1])) : undefined;
+  if (!def) throw new Error(`Unsupported coordinate system ${crs}`);
+  return def;
+}
+
+export function isWgs84(crs: string) {
+  return crs === WGS84;
+}
+
+// Reprojects every coordinate of the collection to WGS84 in place
+export function reprojectToWgs84(
+  fc: GeoJSON.FeatureCollection,
+  fromCrs: string
+): GeoJSON.FeatureCollection {
+  if (isWgs84(fromCrs)) return fc;
+  const transform = proj4(fromCrs, WGS84);
+  coordEach(fc, (coord) => {
+    const [x, y] = transform.forward([coord[0], coord[1]]);
+    coord[0] = x;
+    coord[1] = y;
+  });
+  return fc;
+}
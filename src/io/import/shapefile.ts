@@ -0,0 +1,14 @@
+// io/import/shapefile.ts
+import shp from "shpjs";
+
+// Zipped shapefile(s); shpjs reprojects from the .prj when one is present
+export async function parseShapefile(
+  buffer: ArrayBuffer
+): Promise<GeoJSON.FeatureCollection> {
+  const parsed = await shp(buffer);
+  const collections = Array.isArray(parsed) ? parsed : [parsed];
+  return {
+    type: "FeatureCollection",
+    features: collections.flatMap((c) => c.features),
+  };
+}
@@ -0,0 +1,26 @@
+// io/import/wkt.ts
+import wellknown from "wellknown";
+import { parseCrs, reprojectToWgs84 } from "./reproject";
+
+// One geometry per line; EWKT `SRID=…;` prefixes are honoured
+export function parseWKT(text: string): GeoJSON.FeatureCollection {
+  const features: GeoJSON.Feature[] = [];
+  const lines = text.split(/\r?\n/).filter((l) => l.trim());
+
+  lines.forEach((line, i) => {
+    const srid = /^\s*SRID=(\d+);/i.exec(line)?.[1];
+    const geometry = wellknown.parse(line) as GeoJSON.Geometry | null;
+    if (!geometry) throw new Error(`Line ${i + 1} is not valid WKT`);
+    // wellknown tags EWKT geometries with a legacy `crs` member
+    delete (geometry as { crs?: unknown }).crs;
+    const fc: GeoJSON.FeatureCollection = {
+      type: "FeatureCollection",
+      features: [{ type: "Feature", properties: {}, geometry }],
+    };
+    features.push(
+      ...(srid ? reprojectToWgs84(fc, parseCrs(srid)) : fc).features
+    );
+  });
+
+  return { type: "FeatureCollection", features };
+}
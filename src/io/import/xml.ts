@@ -0,0 +1,8 @@
+// io/import/xml.ts
+export function parseXml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.querySelector("parsererror")) {
+    throw new Error("Malformed XML");
+  }
+  return doc;
+}
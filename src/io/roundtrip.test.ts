@@ -0,0 +1,133 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import type { ProductOptions, Region } from "../types";
+import { toCSV } from "./export/csv";
+import { toGeoJSON } from "./export/geojson";
+import { toKML } from "./export/kml";
+import { toShapefile } from "./export/shapefile";
+import { toWKT } from "./export/wkt";
+import { featuresToRegions } from "./import";
+import { parseGeoJSON } from "./import/geojson";
+import { parseKML } from "./import/kml";
+import { parseShapefile } from "./import/shapefile";
+import { parseWKT } from "./import/wkt";
+import { areaKm2 } from "../utils/geometry";
+import { boxRegion } from "../test/regions";
+
+const product: ProductOptions = {
+  mode: "tasking",
+  sensor: "vhr-optical",
+  resolutionTier: "0.5m",
+  processingLevel: "pansharpened",
+  bands: ["pan", "red", "nir"],
+  acquisitionStart: "2026-11-01",
+  acquisitionEnd: "2026-12-15",
+  maxCloudCover: 35,
+};
+
+const holed = boxRegion("holed", [10, 10, 11, 11], {
+  name: 'Field "North", & co <1>',
+  product,
+  notes: "gate code 4412\nask for Sam",
+});
+(holed.geojson.geometry as GeoJSON.Polygon).coordinates.push([
+  [10.2, 10.2],
+  [10.2, 10.4],
+  [10.4, 10.4],
+  [10.4, 10.2],
+  [10.2, 10.2],
+]);
+
+const multi: Region = {
+  ...boxRegion("multi", [20, 0, 20.5, 0.5]),
+  geojson: {
+    type: "Feature",
+    properties: {},
+    geometry: {
+      type: "MultiPolygon",
+      coordinates: [
+        [
+          [
+            [20, 0],
+            [20.5, 0],
+            [20.5, 0.5],
+            [20, 0.5],
+            [20, 0],
+          ],
+        ],
+        [
+          [
+            [21, 0],
+            [21.5, 0],
+            [21.5, 0.5],
+            [21, 0.5],
+            [21, 0],
+          ],
+        ],
+      ],
+    },
+  },
+};
+
+const regions = [holed, multi];
+
+function reimport(fc: GeoJSON.FeatureCollection, fileName: string) {
+  const { regions: imported, issues } = featuresToRegions(fc, fileName);
+  expect(issues).toEqual([]);
+  return imported;
+}
+
+describe("export → import round trips", () => {
+  it("GeoJSON keeps geometry, name, product and notes", () => {
+    const back = reimport(parseGeoJSON(toGeoJSON(regions)), "cart.geojson");
+    expect(back.map((r) => r.geojson.geometry)).toEqual(
+      regions.map((r) => r.geojson.geometry)
+    );
+    expect(back[0].name).toBe(holed.name);
+    expect(back[0].product).toEqual(product);
+    expect(back[0].geojson.properties?.notes).toBe(holed.notes);
+  });
+
+  it("KML keeps geometry, name and product", () => {
+    const back = reimport(parseKML(toKML(regions)), "cart.kml");
+    expect(back.map((r) => r.geojson.geometry)).toEqual(
+      regions.map((r) => r.geojson.geometry)
+    );
+    expect(back.map((r) => r.name)).toEqual([holed.name, "multi"]);
+    expect(back[0].product).toEqual(product);
+  });
+
+  it("Shapefile keeps geometry, name and product despite short DBF names", async () => {
+    const back = reimport(
+      await parseShapefile(await toShapefile(regions)),
+      "cart.zip"
+    );
+    expect(back.map((r) => r.name)).toEqual([holed.name, "multi"]);
+    expect(back[0].product).toEqual(product);
+    // Ring order and winding may change, the ground covered may not
+    expect(back.map((r) => areaKm2(r.geojson))).toEqual(
+      regions.map((r) => expect.closeTo(areaKm2(r.geojson), 6))
+    );
+    // Product attributes don't linger as plain properties
+    expect(back[0].geojson.properties).not.toHaveProperty("p_sensor");
+  });
+
+  it("WKT keeps geometry", () => {
+    const back = reimport(parseWKT(toWKT(regions)), "cart.wkt");
+    expect(back.map((r) => r.geojson.geometry)).toEqual(
+      regions.map((r) => r.geojson.geometry)
+    );
+  });
+
+  it("CSV quotes awkward fields and keeps readable WKT", () => {
+    const [header, ...rows] = toCSV([holed]).split("\r\n");
+    expect(header.split(",")).toContain("wkt");
+    const row = rows.join("\r\n");
+    expect(row).toContain('"Field ""North"", & co <1>"');
+    expect(row).toContain('"gate code 4412\nask for Sam"');
+    const wkt = /"(POLYGON \(\(.*\)\))"$/.exec(row)?.[1];
+    expect(parseWKT(wkt ?? "").features[0].geometry).toEqual(
+      holed.geojson.geometry
+    );
+  });
+});
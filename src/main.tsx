@@ -2,6 +2,7 @@ import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
 import "./index.css";
 import App from "./App.tsx";
+import { registerTileCache } from "./utils/offlineTiles";
 // fix Leaflet marker icons in bundlers (Vite)
 import L from "leaflet";
 import iconUrl from "leaflet/dist/images/marker-icon.png";
@@ -16,8 +17,20 @@ L.Marker.prototype.options.icon = L.icon({
   iconAnchor: [12, 41],
 });
 
-createRoot(document.getElementById("root")!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>
+// Serve the APIs from MSW when running without real backends
+async function enableMocks() {
+  if (import.meta.env.VITE_USE_MOCKS !== "true") return;
+  const { worker } = await import("./mocks/browser");
+  await worker.start({ onUnhandledRequest: "bypass" });
+}
+
+enableMocks().then(() =>
+  createRoot(document.getElementById("root")!).render(
+    <StrictMode>
+      <App />
+    </StrictMode>
+  )
 );
+
+// Map tiles and the app itself stay available offline, see public/sw.js
+registerTileCache();
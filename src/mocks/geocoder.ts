@@ -0,0 +1,66 @@
+// mocks/geocoder.ts
+// Offline geocoder over a small built-in gazetteer, for development without
+// network access and for keeping load off Nominatim
+import { bboxPolygon, distance } from "@turf/turf";
+import type { Geocoder, GeocodeResult } from "../api/geocoder";
+
+type Place = [name: string, bbox: [number, number, number, number]];
+
+const GAZETTEER: Place[] = [
+  ["Amsterdam, North Holland, Netherlands", [4.73, 52.28, 5.07, 52.43]],
+  ["Berlin, Germany", [13.09, 52.34, 13.76, 52.68]],
+  ["Cairo, Egypt", [31.13, 29.93, 31.46, 30.18]],
+  ["Cape Town, Western Cape, South Africa", [18.31, -34.36, 18.72, -33.81]],
+  ["Denver, Colorado, United States", [-105.11, 39.61, -104.6, 39.91]],
+  ["Lyon, Auvergne-Rhône-Alpes, France", [4.77, 45.71, 4.9, 45.81]],
+  ["Nairobi, Kenya", [36.66, -1.44, 37.1, -1.16]],
+  ["Reykjavík, Iceland", [-21.98, 64.08, -21.7, 64.17]],
+  ["São Paulo, Brazil", [-46.83, -24.01, -46.36, -23.36]],
+  ["Singapore", [103.6, 1.2, 104.09, 1.47]],
+  ["Sydney, New South Wales, Australia", [150.52, -34.12, 151.34, -33.58]],
+  ["Tokyo, Japan", [139.56, 35.52, 139.92, 35.82]],
+];
+
+function toResult([name, bbox]: Place, index: number): GeocodeResult {
+  const [west, south, east, north] = bbox;
+  return {
+    id: `offline:${index}`,
+    label: name,
+    lat: (south + north) / 2,
+    lng: (west + east) / 2,
+    bbox,
+    boundary: bboxPolygon(bbox).geometry,
+  };
+}
+
+const normalize = (s: string) =>
+  s
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+
+// Reverse lookups further than this from any place fall back to coordinates
+const MAX_REVERSE_KM = 50;
+
+export function createMockGeocoder(): Geocoder {
+  const places = GAZETTEER.map(toResult);
+  return {
+    async search(query) {
+      const q = normalize(query.trim());
+      if (!q) return [];
+      return places.filter((p) => normalize(p.label).includes(q));
+    },
+    async reverse(lat, lng) {
+      let nearest: GeocodeResult | null = null;
+      let best = MAX_REVERSE_KM;
+      for (const p of places) {
+        const km = distance([lng, lat], [p.lng, p.lat]);
+        if (km <= best) {
+          best = km;
+          nearest = p;
+        }
+      }
+      return nearest;
+    },
+  };
+}
@@ -0,0 +1,41 @@
+// mocks/handlers.ts
+import { http, HttpResponse } from "msw";
+import type { OrderRequest } from "../api/orders";
+import { API_BASE_URL } from "../config/checkout";
+import { STAC_API_URL } from "../config/stac";
+import { mockCreateOrder, mockGetOrder } from "./orders";
+import { mockCreateLink, mockGetLink } from "./shortLinks";
+import { mockSearch } from "./stac";
+
+export const handlers = [
+  http.post(`${STAC_API_URL}/search`, async ({ request }) => {
+    const body = (await request.json()) as Record<string, unknown>;
+    return HttpResponse.json(mockSearch(body, request.url), {
+      headers: { "Content-Type": "application/geo+json" },
+    });
+  }),
+
+  http.post(`${API_BASE_URL}/orders`, async ({ request }) => {
+    const body = (await request.json()) as OrderRequest;
+    const result = mockCreateOrder(
+      body,
+      request.headers.get("Idempotency-Key")
+    );
+    return HttpResponse.json(result.body, { status: result.status });
+  }),
+
+  http.get(`${API_BASE_URL}/orders/:id`, ({ params }) => {
+    const result = mockGetOrder(String(params.id));
+    return HttpResponse.json(result.body, { status: result.status });
+  }),
+
+  http.post(`${API_BASE_URL}/links`, async ({ request }) => {
+    const result = mockCreateLink((await request.json()) as { data?: unknown });
+    return HttpResponse.json(result.body, { status: result.status });
+  }),
+
+  http.get(`${API_BASE_URL}/links/:id`, ({ params }) => {
+    const result = mockGetLink(String(params.id));
+    return HttpResponse.json(result.body, { status: result.status });
+  }),
+];
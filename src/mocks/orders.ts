@@ -0,0 +1,131 @@
+// mocks/orders.ts
+// In-memory orders backend: validates submissions, replays idempotent
+// retries and advances each order's status as time passes
+import type { Order, OrderRequest, OrderStatus } from "../api/orders";
+import { validateCustomer } from "../utils/checkout";
+
+// Seconds after creation at which an order reaches each status
+const STATUS_TIMELINE: [number, OrderStatus][] = [
+  [0, "received"],
+  [10, "processing"],
+  [25, "scheduled"],
+  [45, "delivered"],
+];
+
+const STATUS_MESSAGES: Partial<Record<OrderStatus, string>> = {
+  received: "Order received, awaiting review",
+  processing: "Preparing imagery",
+  scheduled: "Delivery scheduled",
+  delivered: "Download links sent by email",
+};
+
+interface StoredOrder {
+  order: Order;
+  payload: string;
+  createdMs: number;
+}
+
+const orders = new Map<string, StoredOrder>();
+const byIdempotencyKey = new Map<string, string>();
+let sequence = 0;
+
+export type MockResult =
+  | { status: 200 | 201; body: Order }
+  | {
+      status: 404 | 409 | 422;
+      body: { error: { message: string; fields?: Record<string, string> } };
+    };
+
+function validateOrder(order: OrderRequest): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const [key, message] of Object.entries(
+    validateCustomer(order.customer)
+  )) {
+    fields[`customer.${key}`] = message;
+  }
+  if (!order.items?.length) fields.items = "The order has no items";
+  order.items?.forEach((item, i) => {
+    if (!item.geometry) fields[`items.${i}.geometry`] = "Missing geometry";
+  });
+  const itemsTotal = (order.items ?? []).reduce((t, i) => t + i.subtotal, 0);
+  if (Math.abs(itemsTotal - order.discount - order.quotedTotal) > 0.01)
+    fields.quotedTotal = "The quoted total doesn't match the line items";
+  if (!order.termsVersion) fields.termsVersion = "Terms must be accepted";
+  return fields;
+}
+
+function withCurrentStatus(stored: StoredOrder, now: number): Order {
+  const elapsed = (now - stored.createdMs) / 1000;
+  let reached = STATUS_TIMELINE[0];
+  for (const step of STATUS_TIMELINE) if (elapsed >= step[0]) reached = step;
+  const [offset, status] = reached;
+  if (status !== stored.order.status) {
+    stored.order = {
+      ...stored.order,
+      status,
+      statusMessage: STATUS_MESSAGES[status],
+      updatedAt: new Date(stored.createdMs + offset * 1000).toISOString(),
+    };
+  }
+  return stored.order;
+}
+
+export function mockCreateOrder(
+  body: OrderRequest,
+  idempotencyKey: string | null,
+  now = Date.now()
+): MockResult {
+  const payload = JSON.stringify(body);
+  const existingId = idempotencyKey && byIdempotencyKey.get(idempotencyKey);
+  if (existingId) {
+    const stored = orders.get(existingId)!;
+    if (stored.payload !== payload) {
+      return {
+        status: 409,
+        body: {
+          error: {
+            message:
+              "This idempotency key was already used for a different order",
+          },
+        },
+      };
+    }
+    return { status: 200, body: withCurrentStatus(stored, now) };
+  }
+
+  const fields = validateOrder(body);
+  if (Object.keys(fields).length > 0) {
+    return {
+      status: 422,
+      body: { error: { message: "The order has invalid details", fields } },
+    };
+  }
+
+  const id = `ORD-${String(++sequence).padStart(5, "0")}`;
+  const createdAt = new Date(now).toISOString();
+  const stored: StoredOrder = {
+    order: {
+      id,
+      status: "received",
+      createdAt,
+      updatedAt: createdAt,
+      currency: body.currency,
+      total: body.quotedTotal,
+      itemCount: body.items.length,
+      statusMessage: STATUS_MESSAGES.received,
+    },
+    payload,
+    createdMs: now,
+  };
+  orders.set(id, stored);
+  if (idempotencyKey) byIdempotencyKey.set(idempotencyKey, id);
+  return { status: 201, body: stored.order };
+}
+
+export function mockGetOrder(id: string, now = Date.now()): MockResult {
+  const stored = orders.get(id);
+  if (!stored) {
+    return { status: 404, body: { error: { message: `No order ${id}` } } };
+  }
+  return { status: 200, body: withCurrentStatus(stored, now) };
+}
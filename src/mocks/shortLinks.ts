@@ -0,0 +1,48 @@
+// mocks/shortLinks.ts
+// In-memory short-link backend; ids are derived from the payload so saving
+// the same cart twice gives the same link
+
+export type MockResult =
+  | { status: 200 | 201; body: { id: string; data: string } }
+  | {
+      status: 404 | 422;
+      body: { error: { message: string; fields?: Record<string, string> } };
+    };
+
+const links = new Map<string, string>();
+
+function shortId(data: string): string {
+  // FNV-1a, plenty for an in-memory mock
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < data.length; i++) {
+    hash ^= data.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+export function mockCreateLink(body: { data?: unknown }): MockResult {
+  if (typeof body?.data !== "string" || !body.data) {
+    return {
+      status: 422,
+      body: {
+        error: { message: "Nothing to store", fields: { data: "Required" } },
+      },
+    };
+  }
+  const id = shortId(body.data);
+  const existed = links.has(id);
+  links.set(id, body.data);
+  return { status: existed ? 200 : 201, body: { id, data: body.data } };
+}
+
+export function mockGetLink(id: string): MockResult {
+  const data = links.get(id);
+  if (data === undefined) {
+    return {
+      status: 404,
+      body: { error: { message: "This short link doesn't exist." } },
+    };
+  }
+  return { status: 200, body: { id, data } };
+}
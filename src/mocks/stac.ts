@@ -0,0 +1,158 @@
+// mocks/stac.ts
+// Deterministic fake STAC catalog: scenes on a fixed grid per collection,
+// revisiting at a fixed interval, with cloud cover derived from the scene id
+import { bbox, bboxPolygon, booleanIntersects } from "@turf/turf";
+import type { StacItem, StacItemCollection, StacLink } from "../api/stac";
+import { SCENE_LOOKBACK_DAYS, STAC_COLLECTIONS } from "../config/stac";
+
+interface MockCollection {
+  platform: string;
+  revisitDays: number;
+  tileDegrees: number;
+}
+
+const MOCK_COLLECTIONS: Record<string, MockCollection> = {
+  "sentinel-2-l2a": { platform: "sentinel-2a", revisitDays: 5, tileDegrees: 1 },
+  "landsat-c2-l2": { platform: "landsat-9", revisitDays: 8, tileDegrees: 1.8 },
+  naip: { platform: "naip", revisitDays: 365, tileDegrees: 0.0625 },
+};
+
+// Keeps huge AOIs or date ranges from generating unbounded results
+const MAX_TILES_PER_AXIS = 4;
+const MAX_ITEMS = 2000;
+const DAY_MS = 86_400_000;
+
+// Stable pseudo-random number in [0, 1) for a string (FNV-1a)
+function hash(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0) / 2 ** 32;
+}
+
+function parseInterval(datetime: unknown): [number, number] {
+  const now = Date.now();
+  const [start, end] =
+    typeof datetime === "string" ? datetime.split("/") : ["..", ".."];
+  const to = end && end !== ".." ? Date.parse(end) : now;
+  const from =
+    start && start !== ".."
+      ? Date.parse(start)
+      : to - SCENE_LOOKBACK_DAYS * DAY_MS;
+  return [from, Math.min(to, now)];
+}
+
+function thumbnail(cloudCover: number): string {
+  const shade = Math.round(90 + cloudCover * 1.6);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64"><rect width="64" height="64" fill="#3f6b3a"/><rect width="64" height="64" fill="rgb(${shade},${shade},${shade})" fill-opacity="${
+    cloudCover / 100
+  }"/></svg>`;
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+}
+
+function gridTiles(geometry: GeoJSON.Geometry, size: number) {
+  const [west, south, east, north] = bbox(geometry);
+  const x0 = Math.floor(west / size);
+  const y0 = Math.floor(south / size);
+  const x1 = Math.min(Math.floor(east / size), x0 + MAX_TILES_PER_AXIS - 1);
+  const y1 = Math.min(Math.floor(north / size), y0 + MAX_TILES_PER_AXIS - 1);
+  const tiles: { key: string; polygon: GeoJSON.Polygon }[] = [];
+  for (let x = x0; x <= x1; x++) {
+    for (let y = y0; y <= y1; y++) {
+      const polygon = bboxPolygon([
+        x * size,
+        y * size,
+        (x + 1) * size,
+        (y + 1) * size,
+      ]).geometry;
+      if (booleanIntersects(polygon, geometry)) {
+        tiles.push({ key: `${x}_${y}`, polygon });
+      }
+    }
+  }
+  return tiles;
+}
+
+export function mockSearchItems(body: Record<string, unknown>): StacItem[] {
+  const geometry = body.intersects as GeoJSON.Geometry | undefined;
+  if (!geometry) return [];
+  const collections = (body.collections as string[] | undefined)?.length
+    ? (body.collections as string[])
+    : Object.keys(MOCK_COLLECTIONS);
+  const query = (body.query ?? {}) as Record<string, { lte?: number }>;
+  const maxCloud = query["eo:cloud_cover"]?.lte ?? 100;
+  const [from, to] = parseInterval(body.datetime);
+
+  const items: StacItem[] = [];
+  for (const collection of collections) {
+    const mock = MOCK_COLLECTIONS[collection];
+    const gsd = STAC_COLLECTIONS.find((c) => c.id === collection)?.gsd;
+    if (!mock) continue;
+    const tiles = gridTiles(geometry, mock.tileDegrees);
+    // Passes fall on multiples of the revisit interval since the epoch
+    const period = mock.revisitDays * DAY_MS;
+    for (let t = Math.floor(to / period) * period; t >= from; t -= period) {
+      const date = new Date(t + 10.5 * 3_600_000);
+      const stamp = date.toISOString().slice(0, 10).replace(/-/g, "");
+      for (const tile of tiles) {
+        const id = `${collection}_${tile.key}_${stamp}`;
+        const cloudCover = Math.round(hash(id) ** 2 * 1000) / 10;
+        if (cloudCover > maxCloud) continue;
+        items.push({
+          type: "Feature",
+          stac_version: "1.0.0",
+          id,
+          collection,
+          bbox: bbox(tile.polygon),
+          geometry: tile.polygon,
+          properties: {
+            datetime: date.toISOString(),
+            "eo:cloud_cover": cloudCover,
+            gsd,
+            platform: mock.platform,
+          },
+          assets: {
+            thumbnail: {
+              href: thumbnail(cloudCover),
+              type: "image/svg+xml",
+              roles: ["thumbnail"],
+            },
+          },
+        });
+        if (items.length >= MAX_ITEMS) break;
+      }
+    }
+  }
+  return items.sort((a, b) =>
+    (b.properties.datetime ?? "").localeCompare(a.properties.datetime ?? "")
+  );
+}
+
+// One page of results, paging with a numeric `token` in POST "next" links
+export function mockSearch(
+  body: Record<string, unknown>,
+  url: string
+): StacItemCollection {
+  const all = mockSearchItems(body);
+  const limit = Number(body.limit) || 10;
+  const offset = Number(body.token) || 0;
+  const links: StacLink[] = [];
+  if (offset + limit < all.length) {
+    links.push({
+      rel: "next",
+      href: url,
+      type: "application/geo+json",
+      method: "POST",
+      body: { token: String(offset + limit) },
+      merge: true,
+    });
+  }
+  return {
+    type: "FeatureCollection",
+    features: all.slice(offset, offset + limit),
+    links,
+    numberMatched: all.length,
+  };
+}
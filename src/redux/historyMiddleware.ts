@@ -0,0 +1,61 @@
+// historyMiddleware.ts
+import { isAnyOf } from "@reduxjs/toolkit";
+import type { Middleware } from "@reduxjs/toolkit";
+import type { CartState } from "./slices/cartSlice";
+import {
+  addRegion,
+  addRegions,
+  addScene,
+  clearCart,
+  clipRegionToUnique,
+  mergeRegions,
+  removeRegion,
+  removeRegions,
+  removeScene,
+  removeTile,
+  renameRegion,
+  replaceRegions,
+  setRegionGroup,
+  setRegionNotes,
+  setRegionTiles,
+  tagRegions,
+  untagRegions,
+  updateRegion,
+  updateRegionProduct,
+} from "./slices/cartSlice";
+import { recordHistory } from "./slices/historySlice";
+
+// Cart actions that can be undone; restoreRegions is deliberately absent
+const isTracked = isAnyOf(
+  addRegion,
+  addRegions,
+  removeRegion,
+  updateRegion,
+  clearCart,
+  mergeRegions,
+  clipRegionToUnique,
+  updateRegionProduct,
+  addScene,
+  removeScene,
+  replaceRegions,
+  setRegionTiles,
+  removeTile,
+  removeRegions,
+  renameRegion,
+  setRegionNotes,
+  tagRegions,
+  untagRegions,
+  setRegionGroup
+);
+
+// Snapshot the regions before each tracked action that actually changes them
+export const historyMiddleware: Middleware<object, { cart: CartState }> =
+  (api) => (next) => (action) => {
+    if (!isTracked(action)) return next(action);
+    const before = api.getState().cart.regions;
+    const result = next(action);
+    if (api.getState().cart.regions !== before) {
+      api.dispatch(recordHistory(before));
+    }
+    return result;
+  };
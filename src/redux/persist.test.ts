@@ -0,0 +1,119 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  CART_SCHEMA_VERSION,
+  loadCartState,
+  saveCartState,
+  upgradeRegions,
+} from "./persist";
+import { defaultProduct } from "../utils/products";
+import { PRODUCT_CATALOG } from "../config/products";
+import { boxFeature, boxRegion } from "../test/regions";
+
+const STORAGE_KEY = "data-sales:cart";
+
+const store = (value: unknown) =>
+  localStorage.setItem(
+    STORAGE_KEY,
+    typeof value === "string" ? value : JSON.stringify(value)
+  );
+
+const envelope = (version: number, regions: unknown[]) => ({
+  version,
+  savedAt: "2025-01-01T00:00:00.000Z",
+  state: { regions },
+});
+
+const product = defaultProduct(PRODUCT_CATALOG);
+// Default acquisition windows move with the date
+const anyWindow = {
+  ...product,
+  acquisitionStart: expect.any(String),
+  acquisitionEnd: expect.any(String),
+};
+// The first builds saved regions with only these
+const early = { id: "a", name: "Farm", geojson: boxFeature(0, 0, 2, 2) };
+
+afterEach(() => {
+  localStorage.clear();
+  vi.restoreAllMocks();
+});
+
+describe("loadCartState", () => {
+  it("has nothing to load from empty storage", () => {
+    expect(loadCartState()).toBeUndefined();
+  });
+
+  it("upgrades unversioned carts, dropping unusable regions", () => {
+    store({
+      regions: [
+        early,
+        { id: "b" },
+        null,
+        { ...early, id: "c", name: undefined },
+      ],
+    });
+    const { regions } = loadCartState()!;
+    expect(regions.map((r) => r.id)).toEqual(["a", "c"]);
+    expect(regions[0]).toMatchObject({
+      name: "Farm",
+      center: [1, 1],
+      product: anyWindow,
+    });
+    expect(regions[1].name).toBe("Unnamed region");
+  });
+
+  it("gives v1 regions product options", () => {
+    store(envelope(1, [{ ...early, center: [1, 1] }]));
+    expect(loadCartState()!.regions[0].product).toEqual(anyWindow);
+  });
+
+  it("keeps the options of regions that have them", () => {
+    const own = { ...product, maxCloudCover: 5 };
+    store(envelope(1, [{ ...early, center: [1, 1], product: own }]));
+    expect(loadCartState()!.regions[0].product).toEqual(own);
+  });
+
+  it("reads back what it saved", () => {
+    const regions = [boxRegion("a", [0, 0, 1, 1], { product })];
+    saveCartState({ regions });
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY)!);
+    expect(stored.version).toBe(CART_SCHEMA_VERSION);
+    expect(loadCartState()).toEqual({ regions });
+  });
+
+  it("ignores carts saved by a newer version", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    store(envelope(CART_SCHEMA_VERSION + 1, [early]));
+    expect(loadCartState()).toBeUndefined();
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  it("ignores corrupt data", () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    store("{not json");
+    expect(loadCartState()).toBeUndefined();
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it("starts empty when the envelope has no regions", () => {
+    store({ version: 1, savedAt: "" });
+    expect(loadCartState()).toEqual({ regions: [] });
+  });
+});
+
+describe("upgradeRegions", () => {
+  it("brings regions saved in a project up to date", () => {
+    const [region] = upgradeRegions([early], 0);
+    expect(region).toMatchObject({
+      id: "a",
+      center: [1, 1],
+      product: anyWindow,
+    });
+  });
+
+  it("leaves current regions alone", () => {
+    const regions = [boxRegion("a", [0, 0, 1, 1], { product })];
+    expect(upgradeRegions(regions, CART_SCHEMA_VERSION)).toBe(regions);
+  });
+});
@@ -0,0 +1,225 @@
+// persist.ts
+import type { Region } from "../types";
+import type { CartState } from "./slices/cartSlice";
+import type { LayersState } from "./slices/layersSlice";
+import type { QueuedJob } from "./slices/offlineSlice";
+import type { RestrictedZone } from "../utils/rules";
+import { regionCenter } from "../utils/geometry";
+import { defaultProduct } from "../utils/products";
+import { PRODUCT_CATALOG } from "../config/products";
+
+const STORAGE_KEY = "data-sales:cart";
+
+// Bump this and add a migration below whenever the saved cart shape changes
+export const CART_SCHEMA_VERSION = 2;
+
+// The parts of the cart that survive reloads (selection is session-only).
+// Add new cart fields here to have them saved.
+const PERSISTED_KEYS = ["regions"] as const;
+
+export type PersistedCart = Pick<CartState, (typeof PERSISTED_KEYS)[number]>;
+
+export function pickPersistedCart(cart: CartState): PersistedCart {
+  const picked = {} as PersistedCart;
+  for (const key of PERSISTED_KEYS) picked[key] = cart[key];
+  return picked;
+}
+
+// Reference comparison is enough since the slice state is immutable
+export function persistedCartChanged(a: CartState, b: CartState) {
+  return PERSISTED_KEYS.some((key) => a[key] !== b[key]);
+}
+
+interface StoredCart {
+  version: number;
+  savedAt: string;
+  state: PersistedCart;
+}
+
+type Migration = (state: Record<string, unknown>) => Record<string, unknown>;
+
+// migrations[n] upgrades a version n-1 payload to version n
+const migrations: Record<number, Migration> = {
+  // v0 → v1: early builds saved regions without a `center`
+  1: (state) => {
+    const regions = Array.isArray(state.regions) ? state.regions : [];
+    return {
+      ...state,
+      regions: regions
+        .filter((r: Partial<Region>) => r && r.id && r.geojson)
+        .map((r: Partial<Region>) => ({
+          ...r,
+          name: r.name ?? "Unnamed region",
+          center: r.center ?? regionCenter(r.geojson!),
+        })),
+    };
+  },
+  // v1 → v2: regions gained product options
+  2: (state) => ({
+    ...state,
+    regions: (Array.isArray(state.regions) ? state.regions : []).map(
+      (r: Region) => ({
+        ...r,
+        product: r.product ?? defaultProduct(PRODUCT_CATALOG),
+      })
+    ),
+  }),
+};
+
+function migrate(
+  state: Record<string, unknown>,
+  fromVersion: number
+): PersistedCart {
+  let current = state;
+  for (let v = fromVersion + 1; v <= CART_SCHEMA_VERSION; v++) {
+    const step = migrations[v];
+    if (step) current = step(current);
+  }
+  return current as unknown as PersistedCart;
+}
+
+// Bring regions saved under an older schema (e.g. in a project) up to date
+export function upgradeRegions(regions: unknown, fromVersion: number) {
+  return migrate({ regions }, fromVersion).regions;
+}
+
+// Read the saved cart, upgrading older schemas. Returns undefined when there
+// is nothing usable so the slice falls back to its own initial state.
+export function loadCartState(): PersistedCart | undefined {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return undefined;
+    const parsed = JSON.parse(raw);
+
+    // Unversioned payloads predate the envelope and are treated as v0
+    const stored: StoredCart =
+      typeof parsed?.version === "number"
+        ? parsed
+        : { version: 0, savedAt: "", state: parsed };
+
+    if (stored.version > CART_SCHEMA_VERSION) {
+      console.warn(
+        `Saved cart is schema v${stored.version}, newer than supported v${CART_SCHEMA_VERSION}; ignoring it`
+      );
+      return undefined;
+    }
+    return migrate(stored.state ?? {}, stored.version);
+  } catch (err) {
+    console.error("Failed to load saved cart:", err);
+    return undefined;
+  }
+}
+
+export function saveCartState(state: PersistedCart) {
+  try {
+    const stored: StoredCart = {
+      version: CART_SCHEMA_VERSION,
+      savedAt: new Date().toISOString(),
+      state,
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (err) {
+    // Quota exceeded or storage disabled (private mode)
+    console.error("Failed to save cart:", err);
+  }
+}
+
+// Basemap and overlay choices are a display preference, kept apart from the
+// cart so they don't need schema migrations
+const LAYERS_STORAGE_KEY = "data-sales:layers";
+
+export type PersistedLayers = Pick<LayersState, "baseLayerId" | "overlays">;
+
+export function loadLayerPrefs(): PersistedLayers | undefined {
+  try {
+    const raw = localStorage.getItem(LAYERS_STORAGE_KEY);
+    if (!raw) return undefined;
+    const parsed = JSON.parse(raw);
+    if (typeof parsed?.baseLayerId !== "string") return undefined;
+    return {
+      baseLayerId: parsed.baseLayerId,
+      overlays:
+        parsed.overlays && typeof parsed.overlays === "object"
+          ? parsed.overlays
+          : {},
+    };
+  } catch (err) {
+    console.error("Failed to load layer preferences:", err);
+    return undefined;
+  }
+}
+
+export function saveLayerPrefs({ baseLayerId, overlays }: PersistedLayers) {
+  try {
+    localStorage.setItem(
+      LAYERS_STORAGE_KEY,
+      JSON.stringify({ baseLayerId, overlays })
+    );
+  } catch (err) {
+    console.error("Failed to save layer preferences:", err);
+  }
+}
+
+// The project whose regions are in the saved cart above
+const ACTIVE_PROJECT_KEY = "data-sales:active-project";
+
+export function loadActiveProjectId(): string | null {
+  try {
+    return localStorage.getItem(ACTIVE_PROJECT_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function saveActiveProjectId(id: string) {
+  try {
+    localStorage.setItem(ACTIVE_PROJECT_KEY, id);
+  } catch (err) {
+    console.error("Failed to save active project:", err);
+  }
+}
+
+// Work held back while offline: orders and region names to look up. It has
+// to survive the tab being closed before the connection returns.
+const OFFLINE_QUEUE_KEY = "data-sales:offline-queue";
+
+export function loadOfflineQueue(): QueuedJob[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(OFFLINE_QUEUE_KEY) ?? "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (err) {
+    console.error("Failed to load offline queue:", err);
+    return [];
+  }
+}
+
+export function saveOfflineQueue(queue: QueuedJob[]) {
+  try {
+    localStorage.setItem(OFFLINE_QUEUE_KEY, JSON.stringify(queue));
+  } catch (err) {
+    console.error("Failed to save offline queue:", err);
+  }
+}
+
+// The restricted zones last fetched, so orders can still be checked offline
+const RESTRICTED_ZONES_KEY = "data-sales:restricted-zones";
+
+export function loadSavedZones(): RestrictedZone[] | null {
+  try {
+    const parsed = JSON.parse(
+      localStorage.getItem(RESTRICTED_ZONES_KEY) ?? "null"
+    );
+    return Array.isArray(parsed) ? parsed : null;
+  } catch (err) {
+    console.error("Failed to load restricted zones:", err);
+    return null;
+  }
+}
+
+export function saveZones(zones: RestrictedZone[]) {
+  try {
+    localStorage.setItem(RESTRICTED_ZONES_KEY, JSON.stringify(zones));
+  } catch (err) {
+    console.error("Failed to save restricted zones:", err);
+  }
+}
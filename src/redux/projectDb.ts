@@ -0,0 +1,90 @@
+// projectDb.ts
+// Saved projects live in IndexedDB: unlike localStorage it has room for many
+// carts full of detailed geometry, and writes don't block the page
+import type { Region } from "../types";
+import { CART_SCHEMA_VERSION, upgradeRegions } from "./persist";
+
+const DB_NAME = "data-sales";
+const DB_VERSION = 1;
+const STORE = "projects";
+
+export interface StoredProject {
+  id: string;
+  name: string;
+  notes: string;
+  regions: Region[];
+  createdAt: string;
+  updatedAt: string;
+  // Cart schema the regions were saved with, see persist.ts
+  schemaVersion: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: "id" });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+    req.onblocked = () =>
+      reject(new Error("Close other tabs of this app to upgrade its storage"));
+  });
+  // Let the next call retry instead of caching the failure
+  dbPromise.catch(() => (dbPromise = null));
+  return dbPromise;
+}
+
+async function run<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const req = operation(tx.objectStore(STORE));
+    // Resolve once the write is durable, not just queued
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error ?? req.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+}
+
+// Projects saved by older builds get their regions migrated on the way out
+function upgrade(project: StoredProject): StoredProject {
+  if (project.schemaVersion === CART_SCHEMA_VERSION) return project;
+  return {
+    ...project,
+    regions: upgradeRegions(project.regions, project.schemaVersion ?? 0),
+    schemaVersion: CART_SCHEMA_VERSION,
+  };
+}
+
+export async function listProjects(): Promise<StoredProject[]> {
+  const projects = await run<StoredProject[]>("readonly", (s) => s.getAll());
+  return projects.map(upgrade);
+}
+
+export async function getProject(
+  id: string
+): Promise<StoredProject | undefined> {
+  const project = await run<StoredProject | undefined>("readonly", (s) =>
+    s.get(id)
+  );
+  return project && upgrade(project);
+}
+
+export async function putProject(project: StoredProject): Promise<void> {
+  await run("readwrite", (s) =>
+    s.put({ ...project, schemaVersion: CART_SCHEMA_VERSION })
+  );
+}
+
+export async function deleteProjectRecord(id: string): Promise<void> {
+  await run("readwrite", (s) => s.delete(id));
+}
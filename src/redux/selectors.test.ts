@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import type { RootState } from "./store";
+import { selectCartQuote, selectOverlaps } from "./selectors";
+import cart, {
+  addRegions,
+  initialCartState,
+  renameRegion,
+  setRegionNotes,
+  updateRegion,
+} from "./slices/cartSlice";
+import type { CartState } from "./slices/cartSlice";
+import { boxFeature, boxRegion } from "../test/regions";
+
+// Only the cart is read by the selectors under test
+const asState = (cartState: CartState) =>
+  ({ cart: cartState } as unknown as RootState);
+
+const start = cart(
+  initialCartState,
+  addRegions([boxRegion("a", [0, 0, 1, 1]), boxRegion("b", [0.5, 0, 1.5, 1])])
+);
+
+describe("overlap selectors", () => {
+  it("keep their results when only names or notes change", () => {
+    const before = asState(start);
+    const overlaps = selectOverlaps(before);
+    const quote = selectCartQuote(before);
+
+    let next = cart(start, renameRegion({ regionId: "a", name: "Farm" }));
+    next = cart(next, setRegionNotes({ regionId: "b", notes: "north field" }));
+    const after = asState(next);
+
+    expect(selectOverlaps(after)).toBe(overlaps);
+    // Re-priced for the new names, from the same unique areas
+    expect(selectCartQuote(after).lineItems).toEqual(quote.lineItems);
+  });
+
+  it("recompute when a shape changes", () => {
+    const overlaps = selectOverlaps(asState(start));
+    const moved = {
+      ...start.regions[0],
+      geojson: boxFeature(10, 10, 11, 11),
+    };
+    const after = asState(cart(start, updateRegion(moved)));
+    expect(selectOverlaps(after)).not.toBe(overlaps);
+    expect(selectOverlaps(after)).toEqual([]);
+  });
+});
@@ -0,0 +1,115 @@
+// selectors.ts
+import { createSelector } from "@reduxjs/toolkit";
+import type { RootState } from "./store";
+import { priceCart } from "../utils/pricing";
+import { findOverlaps, uniqueParts } from "../utils/overlap";
+import type { RegionShape } from "../utils/overlap";
+import { validateProduct } from "../utils/products";
+import type { ProductIssue } from "../utils/products";
+import type { LayerSource } from "../utils/basemaps";
+import { buildCartGroups, cartLabels } from "../utils/cartView";
+import { checkCart } from "../utils/rules";
+import { DEFAULT_PRICE_TABLE } from "../config/pricing";
+import { PRODUCT_CATALOG } from "../config/products";
+import { CART_RULES } from "../config/rules";
+
+export const selectRegions = (s: RootState) => s.cart.regions;
+
+const sameShapes = (a: RegionShape[], b: RegionShape[]) =>
+  a.length === b.length &&
+  a.every((r, i) => r.id === b[i].id && r.geojson === b[i].geojson);
+
+// Ids and outlines only, kept stable across renames, notes, tags and ticks so
+// the overlap and unique area work only reruns when a shape changes
+const selectRegionShapes = createSelector(
+  [selectRegions],
+  (regions): RegionShape[] =>
+    regions.map(({ id, geojson }) => ({ id, geojson })),
+  { memoizeOptions: { resultEqualityCheck: sameShapes } }
+);
+
+const selectUniqueParts = createSelector([selectRegionShapes], uniqueParts);
+
+export const selectCartQuote = createSelector(
+  [selectRegions, selectUniqueParts],
+  (regions, unique) =>
+    priceCart(regions, DEFAULT_PRICE_TABLE, PRODUCT_CATALOG, unique)
+);
+
+// The cart list as shown: searched, sorted and grouped
+export const selectCartGroups = createSelector(
+  [selectRegions, selectCartQuote, (s: RootState) => s.cart.view],
+  (regions, quote, view) => buildCartGroups(regions, quote.lineItems, view)
+);
+
+export const selectCartLabels = createSelector([selectRegions], cartLabels);
+
+// Ticked regions in cart order
+export const selectCheckedRegions = createSelector(
+  [selectRegions, (s: RootState) => s.cart.checkedIds],
+  (regions, ids) => regions.filter((r) => ids.includes(r.id))
+);
+
+// Re-checked whenever the cart or the restricted zones change
+export const selectRuleViolations = createSelector(
+  [selectRegions, selectCartQuote, (s: RootState) => s.rules.zones],
+  (regions, quote, zones) =>
+    checkCart(regions, quote.lineItems, zones, CART_RULES)
+);
+
+// Regions named by at least one violation, for the map
+export const selectViolatingRegionIds = createSelector(
+  [selectRuleViolations],
+  (violations) => new Set(violations.flatMap((v) => v.regionIds))
+);
+
+export const selectOverlaps = createSelector(
+  [selectRegionShapes],
+  findOverlaps
+);
+
+// Product option problems by region id (regions without any are left out)
+export const selectProductIssues = createSelector(
+  [selectRegions],
+  (regions) => {
+    const issues = new Map<string, ProductIssue[]>();
+    for (const r of regions) {
+      const found = r.product
+        ? validateProduct(r.product, PRODUCT_CATALOG)
+        : [];
+      if (found.length > 0) issues.set(r.id, found);
+    }
+    return issues;
+  }
+);
+
+// Undo/redo apply to vertex edits while a region is being edited
+export const selectCanUndo = (s: RootState) =>
+  s.map.editing ? s.map.editing.past.length > 0 : s.history.past.length > 0;
+
+export const selectCanRedo = (s: RootState) =>
+  s.map.editing ? s.map.editing.future.length > 0 : s.history.future.length > 0;
+
+// Falls back to the default when the saved layer is no longer offered
+export const selectBaseLayer = (s: RootState): LayerSource => {
+  const { registry, baseLayerId } = s.layers;
+  return (
+    registry.baseLayers.find((l) => l.id === baseLayerId) ??
+    registry.baseLayers.find((l) => l.id === registry.defaultBaseLayer) ??
+    registry.baseLayers[0]
+  );
+};
+
+// Overlays with their current visibility and opacity, in registry order
+export const selectOverlays = createSelector(
+  [
+    (s: RootState) => s.layers.registry.overlays,
+    (s: RootState) => s.layers.overlays,
+  ],
+  (sources, states) =>
+    sources.map((source) => ({
+      source,
+      visible: states[source.id]?.visible ?? false,
+      opacity: states[source.id]?.opacity ?? source.opacity ?? 1,
+    }))
+);
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { configureStore } from "@reduxjs/toolkit";
+import type { AppThunk } from "../store";
+import cart, {
+  addRegion,
+  addRegions,
+  initialCartState,
+  mergeCartRegions,
+  mergeRegions,
+  placeNameFound,
+  renameRegion,
+  replaceRegions,
+} from "./cartSlice";
+import { projectOpened } from "./projectsSlice";
+import history, { undo } from "./historySlice";
+import map from "./mapSlice";
+import { historyMiddleware } from "../historyMiddleware";
+import { boxRegion } from "../../test/regions";
+
+// Drawn regions are named by the geocoder and carry no flag
+const drawn = cart(
+  cart(initialCartState, addRegion(boxRegion("a", [0, 0, 1, 1]))),
+  addRegion(boxRegion("b", [0.5, 0, 1.5, 1]))
+);
+
+describe("region names", () => {
+  it("marks names the user typed", () => {
+    expect(drawn.regions[0].customName).toBeUndefined();
+    const state = cart(drawn, renameRegion({ regionId: "a", name: " Farm " }));
+    expect(state.regions.find((r) => r.id === "a")).toMatchObject({
+      name: "Farm",
+      customName: true,
+    });
+  });
+
+  it("ignores blank names", () => {
+    const state = cart(drawn, renameRegion({ regionId: "a", name: "  " }));
+    expect(state.regions.find((r) => r.id === "a")).toEqual(
+      drawn.regions.find((r) => r.id === "a")
+    );
+  });
+
+  it("combines the names of merged regions", () => {
+    const state = cart(drawn, mergeRegions(["b", "a"]));
+    expect(state.regions).toHaveLength(1);
+    expect(state.regions[0]).toMatchObject({ id: "b", name: "b + a" });
+    expect(state.regions[0].customName).toBeUndefined();
+  });
+
+  it("keeps merged names that include one the user typed", () => {
+    const renamed = cart(drawn, renameRegion({ regionId: "a", name: "Farm" }));
+    const state = cart(renamed, mergeRegions(["b", "a"]));
+    expect(state.regions[0]).toMatchObject({
+      name: "b + Farm",
+      customName: true,
+    });
+  });
+});
+
+describe("place names found in the background", () => {
+  const found = placeNameFound({
+    regionId: "a",
+    placeholder: "a",
+    name: "Lyon",
+  });
+
+  it("replace the stand-in name without marking it as the user's", () => {
+    const region = cart(drawn, found).regions.find((r) => r.id === "a");
+    expect(region?.name).toBe("Lyon");
+    expect(region?.customName).toBeUndefined();
+  });
+
+  it("leave names changed in the meantime", () => {
+    const renamed = cart(drawn, renameRegion({ regionId: "a", name: "Farm" }));
+    expect(cart(renamed, found).regions[1].name).toBe("Farm");
+  });
+
+  it("aren't an undo step, and undo doesn't bring the stand-in back", () => {
+    const store = configureStore({
+      reducer: { cart, history, map },
+      middleware: (getDefault) => getDefault().concat(historyMiddleware),
+    });
+    store.dispatch(addRegion(boxRegion("a", [0, 0, 1, 1])));
+    store.dispatch(addRegion(boxRegion("b", [0.5, 0, 1.5, 1])));
+    store.dispatch(found);
+    expect(store.getState().history.past).toHaveLength(2);
+
+    undo()(store.dispatch, store.getState as never, undefined);
+    expect(store.getState().cart.regions.map((r) => r.name)).toEqual(["Lyon"]);
+  });
+});
+
+describe("adding regions", () => {
+  it("records when each region was added", () => {
+    const [b, a] = drawn.regions;
+    expect(Date.parse(a.addedAt!)).not.toBeNaN();
+    expect(b.addedAt! >= a.addedAt!).toBe(true);
+  });
+
+  it("keeps the date of regions that already have one", () => {
+    const dated = boxRegion("c", [5, 5, 6, 6], {
+      addedAt: "2026-01-01T00:00:00.000Z",
+    });
+    const state = cart(
+      drawn,
+      addRegions([dated, boxRegion("d", [7, 7, 8, 8])])
+    );
+    expect(state.regions[0].addedAt).toBe("2026-01-01T00:00:00.000Z");
+    expect(state.regions[1].addedAt! > "2026-01-01").toBe(true);
+  });
+
+  it("dates regions that replace the cart or come with a project", () => {
+    const dated = boxRegion("c", [5, 5, 6, 6], {
+      addedAt: "2026-01-01T00:00:00.000Z",
+    });
+    const undated = boxRegion("d", [7, 7, 8, 8]);
+    for (const action of [
+      replaceRegions([dated, undated]),
+      projectOpened({ id: "p", regions: [dated, undated] }),
+    ]) {
+      const [c, d] = cart(drawn, action).regions;
+      expect(c.addedAt).toBe("2026-01-01T00:00:00.000Z");
+      expect(d.addedAt! > "2026-01-01").toBe(true);
+    }
+  });
+});
+
+describe("mergeCartRegions", () => {
+  // Only the cart is read
+  const storeWith = (regions = drawn) => {
+    const store = configureStore({
+      reducer: { cart },
+      preloadedState: { cart: regions },
+    });
+    const run = (thunk: AppThunk<boolean>) =>
+      thunk(store.dispatch, store.getState as never, undefined);
+    return { store, run };
+  };
+
+  it("reports a merge", () => {
+    const { store, run } = storeWith();
+    expect(run(mergeCartRegions(["a", "b"]))).toBe(true);
+    expect(store.getState().cart.regions).toHaveLength(1);
+  });
+
+  it("reports nothing merged when a region is gone", () => {
+    const { store, run } = storeWith();
+    expect(run(mergeCartRegions(["a", "removed"]))).toBe(false);
+    expect(store.getState().cart.regions).toBe(drawn.regions);
+  });
+});
@@ -1,39 +1,339 @@
 // cartSlice.ts
-import { createSlice } from "@reduxjs/toolkit";
+import { createSlice, current } from "@reduxjs/toolkit";
 import type { PayloadAction } from "@reduxjs/toolkit";
-import type { Region } from "../../types";
-import { computeCenter } from "../../utils/geo";
+import type {
+  ProductOptions,
+  Region,
+  RegionTile,
+  SceneSelection,
+  TileGridOptions,
+} from "../../types";
+import { regionCenter } from "../../utils/geometry";
+import { clipToUncovered, unionRegions } from "../../utils/overlap";
+import { stampAdded } from "../../utils/region";
+import { projectOpened } from "./projectsSlice";
+import type { AppThunk } from "../store";
 
-interface CartState {
+// "added" sorts by when each region went into the cart
+export type CartSortKey = "added" | "name" | "area" | "price";
+
+// How the cart list is shown; session-only, like the selection
+export interface CartView {
+  // Words matched against names and tags; "#tag" matches a tag exactly
+  query: string;
+  sortBy: CartSortKey;
+  sortDir: "asc" | "desc";
+  collapsedGroups: string[];
+}
+
+export interface CartState {
   regions: Region[];
   selectedRegion: Region | null; // ✅ fixed type
+  view: CartView;
+  // Ticked for bulk actions
+  checkedIds: string[];
+}
+
+// Tiles are cut from the old geometry, so any reshape drops them
+function withoutTiles(region: Region): Region {
+  const rest = { ...region };
+  delete rest.tileGrid;
+  delete rest.tiles;
+  return rest;
+}
+
+// Tags compare case-insensitively but keep the spelling first used
+function addTag(tags: string[] = [], tag: string): string[] {
+  const lower = tag.toLowerCase();
+  return tags.some((t) => t.toLowerCase() === lower) ? tags : [...tags, tag];
+}
+
+// Drop ticks on regions that are no longer in the cart
+function pruneChecked(state: CartState) {
+  const ids = new Set(state.regions.map((r) => r.id));
+  state.checkedIds = state.checkedIds.filter((id) => ids.has(id));
 }
 
-const initialState: CartState = {
+export const initialCartState: CartState = {
   regions: [],
   selectedRegion: null,
+  view: { query: "", sortBy: "added", sortDir: "desc", collapsedGroups: [] },
+  checkedIds: [],
 };
 
 const cartSlice = createSlice({
   name: "cart",
-  initialState,
+  initialState: initialCartState,
   reducers: {
-    addRegion: (state, action: PayloadAction<Region>) => {
-      const exists = state.regions.some((r) => r.id === action.payload.id);
-      if (!exists) state.regions.unshift(action.payload);
+    addRegion: {
+      reducer: (state, action: PayloadAction<Region>) => {
+        const exists = state.regions.some((r) => r.id === action.payload.id);
+        if (!exists) state.regions.unshift(action.payload);
+      },
+      prepare: (region: Region) => ({ payload: stampAdded([region])[0] }),
+    },
+    // Several regions as one step (e.g. a file import), keeping their order
+    addRegions: {
+      reducer: (state, action: PayloadAction<Region[]>) => {
+        const ids = new Set(state.regions.map((r) => r.id));
+        const fresh = action.payload.filter((r) => !ids.has(r.id));
+        state.regions.unshift(...fresh);
+      },
+      prepare: (regions: Region[]) => ({ payload: stampAdded(regions) }),
     },
     removeRegion: (state, action: PayloadAction<string>) => {
       state.regions = state.regions.filter((r) => r.id !== action.payload);
+      pruneChecked(state);
+    },
+    removeRegions: (state, action: PayloadAction<string[]>) => {
+      const ids = new Set(action.payload);
+      state.regions = state.regions.filter((r) => !ids.has(r.id));
+      pruneChecked(state);
     },
     clearCart: (state) => {
       state.regions = [];
+      state.checkedIds = [];
+    },
+    renameRegion: (
+      state,
+      action: PayloadAction<{ regionId: string; name: string }>
+    ) => {
+      const name = action.payload.name.trim();
+      const region = state.regions.find(
+        (r) => r.id === action.payload.regionId
+      );
+      if (region && name) {
+        region.name = name;
+        region.customName = true;
+      }
+    },
+    // A place name looked up in the background, replacing the stand-in the
+    // region got while offline. Not an undo step: the user didn't do it.
+    placeNameFound: (
+      state,
+      action: PayloadAction<{
+        regionId: string;
+        placeholder: string;
+        name: string;
+      }>
+    ) => {
+      const { regionId, placeholder, name } = action.payload;
+      const region = state.regions.find((r) => r.id === regionId);
+      if (region?.name === placeholder) region.name = name;
+    },
+    setRegionNotes: (
+      state,
+      action: PayloadAction<{ regionId: string; notes: string }>
+    ) => {
+      const region = state.regions.find(
+        (r) => r.id === action.payload.regionId
+      );
+      if (!region) return;
+      if (action.payload.notes.trim()) region.notes = action.payload.notes;
+      else delete region.notes;
+    },
+    tagRegions: (
+      state,
+      action: PayloadAction<{ regionIds: string[]; tag: string }>
+    ) => {
+      const tag = action.payload.tag.trim().replace(/^#/, "");
+      if (!tag) return;
+      for (const region of state.regions) {
+        if (action.payload.regionIds.includes(region.id)) {
+          region.tags = addTag(region.tags, tag);
+        }
+      }
+    },
+    untagRegions: (
+      state,
+      action: PayloadAction<{ regionIds: string[]; tag: string }>
+    ) => {
+      const lower = action.payload.tag.toLowerCase();
+      for (const region of state.regions) {
+        if (!action.payload.regionIds.includes(region.id)) continue;
+        const tags = region.tags?.filter((t) => t.toLowerCase() !== lower);
+        if (tags?.length) region.tags = tags;
+        else delete region.tags;
+      }
+    },
+    // A blank group name moves the regions out of their group
+    setRegionGroup: (
+      state,
+      action: PayloadAction<{ regionIds: string[]; group: string }>
+    ) => {
+      const group = action.payload.group.trim();
+      for (const region of state.regions) {
+        if (!action.payload.regionIds.includes(region.id)) continue;
+        if (group) region.group = group;
+        else delete region.group;
+      }
     },
     updateRegion: (state, action: PayloadAction<Region>) => {
       const idx = state.regions.findIndex((r) => r.id === action.payload.id);
       if (idx !== -1) {
-        state.regions[idx] = action.payload;
+        const reshaped = action.payload.geojson !== state.regions[idx].geojson;
+        state.regions[idx] = reshaped
+          ? withoutTiles(action.payload)
+          : action.payload;
       }
     },
+    // Union the given regions into the first one and drop the rest
+    mergeRegions: (state, action: PayloadAction<string[]>) => {
+      const ids = action.payload;
+      const merging = ids
+        .map((id) => current(state).regions.find((r) => r.id === id))
+        .filter((r): r is Region => !!r);
+      if (merging.length < 2) return;
+      const merged = unionRegions(merging);
+      if (!merged) return;
+
+      const [target, ...rest] = merging;
+      const geojson = { ...merged, properties: target.geojson.properties };
+      const scenes = merging
+        .flatMap((r) => r.scenes ?? [])
+        .filter(
+          (scene, i, all) => all.findIndex((s) => s.id === scene.id) === i
+        );
+      const idx = state.regions.findIndex((r) => r.id === target.id);
+      state.regions[idx] = {
+        ...withoutTiles(target),
+        name: merging.map((r) => r.name).join(" + "),
+        // Renamed on reshape unless the user named one of the parts
+        customName: merging.some((r) => r.customName) || undefined,
+        geojson,
+        center: regionCenter(geojson),
+        ...(scenes.length > 0 && { scenes }),
+      };
+      const dropped = new Set(rest.map((r) => r.id));
+      state.regions = state.regions.filter((r) => !dropped.has(r.id));
+      pruneChecked(state);
+    },
+    // Cut away the parts of a region already covered by the others
+    clipRegionToUnique: (state, action: PayloadAction<string>) => {
+      const regions = current(state).regions;
+      const region = regions.find((r) => r.id === action.payload);
+      if (!region) return;
+      const clipped = clipToUncovered(
+        region.geojson,
+        regions.filter((r) => r.id !== region.id)
+      );
+      if (!clipped) {
+        state.regions = state.regions.filter((r) => r.id !== region.id);
+        pruneChecked(state);
+        return;
+      }
+      const geojson = { ...clipped, properties: region.geojson.properties };
+      const idx = state.regions.findIndex((r) => r.id === region.id);
+      state.regions[idx] = {
+        ...withoutTiles(region),
+        geojson,
+        center: regionCenter(geojson),
+      };
+    },
+    updateRegionProduct: (
+      state,
+      action: PayloadAction<{ regionId: string; product: ProductOptions }>
+    ) => {
+      const region = state.regions.find(
+        (r) => r.id === action.payload.regionId
+      );
+      if (region) region.product = action.payload.product;
+    },
+    // Archive scenes ordered for a region, one line item each
+    addScene: (
+      state,
+      action: PayloadAction<{ regionId: string; scene: SceneSelection }>
+    ) => {
+      const region = state.regions.find(
+        (r) => r.id === action.payload.regionId
+      );
+      if (!region) return;
+      const scenes = region.scenes ?? [];
+      if (scenes.some((s) => s.id === action.payload.scene.id)) return;
+      region.scenes = [...scenes, action.payload.scene];
+    },
+    removeScene: (
+      state,
+      action: PayloadAction<{ regionId: string; sceneId: string }>
+    ) => {
+      const region = state.regions.find(
+        (r) => r.id === action.payload.regionId
+      );
+      if (!region?.scenes) return;
+      region.scenes = region.scenes.filter(
+        (s) => s.id !== action.payload.sceneId
+      );
+      if (region.scenes.length === 0) delete region.scenes;
+    },
+    // Order the region as grid tiles; an empty list goes back to one item
+    setRegionTiles: (
+      state,
+      action: PayloadAction<{
+        regionId: string;
+        grid: TileGridOptions;
+        tiles: RegionTile[];
+      }>
+    ) => {
+      const { regionId, grid, tiles } = action.payload;
+      const idx = state.regions.findIndex((r) => r.id === regionId);
+      if (idx === -1) return;
+      state.regions[idx] =
+        tiles.length > 0
+          ? { ...state.regions[idx], tileGrid: grid, tiles }
+          : withoutTiles(state.regions[idx]);
+    },
+    removeTile: (
+      state,
+      action: PayloadAction<{ regionId: string; tileId: string }>
+    ) => {
+      const idx = state.regions.findIndex(
+        (r) => r.id === action.payload.regionId
+      );
+      const region = state.regions[idx];
+      if (!region?.tiles) return;
+      const tiles = region.tiles.filter((t) => t.id !== action.payload.tileId);
+      state.regions[idx] =
+        tiles.length > 0 ? { ...region, tiles } : withoutTiles(region);
+    },
+    // Swap in another cart, e.g. one opened from a permalink
+    replaceRegions: {
+      reducer: (state, action: PayloadAction<Region[]>) => {
+        state.regions = action.payload;
+        state.selectedRegion = null;
+        state.checkedIds = [];
+      },
+      prepare: (regions: Region[]) => ({ payload: stampAdded(regions) }),
+    },
+    // Replace the whole list, used by undo/redo
+    restoreRegions: (state, action: PayloadAction<Region[]>) => {
+      state.regions = action.payload;
+      pruneChecked(state);
+    },
+    setCartQuery: (state, action: PayloadAction<string>) => {
+      state.view.query = action.payload;
+    },
+    setCartSort: (
+      state,
+      action: PayloadAction<Pick<CartView, "sortBy" | "sortDir">>
+    ) => {
+      state.view.sortBy = action.payload.sortBy;
+      state.view.sortDir = action.payload.sortDir;
+    },
+    toggleCartGroup: (state, action: PayloadAction<string>) => {
+      const collapsed = state.view.collapsedGroups;
+      state.view.collapsedGroups = collapsed.includes(action.payload)
+        ? collapsed.filter((g) => g !== action.payload)
+        : [...collapsed, action.payload];
+    },
+    toggleRegionChecked: (state, action: PayloadAction<string>) => {
+      const checked = state.checkedIds;
+      state.checkedIds = checked.includes(action.payload)
+        ? checked.filter((id) => id !== action.payload)
+        : [...checked, action.payload];
+    },
+    setCheckedRegions: (state, action: PayloadAction<string[]>) => {
+      state.checkedIds = action.payload;
+    },
     setSelectedRegion: (state, action: PayloadAction<Region | null>) => {
       if (action.payload === null) {
         state.selectedRegion = null;
@@ -44,17 +344,61 @@ const cartSlice = createSlice({
         id,
         name,
         geojson,
-        center: computeCenter(geojson), // ✅ auto
+        center: regionCenter(geojson),
       };
     },
   },
+  extraReducers: (builder) => {
+    builder.addCase(projectOpened, (state, action) => {
+      state.regions = action.payload.regions;
+      state.selectedRegion = null;
+      state.checkedIds = [];
+    });
+  },
 });
 
+// Merge and report whether it happened: with fewer than two of the regions
+// still in the cart, or a union that can't be built, the cart is unchanged
+export const mergeCartRegions =
+  (ids: string[]): AppThunk<boolean> =>
+  (dispatch, getState) => {
+    const before = getState().cart.regions;
+    try {
+      dispatch(cartSlice.actions.mergeRegions(ids));
+    } catch (err) {
+      console.error("Merge failed:", err);
+      return false;
+    }
+    return getState().cart.regions !== before;
+  };
+
 export const {
   addRegion,
+  addRegions,
   removeRegion,
+  removeRegions,
   clearCart,
+  renameRegion,
+  placeNameFound,
+  setRegionNotes,
+  tagRegions,
+  untagRegions,
+  setRegionGroup,
   updateRegion,
+  mergeRegions,
+  clipRegionToUnique,
+  updateRegionProduct,
+  addScene,
+  removeScene,
+  setRegionTiles,
+  removeTile,
+  replaceRegions,
+  restoreRegions,
   setSelectedRegion,
+  setCartQuery,
+  setCartSort,
+  toggleCartGroup,
+  toggleRegionChecked,
+  setCheckedRegions,
 } = cartSlice.actions;
 export default cartSlice.reducer;
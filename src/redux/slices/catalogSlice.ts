@@ -0,0 +1,189 @@
+// catalogSlice.ts
+import { createAsyncThunk, createSlice, isAnyOf } from "@reduxjs/toolkit";
+import type { PayloadAction } from "@reduxjs/toolkit";
+import type { RootState } from "../store";
+import {
+  buildSearchBody,
+  fetchNextPage,
+  searchItems,
+  StacApiError,
+} from "../../api/stac";
+import type {
+  SceneFilters,
+  SceneSearchPage,
+  StacItem,
+  StacLink,
+} from "../../api/stac";
+import {
+  SCENE_LOOKBACK_DAYS,
+  SCENE_PAGE_SIZE,
+  STAC_API_URL,
+  STAC_COLLECTIONS,
+} from "../../config/stac";
+
+// Archive scene search for one cart region at a time
+export interface CatalogState {
+  regionId: string | null;
+  filters: SceneFilters;
+  status: "idle" | "loading" | "succeeded" | "failed";
+  // Id of the request whose results are wanted; stale responses are dropped
+  requestId: string | null;
+  items: StacItem[];
+  next: StacLink | null;
+  // Body of the current search, needed to follow POST "next" links
+  request: Record<string, unknown> | null;
+  matched: number | null;
+  error: string | null;
+  hoveredItemId: string | null;
+}
+
+const isoDate = (d: Date) => d.toISOString().slice(0, 10);
+
+function defaultFilters(): SceneFilters {
+  const to = new Date();
+  const from = new Date(to.getTime() - SCENE_LOOKBACK_DAYS * 86_400_000);
+  return {
+    dateFrom: isoDate(from),
+    dateTo: isoDate(to),
+    maxCloudCover: 20,
+    collections: STAC_COLLECTIONS.map((c) => c.id),
+    maxGsd: null,
+  };
+}
+
+const initialState: CatalogState = {
+  regionId: null,
+  filters: defaultFilters(),
+  status: "idle",
+  requestId: null,
+  items: [],
+  next: null,
+  request: null,
+  matched: null,
+  error: null,
+  hoveredItemId: null,
+};
+
+type SearchResult = SceneSearchPage & { request: Record<string, unknown> };
+
+const errorMessage = (err: unknown) =>
+  err instanceof StacApiError ? err.message : "Catalog search failed";
+
+export const searchScenes = createAsyncThunk<
+  SearchResult,
+  void,
+  { state: RootState; rejectValue: string }
+>("catalog/search", async (_, { getState, signal, rejectWithValue }) => {
+  const { catalog, cart } = getState();
+  const region = cart.regions.find((r) => r.id === catalog.regionId);
+  if (!region) return rejectWithValue("The region is no longer in the cart");
+  const request = buildSearchBody(
+    region.geojson.geometry,
+    catalog.filters,
+    STAC_COLLECTIONS,
+    SCENE_PAGE_SIZE
+  );
+  try {
+    const page = await searchItems(
+      STAC_API_URL,
+      request,
+      catalog.filters.maxGsd,
+      signal
+    );
+    return { ...page, request };
+  } catch (err) {
+    return rejectWithValue(errorMessage(err));
+  }
+});
+
+export const loadMoreScenes = createAsyncThunk<
+  SearchResult,
+  void,
+  { state: RootState; rejectValue: string }
+>(
+  "catalog/loadMore",
+  async (_, { getState, signal, rejectWithValue }) => {
+    const { next, request, filters } = getState().catalog;
+    if (!next || !request) return rejectWithValue("No more results");
+    try {
+      const page = await fetchNextPage(next, request, filters.maxGsd, signal);
+      return { ...page, request: { ...request, ...next.body } };
+    } catch (err) {
+      return rejectWithValue(errorMessage(err));
+    }
+  },
+  { condition: (_, { getState }) => getState().catalog.status !== "loading" }
+);
+
+const catalogSlice = createSlice({
+  name: "catalog",
+  initialState,
+  reducers: {
+    // Results belong to a region, so switching regions starts over
+    openCatalog: (state, action: PayloadAction<string>) => {
+      if (state.regionId === action.payload) return;
+      return {
+        ...initialState,
+        filters: state.filters,
+        regionId: action.payload,
+      };
+    },
+    closeCatalog: (state) => ({ ...initialState, filters: state.filters }),
+    setSceneFilters: (state, action: PayloadAction<Partial<SceneFilters>>) => {
+      state.filters = { ...state.filters, ...action.payload };
+    },
+    setHoveredScene: (state, action: PayloadAction<string | null>) => {
+      state.hoveredItemId = action.payload;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(searchScenes.pending, (state, action) => {
+        state.status = "loading";
+        state.requestId = action.meta.requestId;
+        state.items = [];
+        state.next = null;
+        state.matched = null;
+        state.error = null;
+      })
+      .addCase(loadMoreScenes.pending, (state, action) => {
+        state.status = "loading";
+        state.requestId = action.meta.requestId;
+        state.error = null;
+      })
+      .addCase(searchScenes.fulfilled, (state, action) => {
+        if (state.requestId !== action.meta.requestId) return;
+        state.status = "succeeded";
+        state.items = action.payload.items;
+        state.next = action.payload.next;
+        state.request = action.payload.request;
+        state.matched = action.payload.matched ?? null;
+      })
+      .addCase(loadMoreScenes.fulfilled, (state, action) => {
+        if (state.requestId !== action.meta.requestId) return;
+        const seen = new Set(state.items.map((i) => i.id));
+        state.status = "succeeded";
+        state.items.push(
+          ...action.payload.items.filter((i) => !seen.has(i.id))
+        );
+        state.next = action.payload.next;
+        state.request = action.payload.request;
+      })
+      .addMatcher(
+        isAnyOf(searchScenes.rejected, loadMoreScenes.rejected),
+        (state, action) => {
+          if (state.requestId !== action.meta.requestId) return;
+          if (action.meta.aborted) {
+            state.status = "idle";
+            return;
+          }
+          state.status = "failed";
+          state.error = action.payload ?? "Catalog search failed";
+        }
+      );
+  },
+});
+
+export const { openCatalog, closeCatalog, setSceneFilters, setHoveredScene } =
+  catalogSlice.actions;
+export default catalogSlice.reducer;
@@ -0,0 +1,200 @@
+// checkoutSlice.ts
+import { createAsyncThunk, createSlice } from "@reduxjs/toolkit";
+import type { PayloadAction } from "@reduxjs/toolkit";
+import type { RootState } from "../store";
+import { ApiError } from "../../api/client";
+import { getOrder, submitOrder } from "../../api/orders";
+import type { CustomerDetails, Order } from "../../api/orders";
+import { buildOrderRequest } from "../../utils/checkout";
+import { selectCartQuote, selectRuleViolations } from "../selectors";
+import { clearCart } from "./cartSlice";
+import { jobQueued, queuedOrderPlaced } from "./offlineSlice";
+import { API_BASE_URL, TERMS } from "../../config/checkout";
+
+export type CheckoutStep = "review" | "details" | "terms" | "confirmation";
+
+export interface CheckoutState {
+  open: boolean;
+  step: CheckoutStep;
+  customer: CustomerDetails;
+  termsAccepted: boolean;
+  // One key per order attempt: retries and double clicks reuse it, while
+  // changed details get a new one since the server would reject the reuse
+  idempotencyKey: string;
+  submitting: boolean;
+  error: string | null;
+  fieldErrors: Record<string, string>;
+  order: Order | null;
+  // Placed while offline and waiting in the offline queue
+  queued: boolean;
+}
+
+const emptyCustomer: CustomerDetails = {
+  name: "",
+  email: "",
+  organization: "",
+  phone: "",
+  notes: "",
+};
+
+const initialState: CheckoutState = {
+  open: false,
+  step: "review",
+  customer: emptyCustomer,
+  termsAccepted: false,
+  idempotencyKey: "",
+  submitting: false,
+  error: null,
+  fieldErrors: {},
+  order: null,
+  queued: false,
+};
+
+type RejectValue = { message: string; fieldErrors: Record<string, string> };
+
+const toRejectValue = (err: unknown): RejectValue =>
+  err instanceof ApiError
+    ? { message: err.message, fieldErrors: err.fieldErrors }
+    : { message: "Something went wrong placing the order", fieldErrors: {} };
+
+// Resolves with null when there's no connection: the order then waits in
+// the offline queue and the cart is cleared as if it had been sent
+export const placeOrder = createAsyncThunk<
+  Order | null,
+  void,
+  { state: RootState; rejectValue: RejectValue }
+>(
+  "checkout/placeOrder",
+  async (_, { getState, dispatch, signal, rejectWithValue }) => {
+    const state = getState();
+    // The cart may have changed since checkout opened
+    const [violation] = selectRuleViolations(state);
+    if (violation) {
+      return rejectWithValue({ message: violation.message, fieldErrors: {} });
+    }
+    const request = buildOrderRequest(
+      state.cart.regions,
+      selectCartQuote(state),
+      state.checkout.customer,
+      TERMS.version
+    );
+    const { idempotencyKey } = state.checkout;
+    const queue = () => {
+      dispatch(jobQueued({ kind: "order", request, idempotencyKey }));
+      dispatch(clearCart());
+      return null;
+    };
+    if (!navigator.onLine) return queue();
+    try {
+      const order = await submitOrder(
+        API_BASE_URL,
+        request,
+        idempotencyKey,
+        signal
+      );
+      dispatch(clearCart());
+      return order;
+    } catch (err) {
+      if (err instanceof ApiError && err.code === "network") return queue();
+      return rejectWithValue(toRejectValue(err));
+    }
+  },
+  { condition: (_, { getState }) => !getState().checkout.submitting }
+);
+
+// Status polling; failures are ignored and the next poll tries again
+export const refreshOrder = createAsyncThunk<
+  Order | null,
+  void,
+  { state: RootState }
+>("checkout/refreshOrder", async (_, { getState, signal }) => {
+  const order = getState().checkout.order;
+  if (!order) return null;
+  try {
+    return await getOrder(API_BASE_URL, order.id, signal);
+  } catch {
+    return null;
+  }
+});
+
+const checkoutSlice = createSlice({
+  name: "checkout",
+  initialState,
+  reducers: {
+    // Details typed earlier in the session are kept
+    openCheckout: (state) => ({
+      ...initialState,
+      customer: state.customer,
+      open: true,
+      idempotencyKey: crypto.randomUUID(),
+    }),
+    closeCheckout: (state) => {
+      if (state.submitting) return;
+      state.open = false;
+    },
+    setCheckoutStep: (state, action: PayloadAction<CheckoutStep>) => {
+      state.step = action.payload;
+      state.error = null;
+    },
+    updateCustomer: (
+      state,
+      action: PayloadAction<Partial<CustomerDetails>>
+    ) => {
+      state.customer = { ...state.customer, ...action.payload };
+      state.idempotencyKey = crypto.randomUUID();
+      for (const key of Object.keys(action.payload)) {
+        delete state.fieldErrors[`customer.${key}`];
+      }
+    },
+    setTermsAccepted: (state, action: PayloadAction<boolean>) => {
+      state.termsAccepted = action.payload;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(placeOrder.pending, (state) => {
+        state.submitting = true;
+        state.error = null;
+        state.fieldErrors = {};
+      })
+      .addCase(placeOrder.fulfilled, (state, action) => {
+        state.submitting = false;
+        state.order = action.payload;
+        state.queued = action.payload === null;
+        state.step = "confirmation";
+      })
+      .addCase(placeOrder.rejected, (state, action) => {
+        state.submitting = false;
+        state.error = action.payload?.message ?? "Order submission failed";
+        state.fieldErrors = action.payload?.fieldErrors ?? {};
+        // Send the customer back to fix details the server rejected
+        if (
+          Object.keys(state.fieldErrors).some((k) => k.startsWith("customer."))
+        )
+          state.step = "details";
+      })
+      .addCase(queuedOrderPlaced, (state, action) => {
+        if (
+          state.queued &&
+          state.idempotencyKey === action.payload.idempotencyKey
+        ) {
+          state.order = action.payload.order;
+          state.queued = false;
+        }
+      })
+      .addCase(refreshOrder.fulfilled, (state, action) => {
+        if (action.payload && action.payload.id === state.order?.id) {
+          state.order = action.payload;
+        }
+      });
+  },
+});
+
+export const {
+  openCheckout,
+  closeCheckout,
+  setCheckoutStep,
+  updateCustomer,
+  setTermsAccepted,
+} = checkoutSlice.actions;
+export default checkoutSlice.reducer;
@@ -0,0 +1,82 @@
+// historySlice.ts
+import { createSlice } from "@reduxjs/toolkit";
+import type { PayloadAction } from "@reduxjs/toolkit";
+import type { Region } from "../../types";
+import type { AppThunk } from "../store";
+import { placeNameFound, restoreRegions } from "./cartSlice";
+import { redoEditStep, undoEditStep } from "./mapSlice";
+import { projectOpened } from "./projectsSlice";
+
+// Snapshots of cart.regions around each tracked cart action
+interface HistoryState {
+  past: Region[][];
+  future: Region[][];
+}
+
+export const HISTORY_LIMIT = 50;
+
+const initialState: HistoryState = {
+  past: [],
+  future: [],
+};
+
+const historySlice = createSlice({
+  name: "history",
+  initialState,
+  reducers: {
+    // Called with the regions as they were before a tracked action
+    recordHistory: (state, action: PayloadAction<Region[]>) => {
+      state.past.push(action.payload);
+      if (state.past.length > HISTORY_LIMIT) state.past.shift();
+      state.future = [];
+    },
+    undone: (state, action: PayloadAction<Region[]>) => {
+      state.past.pop();
+      state.future.push(action.payload);
+    },
+    redone: (state, action: PayloadAction<Region[]>) => {
+      state.future.pop();
+      state.past.push(action.payload);
+    },
+  },
+  extraReducers: (builder) => {
+    builder.addCase(projectOpened, () => initialState);
+    // Undo and redo shouldn't bring the stand-in name back either
+    builder.addCase(placeNameFound, (state, action) => {
+      const { regionId, placeholder, name } = action.payload;
+      for (const snapshot of [...state.past, ...state.future]) {
+        const region = snapshot.find((r) => r.id === regionId);
+        if (region?.name === placeholder) region.name = name;
+      }
+    });
+  },
+});
+
+export const { recordHistory } = historySlice.actions;
+export default historySlice.reducer;
+
+// While a region is being edited, undo/redo step through its vertex edits;
+// otherwise they step through cart changes.
+export const undo = (): AppThunk => (dispatch, getState) => {
+  const { map, cart, history } = getState();
+  if (map.editing) {
+    dispatch(undoEditStep());
+    return;
+  }
+  const previous = history.past[history.past.length - 1];
+  if (!previous) return;
+  dispatch(historySlice.actions.undone(cart.regions));
+  dispatch(restoreRegions(previous));
+};
+
+export const redo = (): AppThunk => (dispatch, getState) => {
+  const { map, cart, history } = getState();
+  if (map.editing) {
+    dispatch(redoEditStep());
+    return;
+  }
+  const next = history.future[history.future.length - 1];
+  if (!next) return;
+  dispatch(historySlice.actions.redone(cart.regions));
+  dispatch(restoreRegions(next));
+};
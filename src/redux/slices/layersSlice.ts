@@ -0,0 +1,105 @@
+// layersSlice.ts
+import { createAsyncThunk, createSlice } from "@reduxjs/toolkit";
+import type { PayloadAction } from "@reduxjs/toolkit";
+import type { RootState } from "../store";
+import type { BasemapKey } from "../../types";
+import type { BasemapRegistry } from "../../utils/basemaps";
+import { mergeBasemapRegistry } from "../../utils/basemaps";
+import { BASEMAP_REGISTRY, BASEMAP_REGISTRY_URL } from "../../config/basemaps";
+
+export interface OverlayState {
+  visible: boolean;
+  opacity: number;
+}
+
+export interface LayersState {
+  registry: BasemapRegistry;
+  registryStatus: "idle" | "loading" | "loaded" | "failed";
+  // May name a layer the registry doesn't have (yet); selectors fall back
+  baseLayerId: BasemapKey;
+  overlays: Record<BasemapKey, OverlayState>;
+}
+
+export const initialLayersState: LayersState = {
+  registry: BASEMAP_REGISTRY,
+  registryStatus: "idle",
+  baseLayerId: BASEMAP_REGISTRY.defaultBaseLayer,
+  overlays: {},
+};
+
+export const loadBasemapRegistry = createAsyncThunk<
+  BasemapRegistry,
+  void,
+  { state: RootState; rejectValue: string }
+>(
+  "layers/loadRegistry",
+  async (_, { rejectWithValue }) => {
+    try {
+      const res = await fetch(BASEMAP_REGISTRY_URL);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const { registry, problems } = mergeBasemapRegistry(
+        BASEMAP_REGISTRY,
+        await res.json()
+      );
+      for (const problem of problems) {
+        console.warn(`Skipped basemap registry entry: ${problem}`);
+      }
+      return registry;
+    } catch (err) {
+      // The built-in layers keep working
+      console.error("Failed to load basemap registry:", err);
+      return rejectWithValue((err as Error).message);
+    }
+  },
+  {
+    condition: (_, { getState }) =>
+      !!BASEMAP_REGISTRY_URL && getState().layers.registryStatus === "idle",
+  }
+);
+
+const layersSlice = createSlice({
+  name: "layers",
+  initialState: initialLayersState,
+  reducers: {
+    setBaseLayer: (state, action: PayloadAction<BasemapKey>) => {
+      state.baseLayerId = action.payload;
+    },
+    toggleOverlay: (state, action: PayloadAction<BasemapKey>) => {
+      const id = action.payload;
+      const current = state.overlays[id];
+      if (current) {
+        current.visible = !current.visible;
+      } else {
+        const source = state.registry.overlays.find((o) => o.id === id);
+        state.overlays[id] = { visible: true, opacity: source?.opacity ?? 1 };
+      }
+    },
+    setOverlayOpacity: (
+      state,
+      action: PayloadAction<{ id: BasemapKey; opacity: number }>
+    ) => {
+      const { id, opacity } = action.payload;
+      const clamped = Math.min(1, Math.max(0, opacity));
+      const current = state.overlays[id];
+      if (current) current.opacity = clamped;
+      else state.overlays[id] = { visible: false, opacity: clamped };
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(loadBasemapRegistry.pending, (state) => {
+        state.registryStatus = "loading";
+      })
+      .addCase(loadBasemapRegistry.fulfilled, (state, action) => {
+        state.registry = action.payload;
+        state.registryStatus = "loaded";
+      })
+      .addCase(loadBasemapRegistry.rejected, (state) => {
+        state.registryStatus = "failed";
+      });
+  },
+});
+
+export const { setBaseLayer, toggleOverlay, setOverlayOpacity } =
+  layersSlice.actions;
+export default layersSlice.reducer;
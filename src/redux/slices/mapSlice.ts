@@ -0,0 +1,139 @@
+// mapSlice.ts
+import { createSlice } from "@reduxjs/toolkit";
+import type { PayloadAction } from "@reduxjs/toolkit";
+import type { Region, RegionTile, TileGridOptions } from "../../types";
+import type { CoordinateFormat } from "../../utils/coordinates";
+import { projectOpened } from "./projectsSlice";
+
+interface MapState {
+  highlightedRegionId: string | null;
+  // `seq` changes on every request so focusing the same region twice still flies
+  focus: { regionId: string; seq: number } | null;
+  // Cart region whose vertices are being edited, with its uncommitted geometry
+  editing: EditingState | null;
+  // How positions are shown in the cursor readout and the cart
+  coordinateFormat: CoordinateFormat;
+  // Boundary level (config/boundaries.ts) being picked from, if any
+  boundaryPickLevel: string | null;
+  // Grid shown on the map while tiling a cart region, before it's applied
+  tilePreview: TilePreview | null;
+}
+
+interface TilePreview {
+  regionId: string;
+  grid: TileGridOptions;
+  tiles: RegionTile[];
+}
+
+interface EditingState {
+  regionId: string;
+  // Live geometry, updated while a vertex is being dragged
+  draft: GeoJSON.Feature;
+  // Geometry after the last completed vertex operation, and the undo stacks
+  base: GeoJSON.Feature;
+  past: GeoJSON.Feature[];
+  future: GeoJSON.Feature[];
+}
+
+export const EDIT_HISTORY_LIMIT = 100;
+
+const initialState: MapState = {
+  highlightedRegionId: null,
+  focus: null,
+  editing: null,
+  coordinateFormat: "decimal",
+  boundaryPickLevel: null,
+  tilePreview: null,
+};
+
+const mapSlice = createSlice({
+  name: "map",
+  initialState,
+  reducers: {
+    setHighlightedRegion: (state, action: PayloadAction<string | null>) => {
+      state.highlightedRegionId = action.payload;
+    },
+    focusRegion: (state, action: PayloadAction<string>) => {
+      state.highlightedRegionId = action.payload;
+      state.focus = {
+        regionId: action.payload,
+        seq: (state.focus?.seq ?? 0) + 1,
+      };
+    },
+    startEditingRegion: (state, action: PayloadAction<Region>) => {
+      const { id, geojson } = action.payload;
+      state.editing = {
+        regionId: id,
+        draft: geojson,
+        base: geojson,
+        past: [],
+        future: [],
+      };
+    },
+    updateEditDraft: (state, action: PayloadAction<GeoJSON.Feature>) => {
+      if (state.editing) state.editing.draft = action.payload;
+    },
+    // A vertex operation finished (drag end, delete, …): make it undoable
+    commitEditStep: (state, action: PayloadAction<GeoJSON.Feature>) => {
+      const editing = state.editing;
+      if (!editing) return;
+      editing.past.push(editing.base);
+      if (editing.past.length > EDIT_HISTORY_LIMIT) editing.past.shift();
+      editing.future = [];
+      editing.base = action.payload;
+      editing.draft = action.payload;
+    },
+    undoEditStep: (state) => {
+      const editing = state.editing;
+      const previous = editing?.past.pop();
+      if (!editing || !previous) return;
+      editing.future.push(editing.base);
+      editing.base = previous;
+      editing.draft = previous;
+    },
+    redoEditStep: (state) => {
+      const editing = state.editing;
+      const next = editing?.future.pop();
+      if (!editing || !next) return;
+      editing.past.push(editing.base);
+      editing.base = next;
+      editing.draft = next;
+    },
+    stopEditingRegion: (state) => {
+      state.editing = null;
+    },
+    setCoordinateFormat: (state, action: PayloadAction<CoordinateFormat>) => {
+      state.coordinateFormat = action.payload;
+    },
+    setBoundaryPickLevel: (state, action: PayloadAction<string | null>) => {
+      state.boundaryPickLevel = action.payload;
+    },
+    setTilePreview: (state, action: PayloadAction<TilePreview | null>) => {
+      state.tilePreview = action.payload;
+    },
+  },
+  extraReducers: (builder) => {
+    // The previous project's regions are gone
+    builder.addCase(projectOpened, (state) => {
+      state.highlightedRegionId = null;
+      state.focus = null;
+      state.editing = null;
+      state.tilePreview = null;
+    });
+  },
+});
+
+export const {
+  setHighlightedRegion,
+  focusRegion,
+  startEditingRegion,
+  updateEditDraft,
+  commitEditStep,
+  undoEditStep,
+  redoEditStep,
+  stopEditingRegion,
+  setCoordinateFormat,
+  setBoundaryPickLevel,
+  setTilePreview,
+} = mapSlice.actions;
+export default mapSlice.reducer;
@@ -0,0 +1,278 @@
+// offlineSlice.ts
+import { createAction, createAsyncThunk, createSlice } from "@reduxjs/toolkit";
+import type { PayloadAction, UnknownAction } from "@reduxjs/toolkit";
+import type { AppThunk, RootState } from "../store";
+import { ApiError } from "../../api/client";
+import { GeocoderError } from "../../api/geocoder";
+import { submitOrder } from "../../api/orders";
+import type { Order, OrderRequest } from "../../api/orders";
+import { geocoder, lookupRegionName } from "../../utils/geocode";
+import { createRegion } from "../../utils/region";
+import { API_BASE_URL } from "../../config/checkout";
+import { addRegions, placeNameFound, setSelectedRegion } from "./cartSlice";
+
+interface JobCommon {
+  id: string;
+  queuedAt: string;
+  // Set when the job was refused for good; it then waits for the user
+  error?: string;
+}
+
+// A region named after its coordinates because the geocoder was out of reach
+export interface ReverseGeocodeJob extends JobCommon {
+  kind: "reverse-geocode";
+  regionId: string;
+  lat: number;
+  lng: number;
+  // Only replaced if the user hasn't renamed the region meanwhile
+  placeholder: string;
+}
+
+// An order placed without a connection. The idempotency key travels with it
+// so a submission that did reach the server isn't applied twice.
+export interface OrderJob extends JobCommon {
+  kind: "order";
+  request: OrderRequest;
+  idempotencyKey: string;
+}
+
+export type QueuedJob = ReverseGeocodeJob | OrderJob;
+
+type NewJob =
+  | Omit<ReverseGeocodeJob, keyof JobCommon>
+  | Omit<OrderJob, keyof JobCommon>;
+
+export interface OfflineState {
+  online: boolean;
+  // Oldest first
+  queue: QueuedJob[];
+  flushing: boolean;
+}
+
+export const initialOfflineState: OfflineState = {
+  online: typeof navigator === "undefined" ? true : navigator.onLine,
+  queue: [],
+  flushing: false,
+};
+
+// A queued order went through; the checkout shows it if it's still open
+export const queuedOrderPlaced = createAction<{
+  idempotencyKey: string;
+  order: Order;
+}>("offline/queuedOrderPlaced");
+
+type ThunkConfig = { state: RootState; rejectValue: string };
+
+// Name a region after the place it's in. Offline, it's named after its
+// coordinates for now and renamed once the geocoder can be reached.
+export const nameRegion = createAsyncThunk<
+  string,
+  { regionId: string; center: [number, number] },
+  ThunkConfig
+>("offline/nameRegion", async ({ regionId, center }, { dispatch }) => {
+  const [lng, lat] = center;
+  const { name, retry } = await lookupRegionName(lat, lng);
+  if (retry) {
+    dispatch(
+      jobQueued({
+        kind: "reverse-geocode",
+        regionId,
+        lat,
+        lng,
+        placeholder: name,
+      })
+    );
+  }
+  return name;
+});
+
+// Thrown inside the flush to stop at the first sign we're still offline
+class StillOffline extends Error {}
+
+async function runReverseGeocode(
+  job: ReverseGeocodeJob,
+  dispatch: (action: UnknownAction) => unknown,
+  getState: () => RootState
+) {
+  const exists = () => {
+    const { regions, selectedRegion } = getState().cart;
+    return (
+      regions.some((r) => r.id === job.regionId) ||
+      selectedRegion?.id === job.regionId
+    );
+  };
+  // Deleted regions, or ones in another project, don't need a name
+  if (!exists()) return;
+
+  let label: string | undefined;
+  try {
+    label = (await geocoder.reverse(job.lat, job.lng))?.label;
+  } catch (err) {
+    if (err instanceof GeocoderError) throw err;
+    throw new StillOffline();
+  }
+  if (!label) return;
+
+  // Read again: the cart may have changed while the request ran
+  const { regions, selectedRegion } = getState().cart;
+  const region = regions.find((r) => r.id === job.regionId);
+  if (region?.name === job.placeholder) {
+    dispatch(
+      placeNameFound({
+        regionId: region.id,
+        placeholder: job.placeholder,
+        name: label,
+      })
+    );
+  }
+  if (
+    selectedRegion?.id === job.regionId &&
+    selectedRegion.name === job.placeholder
+  ) {
+    dispatch(setSelectedRegion({ ...selectedRegion, name: label }));
+  }
+}
+
+// Work through the queue in order, stopping as soon as the connection turns
+// out to be down. Resolves with the orders that went through and how many
+// jobs were refused.
+export const flushOfflineQueue = createAsyncThunk<
+  { placed: Order[]; refused: number },
+  void,
+  ThunkConfig
+>(
+  "offline/flush",
+  async (_, { dispatch, getState }) => {
+    const placed: Order[] = [];
+    let refused = 0;
+    const pending = getState().offline.queue.filter((job) => !job.error);
+    for (const job of pending) {
+      try {
+        if (job.kind === "reverse-geocode") {
+          await runReverseGeocode(job, dispatch, getState);
+        } else {
+          const order = await submitOrder(
+            API_BASE_URL,
+            job.request,
+            job.idempotencyKey
+          );
+          dispatch(
+            queuedOrderPlaced({ idempotencyKey: job.idempotencyKey, order })
+          );
+          placed.push(order);
+        }
+        dispatch(jobRemoved(job.id));
+      } catch (err) {
+        if (
+          err instanceof StillOffline ||
+          (err instanceof ApiError && err.code === "network")
+        )
+          break;
+        // Busy or failing servers get another go on the next flush
+        if (err instanceof GeocoderError) continue;
+        if (err instanceof ApiError && err.retryable) continue;
+        refused++;
+        dispatch(
+          jobFailed({
+            id: job.id,
+            error: (err as Error).message || "The request was refused",
+          })
+        );
+      }
+    }
+    return { placed, refused };
+  },
+  {
+    condition: (_, { getState }) => {
+      const { online, flushing, queue } = getState().offline;
+      return online && !flushing && queue.some((job) => !job.error);
+    },
+  }
+);
+
+// Put a refused order's areas back in the cart so it can be fixed and placed
+// again. Scene picks and tile grids aren't part of the order and are lost.
+export const restoreQueuedOrder =
+  (id: string): AppThunk =>
+  (dispatch, getState) => {
+    const job = getState().offline.queue.find((j) => j.id === id);
+    if (job?.kind !== "order") return;
+    const regions = job.request.items.map((item) => {
+      const region = createRegion(
+        { type: "Feature", properties: {}, geometry: item.geometry },
+        item.name
+      );
+      if (item.product) region.product = item.product;
+      return region;
+    });
+    dispatch(addRegions(regions));
+    dispatch(jobRemoved(id));
+  };
+
+const offlineSlice = createSlice({
+  name: "offline",
+  initialState: initialOfflineState,
+  reducers: {
+    connectionChanged: (state, action: PayloadAction<boolean>) => {
+      state.online = action.payload;
+    },
+    jobQueued: {
+      reducer: (state, action: PayloadAction<QueuedJob>) => {
+        const job = action.payload;
+        // One pending name lookup per region is enough
+        state.queue = state.queue.filter(
+          (j) =>
+            !(
+              job.kind === "reverse-geocode" &&
+              j.kind === "reverse-geocode" &&
+              j.regionId === job.regionId
+            )
+        );
+        state.queue.push(job);
+      },
+      prepare: (job: NewJob) => ({
+        payload: {
+          ...job,
+          id: crypto.randomUUID(),
+          queuedAt: new Date().toISOString(),
+        } as QueuedJob,
+      }),
+    },
+    jobRemoved: (state, action: PayloadAction<string>) => {
+      state.queue = state.queue.filter((j) => j.id !== action.payload);
+    },
+    jobFailed: (
+      state,
+      action: PayloadAction<{ id: string; error: string }>
+    ) => {
+      const job = state.queue.find((j) => j.id === action.payload.id);
+      if (job) job.error = action.payload.error;
+    },
+    // Give a refused job another go on the next flush
+    jobRetried: (state, action: PayloadAction<string>) => {
+      const job = state.queue.find((j) => j.id === action.payload);
+      if (job) delete job.error;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(flushOfflineQueue.pending, (state) => {
+        state.flushing = true;
+      })
+      .addCase(flushOfflineQueue.fulfilled, (state) => {
+        state.flushing = false;
+      })
+      .addCase(flushOfflineQueue.rejected, (state) => {
+        state.flushing = false;
+      });
+  },
+});
+
+export const {
+  connectionChanged,
+  jobQueued,
+  jobRemoved,
+  jobFailed,
+  jobRetried,
+} = offlineSlice.actions;
+export default offlineSlice.reducer;
@@ -0,0 +1,341 @@
+// projectsSlice.ts
+import { createAction, createAsyncThunk, createSlice } from "@reduxjs/toolkit";
+import type { PayloadAction } from "@reduxjs/toolkit";
+import type { RootState } from "../store";
+import type { Region } from "../../types";
+import type { StoredProject } from "../projectDb";
+import {
+  deleteProjectRecord,
+  getProject,
+  listProjects,
+  putProject,
+} from "../projectDb";
+import { CART_SCHEMA_VERSION, loadActiveProjectId } from "../persist";
+import { stampAdded } from "../../utils/region";
+
+// A saved project without its regions; the active project's regions are
+// the cart itself
+export interface ProjectMeta {
+  id: string;
+  name: string;
+  notes: string;
+  createdAt: string;
+  updatedAt: string;
+  regionCount: number;
+}
+
+export interface ProjectsState {
+  // Most recently updated first
+  projects: ProjectMeta[];
+  activeId: string | null;
+  status: "idle" | "loading" | "ready" | "failed";
+  error: string | null;
+}
+
+const initialState: ProjectsState = {
+  projects: [],
+  activeId: null,
+  status: "idle",
+  error: null,
+};
+
+// Another project's regions replace the cart. The cart, map and history
+// slices reset on this, so undo can't reach back into the previous project.
+export const projectOpened = createAction(
+  "projects/opened",
+  ({ id, regions }: { id: string; regions: Region[] }) => ({
+    payload: { id, regions: stampAdded(regions) },
+  })
+);
+
+const toMeta = (project: StoredProject): ProjectMeta => ({
+  id: project.id,
+  name: project.name,
+  notes: project.notes,
+  createdAt: project.createdAt,
+  updatedAt: project.updatedAt,
+  regionCount: project.regions.length,
+});
+
+const sortByUpdated = (projects: ProjectMeta[]) =>
+  [...projects].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+function newProject(name: string, regions: Region[] = []): StoredProject {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    name,
+    notes: "",
+    regions,
+    createdAt: now,
+    updatedAt: now,
+    schemaVersion: CART_SCHEMA_VERSION,
+  };
+}
+
+// The active project as it should be saved, or null before init
+function activeRecord(state: RootState): StoredProject | null {
+  const { projects, activeId } = state.projects;
+  const meta = projects.find((p) => p.id === activeId);
+  if (!meta) return null;
+  return {
+    id: meta.id,
+    name: meta.name,
+    notes: meta.notes,
+    createdAt: meta.createdAt,
+    regions: state.cart.regions,
+    updatedAt: new Date().toISOString(),
+    schemaVersion: CART_SCHEMA_VERSION,
+  };
+}
+
+// Name like "Project 3" that isn't taken yet
+export function nextProjectName(projects: ProjectMeta[]): string {
+  const names = new Set(projects.map((p) => p.name));
+  let n = projects.length + 1;
+  while (names.has(`Project ${n}`)) n++;
+  return `Project ${n}`;
+}
+
+type ThunkConfig = { state: RootState; rejectValue: string };
+
+// Nested thunks reject with their message string
+const failure = (err: unknown) =>
+  (typeof err === "string" ? err : (err as Error).message) ||
+  "Project storage is unavailable";
+
+// Load the project list. The cart restored from localStorage is the working
+// copy of the active project; on first run it becomes the first project.
+export const initProjects = createAsyncThunk<
+  { projects: ProjectMeta[]; activeId: string },
+  void,
+  ThunkConfig
+>(
+  "projects/init",
+  async (_, { getState, dispatch, rejectWithValue }) => {
+    try {
+      const stored = await listProjects();
+      const savedId = loadActiveProjectId();
+      const active = stored.find((p) => p.id === savedId);
+      if (active) {
+        return { projects: stored.map(toMeta), activeId: active.id };
+      }
+      if (stored.length === 0) {
+        const first = newProject("My project", getState().cart.regions);
+        await putProject(first);
+        return { projects: [toMeta(first)], activeId: first.id };
+      }
+      // The active project was deleted elsewhere; open the latest one
+      const latest = stored.reduce((a, b) =>
+        a.updatedAt > b.updatedAt ? a : b
+      );
+      dispatch(projectOpened({ id: latest.id, regions: latest.regions }));
+      return { projects: stored.map(toMeta), activeId: latest.id };
+    } catch (err) {
+      console.error("Failed to load projects:", err);
+      return rejectWithValue(failure(err));
+    }
+  },
+  { condition: (_, { getState }) => getState().projects.status === "idle" }
+);
+
+// Write the active project (cart regions, name, notes) to IndexedDB
+export const saveActiveProject = createAsyncThunk<
+  ProjectMeta | null,
+  void,
+  ThunkConfig
+>("projects/saveActive", async (_, { getState, rejectWithValue }) => {
+  const record = activeRecord(getState());
+  if (!record) return null;
+  try {
+    await putProject(record);
+    return toMeta(record);
+  } catch (err) {
+    console.error("Failed to save project:", err);
+    return rejectWithValue(failure(err));
+  }
+});
+
+export const switchProject = createAsyncThunk<ProjectMeta, string, ThunkConfig>(
+  "projects/switch",
+  async (id, { dispatch, rejectWithValue }) => {
+    try {
+      await dispatch(saveActiveProject()).unwrap();
+      const target = await getProject(id);
+      if (!target) return rejectWithValue("That project no longer exists");
+      dispatch(projectOpened({ id: target.id, regions: target.regions }));
+      return toMeta(target);
+    } catch (err) {
+      console.error("Failed to switch project:", err);
+      return rejectWithValue(failure(err));
+    }
+  },
+  { condition: (id, { getState }) => getState().projects.activeId !== id }
+);
+
+export const createProject = createAsyncThunk<
+  ProjectMeta,
+  string | undefined,
+  ThunkConfig
+>("projects/create", async (name, { getState, dispatch, rejectWithValue }) => {
+  try {
+    await dispatch(saveActiveProject()).unwrap();
+    const project = newProject(
+      name?.trim() || nextProjectName(getState().projects.projects)
+    );
+    await putProject(project);
+    dispatch(projectOpened({ id: project.id, regions: [] }));
+    return toMeta(project);
+  } catch (err) {
+    console.error("Failed to create project:", err);
+    return rejectWithValue(failure(err));
+  }
+});
+
+export const renameProject = createAsyncThunk<
+  ProjectMeta,
+  { id: string; name: string },
+  ThunkConfig
+>("projects/rename", async ({ id, name }, { getState, rejectWithValue }) => {
+  const trimmed = name.trim();
+  if (!trimmed) return rejectWithValue("Project name can't be empty");
+  try {
+    const state = getState();
+    const record =
+      id === state.projects.activeId
+        ? activeRecord(state)
+        : await getProject(id);
+    if (!record) return rejectWithValue("That project no longer exists");
+    const renamed = {
+      ...record,
+      name: trimmed,
+      updatedAt: new Date().toISOString(),
+    };
+    await putProject(renamed);
+    return toMeta(renamed);
+  } catch (err) {
+    console.error("Failed to rename project:", err);
+    return rejectWithValue(failure(err));
+  }
+});
+
+// Copies are added to the list; the current project stays open
+export const duplicateProject = createAsyncThunk<
+  ProjectMeta,
+  string,
+  ThunkConfig
+>("projects/duplicate", async (id, { getState, rejectWithValue }) => {
+  try {
+    const state = getState();
+    const source =
+      id === state.projects.activeId
+        ? activeRecord(state)
+        : await getProject(id);
+    if (!source) return rejectWithValue("That project no longer exists");
+    const copy = {
+      ...newProject(`${source.name} (copy)`, source.regions),
+      notes: source.notes,
+    };
+    await putProject(copy);
+    return toMeta(copy);
+  } catch (err) {
+    console.error("Failed to duplicate project:", err);
+    return rejectWithValue(failure(err));
+  }
+});
+
+// Deleting the open project opens the most recent remaining one, or a new
+// empty project when it was the last
+export const deleteProject = createAsyncThunk<
+  { id: string; created: ProjectMeta | null },
+  string,
+  ThunkConfig
+>("projects/delete", async (id, { getState, dispatch, rejectWithValue }) => {
+  try {
+    const { projects, activeId } = getState().projects;
+    await deleteProjectRecord(id);
+    if (id !== activeId) return { id, created: null };
+
+    const next = projects.find((p) => p.id !== id);
+    if (next) {
+      const target = await getProject(next.id);
+      if (target) {
+        dispatch(projectOpened({ id: target.id, regions: target.regions }));
+        return { id, created: null };
+      }
+    }
+    const fresh = newProject(nextProjectName([]));
+    await putProject(fresh);
+    dispatch(projectOpened({ id: fresh.id, regions: [] }));
+    return { id, created: toMeta(fresh) };
+  } catch (err) {
+    console.error("Failed to delete project:", err);
+    return rejectWithValue(failure(err));
+  }
+});
+
+const projectsSlice = createSlice({
+  name: "projects",
+  initialState,
+  reducers: {
+    // Notes belong to the open project and are saved with it
+    setProjectNotes: (state, action: PayloadAction<string>) => {
+      const active = state.projects.find((p) => p.id === state.activeId);
+      if (active) active.notes = action.payload;
+    },
+  },
+  extraReducers: (builder) => {
+    const upsert = (state: ProjectsState, meta: ProjectMeta) => {
+      state.projects = sortByUpdated([
+        meta,
+        ...state.projects.filter((p) => p.id !== meta.id),
+      ]);
+    };
+    builder
+      .addCase(projectOpened, (state, action) => {
+        state.activeId = action.payload.id;
+      })
+      .addCase(initProjects.pending, (state) => {
+        state.status = "loading";
+      })
+      .addCase(initProjects.fulfilled, (state, action) => {
+        state.projects = sortByUpdated(action.payload.projects);
+        state.activeId = action.payload.activeId;
+        state.status = "ready";
+        state.error = null;
+      })
+      .addCase(initProjects.rejected, (state, action) => {
+        state.status = "failed";
+        state.error = action.payload ?? "Project storage is unavailable";
+      })
+      .addCase(saveActiveProject.fulfilled, (state, action) => {
+        const saved = action.payload;
+        const meta = state.projects.find((p) => p.id === saved?.id);
+        // Name and notes may have changed again while the write was running
+        if (saved && meta) {
+          meta.updatedAt = saved.updatedAt;
+          meta.regionCount = saved.regionCount;
+        }
+      })
+      .addCase(switchProject.fulfilled, (state, action) => {
+        upsert(state, action.payload);
+      })
+      .addCase(createProject.fulfilled, (state, action) => {
+        upsert(state, action.payload);
+      })
+      .addCase(renameProject.fulfilled, (state, action) => {
+        upsert(state, action.payload);
+      })
+      .addCase(duplicateProject.fulfilled, (state, action) => {
+        upsert(state, action.payload);
+      })
+      .addCase(deleteProject.fulfilled, (state, action) => {
+        const { id, created } = action.payload;
+        state.projects = state.projects.filter((p) => p.id !== id);
+        if (created) upsert(state, created);
+      });
+  },
+});
+
+export const { setProjectNotes } = projectsSlice.actions;
+export default projectsSlice.reducer;
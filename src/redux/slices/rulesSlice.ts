@@ -0,0 +1,67 @@
+// rulesSlice.ts
+import { createAsyncThunk, createSlice } from "@reduxjs/toolkit";
+import type { RootState } from "../store";
+import type { RestrictedZone } from "../../utils/rules";
+import { parseRestrictedZones } from "../../utils/rules";
+import { RESTRICTED_ZONES_URL } from "../../config/rules";
+
+export interface RulesState {
+  // null until a list has been loaded once; checkout stays blocked until then
+  zones: RestrictedZone[] | null;
+  zonesStatus: "idle" | "loading" | "loaded" | "failed";
+}
+
+export const initialRulesState: RulesState = {
+  zones: null,
+  zonesStatus: "idle",
+};
+
+export const loadRestrictedZones = createAsyncThunk<
+  RestrictedZone[],
+  void,
+  { state: RootState; rejectValue: string }
+>(
+  "rules/loadZones",
+  async (_, { rejectWithValue }) => {
+    try {
+      const res = await fetch(RESTRICTED_ZONES_URL);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const { zones, problems } = parseRestrictedZones(await res.json());
+      for (const problem of problems) {
+        console.warn(`Skipped restricted zone: ${problem}`);
+      }
+      return zones;
+    } catch (err) {
+      // A previously loaded list keeps working
+      console.error("Failed to load restricted zones:", err);
+      return rejectWithValue((err as Error).message);
+    }
+  },
+  {
+    condition: (_, { getState }) => {
+      const { zonesStatus } = getState().rules;
+      return zonesStatus === "idle" || zonesStatus === "failed";
+    },
+  }
+);
+
+const rulesSlice = createSlice({
+  name: "rules",
+  initialState: initialRulesState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      .addCase(loadRestrictedZones.pending, (state) => {
+        state.zonesStatus = "loading";
+      })
+      .addCase(loadRestrictedZones.fulfilled, (state, action) => {
+        state.zones = action.payload;
+        state.zonesStatus = "loaded";
+      })
+      .addCase(loadRestrictedZones.rejected, (state) => {
+        state.zonesStatus = "failed";
+      });
+  },
+});
+
+export default rulesSlice.reducer;
@@ -1,9 +1,133 @@
-import { configureStore } from "@reduxjs/toolkit";
-import cart from "./slices/cartSlice";
+import { combineReducers, configureStore } from "@reduxjs/toolkit";
+import type { ThunkAction, UnknownAction } from "@reduxjs/toolkit";
+import cart, { initialCartState } from "./slices/cartSlice";
+import map from "./slices/mapSlice";
+import history from "./slices/historySlice";
+import catalog from "./slices/catalogSlice";
+import checkout from "./slices/checkoutSlice";
+import layers, { initialLayersState } from "./slices/layersSlice";
+import projects, { saveActiveProject } from "./slices/projectsSlice";
+import offline, { initialOfflineState } from "./slices/offlineSlice";
+import rules, { initialRulesState } from "./slices/rulesSlice";
+import type { LayersState } from "./slices/layersSlice";
+import { historyMiddleware } from "./historyMiddleware";
+import {
+  loadCartState,
+  loadLayerPrefs,
+  loadOfflineQueue,
+  loadSavedZones,
+  persistedCartChanged,
+  pickPersistedCart,
+  saveActiveProjectId,
+  saveCartState,
+  saveLayerPrefs,
+  saveOfflineQueue,
+  saveZones,
+} from "./persist";
+
+const reducer = combineReducers({
+  cart,
+  map,
+  history,
+  catalog,
+  checkout,
+  layers,
+  projects,
+  offline,
+  rules,
+});
+
+const preloadedState: Partial<ReturnType<typeof reducer>> = {};
+const savedCart = loadCartState();
+if (savedCart) preloadedState.cart = { ...initialCartState, ...savedCart };
+const savedLayers = loadLayerPrefs();
+if (savedLayers) {
+  preloadedState.layers = { ...initialLayersState, ...savedLayers };
+}
+preloadedState.offline = { ...initialOfflineState, queue: loadOfflineQueue() };
+preloadedState.rules = { ...initialRulesState, zones: loadSavedZones() };
 
 export const store = configureStore({
-  reducer: { cart },
+  reducer,
+  preloadedState,
+  middleware: (getDefaultMiddleware) =>
+    getDefaultMiddleware().concat(historyMiddleware),
+});
+
+// Write the cart back whenever it changes so a half-built order survives
+// reloads and crashes
+let lastCart = store.getState().cart;
+store.subscribe(() => {
+  const { cart } = store.getState();
+  if (!persistedCartChanged(lastCart, cart)) return;
+  lastCart = cart;
+  saveCartState(pickPersistedCart(cart));
+});
+
+let lastLayers: LayersState = store.getState().layers;
+store.subscribe(() => {
+  const { layers } = store.getState();
+  if (
+    layers.baseLayerId === lastLayers.baseLayerId &&
+    layers.overlays === lastLayers.overlays
+  )
+    return;
+  lastLayers = layers;
+  saveLayerPrefs(layers);
+});
+
+let lastQueue = store.getState().offline.queue;
+store.subscribe(() => {
+  const { queue } = store.getState().offline;
+  if (queue === lastQueue) return;
+  lastQueue = queue;
+  saveOfflineQueue(queue);
+});
+
+let lastZones = store.getState().rules.zones;
+store.subscribe(() => {
+  const { zones } = store.getState().rules;
+  if (zones === lastZones) return;
+  lastZones = zones;
+  if (zones) saveZones(zones);
+});
+
+// Projects are saved to IndexedDB a moment after the cart, name or notes
+// stop changing, rather than on every vertex drag or keystroke
+const PROJECT_SAVE_DELAY_MS = 1000;
+let lastProjectRegions = store.getState().cart.regions;
+let lastProject = store.getState().projects;
+let projectSaveTimer: ReturnType<typeof setTimeout> | undefined;
+store.subscribe(() => {
+  const { cart, projects } = store.getState();
+  if (projects.activeId !== lastProject.activeId && projects.activeId) {
+    saveActiveProjectId(projects.activeId);
+  }
+  const active = (p: typeof projects) =>
+    p.projects.find((m) => m.id === p.activeId);
+  const before = active(lastProject);
+  const after = active(projects);
+  const changed =
+    projects.activeId === lastProject.activeId &&
+    (cart.regions !== lastProjectRegions ||
+      before?.name !== after?.name ||
+      before?.notes !== after?.notes);
+  lastProjectRegions = cart.regions;
+  lastProject = projects;
+  if (!changed || projects.status !== "ready") return;
+  clearTimeout(projectSaveTimer);
+  projectSaveTimer = setTimeout(
+    () => store.dispatch(saveActiveProject()),
+    PROJECT_SAVE_DELAY_MS
+  );
 });
 
 export type RootState = ReturnType<typeof store.getState>;
 export type AppDispatch = typeof store.dispatch;
+export type AppStore = typeof store;
+export type AppThunk<ReturnType = void> = ThunkAction<
+  ReturnType,
+  RootState,
+  unknown,
+  UnknownAction
+>;
@@ -0,0 +1,37 @@
+// test/regions.ts
+// Cart regions for tests, built from lon/lat boxes
+import type { Region } from "../types";
+import { regionCenter } from "../utils/geometry";
+
+export function boxFeature(
+  west: number,
+  south: number,
+  east: number,
+  north: number
+): GeoJSON.Feature<GeoJSON.Polygon> {
+  return {
+    type: "Feature",
+    properties: {},
+    geometry: {
+      type: "Polygon",
+      coordinates: [
+        [
+          [west, south],
+          [east, south],
+          [east, north],
+          [west, north],
+          [west, south],
+        ],
+      ],
+    },
+  };
+}
+
+export function boxRegion(
+  id: string,
+  [west, south, east, north]: [number, number, number, number],
+  extra: Partial<Region> = {}
+): Region {
+  const geojson = boxFeature(west, south, east, north);
+  return { id, name: id, geojson, center: regionCenter(geojson), ...extra };
+}
@@ -1,8 +1,67 @@
-export type BasemapKey = "osm" | "esriImagery" | "esriStreets" | "esriTopo";
+// Id of a layer in the basemap registry (config/basemaps.ts)
+export type BasemapKey = string;
+
+// An archive scene picked from the catalog for a region
+export interface SceneSelection {
+  id: string; // STAC item id
+  collection: string;
+  datetime: string;
+  cloudCover?: number;
+  gsd?: number;
+  thumbnail?: string;
+  footprint: GeoJSON.Geometry;
+}
+
+export type AcquisitionMode = "archive" | "tasking";
+export type ProcessingLevel = "raw" | "orthorectified" | "pansharpened";
+
+// What is being ordered for a region; ids refer to the product catalog
+export interface ProductOptions {
+  mode: AcquisitionMode;
+  sensor: string;
+  resolutionTier: string;
+  processingLevel: ProcessingLevel;
+  bands: string[];
+  acquisitionStart: string; // YYYY-MM-DD
+  acquisitionEnd: string;
+  maxCloudCover: number; // percent
+}
+
+export type TileAlignment = "utm" | "fixed";
+
+// How a large region is split for fulfilment
+export interface TileGridOptions {
+  sizeKm: number;
+  // "utm": cells on the UTM zone's kilometre grid; "fixed": squares of
+  // `sizeKm` laid out from the region's south-west corner
+  alignment: TileAlignment;
+}
+
+// One grid cell clipped to its region, ordered as a child line item
+export interface RegionTile {
+  id: string;
+  label: string;
+  geometry: GeoJSON.Polygon | GeoJSON.MultiPolygon;
+}
 
 export interface Region {
   id: string;
   name: string;
   geojson: GeoJSON.Feature; // polygon/rectangle as GeoJSON
   center: [number, number];
+  scenes?: SceneSelection[];
+  // Missing only on drafts that haven't reached the cart
+  product?: ProductOptions;
+  // Set together when the region is split into tiles
+  tileGrid?: TileGridOptions;
+  tiles?: RegionTile[];
+  // When it went into the cart (ISO 8601); missing on carts saved before
+  addedAt?: string;
+  // Set when the name wasn't picked by the geocoder (typed by the user, or
+  // brought in with the shape), so reshaping doesn't rename the region
+  customName?: boolean;
+  // The user's own organisation of the cart; not part of the order
+  notes?: string;
+  tags?: string[];
+  group?: string;
 }
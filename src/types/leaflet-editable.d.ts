@@ -1,9 +1,8 @@
 import * as L from "leaflet";
 
 declare module "leaflet" {
-  class Editable {
-    constructor(map: L.Map, options?: any);
-
+  // An interface so it merges with @types/leaflet-editable's declarations
+  interface Editable {
     startPolygon(): L.Polygon;
     startPolyline(): L.Polyline;
     startMarker(
@@ -16,6 +15,13 @@ declare module "leaflet" {
       options?: L.CircleMarkerOptions
     ): L.Circle;
     stopDrawing(): void;
+    createPolygon(
+      latlngs:
+        | L.LatLngExpression[]
+        | L.LatLngExpression[][]
+        | L.LatLngExpression[][][],
+      options?: L.PolylineOptions
+    ): L.Polygon;
   }
 
   interface Map {
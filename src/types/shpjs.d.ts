@@ -0,0 +1,10 @@
+// shpjs ships no type declarations
+declare module "shpjs" {
+  interface FeatureCollectionWithFilename extends GeoJSON.FeatureCollection {
+    fileName?: string;
+  }
+
+  export default function shp(
+    base: string | ArrayBuffer
+  ): Promise<FeatureCollectionWithFilename | FeatureCollectionWithFilename[]>;
+}
@@ -0,0 +1,149 @@
+// utils/basemaps.ts
+import type { BasemapKey } from "../types";
+
+interface LayerCommon {
+  id: BasemapKey;
+  label: string;
+  attribution?: string;
+  minZoom?: number;
+  maxZoom?: number;
+  // Initial opacity for overlays, 0–1
+  opacity?: number;
+}
+
+export interface XyzLayerSource extends LayerCommon {
+  type: "xyz";
+  // Leaflet URL template with {z}/{x}/{y} and optional {s}
+  url: string;
+  subdomains?: string;
+}
+
+export interface WmtsLayerSource extends LayerCommon {
+  type: "wmts";
+  // KVP endpoint, or a RESTful template using {TileMatrix}/{TileRow}/{TileCol}
+  url: string;
+  encoding?: "kvp" | "rest";
+  layer: string;
+  // Must be a Web Mercator matrix set whose matrices follow zoom levels
+  tileMatrixSet: string;
+  // Prepended to the zoom to get the matrix identifier, e.g. "EPSG:3857:"
+  tileMatrixPrefix?: string;
+  style?: string;
+  format?: string;
+}
+
+export interface WmsLayerSource extends LayerCommon {
+  type: "wms";
+  url: string;
+  layers: string;
+  styles?: string;
+  format?: string;
+  transparent?: boolean;
+  version?: string;
+}
+
+export type LayerSource = XyzLayerSource | WmtsLayerSource | WmsLayerSource;
+
+export interface BasemapRegistry {
+  baseLayers: LayerSource[];
+  overlays: LayerSource[];
+  defaultBaseLayer: BasemapKey;
+}
+
+// Turn a WMTS source into a Leaflet {z}/{x}/{y} template
+export function wmtsUrlTemplate(source: WmtsLayerSource): string {
+  const matrix = `${source.tileMatrixPrefix ?? ""}{z}`;
+  if (source.encoding === "rest") {
+    return source.url
+      .replace("{Layer}", source.layer)
+      .replace("{Style}", source.style ?? "default")
+      .replace("{TileMatrixSet}", source.tileMatrixSet)
+      .replace("{TileMatrix}", matrix)
+      .replace("{TileRow}", "{y}")
+      .replace("{TileCol}", "{x}");
+  }
+  const params = [
+    "SERVICE=WMTS",
+    "REQUEST=GetTile",
+    "VERSION=1.0.0",
+    `LAYER=${encodeURIComponent(source.layer)}`,
+    `STYLE=${encodeURIComponent(source.style ?? "default")}`,
+    `TILEMATRIXSET=${encodeURIComponent(source.tileMatrixSet)}`,
+    `TILEMATRIX=${matrix}`,
+    "TILEROW={y}",
+    "TILECOL={x}",
+    `FORMAT=${encodeURIComponent(source.format ?? "image/png")}`,
+  ];
+  const sep = source.url.includes("?") ? "&" : "?";
+  return `${source.url}${sep}${params.join("&")}`;
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+const REQUIRED_FIELDS: Record<LayerSource["type"], string[]> = {
+  xyz: ["url"],
+  wmts: ["url", "layer", "tileMatrixSet"],
+  wms: ["url", "layers"],
+};
+
+// Check one layer entry from an external registry file. Returns the reason
+// it's unusable, or null when it's fine.
+export function layerSourceProblem(value: unknown): string | null {
+  if (!isObject(value)) return "not an object";
+  if (typeof value.id !== "string" || !value.id) return "missing id";
+  if (typeof value.label !== "string") return `${value.id}: missing label`;
+  const type = value.type as LayerSource["type"];
+  const required = REQUIRED_FIELDS[type];
+  if (!required) return `${value.id}: unknown type "${String(value.type)}"`;
+  const missing = required.filter((f) => typeof value[f] !== "string");
+  if (missing.length > 0)
+    return `${value.id}: missing ${missing.join(", ")} for ${type}`;
+  return null;
+}
+
+// Merge an external registry (e.g. fetched JSON) onto the built-in one.
+// Entries with a known id replace it, new ones are appended, and invalid
+// ones are skipped and reported.
+export function mergeBasemapRegistry(
+  base: BasemapRegistry,
+  extra: unknown
+): { registry: BasemapRegistry; problems: string[] } {
+  const problems: string[] = [];
+  if (!isObject(extra)) {
+    return { registry: base, problems: ["registry is not an object"] };
+  }
+
+  const merge = (current: LayerSource[], list: unknown, kind: string) => {
+    if (list === undefined) return current;
+    if (!Array.isArray(list)) {
+      problems.push(`${kind} is not a list`);
+      return current;
+    }
+    const merged = [...current];
+    for (const entry of list) {
+      const problem = layerSourceProblem(entry);
+      if (problem) {
+        problems.push(`${kind}: ${problem}`);
+        continue;
+      }
+      const source = entry as LayerSource;
+      const index = merged.findIndex((l) => l.id === source.id);
+      if (index >= 0) merged[index] = source;
+      else merged.push(source);
+    }
+    return merged;
+  };
+
+  const baseLayers = merge(base.baseLayers, extra.baseLayers, "baseLayers");
+  const overlays = merge(base.overlays, extra.overlays, "overlays");
+  const requested = extra.defaultBaseLayer;
+  const defaultBaseLayer =
+    typeof requested === "string" && baseLayers.some((l) => l.id === requested)
+      ? requested
+      : base.defaultBaseLayer;
+  return {
+    registry: { baseLayers, overlays, defaultBaseLayer },
+    problems,
+  };
+}
@@ -0,0 +1,79 @@
+// utils/boundaries.ts
+import type { PolygonalGeometry } from "./validation";
+
+export interface BoundaryLevel {
+  id: string;
+  label: string;
+  // File name under BOUNDARIES_URL
+  file: string;
+}
+
+export interface BoundaryProperties {
+  id: string;
+  name: string;
+  parent?: string;
+}
+
+export type BoundaryFeature = GeoJSON.Feature<
+  PolygonalGeometry,
+  BoundaryProperties
+>;
+
+const isPolygonal = (g: GeoJSON.Geometry | null | undefined) =>
+  g?.type === "Polygon" || g?.type === "MultiPolygon";
+
+// Keep the usable features of a boundary file. Features without a name or
+// polygonal geometry are dropped and counted.
+export function parseBoundaries(json: unknown): {
+  features: BoundaryFeature[];
+  skipped: number;
+} {
+  const collection = json as GeoJSON.FeatureCollection;
+  if (
+    collection?.type !== "FeatureCollection" ||
+    !Array.isArray(collection.features)
+  ) {
+    throw new Error("Boundary file is not a GeoJSON FeatureCollection");
+  }
+  const features: BoundaryFeature[] = [];
+  collection.features.forEach((f, i) => {
+    const name = f?.properties?.name;
+    if (!isPolygonal(f?.geometry) || typeof name !== "string" || !name) return;
+    const id = f.properties?.id ?? f.id ?? String(i);
+    features.push({
+      type: "Feature",
+      properties: {
+        id: String(id),
+        name,
+        ...(f.properties?.parent && { parent: String(f.properties.parent) }),
+      },
+      geometry: f.geometry as PolygonalGeometry,
+    });
+  });
+  return { features, skipped: collection.features.length - features.length };
+}
+
+const cache = new Map<string, Promise<BoundaryFeature[]>>();
+
+// Fetched once per URL on first use; failures aren't cached so picking the
+// level again retries
+export function loadBoundaries(url: string): Promise<BoundaryFeature[]> {
+  let pending = cache.get(url);
+  if (!pending) {
+    pending = fetch(url)
+      .then((res) => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return res.json();
+      })
+      .then((json) => {
+        const { features, skipped } = parseBoundaries(json);
+        if (skipped > 0) {
+          console.warn(`Skipped ${skipped} unusable boundaries in ${url}`);
+        }
+        return features;
+      });
+    pending.catch(() => cache.delete(url));
+    cache.set(url, pending);
+  }
+  return pending;
+}
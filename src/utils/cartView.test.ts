@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { buildCartGroups, matchesQuery } from "./cartView";
+import type { CartView } from "../redux/slices/cartSlice";
+import { initialCartState } from "../redux/slices/cartSlice";
+import { priceCart } from "./pricing";
+import { DEFAULT_PRICE_TABLE } from "../config/pricing";
+import { boxRegion } from "../test/regions";
+
+// Cart order differs from the order the regions were added in
+const regions = [
+  boxRegion("restored", [0, 0, 0.1, 0.1], {
+    addedAt: "2026-10-01T09:00:00.000Z",
+    tags: ["Survey"],
+  }),
+  boxRegion("newest", [1, 0, 1.3, 0.3], {
+    addedAt: "2026-10-03T09:00:00.000Z",
+    group: "North",
+  }),
+  boxRegion("middle", [2, 0, 2.2, 0.2], {
+    addedAt: "2026-10-02T09:00:00.000Z",
+  }),
+  // From a cart saved before regions were dated
+  boxRegion("legacy", [3, 0, 3.1, 0.1]),
+];
+const { lineItems } = priceCart(regions, DEFAULT_PRICE_TABLE);
+
+const listed = (view: Partial<CartView>) =>
+  buildCartGroups(regions, lineItems, {
+    ...initialCartState.view,
+    ...view,
+  }).flatMap((g) => g.items.map((i) => i.region.id));
+
+describe("buildCartGroups", () => {
+  it("sorts by when regions were added, not where they sit", () => {
+    const ungrouped = (ids: string[]) => ids.filter((id) => id !== "newest");
+    expect(ungrouped(listed({ sortBy: "added", sortDir: "desc" }))).toEqual([
+      "middle",
+      "restored",
+      "legacy",
+    ]);
+    expect(ungrouped(listed({ sortBy: "added", sortDir: "asc" }))).toEqual([
+      "legacy",
+      "restored",
+      "middle",
+    ]);
+  });
+
+  it("lists named groups before ungrouped regions", () => {
+    const groups = buildCartGroups(regions, lineItems, initialCartState.view);
+    expect(groups.map((g) => g.name)).toEqual(["North", null]);
+    expect(groups[0].subtotal).toBe(lineItems[1].subtotal);
+  });
+
+  it("sorts by area", () => {
+    expect(listed({ sortBy: "area", sortDir: "desc" })).toEqual([
+      "newest",
+      "middle",
+      "restored",
+      "legacy",
+    ]);
+  });
+});
+
+describe("matchesQuery", () => {
+  it("matches names, tags and exact #tags", () => {
+    expect(matchesQuery(regions[0], "rest")).toBe(true);
+    expect(matchesQuery(regions[0], "surv")).toBe(true);
+    expect(matchesQuery(regions[0], "#survey")).toBe(true);
+    expect(matchesQuery(regions[0], "#surv")).toBe(false);
+    expect(matchesQuery(regions[0], "rest north")).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+// utils/cartView.ts
+// Filtering, sorting and grouping behind the cart list. Line items travel
+// with their regions since prices depend on the whole cart, not the view.
+import type { Region } from "../types";
+import type { CartView } from "../redux/slices/cartSlice";
+import type { LineItem } from "./pricing";
+
+export interface CartListItem {
+  region: Region;
+  line: LineItem;
+}
+
+export interface CartGroup {
+  // null for regions outside any group
+  name: string | null;
+  items: CartListItem[];
+  subtotal: number;
+  collapsed: boolean;
+}
+
+// Every word must match: plain words anywhere in the name or a tag, "#tag"
+// a whole tag
+export function matchesQuery(region: Region, query: string): boolean {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const name = region.name.toLowerCase();
+  const tags = (region.tags ?? []).map((t) => t.toLowerCase());
+  return words.every((word) =>
+    word.startsWith("#")
+      ? tags.includes(word.slice(1))
+      : name.includes(word) || tags.some((t) => t.includes(word))
+  );
+}
+
+const collator = new Intl.Collator(undefined, {
+  numeric: true,
+  sensitivity: "base",
+});
+
+// `items` must be in cart order, which breaks ties in "added"
+function sortItems(
+  items: CartListItem[],
+  { sortBy, sortDir }: CartView
+): CartListItem[] {
+  const sign = sortDir === "asc" ? 1 : -1;
+  const position = new Map(items.map((item, i) => [item.region.id, i]));
+  const compare = (a: CartListItem, b: CartListItem): number => {
+    switch (sortBy) {
+      case "name":
+        return collator.compare(a.region.name, b.region.name);
+      case "area":
+        return a.line.areaKm2 - b.line.areaKm2;
+      case "price":
+        return a.line.subtotal - b.line.subtotal;
+      case "added":
+        // Regions from carts saved before addedAt count as oldest; ties
+        // (e.g. one import) fall back to the cart's newest-first order
+        return (
+          (a.region.addedAt ?? "").localeCompare(b.region.addedAt ?? "") ||
+          position.get(b.region.id)! - position.get(a.region.id)!
+        );
+    }
+  };
+  return [...items].sort((a, b) => sign * compare(a, b));
+}
+
+// The visible list: matching regions, sorted, in named groups (alphabetical)
+// followed by the ungrouped ones
+export function buildCartGroups(
+  regions: Region[],
+  lineItems: LineItem[],
+  view: CartView
+): CartGroup[] {
+  const items = regions
+    .map((region, i) => ({ region, line: lineItems[i] }))
+    .filter(({ region }) => matchesQuery(region, view.query));
+  const byGroup = new Map<string | null, CartListItem[]>();
+  for (const item of sortItems(items, view)) {
+    const name = item.region.group ?? null;
+    byGroup.set(name, [...(byGroup.get(name) ?? []), item]);
+  }
+  return [...byGroup.entries()]
+    .sort(([a], [b]) =>
+      a === null ? 1 : b === null ? -1 : collator.compare(a, b)
+    )
+    .map(([name, groupItems]) => ({
+      name,
+      items: groupItems,
+      subtotal: groupItems.reduce((sum, { line }) => sum + line.subtotal, 0),
+      collapsed: name !== null && view.collapsedGroups.includes(name),
+    }));
+}
+
+// Every tag and group name in use, for suggestions
+export function cartLabels(regions: Region[]) {
+  const tags = new Map<string, string>();
+  const groups = new Set<string>();
+  for (const region of regions) {
+    for (const tag of region.tags ?? []) {
+      if (!tags.has(tag.toLowerCase())) tags.set(tag.toLowerCase(), tag);
+    }
+    if (region.group) groups.add(region.group);
+  }
+  return {
+    tags: [...tags.values()].sort(collator.compare),
+    groups: [...groups].sort(collator.compare),
+  };
+}
@@ -0,0 +1,57 @@
+// utils/checkout.ts
+import type { Region } from "../types";
+import type { CustomerDetails, OrderRequest } from "../api/orders";
+import type { OrderQuote } from "./pricing";
+
+export type CustomerErrors = Partial<Record<keyof CustomerDetails, string>>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function validateCustomer(customer: CustomerDetails): CustomerErrors {
+  const errors: CustomerErrors = {};
+  if (!customer.name.trim()) errors.name = "Enter your name";
+  if (!customer.email.trim()) errors.email = "Enter an email address";
+  else if (!EMAIL_PATTERN.test(customer.email.trim()))
+    errors.email = "That doesn't look like an email address";
+  if (customer.phone.trim() && !/^[+\d][\d\s().-]{5,}$/.test(customer.phone))
+    errors.phone = "Use digits, spaces and an optional leading +";
+  return errors;
+}
+
+export function buildOrderRequest(
+  regions: Region[],
+  quote: OrderQuote,
+  customer: CustomerDetails,
+  termsVersion: string
+): OrderRequest {
+  return {
+    customer: {
+      name: customer.name.trim(),
+      email: customer.email.trim(),
+      organization: customer.organization.trim(),
+      phone: customer.phone.trim(),
+      notes: customer.notes.trim(),
+    },
+    items: regions.map((r, i) => ({
+      regionId: r.id,
+      name: r.name,
+      geometry: r.geojson.geometry,
+      product: r.product,
+      sceneIds: (r.scenes ?? []).map((s) => s.id),
+      ...(quote.lineItems[i].tiles.length > 0 && {
+        tiles: (r.tiles ?? []).map((tile, j) => ({
+          label: tile.label,
+          geometry: tile.geometry,
+          areaKm2: quote.lineItems[i].tiles[j].areaKm2,
+          subtotal: quote.lineItems[i].tiles[j].subtotal,
+        })),
+      }),
+      areaKm2: quote.lineItems[i].areaKm2,
+      subtotal: quote.lineItems[i].subtotal,
+    })),
+    currency: quote.currency,
+    discount: quote.discount,
+    quotedTotal: quote.total,
+    termsVersion,
+  };
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatCoordinate,
+  fromUtm,
+  parseAngle,
+  parseCoordinate,
+  parseMgrs,
+  parseVertexList,
+  toDms,
+  toMgrs,
+  toUtm,
+  tryParseCoordinate,
+  utmZone,
+} from "./coordinates";
+import type { CoordinateFormat } from "./coordinates";
+
+// [lng, lat] across hemispheres, zone edges and the Norway exception
+const PLACES: [number, number][] = [
+  [12.4964, 41.9028],
+  [-74.006, 40.7128],
+  [151.2093, -33.8688],
+  [-58.3816, -34.6037],
+  [7.4381, 10.5105],
+  [5.3221, 60.3913],
+  [-0.0001, 0.0001],
+  [179.9, -16.5],
+];
+
+// 1 m (UTM, MGRS) or 0.1″ (DMS) is about 1e-5°
+const FORMATS: [CoordinateFormat, number][] = [
+  ["decimal", 1e-5],
+  ["dms", 3e-5],
+  ["utm", 2e-5],
+  ["mgrs", 2e-5],
+];
+
+describe("format → parse round trips", () => {
+  for (const [format, tolerance] of FORMATS) {
+    it(`${format} comes back where it started`, () => {
+      for (const place of PLACES) {
+        const [lng, lat] = parseCoordinate(formatCoordinate(place, format));
+        expect(Math.abs(lng - place[0])).toBeLessThan(tolerance);
+        expect(Math.abs(lat - place[1])).toBeLessThan(tolerance);
+      }
+    });
+  }
+
+  it("UTM projects and unprojects to the millimetre", () => {
+    for (const [lng, lat] of PLACES) {
+      const [backLng, backLat] = fromUtm(toUtm(lng, lat));
+      expect(backLng).toBeCloseTo(lng, 8);
+      expect(backLat).toBeCloseTo(lat, 8);
+    }
+  });
+
+  it("falls back to decimal degrees near the poles", () => {
+    expect(formatCoordinate([10, 85], "utm")).toBe("85.00000, 10.00000");
+    expect(formatCoordinate([10, -85], "mgrs")).toBe("-85.00000, 10.00000");
+  });
+});
+
+describe("degrees, minutes, seconds", () => {
+  it("formats with hemisphere letters", () => {
+    expect(toDms(45.5, "lat")).toBe("45°30′00.0″N");
+    expect(toDms(-9.1675, "lng")).toBe("9°10′03.0″W");
+  });
+
+  it("carries rounded seconds into minutes and degrees", () => {
+    expect(toDms(-0.999999, "lng")).toBe("1°00′00.0″W");
+  });
+
+  it("reads the common spellings", () => {
+    const angle = parseAngle(`45°30'15"N`);
+    expect(angle.hemisphere).toBe("N");
+    expect(angle.value).toBeCloseTo(45.50417, 5);
+    expect(parseAngle("45 30 15 S").value).toBeCloseTo(-45.50417, 5);
+    expect(parseAngle("W9.5")).toEqual({ value: -9.5, hemisphere: "W" });
+    expect(parseAngle("45d30m").value).toBe(45.5);
+    expect(parseAngle("45d30m36s").value).toBe(45.51);
+  });
+
+  it("rejects contradictions", () => {
+    expect(() => parseAngle("-45 30 N")).toThrow(/Sign and hemisphere/);
+    expect(() => parseAngle("45 61 N")).toThrow(/below 60/);
+    expect(() => parseAngle("45.5 30 N")).toThrow(/Fractional degrees/);
+  });
+
+  it("orders a pair by its hemisphere letters", () => {
+    expect(parseCoordinate("9°10′E 45°30′N")).toEqual([
+      9.166666666666666, 45.5,
+    ]);
+    expect(() => parseCoordinate("45 N, 9 S")).toThrow(/same axis/);
+  });
+});
+
+describe("UTM and MGRS", () => {
+  it("picks zones with the Norway and Svalbard exceptions", () => {
+    expect(utmZone(12.5, 41.9)).toBe(33);
+    expect(utmZone(5.3, 60.4)).toBe(32);
+    expect(utmZone(15, 78)).toBe(33);
+    expect(utmZone(180, 0)).toBe(60);
+  });
+
+  it("reads hemispheres and latitude bands", () => {
+    const [lng, lat] = parseCoordinate("33T 500000 4649776");
+    expect(lng).toBeCloseTo(15, 6);
+    expect(lat).toBeCloseTo(42, 4);
+    expect(parseCoordinate("33N 500000 4649776")).toEqual([lng, lat]);
+    expect(parseCoordinate("56H 334369 6250948")[1]).toBeLessThan(0);
+  });
+
+  it("formats MGRS at 1 m and reads it back", () => {
+    const mgrs = toMgrs(15, 42);
+    expect(mgrs).toMatch(/^33T [A-Z]{2} \d{5} \d{5}$/);
+    const [lng, lat] = parseMgrs(mgrs.replace(/\s/g, ""));
+    expect(lng).toBeCloseTo(15, 4);
+    expect(lat).toBeCloseTo(42, 4);
+  });
+
+  it("rejects malformed references", () => {
+    expect(() => parseMgrs("33T WN 123 4567")).toThrow(/equal digits/);
+    expect(() => toUtm(0, 85)).toThrow(/polar/);
+  });
+});
+
+describe("parsing typed input", () => {
+  it("reads decimal degrees as latitude first", () => {
+    expect(parseCoordinate("41.9028, 12.4964")).toEqual([12.4964, 41.9028]);
+    expect(() => parseCoordinate("95, 10")).toThrow(/Latitude/);
+  });
+
+  it("returns null for place names", () => {
+    expect(tryParseCoordinate("Kaduna")).toBeNull();
+  });
+
+  it("reports the line of a bad vertex", () => {
+    expect(parseVertexList("10, 20\n\n11, 21")).toEqual([
+      [20, 10],
+      [21, 11],
+    ]);
+    expect(() => parseVertexList("10, 20\nnowhere")).toThrow(/^Line 2:/);
+  });
+});
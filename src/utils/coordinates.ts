@@ -0,0 +1,320 @@
+// utils/coordinates.ts
+// Coordinates are [lng, lat] throughout, as in GeoJSON
+import proj4 from "proj4";
+
+export type CoordinateFormat = "decimal" | "dms" | "utm" | "mgrs";
+
+export const COORDINATE_FORMAT_LABELS: Record<CoordinateFormat, string> = {
+  decimal: "Decimal degrees",
+  dms: "Degrees, minutes, seconds",
+  utm: "UTM",
+  mgrs: "MGRS",
+};
+
+// UTM and MGRS don't cover the poles (those use UPS, which we don't support)
+const UTM_MIN_LAT = -80;
+const UTM_MAX_LAT = 84;
+
+function checkRange(lng: number, lat: number) {
+  if (!Number.isFinite(lat) || !Number.isFinite(lng))
+    throw new Error("Not a number");
+  if (Math.abs(lat) > 90) throw new Error(`Latitude out of range: ${lat}`);
+  if (Math.abs(lng) > 180) throw new Error(`Longitude out of range: ${lng}`);
+}
+
+// ---- Decimal degrees ----
+
+// "lat, lng" (comma and/or whitespace separated) to [lng, lat]
+export function parseLatLng(text: string): [number, number] {
+  const parts = text
+    .trim()
+    .split(/[\s,;]+/)
+    .filter(Boolean);
+  if (parts.length !== 2) throw new Error(`Expected "lat, lng": ${text}`);
+  const [lat, lng] = parts.map(Number);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng))
+    throw new Error(`Not a number: ${text}`);
+  checkRange(lng, lat);
+  return [lng, lat];
+}
+
+// ---- Degrees, minutes, seconds ----
+
+// 45.5 on the "lat" axis → 45°30′00.0″N
+export function toDms(value: number, axis: "lat" | "lng", decimals = 1) {
+  const hemisphere =
+    axis === "lat" ? (value < 0 ? "S" : "N") : value < 0 ? "W" : "E";
+  // Work in rounded seconds so 59.99″ carries into the minutes
+  const scale = 10 ** decimals;
+  const total = Math.round(Math.abs(value) * 3600 * scale);
+  const degrees = Math.floor(total / (3600 * scale));
+  const minutes = Math.floor((total % (3600 * scale)) / (60 * scale));
+  const seconds = (total % (60 * scale)) / scale;
+  const secondsText = seconds
+    .toFixed(decimals)
+    .padStart(decimals ? decimals + 3 : 2, "0");
+  const minutesText = String(minutes).padStart(2, "0");
+  return `${degrees}°${minutesText}′${secondsText}″${hemisphere}`;
+}
+
+// One angle: `45°30'15"N`, `45 30 15 N`, `N45.5`, `-45.5`, `45d30m`. Returns
+// the value and the hemisphere letter, if any, so callers can tell lat from lng.
+// Case-sensitive where it matters: a lowercase "s" marks seconds, "S" is south.
+const DMS_PATTERN =
+  /^([NSEWnsew])?\s*([+-]?\d+(?:\.\d+)?)\s*(?:[°dD:\s]\s*(\d+(?:\.\d+)?)\s*(?:['′mM:\s]\s*(\d+(?:\.\d+)?)\s*["″s]?)?\s*['′mM]?)?\s*°?\s*([NSEWnsew])?$/;
+
+export function parseAngle(text: string): {
+  value: number;
+  hemisphere?: "N" | "S" | "E" | "W";
+} {
+  const match = DMS_PATTERN.exec(text.trim().replace(/''/g, '"'));
+  if (!match) throw new Error(`Not an angle: ${text}`);
+  const [, prefix, deg, min, sec, suffix] = match;
+  if (prefix && suffix) throw new Error(`Two hemisphere letters: ${text}`);
+  const minutes = Number(min ?? 0);
+  const seconds = Number(sec ?? 0);
+  if (minutes >= 60 || seconds >= 60)
+    throw new Error(`Minutes and seconds must be below 60: ${text}`);
+  const degrees = Number(deg);
+  if ((min || sec) && !Number.isInteger(degrees))
+    throw new Error(`Fractional degrees with minutes: ${text}`);
+  const hemisphere = (prefix ?? suffix)?.toUpperCase() as
+    | "N"
+    | "S"
+    | "E"
+    | "W"
+    | undefined;
+  const negative = deg.startsWith("-");
+  if (hemisphere && negative)
+    throw new Error(`Sign and hemisphere letter together: ${text}`);
+  const value = Math.abs(degrees) + minutes / 60 + seconds / 3600;
+  const south = negative || hemisphere === "S" || hemisphere === "W";
+  return { value: south ? -value : value, hemisphere };
+}
+
+// Two angles, latitude first unless hemisphere letters say otherwise
+function parseDmsPair(text: string): [number, number] {
+  const parts = splitPair(text);
+  if (!parts) throw new Error(`Expected a latitude and a longitude: ${text}`);
+  const [a, b] = parts.map(parseAngle);
+  const axis = (h?: string) =>
+    h === "N" || h === "S" ? "lat" : h === "E" || h === "W" ? "lng" : undefined;
+  const [axisA, axisB] = [axis(a.hemisphere), axis(b.hemisphere)];
+  if (axisA && axisA === axisB)
+    throw new Error(`Both values are on the same axis: ${text}`);
+  const swapped = axisA === "lng" || axisB === "lat";
+  const [lat, lng] = swapped ? [b.value, a.value] : [a.value, b.value];
+  checkRange(lng, lat);
+  return [lng, lat];
+}
+
+// Splits "45°30′N, 9°10′E" or "45 30 N 9 10 E" into its two angles
+function splitPair(text: string): [string, string] | null {
+  const trimmed = text.trim();
+  const byComma = trimmed.split(/\s*[,;]\s*/);
+  if (byComma.length === 2) return [byComma[0], byComma[1]];
+  // Without a separator, split after the first hemisphere letter
+  const afterLetter = /^(.*?[NSEW])\s*(.+)$/i.exec(trimmed);
+  if (afterLetter && /\d/.test(afterLetter[1])) {
+    return [afterLetter[1], afterLetter[2]];
+  }
+  // …or before the second leading letter ("N45 30 E9 10")
+  const beforeLetter = /^([NSEW].*?)\s+([NSEW].*)$/i.exec(trimmed);
+  if (beforeLetter) return [beforeLetter[1], beforeLetter[2]];
+  return null;
+}
+
+// ---- UTM ----
+
+export interface UtmCoordinate {
+  zone: number;
+  hemisphere: "N" | "S";
+  easting: number;
+  northing: number;
+}
+
+// Standard zone, with the Norway and Svalbard exceptions
+export function utmZone(lng: number, lat: number): number {
+  if (lat >= 56 && lat < 64 && lng >= 3 && lng < 12) return 32;
+  if (lat >= 72 && lat < 84) {
+    if (lng >= 0 && lng < 9) return 31;
+    if (lng >= 9 && lng < 21) return 33;
+    if (lng >= 21 && lng < 33) return 35;
+    if (lng >= 33 && lng < 42) return 37;
+  }
+  return Math.min(60, Math.floor((lng + 180) / 6) + 1);
+}
+
+const utmDef = (zone: number, hemisphere: "N" | "S") =>
+  `+proj=utm +zone=${zone}${
+    hemisphere === "S" ? " +south" : ""
+  } +datum=WGS84 +units=m +no_defs`;
+
+// Pass `zone` and `hemisphere` to project into a neighbouring zone, e.g. to
+// keep a whole area in one grid
+export function toUtm(
+  lng: number,
+  lat: number,
+  zone = utmZone(lng, lat),
+  hemisphere: "N" | "S" = lat < 0 ? "S" : "N"
+): UtmCoordinate {
+  checkRange(lng, lat);
+  if (lat < UTM_MIN_LAT || lat >= UTM_MAX_LAT)
+    throw new Error("UTM doesn't cover the polar regions");
+  const [easting, northing] = proj4("WGS84", utmDef(zone, hemisphere), [
+    lng,
+    lat,
+  ]);
+  return { zone, hemisphere, easting, northing };
+}
+
+export function fromUtm({
+  zone,
+  hemisphere,
+  easting,
+  northing,
+}: UtmCoordinate): [number, number] {
+  if (!Number.isInteger(zone) || zone < 1 || zone > 60)
+    throw new Error(`UTM zone must be 1–60: ${zone}`);
+  const [lng, lat] = proj4(utmDef(zone, hemisphere), "WGS84", [
+    easting,
+    northing,
+  ]);
+  checkRange(lng, lat);
+  return [lng, lat];
+}
+
+export function formatUtm({
+  zone,
+  hemisphere,
+  easting,
+  northing,
+}: UtmCoordinate) {
+  return `${zone}${hemisphere} ${Math.round(easting)} ${Math.round(northing)}`;
+}
+
+// MGRS latitude band letters, 8° each from 80°S (X covers 72–84°N)
+const BANDS = "CDEFGHJKLMNPQRSTUVWX";
+
+// "33N 500000 4649776", "33 N 500000E 4649776N" or with a latitude band
+// letter in place of N/S ("33T 500000 4649776"); band letters C–M are south
+const UTM_PATTERN =
+  /^(\d{1,2})\s*([C-HJ-NP-X])\s+(\d+(?:\.\d+)?)\s*(?:m?E)?[\s,]+(\d+(?:\.\d+)?)\s*(?:m?N)?$/i;
+
+export function parseUtm(text: string): [number, number] {
+  const match = UTM_PATTERN.exec(text.trim());
+  if (!match) throw new Error(`Not a UTM coordinate: ${text}`);
+  const letter = match[2].toUpperCase();
+  // N and S read as hemispheres, which is what people usually mean
+  const hemisphere =
+    letter === "N" || letter === "S"
+      ? letter
+      : BANDS.indexOf(letter) < BANDS.indexOf("N")
+      ? "S"
+      : "N";
+  return fromUtm({
+    zone: Number(match[1]),
+    hemisphere,
+    easting: Number(match[3]),
+    northing: Number(match[4]),
+  });
+}
+
+// ---- MGRS ----
+
+// 1 m precision: "33T WN 00000 49776"
+export function toMgrs(lng: number, lat: number): string {
+  checkRange(lng, lat);
+  if (lat < UTM_MIN_LAT || lat >= UTM_MAX_LAT)
+    throw new Error("MGRS here needs UPS, which isn't supported");
+  const raw = proj4.mgrs.forward([lng, lat]);
+  const match = /^(\d{1,2}[A-Z])([A-Z]{2})(\d*)$/.exec(raw);
+  if (!match) return raw;
+  const [, gzd, square, numbers] = match;
+  const half = numbers.length / 2;
+  return [gzd, square, numbers.slice(0, half), numbers.slice(half)]
+    .filter(Boolean)
+    .join(" ");
+}
+
+const MGRS_PATTERN = /^\d{1,2}\s*[C-HJ-NP-X]\s*[A-HJ-NP-Z]{2}(\s*\d+){0,2}$/i;
+
+// Returns the centre of the grid square the reference names
+export function parseMgrs(text: string): [number, number] {
+  const trimmed = text.trim();
+  if (!MGRS_PATTERN.test(trimmed))
+    throw new Error(`Not an MGRS reference: ${text}`);
+  const compact = trimmed.replace(/\s+/g, "").toUpperCase();
+  const digits = compact.replace(/^\d{1,2}[A-Z]{3}/, "");
+  if (digits.length % 2 !== 0)
+    throw new Error(`MGRS easting and northing need equal digits: ${text}`);
+  try {
+    const [lng, lat] = proj4.mgrs.toPoint(compact);
+    checkRange(lng, lat);
+    return [lng, lat];
+  } catch (err) {
+    // The mgrs library throws plain strings
+    throw new Error(
+      typeof err === "string" ? `Invalid MGRS reference: ${text}` : String(err)
+    );
+  }
+}
+
+// ---- Any format ----
+
+export function formatCoordinate(
+  [lng, lat]: [number, number],
+  format: CoordinateFormat
+): string {
+  try {
+    switch (format) {
+      case "decimal":
+        return `${lat.toFixed(5)}, ${lng.toFixed(5)}`;
+      case "dms":
+        return `${toDms(lat, "lat")} ${toDms(lng, "lng")}`;
+      case "utm":
+        return formatUtm(toUtm(lng, lat));
+      case "mgrs":
+        return toMgrs(lng, lat);
+    }
+  } catch {
+    // Polar positions in UTM/MGRS
+    return `${lat.toFixed(5)}, ${lng.toFixed(5)}`;
+  }
+}
+
+// Detects the format of one typed position and returns [lng, lat]
+export function parseCoordinate(text: string): [number, number] {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error("Empty coordinate");
+  if (MGRS_PATTERN.test(trimmed)) return parseMgrs(trimmed);
+  if (UTM_PATTERN.test(trimmed)) return parseUtm(trimmed);
+  if (/^[+-]?\d+(\.\d+)?[\s,;]+[+-]?\d+(\.\d+)?$/.test(trimmed))
+    return parseLatLng(trimmed);
+  return parseDmsPair(trimmed);
+}
+
+// Like parseCoordinate, but returns null for text that isn't a position
+// (e.g. a place name typed into search)
+export function tryParseCoordinate(text: string): [number, number] | null {
+  try {
+    return parseCoordinate(text);
+  } catch {
+    return null;
+  }
+}
+
+// One vertex per line in any supported format; blank lines are skipped
+export function parseVertexList(text: string): [number, number][] {
+  return text
+    .split(/\r?\n/)
+    .map((line, i) => ({ line: line.trim(), n: i + 1 }))
+    .filter(({ line }) => line)
+    .map(({ line, n }) => {
+      try {
+        return parseCoordinate(line);
+      } catch (err) {
+        throw new Error(`Line ${n}: ${(err as Error).message}`);
+      }
+    });
+}
@@ -0,0 +1,32 @@
+// utils/format.ts
+export function formatMoney(value: number, currency: string): string {
+  return new Intl.NumberFormat(undefined, {
+    style: "currency",
+    currency,
+  }).format(value);
+}
+
+export function formatArea(km2: number): string {
+  return km2 < 1
+    ? `${(km2 * 100).toFixed(2)} ha`
+    : `${km2.toLocaleString(undefined, { maximumFractionDigits: 2 })} km²`;
+}
+
+export function formatLength(km: number): string {
+  return km < 1
+    ? `${Math.round(km * 1000)} m`
+    : `${km.toLocaleString(undefined, { maximumFractionDigits: 2 })} km`;
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toLocaleString(undefined, {
+    maximumFractionDigits: unit === 0 ? 0 : 1,
+  })} ${units[unit]}`;
+}
@@ -0,0 +1,50 @@
+// utils/geocode.ts
+import {
+  cachedGeocoder,
+  createNominatimGeocoder,
+  GeocoderError,
+  lazyGeocoder,
+} from "../api/geocoder";
+import { formatCoordinate } from "./coordinates";
+import {
+  GEOCODER_CACHE_SIZE,
+  GEOCODER_EMAIL,
+  GEOCODER_MIN_INTERVAL_MS,
+  GEOCODER_PROVIDER,
+  NOMINATIM_URL,
+} from "../config/geocoding";
+
+// The app-wide geocoder; every lookup goes through its cache and rate limit
+export const geocoder = cachedGeocoder(
+  GEOCODER_PROVIDER === "offline"
+    ? // The gazetteer is only downloaded when it's the configured provider
+      lazyGeocoder(() =>
+        import("../mocks/geocoder").then((m) => m.createMockGeocoder())
+      )
+    : createNominatimGeocoder({
+        baseUrl: NOMINATIM_URL,
+        email: GEOCODER_EMAIL || undefined,
+        language: navigator.language,
+      }),
+  { minIntervalMs: GEOCODER_MIN_INTERVAL_MS, cacheSize: GEOCODER_CACHE_SIZE }
+);
+
+// Reverse geocode, falling back to the position itself. `retry` is set when
+// the lookup failed for want of a connection rather than finding nothing,
+// so it's worth asking again once back online.
+export async function lookupRegionName(
+  lat: number,
+  lng: number
+): Promise<{ name: string; retry: boolean }> {
+  const fallback = formatCoordinate([lng, lat], "decimal");
+  try {
+    const place = await geocoder.reverse(lat, lng);
+    return { name: place?.label || fallback, retry: false };
+  } catch (err) {
+    // fetch rejects with a TypeError when no response arrived at all
+    return {
+      name: fallback,
+      retry: !navigator.onLine || !(err instanceof GeocoderError),
+    };
+  }
+}
@@ -0,0 +1,231 @@
+import { describe, expect, it } from "vitest";
+import { booleanPointInPolygon } from "@turf/turf";
+import {
+  areaKm2,
+  bounds,
+  centroid,
+  labelPoint,
+  outerVertices,
+  perimeterKm,
+  regionCenter,
+} from "./geometry";
+import { boxFeature } from "../test/regions";
+
+const box = (w: number, s: number, e: number, n: number) =>
+  boxFeature(w, s, e, n).geometry;
+
+// A 4° square with a 1° hole in its south-west quarter
+const holed: GeoJSON.Polygon = {
+  type: "Polygon",
+  coordinates: [
+    box(0, 0, 4, 4).coordinates[0],
+    box(1, 1, 2, 2).coordinates[0].slice().reverse(),
+  ],
+};
+
+// A U open to the north, whose centroid lies in the gap
+const cup: GeoJSON.Polygon = {
+  type: "Polygon",
+  coordinates: [
+    [
+      [0, 0],
+      [3, 0],
+      [3, 3],
+      [2, 3],
+      [2, 1],
+      [1, 1],
+      [1, 3],
+      [0, 3],
+      [0, 0],
+    ],
+  ],
+};
+
+const pair: GeoJSON.MultiPolygon = {
+  type: "MultiPolygon",
+  coordinates: [box(0, 0, 1, 1).coordinates, box(2, 0, 3, 1).coordinates],
+};
+
+// One square split at the antimeridian, the way GeoJSON wants it stored
+const split: GeoJSON.MultiPolygon = {
+  type: "MultiPolygon",
+  coordinates: [
+    box(179, 0, 180, 1).coordinates,
+    box(-180, 0, -179, 1).coordinates,
+  ],
+};
+
+const collection: GeoJSON.GeometryCollection = {
+  type: "GeometryCollection",
+  geometries: [
+    box(0, 0, 1, 1),
+    { type: "Point", coordinates: [10, 10] },
+    {
+      type: "LineString",
+      coordinates: [
+        [20, 20],
+        [21, 21],
+      ],
+    },
+  ],
+};
+
+const line: GeoJSON.LineString = {
+  type: "LineString",
+  coordinates: [
+    [0, 0],
+    [2, 0],
+    [4, 2],
+  ],
+};
+
+const inside = (p: [number, number] | null, g: GeoJSON.Geometry) =>
+  !!p && booleanPointInPolygon(p, g as GeoJSON.Polygon | GeoJSON.MultiPolygon);
+
+describe("centroid", () => {
+  it("finds the middle of a polygon, from a Feature or a bare geometry", () => {
+    expect(centroid(box(0, 0, 2, 2))).toEqual([1, 1]);
+    expect(centroid(boxFeature(0, 0, 2, 2))).toEqual([1, 1]);
+  });
+
+  it("moves away from holes", () => {
+    const [x, y] = centroid(holed)!;
+    expect(x).toBeGreaterThan(2);
+    expect(y).toBeGreaterThan(2);
+    expect(x).toBeCloseTo(y);
+  });
+
+  it("weighs the parts of a MultiPolygon by area", () => {
+    expect(centroid(pair)).toEqual([1.5, 0.5]);
+  });
+
+  it("measures a shape split at the antimeridian as one", () => {
+    const [x, y] = centroid(split)!;
+    expect(Math.abs(x)).toBeCloseTo(180);
+    expect(y).toBeCloseTo(0.5);
+  });
+
+  it("uses only the polygons of a GeometryCollection", () => {
+    expect(centroid(collection)).toEqual([0.5, 0.5]);
+  });
+
+  it("falls back to the vertex mean, or null", () => {
+    expect(centroid(line)).toEqual([2, 2 / 3]);
+    expect(centroid(null)).toBeNull();
+    expect(centroid({ type: "GeometryCollection", geometries: [] })).toBeNull();
+  });
+});
+
+describe("labelPoint", () => {
+  it("is the centroid when that's inside", () => {
+    expect(labelPoint(box(0, 0, 2, 2))).toEqual([1, 1]);
+  });
+
+  it("stays inside concave shapes", () => {
+    expect(inside(centroid(cup), cup)).toBe(false);
+    expect(inside(labelPoint(cup), cup)).toBe(true);
+  });
+
+  it("stays out of holes", () => {
+    const hole: GeoJSON.Polygon = {
+      type: "Polygon",
+      coordinates: [
+        box(0, 0, 3, 3).coordinates[0],
+        box(1, 1, 2, 2).coordinates[0],
+      ],
+    };
+    expect(inside(labelPoint(hole), hole)).toBe(true);
+  });
+
+  it("lands in one of the parts of a MultiPolygon", () => {
+    expect(inside(centroid(pair), pair)).toBe(false);
+    expect(inside(labelPoint(pair), pair)).toBe(true);
+  });
+
+  it("keeps longitudes within ±180 across the antimeridian", () => {
+    const [x] = labelPoint(split)!;
+    expect(Math.abs(x)).toBeLessThanOrEqual(180);
+    expect(Math.abs(x)).toBeGreaterThan(179);
+  });
+});
+
+describe("regionCenter", () => {
+  it("is the label point", () => {
+    expect(regionCenter(cup)).toEqual(labelPoint(cup));
+  });
+
+  it("falls back to the origin for empty geometry", () => {
+    expect(regionCenter(null)).toEqual([0, 0]);
+  });
+});
+
+describe("bounds", () => {
+  it("covers every part, whatever its type", () => {
+    expect(bounds(boxFeature(1, 2, 3, 4))).toEqual([1, 2, 3, 4]);
+    expect(bounds(pair)).toEqual([0, 0, 3, 1]);
+    expect(bounds(collection)).toEqual([0, 0, 21, 21]);
+  });
+
+  it("runs east past 180 for shapes split at the antimeridian", () => {
+    expect(bounds(split)).toEqual([179, 0, 181, 1]);
+  });
+
+  it("is null for empty geometry", () => {
+    expect(bounds(null)).toBeNull();
+    expect(bounds({ type: "MultiPolygon", coordinates: [] })).toBeNull();
+  });
+});
+
+describe("areaKm2", () => {
+  // 1° × 1° at the equator
+  const degree = areaKm2(box(0, 0, 1, 1));
+
+  it("measures geodesic area", () => {
+    expect(degree).toBeCloseTo(12364, -2);
+  });
+
+  it("leaves out holes and adds up parts", () => {
+    expect(areaKm2(holed)).toBeCloseTo(
+      areaKm2(box(0, 0, 4, 4)) - areaKm2(box(1, 1, 2, 2))
+    );
+    expect(areaKm2(pair)).toBeCloseTo(areaKm2(box(2, 0, 3, 1)) + degree);
+    expect(areaKm2(split)).toBeCloseTo(areaKm2(box(179, 0, 181, 1)));
+  });
+
+  it("ignores everything but polygons", () => {
+    expect(areaKm2(collection)).toBeCloseTo(degree);
+    expect(areaKm2(line)).toBe(0);
+    expect(areaKm2(null)).toBe(0);
+  });
+});
+
+describe("perimeterKm", () => {
+  const square = perimeterKm(box(0, 0, 4, 4));
+
+  it("measures every ring, holes included", () => {
+    expect(square).toBeCloseTo(4 * 4 * 111.2, -1);
+    expect(perimeterKm(holed)).toBeCloseTo(
+      square + perimeterKm(box(1, 1, 2, 2))
+    );
+  });
+
+  it("adds up parts and ignores non-polygons", () => {
+    expect(perimeterKm(pair)).toBeCloseTo(2 * perimeterKm(box(0, 0, 1, 1)));
+    expect(perimeterKm(collection)).toBeCloseTo(perimeterKm(box(0, 0, 1, 1)));
+    expect(perimeterKm(line)).toBe(0);
+  });
+});
+
+describe("outerVertices", () => {
+  it("lists outer ring corners without the closing repeat or holes", () => {
+    expect(outerVertices(holed)).toEqual(
+      box(0, 0, 4, 4).coordinates[0].slice(0, -1)
+    );
+  });
+
+  it("covers every polygon part", () => {
+    expect(outerVertices(pair)).toHaveLength(8);
+    expect(outerVertices(collection)).toHaveLength(4);
+    expect(outerVertices(line)).toEqual([]);
+  });
+});
@@ -0,0 +1,257 @@
+// utils/geometry.ts
+// Measurements and reference points for AOIs. Everything accepts a Feature or
+// a bare Geometry and handles Polygon, MultiPolygon (with holes) and
+// GeometryCollection; non-polygonal members are ignored where area matters.
+import { area, bbox, feature, length } from "@turf/turf";
+
+type Position = [number, number];
+type Ring = Position[];
+// Outer ring first, then holes
+type PolygonRings = Ring[];
+
+export type GeometryInput = GeoJSON.Feature | GeoJSON.Geometry | null;
+
+const geometryOf = (input: GeometryInput): GeoJSON.Geometry | null =>
+  !input ? null : input.type === "Feature" ? input.geometry : input;
+
+// Every polygon in the input, as lists of rings
+export function polygonParts(input: GeometryInput): PolygonRings[] {
+  const geometry = geometryOf(input);
+  const toRings = (rings: GeoJSON.Position[][]) =>
+    rings.map((ring) => ring.map((c) => [c[0], c[1]] as Position));
+  switch (geometry?.type) {
+    case "Polygon":
+      return [toRings(geometry.coordinates)];
+    case "MultiPolygon":
+      return geometry.coordinates.map(toRings);
+    case "GeometryCollection":
+      return geometry.geometries.flatMap(polygonParts);
+    default:
+      return [];
+  }
+}
+
+function allPositions(input: GeometryInput): Position[] {
+  const geometry = geometryOf(input);
+  switch (geometry?.type) {
+    case "Point":
+      return [geometry.coordinates as Position];
+    case "MultiPoint":
+    case "LineString":
+      return geometry.coordinates as Position[];
+    case "MultiLineString":
+    case "Polygon":
+      return geometry.coordinates.flat() as Position[];
+    case "MultiPolygon":
+      return geometry.coordinates.flat(2) as Position[];
+    case "GeometryCollection":
+      return geometry.geometries.flatMap(allPositions);
+    default:
+      return [];
+  }
+}
+
+// Parts split at the antimeridian sit near +180 and -180; shift the western
+// ones by 360° so they are measured as one shape
+function unwrapParts(parts: PolygonRings[]): {
+  parts: PolygonRings[];
+  shifted: boolean;
+} {
+  const lngs = parts.flat(2).map((p) => p[0]);
+  if (lngs.length === 0 || Math.max(...lngs) - Math.min(...lngs) <= 180) {
+    return { parts, shifted: false };
+  }
+  const shift = (p: Position): Position => [p[0] < 0 ? p[0] + 360 : p[0], p[1]];
+  return {
+    parts: parts.map((rings) => rings.map((ring) => ring.map(shift))),
+    shifted: true,
+  };
+}
+
+const wrapLng = (lng: number) => ((((lng + 180) % 360) + 360) % 360) - 180;
+
+// Signed planar area and centroid of a closed ring (shoelace formula)
+function ringMoments(ring: Ring) {
+  let a = 0;
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [x0, y0] = ring[j];
+    const [x1, y1] = ring[i];
+    const cross = x0 * y1 - x1 * y0;
+    a += cross;
+    cx += (x0 + x1) * cross;
+    cy += (y0 + y1) * cross;
+  }
+  a /= 2;
+  return a === 0
+    ? { area: 0, x: 0, y: 0 }
+    : { area: a, x: cx / (6 * a), y: cy / (6 * a) };
+}
+
+// Area-weighted moments of one polygon; holes subtract whatever their winding
+function polygonMoments(rings: PolygonRings) {
+  let total = 0;
+  let x = 0;
+  let y = 0;
+  rings.forEach((ring, i) => {
+    const m = ringMoments(ring);
+    const weight = i === 0 ? Math.abs(m.area) : -Math.abs(m.area);
+    total += weight;
+    x += m.x * weight;
+    y += m.y * weight;
+  });
+  return total === 0
+    ? { area: 0, x: 0, y: 0 }
+    : { area: total, x: x / total, y: y / total };
+}
+
+function vertexMean(positions: Position[]): Position | null {
+  if (positions.length === 0) return null;
+  const sum = positions.reduce((s, p) => [s[0] + p[0], s[1] + p[1]], [0, 0]);
+  return [sum[0] / positions.length, sum[1] / positions.length];
+}
+
+// Area-weighted centroid [lng, lat]. It can fall outside concave shapes;
+// use `labelPoint` for a point that's always inside. Non-polygonal input
+// gets the mean of its vertices, and empty input null.
+export function centroid(input: GeometryInput): Position | null {
+  const { parts, shifted } = unwrapParts(polygonParts(input));
+  let total = 0;
+  let x = 0;
+  let y = 0;
+  for (const rings of parts) {
+    const m = polygonMoments(rings);
+    total += m.area;
+    x += m.x * m.area;
+    y += m.y * m.area;
+  }
+  if (total > 0) {
+    return [shifted ? wrapLng(x / total) : x / total, y / total];
+  }
+  return vertexMean(allPositions(input));
+}
+
+// Even-odd test, so holes count as outside
+function insidePolygon([x, y]: Position, rings: PolygonRings): boolean {
+  let inside = false;
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+        inside = !inside;
+      }
+    }
+  }
+  return inside;
+}
+
+// Widest stretch of a horizontal line that lies inside the polygon
+function widestSpan(rings: PolygonRings, y: number) {
+  const xs: number[] = [];
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if (yi > y !== yj > y) xs.push(xi + ((y - yi) * (xj - xi)) / (yj - yi));
+    }
+  }
+  xs.sort((a, b) => a - b);
+  let best: { width: number; x: number } | null = null;
+  for (let i = 0; i + 1 < xs.length; i += 2) {
+    const width = xs[i + 1] - xs[i];
+    if (!best || width > best.width) {
+      best = { width, x: (xs[i] + xs[i + 1]) / 2 };
+    }
+  }
+  return best;
+}
+
+// Lines scanned for a label position, as fractions of the polygon's height
+const LABEL_SCAN_LINES = [0.5, 0.4, 0.6, 0.3, 0.7, 0.2, 0.8, 0.1, 0.9];
+
+// A point [lng, lat] guaranteed to be inside the (largest) polygon: the
+// centroid when it's inside, otherwise the middle of the widest horizontal
+// span through it. Suitable for labels, markers and reverse geocoding.
+export function labelPoint(input: GeometryInput): Position | null {
+  const { parts, shifted } = unwrapParts(polygonParts(input));
+  const wrap = (p: Position): Position => (shifted ? [wrapLng(p[0]), p[1]] : p);
+  const sized = parts
+    .map((rings) => ({ rings, m: polygonMoments(rings) }))
+    .filter(({ m }) => m.area > 0)
+    .sort((a, b) => b.m.area - a.m.area);
+  if (sized.length === 0) return centroid(input);
+
+  const total = sized.reduce((sum, { m }) => sum + m.area, 0);
+  const center: Position = [
+    sized.reduce((sum, { m }) => sum + m.x * m.area, 0) / total,
+    sized.reduce((sum, { m }) => sum + m.y * m.area, 0) / total,
+  ];
+  if (sized.some(({ rings }) => insidePolygon(center, rings))) {
+    return wrap(center);
+  }
+
+  const { rings, m } = sized[0];
+  const ys = rings[0].map((p) => p[1]);
+  const [minY, maxY] = [Math.min(...ys), Math.max(...ys)];
+  const candidates = [
+    m.y,
+    ...LABEL_SCAN_LINES.map((f) => minY + f * (maxY - minY)),
+  ];
+  let best: { width: number; x: number; y: number } | null = null;
+  for (const y of candidates) {
+    const span = widestSpan(rings, y);
+    if (span && (!best || span.width > best.width)) best = { ...span, y };
+  }
+  return best ? wrap([best.x, best.y]) : wrap([m.x, m.y]);
+}
+
+// The reference point stored on regions. Falls back to [0, 0] only for
+// geometry without any coordinates.
+export function regionCenter(input: GeometryInput): Position {
+  return labelPoint(input) ?? [0, 0];
+}
+
+const asMultiPolygon = (parts: PolygonRings[]): GeoJSON.MultiPolygon => ({
+  type: "MultiPolygon",
+  coordinates: parts,
+});
+
+// The polygonal parts as one MultiPolygon, with parts split at the
+// antimeridian moved next to each other (eastern longitudes past 180)
+export function unwrappedPolygons(input: GeometryInput): GeoJSON.MultiPolygon {
+  return asMultiPolygon(unwrapParts(polygonParts(input)).parts);
+}
+
+// [west, south, east, north], or null for empty geometry. For polygons split
+// at the antimeridian, east is past 180 so the box covers only the shape.
+export function bounds(
+  input: GeometryInput
+): [number, number, number, number] | null {
+  if (allPositions(input).length === 0) return null;
+  const { parts, shifted } = unwrapParts(polygonParts(input));
+  const [west, south, east, north] = bbox(
+    shifted ? asMultiPolygon(parts) : (input as GeoJSON.Geometry)
+  );
+  return [west, south, east, north];
+}
+
+// Geodesic (spherical) area of the polygonal parts, holes excluded
+export function areaKm2(input: GeometryInput): number {
+  const parts = polygonParts(input);
+  return parts.length > 0 ? area(asMultiPolygon(parts)) / 1_000_000 : 0;
+}
+
+// Geodesic length of every ring, holes included
+export function perimeterKm(input: GeometryInput): number {
+  const parts = polygonParts(input);
+  return parts.length > 0
+    ? length(feature(asMultiPolygon(parts)), { units: "kilometers" })
+    : 0;
+}
+
+// Outer ring vertices of each polygon part, without the closing repeat
+export function outerVertices(input: GeometryInput): Position[] {
+  return polygonParts(input).flatMap((rings) => rings[0].slice(0, -1));
+}
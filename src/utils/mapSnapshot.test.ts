@@ -0,0 +1,52 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { mapSnapshot } from "./mapSnapshot";
+import type { LayerSource } from "./basemaps";
+import { boxFeature } from "../test/regions";
+
+const options = { width: 400, height: 300, padding: 20, maxZoom: 18 };
+const region = boxFeature(4.8, 45.7, 4.9, 45.8);
+
+const wms = (version?: string): LayerSource => ({
+  id: "wms",
+  label: "WMS",
+  type: "wms",
+  url: "https://example.com/wms",
+  layers: "ortho",
+  ...(version && { version }),
+});
+
+const imageUrl = (source: LayerSource) =>
+  new URL(mapSnapshot(source, region, options).images[0].url);
+
+describe("mapSnapshot", () => {
+  it("asks WMS 1.3 and later for CRS, older servers for SRS", () => {
+    expect(imageUrl(wms()).searchParams.get("SRS")).toBe("EPSG:3857");
+    expect(imageUrl(wms("1.1.1")).searchParams.get("SRS")).toBe("EPSG:3857");
+    expect(imageUrl(wms("1.3.0")).searchParams.get("CRS")).toBe("EPSG:3857");
+    expect(imageUrl(wms("1.10")).searchParams.get("CRS")).toBe("EPSG:3857");
+    expect(imageUrl(wms("2.0")).searchParams.get("CRS")).toBe("EPSG:3857");
+  });
+
+  it("lays out the tiles covering the frame", () => {
+    const snapshot = mapSnapshot(
+      {
+        id: "osm",
+        label: "OSM",
+        type: "xyz",
+        url: "https://tile.example.com/{z}/{x}/{y}.png",
+      },
+      region,
+      options
+    );
+    expect(snapshot.zoom).toBe(11);
+    expect(snapshot.images.length).toBeGreaterThan(0);
+    for (const image of snapshot.images) {
+      expect(image.left).toBeLessThan(options.width);
+      expect(image.top).toBeLessThan(options.height);
+      expect(image.left + image.width).toBeGreaterThan(0);
+      expect(image.top + image.height).toBeGreaterThan(0);
+    }
+    expect(snapshot.outline).toMatch(/^M[\d.,L]+Z$/);
+  });
+});
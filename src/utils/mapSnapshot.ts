@@ -0,0 +1,164 @@
+// utils/mapSnapshot.ts
+// Static pictures of a region over a basemap, laid out as plain tile images
+// under an SVG outline. Nothing is drawn onto a canvas, so tile servers that
+// don't send CORS headers still work.
+import type { LayerSource, WmsLayerSource } from "./basemaps";
+import { polygonParts } from "./geometry";
+import type { GeometryInput } from "./geometry";
+import { tileUrl } from "./offlineTiles";
+import { TILE_SIZE, worldPixel } from "./webMercator";
+
+export interface SnapshotImage {
+  url: string;
+  // Position and size in the frame, in CSS pixels
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface MapSnapshot {
+  width: number;
+  height: number;
+  zoom: number;
+  images: SnapshotImage[];
+  // SVG path data for the region, in frame pixels
+  outline: string;
+}
+
+export interface SnapshotOptions {
+  width: number;
+  height: number;
+  // Space kept free around the region
+  padding: number;
+  maxZoom: number;
+}
+
+const EARTH_RADIUS = 6378137;
+
+// WMS versions compare part by part: "1.10" comes after "1.3"
+function versionAtLeast(version: string, major: number, minor: number) {
+  const [v1 = 0, v2 = 0] = version.split(".").map((n) => parseInt(n, 10));
+  return v1 > major || (v1 === major && v2 >= minor);
+}
+
+// GetMap for exactly the frame, in EPSG:3857
+function wmsImageUrl(
+  source: WmsLayerSource,
+  [left, top]: [number, number],
+  { width, height }: SnapshotOptions,
+  z: number
+): string {
+  const metres = (px: number) =>
+    (px / (TILE_SIZE * 2 ** z)) * 2 * Math.PI * EARTH_RADIUS -
+    Math.PI * EARTH_RADIUS;
+  const version = source.version ?? "1.1.1";
+  const bbox = [
+    metres(left),
+    -metres(top + height),
+    metres(left + width),
+    -metres(top),
+  ];
+  const params = [
+    "SERVICE=WMS",
+    "REQUEST=GetMap",
+    `VERSION=${version}`,
+    `LAYERS=${encodeURIComponent(source.layers)}`,
+    `STYLES=${encodeURIComponent(source.styles ?? "")}`,
+    `FORMAT=${encodeURIComponent(source.format ?? "image/jpeg")}`,
+    `TRANSPARENT=${source.transparent ? "TRUE" : "FALSE"}`,
+    `WIDTH=${width}`,
+    `HEIGHT=${height}`,
+    // 1.3.0 renamed SRS to CRS; EPSG:3857 keeps x/y order in both
+    `${versionAtLeast(version, 1, 3) ? "CRS" : "SRS"}=EPSG:3857`,
+    `BBOX=${bbox.map((v) => v.toFixed(2)).join(",")}`,
+  ];
+  const sep = source.url.includes("?") ? "&" : "?";
+  return `${source.url}${sep}${params.join("&")}`;
+}
+
+// The region centred in a frame at the deepest zoom it fits
+export function mapSnapshot(
+  source: LayerSource,
+  geometry: GeometryInput,
+  options: SnapshotOptions
+): MapSnapshot {
+  const { width, height, padding } = options;
+  const rings = polygonParts(geometry).flat();
+  const points = rings.flat();
+  if (points.length === 0) throw new Error("Nothing to draw");
+  const west = Math.min(...points.map((p) => p[0]));
+  const east = Math.max(...points.map((p) => p[0]));
+  const south = Math.min(...points.map((p) => p[1]));
+  const north = Math.max(...points.map((p) => p[1]));
+
+  const minZoom = source.minZoom ?? 0;
+  let z = Math.max(minZoom, Math.min(source.maxZoom ?? 19, options.maxZoom));
+  for (; z > minZoom; z--) {
+    const [x0, y0] = worldPixel([west, north], z);
+    const [x1, y1] = worldPixel([east, south], z);
+    if (x1 - x0 <= width - 2 * padding && y1 - y0 <= height - 2 * padding)
+      break;
+  }
+
+  const [x0, y0] = worldPixel([west, north], z);
+  const [x1, y1] = worldPixel([east, south], z);
+  // Top-left corner of the frame in world pixels
+  const left = Math.round((x0 + x1) / 2 - width / 2);
+  const top = Math.round((y0 + y1) / 2 - height / 2);
+
+  const outline = rings
+    .map(
+      (ring) =>
+        "M" +
+        ring
+          .map((p) => {
+            const [x, y] = worldPixel(p, z);
+            return `${(x - left).toFixed(1)},${(y - top).toFixed(1)}`;
+          })
+          .join("L") +
+        "Z"
+    )
+    .join("");
+
+  if (source.type === "wms") {
+    return {
+      width,
+      height,
+      zoom: z,
+      images: [
+        {
+          url: wmsImageUrl(source, [left, top], options, z),
+          left: 0,
+          top: 0,
+          width,
+          height,
+        },
+      ],
+      outline,
+    };
+  }
+
+  const n = 2 ** z;
+  const images: SnapshotImage[] = [];
+  for (
+    let tx = Math.floor(left / TILE_SIZE);
+    tx <= Math.floor((left + width - 1) / TILE_SIZE);
+    tx++
+  ) {
+    for (
+      let ty = Math.max(0, Math.floor(top / TILE_SIZE));
+      ty <= Math.min(n - 1, Math.floor((top + height - 1) / TILE_SIZE));
+      ty++
+    ) {
+      images.push({
+        url: tileUrl(source, { x: ((tx % n) + n) % n, y: ty, z }),
+        left: tx * TILE_SIZE - left,
+        top: ty * TILE_SIZE - top,
+        width: TILE_SIZE,
+        height: TILE_SIZE,
+      });
+    }
+  }
+  return { width, height, zoom: z, images, outline };
+}
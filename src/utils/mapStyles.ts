@@ -0,0 +1,85 @@
+// utils/mapStyles.ts
+import type { PathOptions } from "leaflet";
+
+export const defaultStyle: PathOptions = {
+  color: "blue",
+  weight: 2,
+  fillOpacity: 0.2,
+};
+export const highlightStyle: PathOptions = {
+  color: "orange",
+  weight: 3,
+  fillOpacity: 0.4,
+};
+export const inCartStyle: PathOptions = {
+  color: "green",
+  weight: 2,
+  fillOpacity: 0.3,
+};
+export const invalidStyle: PathOptions = {
+  color: "red",
+  weight: 3,
+  dashArray: "6 4",
+  fillOpacity: 0.2,
+};
+export const overlapStyle: PathOptions = {
+  color: "red",
+  weight: 1,
+  dashArray: "3 3",
+  fillColor: "red",
+  fillOpacity: 0.45,
+};
+export const footprintStyle: PathOptions = {
+  color: "#7c3aed",
+  weight: 1,
+  fillOpacity: 0,
+};
+export const footprintHighlightStyle: PathOptions = {
+  color: "#7c3aed",
+  weight: 3,
+  fillColor: "#7c3aed",
+  fillOpacity: 0.15,
+};
+export const boundaryStyle: PathOptions = {
+  color: "#475569",
+  weight: 1,
+  fillColor: "#94a3b8",
+  fillOpacity: 0.05,
+};
+export const boundaryHoverStyle: PathOptions = {
+  color: "orange",
+  weight: 3,
+  fillColor: "orange",
+  fillOpacity: 0.3,
+};
+export const tileStyle: PathOptions = {
+  color: "#0f766e",
+  weight: 1,
+  fillOpacity: 0,
+};
+export const tilePreviewStyle: PathOptions = {
+  color: "orange",
+  weight: 1.5,
+  dashArray: "4 3",
+  fillColor: "orange",
+  fillOpacity: 0.1,
+};
+export const restrictedZoneStyle: PathOptions = {
+  color: "#b91c1c",
+  weight: 1,
+  dashArray: "2 4",
+  fillColor: "#b91c1c",
+  fillOpacity: 0.08,
+};
+export const ruleViolationStyle: PathOptions = {
+  color: "red",
+  weight: 3,
+  dashArray: "6 4",
+  fillColor: "red",
+  fillOpacity: 0.5,
+};
+export const inCartViolationStyle: PathOptions = {
+  ...inCartStyle,
+  color: "red",
+  weight: 3,
+};
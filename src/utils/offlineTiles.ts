@@ -0,0 +1,323 @@
+// utils/offlineTiles.ts
+// Talks to the tile-caching service worker in public/sw.js: tells it which
+// tiles to keep, reports what it holds and fills it for offline use. The
+// worker owns eviction; this side only reads its bookkeeping.
+import L from "leaflet";
+import type { LayerSource } from "./basemaps";
+import { wmtsUrlTemplate } from "./basemaps";
+import {
+  OFFLINE_DOWNLOAD_CONCURRENCY,
+  TILE_CACHE_MAX_TILES,
+  TILE_CACHE_NAME,
+  TILE_META_CACHE_NAME,
+} from "../config/offline";
+import { TILE_SIZE, worldPixel } from "./webMercator";
+
+// Bookkeeping entries in the meta cache, same keys as in public/sw.js
+const CONFIG_KEY = "/__tile-cache/config";
+const EVICTIONS_KEY = "/__tile-cache/evictions";
+
+export interface TileCoords {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface TileCacheStats {
+  tiles: number;
+  maxTiles: number;
+  // Tiles the worker removed to stay under maxTiles
+  evicted: number;
+  lastEvictedAt: string | null;
+  // Whole-origin storage from the browser, when it tells us
+  usageBytes?: number;
+  quotaBytes?: number;
+  // Persistent storage isn't cleared by the browser under storage pressure
+  persisted: boolean;
+}
+
+export interface TileDownloadResult {
+  downloaded: number;
+  alreadyCached: number;
+  failed: number;
+  cancelled: boolean;
+  // The tile server doesn't send CORS headers, so its tiles can't be saved
+  corsBlocked: boolean;
+}
+
+// The worker would take over MSW's scope, so mock sessions go without it
+export const tileCachingSupported = () =>
+  "serviceWorker" in navigator &&
+  "caches" in window &&
+  import.meta.env.VITE_USE_MOCKS !== "true";
+
+export async function registerTileCache(): Promise<void> {
+  if (!tileCachingSupported()) return;
+  try {
+    await navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`);
+  } catch (err) {
+    console.error("Failed to register the tile cache:", err);
+  }
+}
+
+async function postToWorker(message: { type: "config" | "trim" }) {
+  const registration = await navigator.serviceWorker.ready;
+  registration.active?.postMessage(message);
+}
+
+// ---- Tile URLs ----
+
+// Leaflet's {z}/{x}/{y} template for sources it loads as plain tiles
+export function tileTemplate(source: LayerSource): string | null {
+  switch (source.type) {
+    case "xyz":
+      return source.url;
+    case "wmts":
+      return wmtsUrlTemplate(source);
+    case "wms":
+      return null;
+  }
+}
+
+const PLACEHOLDER = /(\{ *[\w_-]+ *\})/;
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+function placeholderPattern(key: string): string {
+  switch (key) {
+    case "x":
+    case "y":
+    case "-y":
+    case "z":
+      return "\\d+";
+    case "s":
+      return "[^./]+";
+    case "r":
+      return "(?:@2x)?";
+    default:
+      return "[^/?&]*";
+  }
+}
+
+// Regular expression source matching every tile URL Leaflet requests for a
+// source. WMS tiles vary by bounding box, so anything under the endpoint
+// counts.
+export function tileUrlPattern(source: LayerSource): string {
+  const template = tileTemplate(source);
+  if (template === null) return `^${escapeRegExp(source.url)}`;
+  const pattern = template
+    .split(PLACEHOLDER)
+    .map((part, i) =>
+      // Odd parts are the captured placeholders
+      i % 2 === 1
+        ? placeholderPattern(part.slice(1, -1).trim())
+        : escapeRegExp(part)
+    )
+    .join("");
+  return `^${pattern}$`;
+}
+
+// The URL Leaflet would request for a tile, subdomain choice included, so
+// downloaded tiles are found again while browsing
+export function tileUrl(source: LayerSource, { x, y, z }: TileCoords): string {
+  const template = tileTemplate(source);
+  if (template === null) {
+    throw new Error(`${source.label} is a WMS layer and has no tile URLs`);
+  }
+  const subdomains = source.type === "xyz" ? source.subdomains ?? "abc" : "abc";
+  const data: Record<string, string | number> = {
+    x,
+    y,
+    z,
+    s: subdomains[Math.abs(x + y) % subdomains.length],
+    r: L.Browser.retina ? "@2x" : "",
+  };
+  return template.replace(new RegExp(PLACEHOLDER, "g"), (placeholder) => {
+    const value = data[placeholder.slice(1, -1).trim()];
+    return value === undefined ? placeholder : String(value);
+  });
+}
+
+// ---- Tile ranges ----
+
+function tileAt(lng: number, lat: number, z: number): [number, number] {
+  const n = 2 ** z;
+  const [px, py] = worldPixel([lng, lat], z);
+  const x = Math.floor(px / TILE_SIZE);
+  const y = Math.floor(py / TILE_SIZE);
+  return [x, Math.max(0, Math.min(n - 1, y))];
+}
+
+interface TileRange {
+  z: number;
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+// Tiles covering [west, south, east, north] at one zoom. Columns beyond
+// ±180° are kept unwrapped here; Leaflet wraps them when requesting.
+function tileRange(
+  [west, south, east, north]: [number, number, number, number],
+  z: number
+): TileRange {
+  const [minX, minY] = tileAt(west, north, z);
+  const [maxX, maxY] = tileAt(east, south, z);
+  return { z, minX, maxX, minY, maxY };
+}
+
+const columns = ({ z, minX, maxX }: TileRange) =>
+  Math.min(maxX - minX + 1, 2 ** z);
+
+export function countTiles(
+  bounds: [number, number, number, number],
+  minZoom: number,
+  maxZoom: number
+): number {
+  let count = 0;
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const range = tileRange(bounds, z);
+    count += columns(range) * (range.maxY - range.minY + 1);
+  }
+  return count;
+}
+
+export function tilesInBounds(
+  bounds: [number, number, number, number],
+  minZoom: number,
+  maxZoom: number
+): TileCoords[] {
+  const tiles: TileCoords[] = [];
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const range = tileRange(bounds, z);
+    const n = 2 ** z;
+    for (let i = 0; i < columns(range); i++) {
+      const x = (((range.minX + i) % n) + n) % n;
+      for (let y = range.minY; y <= range.maxY; y++) tiles.push({ x, y, z });
+    }
+  }
+  return tiles;
+}
+
+// ---- Cache ----
+
+// Point the worker at the active basemap. Tiles of earlier basemaps stay
+// cached and are still served, they just stop being added.
+export async function setTileCacheSource(source: LayerSource): Promise<void> {
+  if (!tileCachingSupported()) return;
+  try {
+    const meta = await caches.open(TILE_META_CACHE_NAME);
+    await meta.put(
+      CONFIG_KEY,
+      Response.json({
+        patterns: [tileUrlPattern(source)],
+        maxTiles: TILE_CACHE_MAX_TILES,
+      })
+    );
+    await postToWorker({ type: "config" });
+  } catch (err) {
+    console.error("Failed to configure the tile cache:", err);
+  }
+}
+
+export async function tileCacheStats(): Promise<TileCacheStats> {
+  const [tiles, meta] = await Promise.all([
+    caches.open(TILE_CACHE_NAME).then((c) => c.keys()),
+    caches.open(TILE_META_CACHE_NAME),
+  ]);
+  const evictions = await meta
+    .match(EVICTIONS_KEY)
+    .then((res) => res?.json())
+    .catch(() => undefined);
+  const estimate = await navigator.storage?.estimate?.().catch(() => undefined);
+  return {
+    tiles: tiles.length,
+    maxTiles: TILE_CACHE_MAX_TILES,
+    evicted: evictions?.count ?? 0,
+    lastEvictedAt: evictions?.lastAt ?? null,
+    usageBytes: estimate?.usage,
+    quotaBytes: estimate?.quota,
+    persisted: (await navigator.storage?.persisted?.()) ?? false,
+  };
+}
+
+export async function clearTileCache(): Promise<void> {
+  await caches.delete(TILE_CACHE_NAME);
+  const meta = await caches.open(TILE_META_CACHE_NAME);
+  await meta.delete(EVICTIONS_KEY);
+}
+
+// Ask the browser not to clear our storage when space runs low. Browsers may
+// decide silently, so the answer is only a hint.
+export async function requestPersistentStorage(): Promise<boolean> {
+  return (await navigator.storage?.persist?.()) ?? false;
+}
+
+// A CORS failure looks like any network error; if the same URL loads
+// without CORS, the server is up but doesn't allow its tiles to be read
+async function lacksCors(url: string, signal?: AbortSignal): Promise<boolean> {
+  try {
+    await fetch(url, { mode: "no-cors", signal });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Fetch tiles straight into the cache. Tiles already there are skipped, and
+// the worker trims the cache afterwards, oldest tiles first.
+export async function downloadTiles(
+  urls: string[],
+  {
+    signal,
+    onProgress,
+  }: {
+    signal?: AbortSignal;
+    onProgress?: (done: number, total: number) => void;
+  } = {}
+): Promise<TileDownloadResult> {
+  const cache = await caches.open(TILE_CACHE_NAME);
+  const result: TileDownloadResult = {
+    downloaded: 0,
+    alreadyCached: 0,
+    failed: 0,
+    cancelled: false,
+    corsBlocked: false,
+  };
+  const pending = [...urls];
+  let done = 0;
+
+  const work = async () => {
+    for (let url = pending.shift(); url; url = pending.shift()) {
+      if (signal?.aborted || result.corsBlocked) return;
+      try {
+        if (await cache.match(url)) {
+          result.alreadyCached++;
+        } else {
+          const res = await fetch(url, { mode: "cors", signal });
+          if (res.ok) {
+            await cache.put(url, res);
+            result.downloaded++;
+          } else {
+            result.failed++;
+          }
+        }
+      } catch {
+        if (signal?.aborted) return;
+        // Every other tile would fail the same way, so stop here
+        if (await lacksCors(url, signal)) {
+          result.corsBlocked = true;
+          return;
+        }
+        result.failed++;
+      }
+      onProgress?.(++done, urls.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: OFFLINE_DOWNLOAD_CONCURRENCY }, work));
+  result.cancelled = !!signal?.aborted;
+  await postToWorker({ type: "trim" });
+  return result;
+}
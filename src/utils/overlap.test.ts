@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  clipToUncovered,
+  coveredAreaKm2,
+  findOverlaps,
+  uniqueAreasKm2,
+} from "./overlap";
+import { areaKm2 } from "./geometry";
+import { boxFeature, boxRegion } from "../test/regions";
+
+const a = boxRegion("a", [0, 0, 1, 1]);
+const b = boxRegion("b", [0.5, 0, 1.5, 1]);
+const c = boxRegion("c", [5, 5, 6, 6]);
+// Shares only an edge with `a`
+const d = boxRegion("d", [1, 0, 2, 1]);
+
+describe("findOverlaps", () => {
+  it("reports each overlapping pair with its shared area", () => {
+    const overlaps = findOverlaps([a, b, c]);
+    expect(overlaps).toHaveLength(1);
+    expect(overlaps[0].regionIds).toEqual(["a", "b"]);
+    expect(overlaps[0].areaKm2).toBeCloseTo(areaKm2(a.geojson) / 2, -1);
+  });
+
+  it("ignores regions that only share an edge", () => {
+    expect(findOverlaps([a, d])).toEqual([]);
+  });
+});
+
+describe("uniqueAreasKm2", () => {
+  it("credits shared ground to the region added first", () => {
+    // Newest first, as in the cart
+    const unique = uniqueAreasKm2([b, a]);
+    expect(unique.get("a")).toBeCloseTo(areaKm2(a.geojson));
+    expect(unique.get("b")).toBeCloseTo(areaKm2(b.geojson) / 2, -1);
+  });
+
+  it("gives nothing to a region inside an earlier one", () => {
+    const inner = boxRegion("inner", [0.2, 0.2, 0.4, 0.4]);
+    expect(uniqueAreasKm2([inner, a]).get("inner")).toBeCloseTo(0);
+  });
+});
+
+describe("clipToUncovered", () => {
+  it("returns what the others leave uncovered", () => {
+    const remainder = clipToUncovered(b.geojson, [a]);
+    expect(areaKm2(remainder)).toBeCloseTo(areaKm2(b.geojson) / 2, -1);
+    expect(coveredAreaKm2(b.geojson, [a, c])).toBeCloseTo(
+      areaKm2(b.geojson) / 2,
+      -1
+    );
+  });
+
+  it("is null when nothing is left", () => {
+    expect(clipToUncovered(boxFeature(0.1, 0.1, 0.2, 0.2), [a])).toBeNull();
+  });
+
+  it("returns the shape itself when nothing covers it", () => {
+    expect(clipToUncovered(c.geojson, [a, b])).toBe(c.geojson);
+  });
+});
@@ -0,0 +1,112 @@
+// utils/overlap.ts
+import {
+  bbox,
+  difference,
+  featureCollection,
+  intersect,
+  union,
+} from "@turf/turf";
+import type { Region } from "../types";
+import type { PolygonalGeometry } from "./validation";
+import { areaKm2 } from "./geometry";
+
+export type PolygonalFeature = GeoJSON.Feature<PolygonalGeometry>;
+
+// All the overlap work looks at, so it can be memoized on geometry alone
+export type RegionShape = Pick<Region, "id" | "geojson">;
+
+export interface RegionOverlap {
+  regionIds: [string, string];
+  areaKm2: number;
+  geometry: PolygonalFeature;
+}
+
+// Shared edges produce hairline intersections; ignore anything below 1 m²
+export const MIN_OVERLAP_KM2 = 1e-6;
+
+export const asPolygonal = (region: RegionShape) =>
+  region.geojson as PolygonalFeature;
+
+export function bboxesIntersect(
+  a: GeoJSON.BBox | number[],
+  b: GeoJSON.BBox | number[]
+) {
+  return a[0] <= b[2] && b[0] <= a[2] && a[1] <= b[3] && b[1] <= a[3];
+}
+
+export function findOverlaps(regions: RegionShape[]): RegionOverlap[] {
+  const boxes = regions.map((r) => bbox(r.geojson));
+  const overlaps: RegionOverlap[] = [];
+
+  for (let i = 0; i < regions.length; i++) {
+    for (let j = i + 1; j < regions.length; j++) {
+      if (!bboxesIntersect(boxes[i], boxes[j])) continue;
+      const shared = intersect(
+        featureCollection([asPolygonal(regions[i]), asPolygonal(regions[j])])
+      );
+      if (!shared) continue;
+      const sharedKm2 = areaKm2(shared);
+      if (sharedKm2 < MIN_OVERLAP_KM2) continue;
+      overlaps.push({
+        regionIds: [regions[i].id, regions[j].id],
+        areaKm2: sharedKm2,
+        geometry: shared,
+      });
+    }
+  }
+  return overlaps;
+}
+
+export function unionRegions(regions: Region[]): PolygonalFeature | null {
+  if (regions.length === 0) return null;
+  if (regions.length === 1) return asPolygonal(regions[0]);
+  return union(featureCollection(regions.map(asPolygonal)));
+}
+
+// The part of `gj` not covered by any of `others` (null if none is left)
+export function clipToUncovered(
+  gj: GeoJSON.Feature,
+  others: Region[]
+): PolygonalFeature | null {
+  const own = gj as PolygonalFeature;
+  const box = bbox(own);
+  const covered = unionRegions(
+    others.filter((r) => bboxesIntersect(box, bbox(r.geojson)))
+  );
+  if (!covered) return own;
+  const remainder = difference(featureCollection([own, covered]));
+  if (!remainder || areaKm2(remainder) < MIN_OVERLAP_KM2) return null;
+  return remainder;
+}
+
+// How much of `gj` is already covered by `others`
+export function coveredAreaKm2(gj: GeoJSON.Feature, others: Region[]): number {
+  const remainder = clipToUncovered(gj, others);
+  return areaKm2(gj) - areaKm2(remainder);
+}
+
+// The part of each region that isn't already covered by a region added
+// before it (null if none is left). The cart keeps the newest region first,
+// so walk it from the end.
+export function uniqueParts(
+  regions: RegionShape[]
+): Map<string, PolygonalFeature | null> {
+  const unique = new Map<string, PolygonalFeature | null>();
+  let covered: PolygonalFeature | null = null;
+
+  for (let i = regions.length - 1; i >= 0; i--) {
+    const own = asPolygonal(regions[i]);
+    const remainder: PolygonalFeature | null = covered
+      ? difference(featureCollection([own, covered]))
+      : own;
+    unique.set(regions[i].id, remainder);
+    covered = covered ? union(featureCollection([covered, own])) : own;
+  }
+  return unique;
+}
+
+export function uniqueAreasKm2(regions: RegionShape[]): Map<string, number> {
+  return new Map(
+    [...uniqueParts(regions)].map(([id, part]) => [id, areaKm2(part)])
+  );
+}
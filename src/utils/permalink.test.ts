@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import LZString from "lz-string";
+import type { ProductOptions } from "../types";
+import {
+  PermalinkError,
+  decodePermalink,
+  encodePermalink,
+  parsePermalinkHash,
+  permalinkHash,
+} from "./permalink";
+import type { SharedState } from "./permalink";
+import { areaKm2 } from "./geometry";
+import { boxRegion } from "../test/regions";
+
+const product: ProductOptions = {
+  mode: "tasking",
+  sensor: "vhr-optical",
+  resolutionTier: "0.5m",
+  processingLevel: "pansharpened",
+  bands: ["pan", "red"],
+  // Long past: links outlive acquisition windows
+  acquisitionStart: "2020-01-01",
+  acquisitionEnd: "2020-02-01",
+  maxCloudCover: 10,
+};
+
+const state: SharedState = {
+  view: { center: [45.76, 4.84], zoom: 11.5 },
+  baseLayerId: "satellite",
+  regions: [
+    boxRegion("a", [4.8, 45.7, 4.9, 45.8], { name: "Lyon", product }),
+    boxRegion("b", [5, 45, 5.2, 45.2], {
+      name: "Tiled",
+      tileGrid: { sizeKm: 10, alignment: "fixed" },
+    }),
+  ],
+};
+
+// A link with the given regions, as an older or hand-edited one might be
+const linkWith = (regions: unknown[], v = 1) =>
+  LZString.compressToEncodedURIComponent(
+    JSON.stringify({ v, c: [45, 5], z: 10, b: "osm", r: regions })
+  );
+
+// The encoded form of a plain box, for building links by hand
+const [{ g }] = JSON.parse(
+  LZString.decompressFromEncodedURIComponent(
+    encodePermalink({ ...state, regions: [state.regions[0]] })
+  )!
+).r;
+
+describe("permalinks", () => {
+  it("round-trip the view, basemap and regions", () => {
+    const decoded = decodePermalink(encodePermalink(state));
+    expect(decoded.view).toEqual(state.view);
+    expect(decoded.baseLayerId).toBe("satellite");
+
+    const [lyon, tiled] = decoded.regions;
+    expect(lyon.id).not.toBe("a");
+    expect(lyon.name).toBe("Lyon");
+    expect(lyon.product).toEqual(product);
+    expect(areaKm2(lyon.geojson)).toBeCloseTo(
+      areaKm2(state.regions[0].geojson),
+      3
+    );
+    expect(tiled.tileGrid).toEqual({ sizeKm: 10, alignment: "fixed" });
+    expect(tiled.tiles!.length).toBeGreaterThan(1);
+  });
+
+  it("go through location hashes", () => {
+    const data = encodePermalink(state);
+    expect(parsePermalinkHash(permalinkHash({ kind: "state", data }))).toEqual({
+      kind: "state",
+      data,
+    });
+    expect(parsePermalinkHash("#l=a%2Fb")).toEqual({
+      kind: "short",
+      id: "a/b",
+    });
+    expect(parsePermalinkHash("#other")).toBeNull();
+  });
+
+  it("reject damaged data and links from newer versions", () => {
+    expect(() => decodePermalink("not-a-link")).toThrow(PermalinkError);
+    expect(() => decodePermalink(linkWith([], 99))).toThrow(/newer version/);
+    expect(() => decodePermalink(linkWith([{ n: "x", g: "oops" }]))).toThrow(
+      /shared areas/
+    );
+  });
+
+  it("drop product options that don't fit the catalog", () => {
+    const bad = [
+      { ...product, sensor: "retired-sat" },
+      { ...product, resolutionTier: "1cm" },
+      { ...product, bands: ["pan", 3] },
+      { ...product, maxCloudCover: "10" },
+      { ...product, acquisitionStart: "soon" },
+      "vhr-optical",
+    ];
+    const { regions } = decodePermalink(
+      linkWith(bad.map((p) => ({ n: "x", g, p })))
+    );
+    for (const region of regions) {
+      expect(region.product?.sensor).toBe("sentinel-2");
+    }
+  });
+
+  it("keep only known product fields", () => {
+    const { regions } = decodePermalink(
+      linkWith([{ n: "x", g, p: { ...product, price: 0 } }])
+    );
+    expect(regions[0].product).toEqual(product);
+  });
+
+  it("drop tile grids the cart doesn't offer", () => {
+    const bad = [[10, "hex"], [-5, "utm"], [0.001, "fixed"], ["10", "utm"], 10];
+    const { regions } = decodePermalink(
+      linkWith(bad.map((t) => ({ n: "x", g, t })))
+    );
+    for (const region of regions) {
+      expect(region.tileGrid).toBeUndefined();
+      expect(region.tiles).toBeUndefined();
+    }
+  });
+});
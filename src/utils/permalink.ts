@@ -0,0 +1,241 @@
+// utils/permalink.ts
+// Compact, URL-safe encoding of the map view, basemap and cart. Rings are
+// stored as encoded polylines and the JSON around them is LZ-compressed.
+import polyline from "@mapbox/polyline";
+import LZString from "lz-string";
+import type {
+  AcquisitionMode,
+  BasemapKey,
+  ProcessingLevel,
+  ProductOptions,
+  Region,
+  TileAlignment,
+  TileGridOptions,
+} from "../types";
+import { polygonParts } from "./geometry";
+import { validateProduct } from "./products";
+import { createRegion } from "./region";
+import { tileGrid, TileGridError } from "./tiling";
+import type { PolygonalGeometry } from "./validation";
+import { PRODUCT_CATALOG } from "../config/products";
+import { TILE_SIZES_KM } from "../config/tiling";
+
+// Bump when the payload shape changes; older links must keep decoding
+const PERMALINK_VERSION = 1;
+
+// 6 decimals is ~0.1 m, the same precision the coordinate tools show
+const POLYLINE_PRECISION = 6;
+
+export interface MapViewState {
+  center: [number, number]; // [lat, lng]
+  zoom: number;
+}
+
+export interface SharedState {
+  view: MapViewState;
+  baseLayerId: BasemapKey;
+  // Geometry, name, product options and tile grid; scene picks and removed
+  // tiles aren't shared
+  regions: Region[];
+}
+
+interface EncodedRegion {
+  n: string;
+  // Polygons → rings → polyline strings ([lat, lng] order)
+  g: string[][];
+  p?: ProductOptions;
+  // Tile grid [sizeKm, alignment]; the tiles are rebuilt from it
+  t?: [number, TileAlignment];
+}
+
+interface Payload {
+  v: number;
+  c: [number, number];
+  z: number;
+  b: BasemapKey;
+  r: EncodedRegion[];
+}
+
+export class PermalinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermalinkError";
+  }
+}
+
+function encodeRegion(region: Region): EncodedRegion {
+  const g = polygonParts(region.geojson).map((rings) =>
+    rings.map((ring) =>
+      polyline.encode(
+        // Drop the closing vertex, it's restored on decode
+        ring.slice(0, -1).map(([lng, lat]) => [lat, lng]),
+        POLYLINE_PRECISION
+      )
+    )
+  );
+  return {
+    n: region.name,
+    g,
+    ...(region.product && { p: region.product }),
+    ...(region.tileGrid && {
+      t: [region.tileGrid.sizeKm, region.tileGrid.alignment],
+    }),
+  };
+}
+
+const isString = (v: unknown): v is string => typeof v === "string";
+const isDate = (v: unknown): v is string =>
+  isString(v) && /^\d{4}-\d{2}-\d{2}$/.test(v);
+
+// Product options from a link, or undefined when they don't fit the current
+// catalog (hand-edited, or from before a sensor was withdrawn). Acquisition
+// windows that have since lapsed are kept for the cart to flag.
+function decodeProduct(p: unknown): ProductOptions | undefined {
+  const v = p as Partial<Record<keyof ProductOptions, unknown>> | null;
+  if (
+    !v ||
+    !isString(v.mode) ||
+    !isString(v.sensor) ||
+    !isString(v.resolutionTier) ||
+    !isString(v.processingLevel) ||
+    !Array.isArray(v.bands) ||
+    !v.bands.every(isString) ||
+    !isDate(v.acquisitionStart) ||
+    !isDate(v.acquisitionEnd) ||
+    typeof v.maxCloudCover !== "number"
+  ) {
+    return undefined;
+  }
+  const product: ProductOptions = {
+    mode: v.mode as AcquisitionMode,
+    sensor: v.sensor,
+    resolutionTier: v.resolutionTier,
+    processingLevel: v.processingLevel as ProcessingLevel,
+    bands: v.bands,
+    acquisitionStart: v.acquisitionStart,
+    acquisitionEnd: v.acquisitionEnd,
+    maxCloudCover: v.maxCloudCover,
+  };
+  const issues = validateProduct(product, PRODUCT_CATALOG).filter(
+    (i) => i.field !== "acquisitionStart" && i.field !== "acquisitionEnd"
+  );
+  return issues.length === 0 ? product : undefined;
+}
+
+// A tile grid from a link, or undefined unless it's one the cart offers
+function decodeTileGrid(t: unknown): TileGridOptions | undefined {
+  if (!Array.isArray(t)) return undefined;
+  const [sizeKm, alignment] = t as unknown[];
+  const alignments: TileAlignment[] = ["utm", "fixed"];
+  return typeof sizeKm === "number" &&
+    TILE_SIZES_KM.includes(sizeKm) &&
+    alignments.includes(alignment as TileAlignment)
+    ? { sizeKm, alignment: alignment as TileAlignment }
+    : undefined;
+}
+
+// Product options and tile grids that don't check out are dropped, leaving
+// the region as if it had been drawn
+function decodeRegion({ n, g, p, t }: EncodedRegion): Region {
+  const polygons = g.map((rings) =>
+    rings.map((encoded) => {
+      const ring = polyline
+        .decode(encoded, POLYLINE_PRECISION)
+        .map(([lat, lng]) => [lng, lat]);
+      return [...ring, ring[0]];
+    })
+  );
+  const geometry: GeoJSON.Polygon | GeoJSON.MultiPolygon =
+    polygons.length === 1
+      ? { type: "Polygon", coordinates: polygons[0] }
+      : { type: "MultiPolygon", coordinates: polygons };
+  const region = createRegion(
+    { type: "Feature", properties: {}, geometry },
+    isString(n) && n ? n : "Shared region"
+  );
+  const product = decodeProduct(p);
+  if (product) region.product = product;
+  const grid = decodeTileGrid(t);
+  if (grid) {
+    try {
+      const tiles = tileGrid(
+        region.geojson as GeoJSON.Feature<PolygonalGeometry>,
+        grid
+      );
+      if (tiles.length > 0) Object.assign(region, { tileGrid: grid, tiles });
+    } catch (err) {
+      // Too many cells for this region at that size
+      if (!(err instanceof TileGridError)) throw err;
+    }
+  }
+  return region;
+}
+
+// The URL-safe string that goes after `#s=`
+export function encodePermalink(state: SharedState): string {
+  const payload: Payload = {
+    v: PERMALINK_VERSION,
+    c: [
+      Number(state.view.center[0].toFixed(5)),
+      Number(state.view.center[1].toFixed(5)),
+    ],
+    z: Math.round(state.view.zoom * 100) / 100,
+    b: state.baseLayerId,
+    r: state.regions.map(encodeRegion),
+  };
+  return LZString.compressToEncodedURIComponent(JSON.stringify(payload));
+}
+
+const isPosition = (v: unknown): v is [number, number] =>
+  Array.isArray(v) && v.length === 2 && v.every(Number.isFinite);
+
+// Inverse of encodePermalink. Regions get fresh ids so a link can be opened
+// twice without clashing.
+export function decodePermalink(data: string): SharedState {
+  let payload: Payload;
+  try {
+    const json = LZString.decompressFromEncodedURIComponent(data);
+    payload = JSON.parse(json ?? "");
+  } catch {
+    throw new PermalinkError("This link is damaged or incomplete.");
+  }
+  if (typeof payload?.v !== "number" || payload.v > PERMALINK_VERSION) {
+    throw new PermalinkError(
+      "This link was made by a newer version of the app."
+    );
+  }
+  if (!isPosition(payload.c) || !Number.isFinite(payload.z)) {
+    throw new PermalinkError("This link is damaged or incomplete.");
+  }
+  let regions: Region[];
+  try {
+    regions = (Array.isArray(payload.r) ? payload.r : []).map(decodeRegion);
+  } catch {
+    throw new PermalinkError("The shared areas in this link are damaged.");
+  }
+  return {
+    view: { center: payload.c, zoom: payload.z },
+    baseLayerId: typeof payload.b === "string" ? payload.b : "",
+    regions,
+  };
+}
+
+export type PermalinkRef =
+  | { kind: "state"; data: string }
+  | { kind: "short"; id: string };
+
+// Read a permalink from a location hash ("#s=…" inline, "#l=…" short link).
+// Parsed by hand since URLSearchParams would turn the data's "+" into spaces.
+export function parsePermalinkHash(hash: string): PermalinkRef | null {
+  const match = /^#?([sl])=(.+)$/.exec(hash);
+  if (!match) return null;
+  return match[1] === "s"
+    ? { kind: "state", data: match[2] }
+    : { kind: "short", id: decodeURIComponent(match[2]) };
+}
+
+export function permalinkHash(ref: PermalinkRef): string {
+  return ref.kind === "state"
+    ? `#s=${ref.data}`
+    : `#l=${encodeURIComponent(ref.id)}`;
+}
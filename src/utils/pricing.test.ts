@@ -0,0 +1,191 @@
+import { describe, expect, it } from "vitest";
+import type { PriceTable } from "./pricing";
+import {
+  discountRateFor,
+  measureRegion,
+  priceCart,
+  priceRegion,
+  priceTiles,
+} from "./pricing";
+import { tileGrid } from "./tiling";
+import { areaKm2 } from "./geometry";
+import { boxFeature, boxRegion } from "../test/regions";
+
+const TABLE: PriceTable = {
+  currency: "USD",
+  pricePerKm2: 10,
+  archivePricePerKm2: 4,
+  minBillableAreaKm2: 25,
+  volumeDiscounts: [
+    { minAreaKm2: 500, discount: 0.05 },
+    { minAreaKm2: 2000, discount: 0.1 },
+  ],
+};
+
+// About 55 × 55 km at the equator
+const large = boxRegion("large", [0, 0, 0.5, 0.5]);
+// About 1.1 × 1.1 km, well under the minimum
+const small = boxRegion("small", [3, 0, 3.01, 0.01]);
+
+describe("measureRegion", () => {
+  it("measures geodesic area and perimeter", () => {
+    const { areaKm2, perimeterKm } = measureRegion(large);
+    expect(areaKm2).toBeCloseTo(3091, -1);
+    expect(perimeterKm).toBeCloseTo(222.4, 0);
+  });
+
+  it("leaves holes out of the area but counts their edges", () => {
+    const holed = boxRegion("holed", [0, 0, 0.5, 0.5]);
+    const geometry = holed.geojson.geometry as GeoJSON.Polygon;
+    geometry.coordinates.push([
+      [0.1, 0.1],
+      [0.1, 0.2],
+      [0.2, 0.2],
+      [0.2, 0.1],
+      [0.1, 0.1],
+    ]);
+    const full = measureRegion(large);
+    const { areaKm2, perimeterKm } = measureRegion(holed);
+    expect(areaKm2).toBeLessThan(full.areaKm2 - 100);
+    expect(perimeterKm).toBeGreaterThan(full.perimeterKm + 40);
+  });
+});
+
+describe("priceRegion", () => {
+  it("bills the area at the per-km² rate", () => {
+    const line = priceRegion(large, TABLE);
+    expect(line.billableAreaKm2).toBeCloseTo(line.areaKm2);
+    expect(line.subtotal).toBeCloseTo(line.areaKm2 * 10, 1);
+  });
+
+  it("bills small regions at the minimum area", () => {
+    const line = priceRegion(small, TABLE);
+    expect(line.areaKm2).toBeLessThan(2);
+    expect(line.billableAreaKm2).toBe(25);
+    expect(line.subtotal).toBe(250);
+  });
+
+  it("bills only the unique part it is given", () => {
+    const part = boxFeature(0, 0, 0.25, 0.5);
+    const line = priceRegion(large, TABLE, part);
+    expect(line.uniqueAreaKm2).toBeCloseTo(areaKm2(part));
+    expect(line.subtotal).toBeCloseTo(areaKm2(part) * 10, 1);
+  });
+
+  it("bills nothing for a region fully covered by others", () => {
+    expect(priceRegion(large, TABLE, null).subtotal).toBe(0);
+  });
+});
+
+describe("priceTiles", () => {
+  const tiled = (
+    id: string,
+    box: [number, number, number, number],
+    sizeKm = 5
+  ) => {
+    const region = boxRegion(id, box);
+    const tileGridOptions = { sizeKm, alignment: "fixed" as const };
+    return {
+      ...region,
+      tileGrid: tileGridOptions,
+      tiles: tileGrid(boxFeature(...box), tileGridOptions),
+    };
+  };
+
+  it("bills the region's area, not a minimum per tile", () => {
+    // About 11 × 11 km: nine tiles, most far below the minimum
+    const region = tiled("tiled", [0, 0, 0.1, 0.1]);
+    const tiles = priceTiles(region, TABLE);
+    expect(tiles).toHaveLength(9);
+    const billed = tiles.reduce((a, t) => a + t.billableAreaKm2, 0);
+    expect(billed).toBeCloseTo(measureRegion(region).areaKm2, 1);
+    expect(priceRegion(region, TABLE).billableAreaKm2).toBeCloseTo(billed);
+  });
+
+  it("spreads the minimum over the tiles of a small region", () => {
+    // About 3.3 × 3.3 km in four tiles
+    const region = tiled("small", [0, 0, 0.03, 0.03], 2);
+    const tiles = priceTiles(region, TABLE);
+    expect(tiles).toHaveLength(4);
+    const billed = tiles.reduce((a, t) => a + t.billableAreaKm2, 0);
+    expect(billed).toBeCloseTo(25);
+    const line = priceRegion(region, TABLE);
+    expect(line.billableAreaKm2).toBeCloseTo(25);
+    expect(line.subtotal).toBeCloseTo(250, 1);
+  });
+
+  it("takes shared ground off every tile", () => {
+    const region = tiled("tiled", [0, 0, 0.1, 0.1]);
+    const whole = priceTiles(region, TABLE);
+    const half = priceTiles(region, TABLE, 0.5);
+    half.forEach((t, i) =>
+      expect(t.billableAreaKm2).toBeCloseTo(whole[i].billableAreaKm2 / 2)
+    );
+    expect(priceTiles(region, TABLE, 0).every((t) => t.subtotal === 0)).toBe(
+      true
+    );
+  });
+});
+
+describe("discountRateFor", () => {
+  it("picks the highest tier reached", () => {
+    expect(discountRateFor(499, TABLE)).toBe(0);
+    expect(discountRateFor(500, TABLE)).toBe(0.05);
+    expect(discountRateFor(5000, TABLE)).toBe(0.1);
+  });
+});
+
+describe("priceCart", () => {
+  it("totals line items and applies the volume discount", () => {
+    const quote = priceCart([large, small], TABLE);
+    expect(quote.lineItems.map((l) => l.regionId)).toEqual(["large", "small"]);
+    expect(quote.subtotal).toBeCloseTo(
+      quote.lineItems[0].subtotal + quote.lineItems[1].subtotal,
+      2
+    );
+    expect(quote.discountRate).toBe(0.1);
+    expect(quote.total).toBeCloseTo(quote.subtotal * 0.9, 2);
+  });
+
+  it("is empty for an empty cart", () => {
+    expect(priceCart([], TABLE)).toMatchObject({
+      lineItems: [],
+      subtotal: 0,
+      total: 0,
+    });
+  });
+
+  it("bills shared ground once", () => {
+    const older = boxRegion("older", [0, 0, 0.5, 0.5]);
+    // The newer region is listed first and overlaps half of the older one
+    const newer = boxRegion("newer", [0.25, 0, 0.75, 0.5]);
+    const [newLine, oldLine] = priceCart([newer, older], TABLE).lineItems;
+    expect(oldLine.uniqueAreaKm2).toBeCloseTo(oldLine.areaKm2);
+    expect(newLine.uniqueAreaKm2).toBeCloseTo(newLine.areaKm2 / 2, 0);
+  });
+
+  it("bills archive scenes for ground no other region covers", () => {
+    const scene = (id: string, footprint: GeoJSON.Feature) => ({
+      id,
+      collection: "sentinel-2-l2a",
+      datetime: "2026-06-01T10:00:00Z",
+      footprint: footprint.geometry,
+    });
+    // Both regions' scenes cover the strip they share
+    const older = boxRegion("older", [0, 0, 0.5, 0.5], {
+      scenes: [scene("s1", boxFeature(-1, -1, 2, 2))],
+    });
+    const newer = boxRegion("newer", [0.25, 0, 0.75, 0.5], {
+      scenes: [scene("s2", boxFeature(-1, -1, 2, 2))],
+    });
+    const [newLine, oldLine] = priceCart([newer, older], TABLE).lineItems;
+    const [newScene, oldScene] = [newLine.scenes[0], oldLine.scenes[0]];
+    expect(oldScene.coverageKm2).toBeCloseTo(oldLine.areaKm2);
+    expect(newScene.coverageKm2).toBeCloseTo(newLine.uniqueAreaKm2);
+    expect(newScene.coverageKm2 + oldScene.coverageKm2).toBeCloseTo(
+      areaKm2(boxFeature(0, 0, 0.75, 0.5)),
+      0
+    );
+    expect(newLine.subtotal).toBeCloseTo(newScene.coverageKm2 * 4, 1);
+  });
+});
@@ -0,0 +1,212 @@
+// utils/pricing.ts
+import { feature, featureCollection, intersect } from "@turf/turf";
+import type { Region, SceneSelection } from "../types";
+import { areaKm2, perimeterKm } from "./geometry";
+import { uniqueParts } from "./overlap";
+import { productPriceMultiplier } from "./products";
+import type { ProductCatalog } from "./products";
+import { PRODUCT_CATALOG } from "../config/products";
+
+export interface VolumeDiscountTier {
+  minAreaKm2: number;
+  discount: number; // fraction, e.g. 0.1 for 10%
+}
+
+export interface PriceTable {
+  currency: string;
+  pricePerKm2: number;
+  // Archive scenes are billed for the part of the region they cover
+  archivePricePerKm2: number;
+  minBillableAreaKm2: number;
+  volumeDiscounts: VolumeDiscountTier[];
+}
+
+export interface RegionMetrics {
+  areaKm2: number;
+  perimeterKm: number;
+}
+
+export interface SceneLineItem {
+  sceneId: string;
+  // Part of the region's unique area inside the scene footprint
+  coverageKm2: number;
+  billableAreaKm2: number;
+  subtotal: number;
+}
+
+export interface TileLineItem {
+  tileId: string;
+  areaKm2: number;
+  billableAreaKm2: number;
+  subtotal: number;
+}
+
+export interface LineItem extends RegionMetrics {
+  regionId: string;
+  // Area not already covered by other regions in the order
+  uniqueAreaKm2: number;
+  billableAreaKm2: number;
+  // From the product's resolution tier and acquisition mode
+  priceMultiplier: number;
+  subtotal: number;
+  scenes: SceneLineItem[];
+  tiles: TileLineItem[];
+}
+
+export interface OrderQuote {
+  currency: string;
+  lineItems: LineItem[];
+  billableAreaKm2: number;
+  subtotal: number;
+  discountRate: number;
+  discount: number;
+  total: number;
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+// Geodesic area and perimeter (holes included in the perimeter)
+export function measureRegion(region: Region): RegionMetrics {
+  return {
+    areaKm2: areaKm2(region.geojson),
+    perimeterKm: perimeterKm(region.geojson),
+  };
+}
+
+const billable = (areaKm2: number, table: PriceTable) =>
+  areaKm2 > 0 ? Math.max(areaKm2, table.minBillableAreaKm2) : 0;
+
+// `billedPart` is the part of the region not already covered by others in
+// the order, so ground two regions share is only billed once
+export function priceScene(
+  region: Region,
+  scene: SceneSelection,
+  table: PriceTable,
+  priceMultiplier = 1,
+  billedPart: GeoJSON.Feature | null = region.geojson
+): SceneLineItem {
+  const covered =
+    billedPart &&
+    intersect(
+      featureCollection([
+        billedPart as GeoJSON.Feature<GeoJSON.Polygon | GeoJSON.MultiPolygon>,
+        feature(scene.footprint as GeoJSON.Polygon | GeoJSON.MultiPolygon),
+      ])
+    );
+  const coverageKm2 = areaKm2(covered);
+  const billableAreaKm2 = billable(coverageKm2, table);
+  return {
+    sceneId: scene.id,
+    coverageKm2,
+    billableAreaKm2,
+    subtotal: roundMoney(
+      billableAreaKm2 * table.archivePricePerKm2 * priceMultiplier
+    ),
+  };
+}
+
+// Each tile is fulfilled, and billed, on its own. Area the region shares
+// with others is taken off every tile in proportion to its size. The minimum
+// applies to the region as a whole, spread over its tiles by size.
+export function priceTiles(
+  region: Region,
+  table: PriceTable,
+  uniqueFraction = 1,
+  priceMultiplier = 1
+): TileLineItem[] {
+  const areas = (region.tiles ?? []).map((tile) => areaKm2(tile.geometry));
+  const totalKm2 = areas.reduce((a, km2) => a + km2, 0) * uniqueFraction;
+  const scale = totalKm2 > 0 ? billable(totalKm2, table) / totalKm2 : 0;
+  return (region.tiles ?? []).map((tile, i) => {
+    const billableAreaKm2 = areas[i] * uniqueFraction * scale;
+    return {
+      tileId: tile.id,
+      areaKm2: areas[i],
+      billableAreaKm2,
+      subtotal: roundMoney(
+        billableAreaKm2 * table.pricePerKm2 * priceMultiplier
+      ),
+    };
+  });
+}
+
+// Only `uniquePart`, the part not covered by other regions in the order, is
+// billed; a region entirely covered by others (null) is free. A region with
+// archive scenes is billed per scene instead, and a tiled region per tile.
+export function priceRegion(
+  region: Region,
+  table: PriceTable,
+  uniquePart: GeoJSON.Feature | null = region.geojson,
+  catalog: ProductCatalog = PRODUCT_CATALOG
+): LineItem {
+  const metrics = measureRegion(region);
+  const unique =
+    uniquePart === region.geojson ? metrics.areaKm2 : areaKm2(uniquePart);
+  const priceMultiplier = region.product
+    ? productPriceMultiplier(region.product, catalog)
+    : 1;
+  const scenes = (region.scenes ?? []).map((s) =>
+    priceScene(region, s, table, priceMultiplier, uniquePart)
+  );
+  const tiles =
+    scenes.length > 0
+      ? []
+      : priceTiles(
+          region,
+          table,
+          metrics.areaKm2 > 0 ? unique / metrics.areaKm2 : 0,
+          priceMultiplier
+        );
+  const parts = scenes.length > 0 ? scenes : tiles;
+  const billableAreaKm2 =
+    parts.length > 0
+      ? parts.reduce((a, p) => a + p.billableAreaKm2, 0)
+      : billable(unique, table);
+  const subtotal =
+    parts.length > 0
+      ? roundMoney(parts.reduce((a, p) => a + p.subtotal, 0))
+      : roundMoney(billableAreaKm2 * table.pricePerKm2 * priceMultiplier);
+  return {
+    regionId: region.id,
+    ...metrics,
+    uniqueAreaKm2: unique,
+    billableAreaKm2,
+    priceMultiplier,
+    subtotal,
+    scenes,
+    tiles,
+  };
+}
+
+export function discountRateFor(areaKm2: number, table: PriceTable): number {
+  return table.volumeDiscounts.reduce(
+    (rate, tier) =>
+      areaKm2 >= tier.minAreaKm2 ? Math.max(rate, tier.discount) : rate,
+    0
+  );
+}
+
+export function priceCart(
+  regions: Region[],
+  table: PriceTable,
+  catalog: ProductCatalog = PRODUCT_CATALOG,
+  // Pass parts already worked out to skip the geometry work
+  unique: Map<string, GeoJSON.Feature | null> = uniqueParts(regions)
+): OrderQuote {
+  const lineItems = regions.map((r) =>
+    priceRegion(r, table, unique.get(r.id) ?? null, catalog)
+  );
+  const billableAreaKm2 = lineItems.reduce((a, l) => a + l.billableAreaKm2, 0);
+  const subtotal = roundMoney(lineItems.reduce((a, l) => a + l.subtotal, 0));
+  const discountRate = discountRateFor(billableAreaKm2, table);
+  const discount = roundMoney(subtotal * discountRate);
+  return {
+    currency: table.currency,
+    lineItems,
+    billableAreaKm2,
+    subtotal,
+    discountRate,
+    discount,
+    total: roundMoney(subtotal - discount),
+  };
+}
@@ -0,0 +1,301 @@
+// utils/products.ts
+import type {
+  AcquisitionMode,
+  ProcessingLevel,
+  ProductOptions,
+} from "../types";
+
+export interface ResolutionTier {
+  id: string;
+  label: string;
+  gsd: number; // metres
+  priceMultiplier: number;
+}
+
+export interface SpectralBand {
+  id: string;
+  label: string;
+}
+
+export interface SensorDefinition {
+  id: string;
+  label: string;
+  modes: AcquisitionMode[];
+  tiers: ResolutionTier[];
+  processingLevels: ProcessingLevel[];
+  bands: SpectralBand[];
+  defaultBands: string[];
+  // Radar sees through clouds, so the cloud cover limit doesn't apply
+  cloudCover: boolean;
+  // Applied on top of the tier multiplier for new tasking
+  taskingMultiplier: number;
+}
+
+export interface ProductCatalog {
+  sensors: SensorDefinition[];
+  defaultSensor: string;
+  // Default acquisition windows, in days back (archive) or ahead (tasking)
+  archiveLookbackDays: number;
+  taskingWindowDays: number;
+}
+
+export type ProductField = keyof ProductOptions;
+
+export interface ProductIssue {
+  field: ProductField;
+  message: string;
+}
+
+export const PROCESSING_LEVEL_LABELS: Record<ProcessingLevel, string> = {
+  raw: "Raw",
+  orthorectified: "Orthorectified",
+  pansharpened: "Pansharpened",
+};
+
+const DAY_MS = 86_400_000;
+const isoDate = (d: Date) => d.toISOString().slice(0, 10);
+
+export function findSensor(
+  catalog: ProductCatalog,
+  id: string
+): SensorDefinition | undefined {
+  return catalog.sensors.find((s) => s.id === id);
+}
+
+export function acquisitionWindow(
+  mode: AcquisitionMode,
+  catalog: ProductCatalog,
+  today = new Date()
+): { acquisitionStart: string; acquisitionEnd: string } {
+  return mode === "archive"
+    ? {
+        acquisitionStart: isoDate(
+          new Date(today.getTime() - catalog.archiveLookbackDays * DAY_MS)
+        ),
+        acquisitionEnd: isoDate(today),
+      }
+    : {
+        acquisitionStart: isoDate(today),
+        acquisitionEnd: isoDate(
+          new Date(today.getTime() + catalog.taskingWindowDays * DAY_MS)
+        ),
+      };
+}
+
+// Options for a sensor with every field set to something it supports
+export function defaultProduct(
+  catalog: ProductCatalog,
+  sensorId = catalog.defaultSensor,
+  today = new Date()
+): ProductOptions {
+  const sensor = findSensor(catalog, sensorId) ?? catalog.sensors[0];
+  const mode = sensor.modes[0];
+  return {
+    mode,
+    sensor: sensor.id,
+    resolutionTier: sensor.tiers[0].id,
+    processingLevel: sensor.processingLevels[0],
+    bands: [...sensor.defaultBands],
+    ...acquisitionWindow(mode, catalog, today),
+    maxCloudCover: 20,
+  };
+}
+
+// Apply a change, pulling dependent fields back into what the (possibly new)
+// sensor and mode support
+export function changeProduct(
+  product: ProductOptions,
+  change: Partial<ProductOptions>,
+  catalog: ProductCatalog,
+  today = new Date()
+): ProductOptions {
+  const next = { ...product, ...change };
+  const sensor = findSensor(catalog, next.sensor);
+  if (!sensor) return next;
+
+  if (!sensor.modes.includes(next.mode)) next.mode = sensor.modes[0];
+  if (!sensor.tiers.some((t) => t.id === next.resolutionTier))
+    next.resolutionTier = sensor.tiers[0].id;
+  if (!sensor.processingLevels.includes(next.processingLevel))
+    next.processingLevel = sensor.processingLevels[0];
+  const bands = next.bands.filter((b) => sensor.bands.some((x) => x.id === b));
+  next.bands = bands.length > 0 ? bands : [...sensor.defaultBands];
+  if (next.mode !== product.mode && !("acquisitionStart" in change))
+    Object.assign(next, acquisitionWindow(next.mode, catalog, today));
+  return next;
+}
+
+export function validateProduct(
+  product: ProductOptions,
+  catalog: ProductCatalog,
+  today = new Date()
+): ProductIssue[] {
+  const sensor = findSensor(catalog, product.sensor);
+  if (!sensor)
+    return [{ field: "sensor", message: `Unknown sensor "${product.sensor}"` }];
+
+  const issues: ProductIssue[] = [];
+  if (!sensor.modes.includes(product.mode)) {
+    issues.push({
+      field: "mode",
+      message: `${sensor.label} is not available for ${product.mode}`,
+    });
+  }
+  if (!sensor.tiers.some((t) => t.id === product.resolutionTier)) {
+    issues.push({
+      field: "resolutionTier",
+      message: `${sensor.label} has no ${product.resolutionTier} tier`,
+    });
+  }
+  if (!sensor.processingLevels.includes(product.processingLevel)) {
+    issues.push({
+      field: "processingLevel",
+      message: `${sensor.label} can't be delivered ${product.processingLevel}`,
+    });
+  }
+  const unknownBands = product.bands.filter(
+    (b) => !sensor.bands.some((x) => x.id === b)
+  );
+  if (product.bands.length === 0) {
+    issues.push({ field: "bands", message: "Select at least one band" });
+  } else if (unknownBands.length > 0) {
+    issues.push({
+      field: "bands",
+      message: `${sensor.label} has no band ${unknownBands.join(", ")}`,
+    });
+  }
+
+  const { acquisitionStart: start, acquisitionEnd: end } = product;
+  const todayIso = isoDate(today);
+  if (!start || !end) {
+    issues.push({
+      field: "acquisitionStart",
+      message: "Set both ends of the acquisition window",
+    });
+  } else if (start > end) {
+    issues.push({
+      field: "acquisitionEnd",
+      message: "The acquisition window ends before it starts",
+    });
+  } else if (product.mode === "archive" && start > todayIso) {
+    issues.push({
+      field: "acquisitionStart",
+      message: "Archive imagery can't come from the future",
+    });
+  } else if (product.mode === "tasking" && end < todayIso) {
+    issues.push({
+      field: "acquisitionEnd",
+      message: "A tasking window must end today or later",
+    });
+  }
+
+  if (
+    sensor.cloudCover &&
+    !(product.maxCloudCover >= 0 && product.maxCloudCover <= 100)
+  ) {
+    issues.push({
+      field: "maxCloudCover",
+      message: "Max cloud cover must be between 0 and 100%",
+    });
+  }
+  return issues;
+}
+
+export function productPriceMultiplier(
+  product: ProductOptions,
+  catalog: ProductCatalog
+): number {
+  const sensor = findSensor(catalog, product.sensor);
+  const tier = sensor?.tiers.find((t) => t.id === product.resolutionTier);
+  if (!sensor || !tier) return 1;
+  return (
+    tier.priceMultiplier *
+    (product.mode === "tasking" ? sensor.taskingMultiplier : 1)
+  );
+}
+
+export function describeProduct(
+  product: ProductOptions,
+  catalog: ProductCatalog
+): string {
+  const sensor = findSensor(catalog, product.sensor);
+  const tier = sensor?.tiers.find((t) => t.id === product.resolutionTier);
+  return [
+    sensor?.label ?? product.sensor,
+    tier?.label ?? product.resolutionTier,
+    product.mode === "archive" ? "Archive" : "Tasking",
+    PROCESSING_LEVEL_LABELS[product.processingLevel],
+  ].join(" · ");
+}
+
+// Flat attributes for exporters, read back by productFromProperties
+export function productProperties(
+  product: ProductOptions
+): Record<string, string | number> {
+  return {
+    product_mode: product.mode,
+    product_sensor: product.sensor,
+    product_resolution: product.resolutionTier,
+    product_processing: product.processingLevel,
+    product_bands: product.bands.join(";"),
+    acquisition_start: product.acquisitionStart,
+    acquisition_end: product.acquisitionEnd,
+    max_cloud_cover: product.maxCloudCover,
+  };
+}
+
+export const PRODUCT_PROPERTY_KEYS = [
+  "product_mode",
+  "product_sensor",
+  "product_resolution",
+  "product_processing",
+  "product_bands",
+  "acquisition_start",
+  "acquisition_end",
+  "max_cloud_cover",
+];
+
+// Shapefile DBF field names are cut to 10 characters, which would make the
+// names above collide, so shapefiles use these instead
+export const PRODUCT_DBF_FIELDS: Record<string, string> = {
+  product_mode: "p_mode",
+  product_sensor: "p_sensor",
+  product_resolution: "p_res",
+  product_processing: "p_process",
+  product_bands: "p_bands",
+  acquisition_start: "p_acq_from",
+  acquisition_end: "p_acq_to",
+  max_cloud_cover: "p_cloud",
+};
+
+// Product options from previously exported attributes, if there are any.
+// Either the full names or their shapefile field names are read.
+export function productFromProperties(
+  attributes: Record<string, unknown>,
+  catalog: ProductCatalog
+): ProductOptions | undefined {
+  const props = { ...attributes };
+  for (const [key, field] of Object.entries(PRODUCT_DBF_FIELDS)) {
+    if (props[key] === undefined && props[field] !== undefined) {
+      props[key] = props[field];
+    }
+  }
+  if (typeof props.product_sensor !== "string") return undefined;
+  const base = defaultProduct(catalog, props.product_sensor);
+  const text = (key: string) =>
+    typeof props[key] === "string" && props[key]
+      ? String(props[key])
+      : undefined;
+  const cloud = Number(props.max_cloud_cover);
+  return {
+    mode: (text("product_mode") as AcquisitionMode) ?? base.mode,
+    sensor: props.product_sensor,
+    resolutionTier: text("product_resolution") ?? base.resolutionTier,
+    processingLevel:
+      (text("product_processing") as ProcessingLevel) ?? base.processingLevel,
+    bands: text("product_bands")?.split(";") ?? base.bands,
+    acquisitionStart: text("acquisition_start") ?? base.acquisitionStart,
+    acquisitionEnd: text("acquisition_end") ?? base.acquisitionEnd,
+    maxCloudCover: Number.isFinite(cloud) ? cloud : base.maxCloudCover,
+  };
+}
@@ -0,0 +1,289 @@
+// utils/quote.ts
+// Formal quotes built entirely in the browser: a standalone HTML page laid
+// out for printing, which the customer saves as a PDF from the print dialog.
+import type { ProductOptions, Region } from "../types";
+import type { LayerSource } from "./basemaps";
+import { formatCoordinate } from "./coordinates";
+import type { CoordinateFormat } from "./coordinates";
+import { formatArea, formatLength, formatMoney } from "./format";
+import { mapSnapshot } from "./mapSnapshot";
+import type { MapSnapshot, SnapshotOptions } from "./mapSnapshot";
+import type { LineItem, OrderQuote } from "./pricing";
+import { describeProduct, findSensor } from "./products";
+import { PRODUCT_CATALOG } from "../config/products";
+import { TERMS } from "../config/checkout";
+
+export interface QuoteBranding {
+  companyName: string;
+  logoUrl?: string;
+  address: string[];
+  contact: string[];
+  // Any CSS colour; used for headings, rules and region outlines
+  accentColor: string;
+  footer?: string;
+}
+
+export interface QuoteLayout {
+  paperSize: "A4" | "Letter";
+  numberPrefix: string;
+  validityDays: number;
+  showSnapshots: boolean;
+  snapshot: SnapshotOptions;
+  showTerms: boolean;
+}
+
+export interface QuoteInput {
+  number: string;
+  issuedAt: Date;
+  regions: Region[];
+  quote: OrderQuote;
+  basemap: LayerSource;
+  coordinateFormat: CoordinateFormat;
+}
+
+// e.g. Q-20250314-7KQ2; unique enough to quote back without a server
+export function newQuoteNumber(prefix: string, date = new Date()): string {
+  const day = date.toISOString().slice(0, 10).replace(/-/g, "");
+  const suffix = Math.random()
+    .toString(36)
+    .slice(2, 6)
+    .toUpperCase()
+    .padEnd(4, "0");
+  return `${prefix}-${day}-${suffix}`;
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString(undefined, { dateStyle: "long" });
+
+function productRows(product: ProductOptions): [string, string][] {
+  const sensor = findSensor(PRODUCT_CATALOG, product.sensor);
+  const bands = product.bands.map(
+    (id) => sensor?.bands.find((b) => b.id === id)?.label ?? id
+  );
+  return [
+    ["Product", describeProduct(product, PRODUCT_CATALOG)],
+    [
+      product.mode === "tasking" ? "Collection window" : "Acquired between",
+      `${product.acquisitionStart} – ${product.acquisitionEnd}`,
+    ],
+    ["Bands", bands.join(", ")],
+    ...(sensor?.cloudCover === false
+      ? []
+      : [
+          ["Max. cloud cover", `${product.maxCloudCover}%`] as [string, string],
+        ]),
+  ];
+}
+
+function snapshotHtml(snapshot: MapSnapshot, color: string): string {
+  const images = snapshot.images
+    .map(
+      (img) =>
+        `<img src="${escapeHtml(img.url)}" alt="" style="left:${
+          img.left
+        }px;top:${img.top}px;width:${img.width}px;height:${img.height}px">`
+    )
+    .join("");
+  return `<div class="snapshot" style="width:${snapshot.width}px;height:${
+    snapshot.height
+  }px">${images}<svg width="${snapshot.width}" height="${
+    snapshot.height
+  }"><path d="${snapshot.outline}" fill="${escapeHtml(
+    color
+  )}" fill-opacity="0.15" stroke="${escapeHtml(
+    color
+  )}" stroke-width="2" fill-rule="evenodd"/></svg></div>`;
+}
+
+function regionHtml(
+  region: Region,
+  line: LineItem,
+  index: number,
+  input: QuoteInput,
+  branding: QuoteBranding,
+  layout: QuoteLayout
+): string {
+  const { currency } = input.quote;
+  const rows: [string, string][] = [
+    ["Center", formatCoordinate(region.center, input.coordinateFormat)],
+    [
+      "Area",
+      `${formatArea(line.areaKm2)} · perimeter ${formatLength(
+        line.perimeterKm
+      )}`,
+    ],
+    ["Billable area", formatArea(line.billableAreaKm2)],
+    ...(region.product ? productRows(region.product) : []),
+  ];
+  if (region.tiles && region.tileGrid) {
+    rows.push([
+      "Delivery",
+      `${region.tiles.length} tiles of ${region.tileGrid.sizeKm} km`,
+    ]);
+  }
+  for (const [j, scene] of (region.scenes ?? []).entries()) {
+    rows.push([
+      j === 0 ? "Archive scenes" : "",
+      `${scene.datetime.slice(0, 10)} · ${scene.collection} · ${formatMoney(
+        line.scenes[j].subtotal,
+        currency
+      )}`,
+    ]);
+  }
+
+  let snapshot = "";
+  if (layout.showSnapshots) {
+    try {
+      snapshot = snapshotHtml(
+        mapSnapshot(input.basemap, region.geojson, layout.snapshot),
+        branding.accentColor
+      );
+    } catch (err) {
+      console.error(`No map snapshot for ${region.name}:`, err);
+    }
+  }
+
+  return `<section class="region">
+  <h3><span>${index + 1}. ${escapeHtml(region.name)}</span><span>${formatMoney(
+    line.subtotal,
+    currency
+  )}</span></h3>
+  ${snapshot}
+  <table class="details">${rows
+    .map(
+      ([label, value]) =>
+        `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`
+    )
+    .join("")}</table>
+</section>`;
+}
+
+// The whole document, ready for window.document.write or a download
+export function renderQuote(
+  input: QuoteInput,
+  branding: QuoteBranding,
+  layout: QuoteLayout
+): string {
+  const { quote, issuedAt } = input;
+  const validUntil = new Date(issuedAt);
+  validUntil.setDate(validUntil.getDate() + layout.validityDays);
+  const accent = escapeHtml(branding.accentColor);
+  const lines = branding.address.concat(branding.contact).map(escapeHtml);
+
+  const totals: [string, string][] = [
+    ["Billable area", formatArea(quote.billableAreaKm2)],
+    ["Subtotal", formatMoney(quote.subtotal, quote.currency)],
+    ...(quote.discount > 0
+      ? [
+          [
+            `Volume discount (${Math.round(quote.discountRate * 100)}%)`,
+            `−${formatMoney(quote.discount, quote.currency)}`,
+          ] as [string, string],
+        ]
+      : []),
+  ];
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Quote ${escapeHtml(input.number)}</title>
+<style>
+  @page { size: ${layout.paperSize}; margin: 15mm; }
+  * { box-sizing: border-box; }
+  body { font: 12px/1.45 system-ui, sans-serif; color: #111827; margin: 0 auto; max-width: 720px; padding: 24px; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  header { display: flex; justify-content: space-between; gap: 24px; border-bottom: 3px solid ${accent}; padding-bottom: 12px; }
+  header img { max-height: 48px; max-width: 200px; }
+  .company { font-size: 16px; font-weight: 600; }
+  .muted { color: #6b7280; }
+  h1 { color: ${accent}; font-size: 22px; margin: 0 0 4px; text-align: right; }
+  h2 { color: ${accent}; font-size: 14px; margin: 24px 0 8px; }
+  h3 { display: flex; justify-content: space-between; font-size: 13px; margin: 0 0 8px; }
+  .region { break-inside: avoid; border: 1px solid #e5e7eb; border-radius: 6px; padding: 12px; margin-bottom: 12px; }
+  .snapshot { position: relative; overflow: hidden; max-width: 100%; background: #e5e7eb; margin-bottom: 8px; }
+  .snapshot img, .snapshot svg { position: absolute; }
+  .snapshot svg { left: 0; top: 0; }
+  table { border-collapse: collapse; width: 100%; }
+  .details th { text-align: left; font-weight: normal; color: #6b7280; width: 35%; padding: 2px 8px 2px 0; vertical-align: top; }
+  .totals { width: 50%; margin-left: auto; }
+  .totals td { padding: 3px 0; }
+  .totals td:last-child { text-align: right; }
+  .totals .grand td { border-top: 2px solid ${accent}; font-weight: 600; font-size: 14px; padding-top: 6px; }
+  .terms { break-inside: avoid; font-size: 11px; color: #374151; }
+  footer { margin-top: 24px; border-top: 1px solid #e5e7eb; padding-top: 8px; font-size: 11px; }
+  .toolbar { text-align: right; margin-bottom: 12px; }
+  .toolbar button { font: inherit; padding: 6px 12px; border: 0; border-radius: 6px; background: ${accent}; color: white; cursor: pointer; }
+  @media print { .toolbar { display: none; } body { padding: 0; } }
+</style>
+</head>
+<body>
+<div class="toolbar"><button onclick="window.print()">Print / Save as PDF</button></div>
+<header>
+  <div>
+    ${
+      branding.logoUrl
+        ? `<img src="${escapeHtml(branding.logoUrl)}" alt="">`
+        : ""
+    }
+    <div class="company">${escapeHtml(branding.companyName)}</div>
+    <div class="muted">${lines.join("<br>")}</div>
+  </div>
+  <div>
+    <h1>Quote</h1>
+    <table class="details">
+      <tr><th>Number</th><td>${escapeHtml(input.number)}</td></tr>
+      <tr><th>Date</th><td>${formatDate(issuedAt)}</td></tr>
+      <tr><th>Valid until</th><td>${formatDate(validUntil)}</td></tr>
+    </table>
+  </div>
+</header>
+
+<h2>Areas of interest</h2>
+${input.regions
+  .map((region, i) =>
+    regionHtml(region, quote.lineItems[i], i, input, branding, layout)
+  )
+  .join("\n")}
+${
+  layout.showSnapshots && input.basemap.attribution
+    ? // Attributions are HTML in the basemap registry, as Leaflet shows them
+      `<p class="muted">Maps: ${escapeHtml(input.basemap.label)} · ${
+        input.basemap.attribution
+      }</p>`
+    : ""
+}
+
+<h2>Totals</h2>
+<table class="totals">
+  ${totals
+    .map(([label, value]) => `<tr><td>${label}</td><td>${value}</td></tr>`)
+    .join("")}
+  <tr class="grand"><td>Total</td><td>${formatMoney(
+    quote.total,
+    quote.currency
+  )}</td></tr>
+</table>
+${
+  layout.showTerms
+    ? `<section class="terms">
+  <h2>Terms of sale (version ${escapeHtml(TERMS.version)})</h2>
+  ${TERMS.text.map((p) => `<p>${escapeHtml(p)}</p>`).join("\n  ")}
+</section>`
+    : ""
+}
+${
+  branding.footer
+    ? `<footer class="muted">${escapeHtml(branding.footer)}</footer>`
+    : ""
+}
+</body>
+</html>
+`;
+}
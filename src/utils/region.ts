@@ -0,0 +1,50 @@
+// utils/region.ts
+import type { Region } from "../types";
+import { regionCenter } from "./geometry";
+import {
+  defaultProduct,
+  PRODUCT_DBF_FIELDS,
+  PRODUCT_PROPERTY_KEYS,
+  productFromProperties,
+} from "./products";
+import { PRODUCT_CATALOG } from "../config/products";
+
+// Date regions going into the cart. Ones that already have a date (e.g.
+// copied from another cart, or reopened with a project) keep it.
+export function stampAdded(
+  regions: Region[],
+  now = new Date().toISOString()
+): Region[] {
+  return regions.map((r) => (r.addedAt ? r : { ...r, addedAt: now }));
+}
+
+// Wrap a polygonal feature as a cart Region, keeping its properties. Product
+// attributes written by our exporters are read back into `product`. The name
+// comes with the shape, so it's kept when the region is reshaped.
+export function createRegion(
+  feature: GeoJSON.Feature,
+  name: string,
+  id: string = crypto.randomUUID()
+): Region {
+  const properties = { ...feature.properties };
+  const product =
+    productFromProperties(properties, PRODUCT_CATALOG) ??
+    defaultProduct(PRODUCT_CATALOG);
+  for (const key of PRODUCT_PROPERTY_KEYS) {
+    delete properties[key];
+    delete properties[PRODUCT_DBF_FIELDS[key]];
+  }
+  const geojson: GeoJSON.Feature = {
+    type: "Feature",
+    properties,
+    geometry: feature.geometry,
+  };
+  return {
+    id,
+    name,
+    geojson,
+    center: regionCenter(geojson),
+    product,
+    customName: true,
+  };
+}
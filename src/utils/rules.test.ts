@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import type { CartRules, RestrictedZone } from "./rules";
+import { checkCart, parseRestrictedZones } from "./rules";
+import type { PriceTable } from "./pricing";
+import { priceCart } from "./pricing";
+import type { Region } from "../types";
+import { boxFeature, boxRegion } from "../test/regions";
+
+const TABLE: PriceTable = {
+  currency: "USD",
+  pricePerKm2: 10,
+  archivePricePerKm2: 4,
+  minBillableAreaKm2: 0,
+  volumeDiscounts: [],
+};
+
+const RULES: CartRules = {
+  maxRegions: 3,
+  maxTotalAreaKm2: 20_000,
+  minDistanceKm: 0.5,
+};
+
+const zone: RestrictedZone = {
+  id: "base",
+  name: "Test Range",
+  reason: "Military installation",
+  feature: boxFeature(10, 10, 11, 11) as RestrictedZone["feature"],
+};
+
+const check = (regions: Region[], zones: RestrictedZone[] | null = [zone]) =>
+  checkCart(regions, priceCart(regions, TABLE).lineItems, zones, RULES);
+
+// About 11 km apart
+const a = boxRegion("a", [0, 0, 0.1, 0.1]);
+const b = boxRegion("b", [0.2, 0, 0.3, 0.1]);
+
+describe("checkCart", () => {
+  it("passes a cart that breaks no rule", () => {
+    expect(check([a, b])).toEqual([]);
+    expect(check([])).toEqual([]);
+  });
+
+  it("flags regions reaching into a restricted zone", () => {
+    const inside = boxRegion("inside", [10.9, 10.9, 11.1, 11.1]);
+    const [violation, ...rest] = check([a, inside]);
+    expect(rest).toEqual([]);
+    expect(violation).toMatchObject({
+      rule: "restrictedZone",
+      regionIds: ["inside"],
+    });
+    expect(violation.message).toContain("Test Range (military installation)");
+    expect(violation.geometry?.geometry.type).toBe("Polygon");
+  });
+
+  it("ignores regions that only touch a zone's edge", () => {
+    expect(check([boxRegion("edge", [11, 10, 12, 11])])).toEqual([]);
+  });
+
+  it("blocks every cart while the zone list is missing", () => {
+    expect(check([a], null).map((v) => v.rule)).toEqual(["zonesUnavailable"]);
+  });
+
+  it("flags separate regions closer than the minimum distance", () => {
+    // About 110 m east of `a`
+    const near = boxRegion("near", [0.101, 0, 0.2, 0.1]);
+    const [violation, ...rest] = check([a, near]);
+    expect(rest).toEqual([]);
+    expect(violation).toMatchObject({
+      rule: "minDistance",
+      regionIds: ["a", "near"],
+    });
+    expect(violation.geometry?.geometry.type).toBe("LineString");
+  });
+
+  it("leaves overlapping regions to the overlap check", () => {
+    const overlapping = boxRegion("overlapping", [0.05, 0, 0.15, 0.1]);
+    expect(check([a, overlapping])).toEqual([]);
+  });
+
+  it("caps the total area, counting overlaps once", () => {
+    // About 111 × 111 km each, and a copy that adds no area
+    const big = boxRegion("big", [20, 0, 21, 1]);
+    const copy = boxRegion("copy", [20, 0, 21, 1]);
+    const other = boxRegion("other", [30, 0, 31, 1]);
+    expect(check([big, copy])).toEqual([]);
+    expect(check([big, other]).map((v) => v.rule)).toEqual(["maxTotalArea"]);
+  });
+
+  it("caps the number of regions", () => {
+    const regions = [0, 1, 2, 3].map((i) =>
+      boxRegion(`r${i}`, [i, 0, i + 0.1, 0.1])
+    );
+    expect(check(regions).map((v) => v.rule)).toEqual(["maxRegions"]);
+  });
+});
+
+describe("parseRestrictedZones", () => {
+  it("keeps polygons and reports the rest", () => {
+    const { zones, problems } = parseRestrictedZones({
+      type: "FeatureCollection",
+      features: [
+        { ...boxFeature(0, 0, 1, 1), properties: { name: "Port", id: 7 } },
+        {
+          type: "Feature",
+          properties: { name: "Mast" },
+          geometry: { type: "Point", coordinates: [0, 0] },
+        },
+      ],
+    });
+    expect(zones).toHaveLength(1);
+    expect(zones[0]).toMatchObject({ id: "7", name: "Port" });
+    expect(problems).toEqual(["Mast: not a polygon"]);
+  });
+});
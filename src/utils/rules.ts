@@ -0,0 +1,218 @@
+// utils/rules.ts
+// Business rules every order must pass: no imagery over restricted zones,
+// and the contractual caps on how many regions, how much area and how close
+// together. Violations block checkout; they don't stop regions being added.
+import {
+  bbox,
+  booleanIntersects,
+  featureCollection,
+  intersect,
+  lineString,
+  multiLineString,
+  nearestPointOnLine,
+  point,
+} from "@turf/turf";
+import type { Region } from "../types";
+import type { PolygonalGeometry } from "./validation";
+import { isPolygonal } from "./validation";
+import { areaKm2, polygonParts } from "./geometry";
+import { MIN_OVERLAP_KM2, asPolygonal, bboxesIntersect } from "./overlap";
+import type { PolygonalFeature } from "./overlap";
+import type { LineItem } from "./pricing";
+import { formatArea, formatLength } from "./format";
+
+export interface RestrictedZone {
+  id: string;
+  name: string;
+  // Shown to the user, e.g. "Military installation"
+  reason?: string;
+  feature: PolygonalFeature;
+}
+
+export interface CartRules {
+  maxRegions: number;
+  maxTotalAreaKm2: number;
+  // Separate regions closer than this must be merged or moved apart
+  minDistanceKm: number;
+}
+
+export type RuleId =
+  | "restrictedZone"
+  | "zonesUnavailable"
+  | "maxRegions"
+  | "maxTotalArea"
+  | "minDistance";
+
+export interface RuleViolation {
+  rule: RuleId;
+  message: string;
+  // Regions to fix; empty for rules about the cart as a whole
+  regionIds: string[];
+  // Where to point at on the map: the restricted part, or the gap that's
+  // too narrow
+  geometry?: GeoJSON.Feature<PolygonalGeometry | GeoJSON.LineString>;
+}
+
+const KM_PER_DEGREE = 111.32;
+
+// Grow a bbox by a distance, generously at high latitudes
+function expandBbox([west, south, east, north]: number[], km: number) {
+  const dLat = km / KM_PER_DEGREE;
+  const lat = Math.min(89, Math.max(Math.abs(south), Math.abs(north)) + dLat);
+  const dLng = dLat / Math.cos((lat * Math.PI) / 180);
+  return [west - dLng, south - dLat, east + dLng, north + dLat];
+}
+
+// Zones from a GeoJSON FeatureCollection with "name" (and optionally "id"
+// and "reason") properties. Unusable features are skipped and reported.
+export function parseRestrictedZones(json: unknown): {
+  zones: RestrictedZone[];
+  problems: string[];
+} {
+  const collection = json as GeoJSON.FeatureCollection | null;
+  if (collection?.type !== "FeatureCollection") {
+    return { zones: [], problems: ["not a GeoJSON FeatureCollection"] };
+  }
+  const zones: RestrictedZone[] = [];
+  const problems: string[] = [];
+  collection.features.forEach((f, i) => {
+    const props = f?.properties ?? {};
+    const name = typeof props.name === "string" ? props.name : `Zone ${i + 1}`;
+    const geometry = f?.geometry ?? null;
+    if (!isPolygonal(geometry)) {
+      problems.push(`${name}: not a polygon`);
+      return;
+    }
+    zones.push({
+      id: String(props.id ?? f.id ?? i),
+      name,
+      ...(typeof props.reason === "string" && { reason: props.reason }),
+      feature: { type: "Feature", properties: {}, geometry },
+    });
+  });
+  return { zones, problems };
+}
+
+function restrictedZoneViolations(
+  regions: Region[],
+  zones: RestrictedZone[]
+): RuleViolation[] {
+  const zoneBoxes = zones.map((z) => bbox(z.feature));
+  const violations: RuleViolation[] = [];
+  for (const region of regions) {
+    const box = bbox(region.geojson);
+    zones.forEach((zone, i) => {
+      if (!bboxesIntersect(box, zoneBoxes[i])) return;
+      const shared = intersect(
+        featureCollection([asPolygonal(region), zone.feature])
+      );
+      if (!shared || areaKm2(shared) < MIN_OVERLAP_KM2) return;
+      violations.push({
+        rule: "restrictedZone",
+        message: `"${region.name}" reaches into ${zone.name}${
+          zone.reason ? ` (${zone.reason.toLowerCase()})` : ""
+        }, where we can't sell imagery. Reshape or remove it.`,
+        regionIds: [region.id],
+        geometry: shared,
+      });
+    });
+  }
+  return violations;
+}
+
+// Closest points of two regions' outlines, assuming they don't touch
+function closestPoints(a: Region, b: Region) {
+  let best = { km: Infinity, from: [0, 0], to: [0, 0] };
+  const pairs: [Region, Region][] = [
+    [a, b],
+    [b, a],
+  ];
+  for (const [from, to] of pairs) {
+    const outline = multiLineString(polygonParts(to.geojson).flat());
+    for (const vertex of polygonParts(from.geojson).flat(2)) {
+      const nearest = nearestPointOnLine(outline, point(vertex), {
+        units: "kilometers",
+      });
+      const km = nearest.properties.dist ?? Infinity;
+      if (km < best.km) {
+        best = { km, from: vertex, to: nearest.geometry.coordinates };
+      }
+    }
+  }
+  return best;
+}
+
+function minDistanceViolations(
+  regions: Region[],
+  minDistanceKm: number
+): RuleViolation[] {
+  if (minDistanceKm <= 0) return [];
+  const boxes = regions.map((r) => expandBbox(bbox(r.geojson), minDistanceKm));
+  const violations: RuleViolation[] = [];
+  for (let i = 0; i < regions.length; i++) {
+    for (let j = i + 1; j < regions.length; j++) {
+      if (!bboxesIntersect(boxes[i], boxes[j])) continue;
+      const [a, b] = [regions[i], regions[j]];
+      // Overlapping regions are billed once and listed as overlaps instead
+      if (booleanIntersects(a.geojson, b.geojson)) continue;
+      const { km, from, to } = closestPoints(a, b);
+      if (km >= minDistanceKm) continue;
+      violations.push({
+        rule: "minDistance",
+        message: `"${a.name}" and "${b.name}" are ${formatLength(
+          km
+        )} apart; separate regions must be at least ${formatLength(
+          minDistanceKm
+        )} apart. Merge them or move them further apart.`,
+        regionIds: [a.id, b.id],
+        geometry: lineString([from, to]),
+      });
+    }
+  }
+  return violations;
+}
+
+// `lineItems` in cart order, as priced by priceCart. Without the zone list
+// (null) nothing can be sold, since nothing can be cleared.
+export function checkCart(
+  regions: Region[],
+  lineItems: LineItem[],
+  zones: RestrictedZone[] | null,
+  rules: CartRules
+): RuleViolation[] {
+  if (regions.length === 0) return [];
+  const violations: RuleViolation[] = zones
+    ? restrictedZoneViolations(regions, zones)
+    : [
+        {
+          rule: "zonesUnavailable",
+          message:
+            "The list of restricted areas isn't available, so the order can't be checked yet.",
+          regionIds: [],
+        },
+      ];
+
+  if (regions.length > rules.maxRegions) {
+    violations.push({
+      rule: "maxRegions",
+      message: `The cart has ${regions.length} regions; an order can have at most ${rules.maxRegions}. Merge or remove some.`,
+      regionIds: [],
+    });
+  }
+
+  // Overlaps are only delivered once, so they count once
+  const totalKm2 = lineItems.reduce((sum, l) => sum + l.uniqueAreaKm2, 0);
+  if (totalKm2 > rules.maxTotalAreaKm2) {
+    violations.push({
+      rule: "maxTotalArea",
+      message: `The order covers ${formatArea(
+        totalKm2
+      )}; an order can cover at most ${formatArea(
+        rules.maxTotalAreaKm2
+      )}. Split it into several orders.`,
+      regionIds: [],
+    });
+  }
+
+  return violations.concat(minDistanceViolations(regions, rules.minDistanceKm));
+}
@@ -0,0 +1,97 @@
+// utils/shapes.ts
+import {
+  bboxPolygon,
+  buffer,
+  circle,
+  lineString,
+  point,
+  rewind,
+} from "@turf/turf";
+import type { Units } from "@turf/turf";
+import type { PolygonalGeometry } from "./validation";
+
+export type ShapeTool = "circle" | "point" | "corridor";
+export type DistanceUnit = "m" | "km";
+
+export interface ShapeToolConfig {
+  label: string;
+  distanceLabel: string;
+  unit: DistanceUnit;
+  defaultDistance: number;
+  hint: string;
+}
+
+type PolygonalFeature = GeoJSON.Feature<PolygonalGeometry>;
+
+// Vertices used to approximate round edges
+const CIRCLE_STEPS = 64;
+const BUFFER_STEPS = 16;
+
+const turfUnits = (unit: DistanceUnit): Units =>
+  unit === "m" ? "meters" : "kilometers";
+
+// Geodesic circle around [lng, lat]
+export function circlePolygon(
+  center: [number, number],
+  radius: number,
+  unit: DistanceUnit
+): PolygonalFeature {
+  return circle(center, radius, {
+    steps: CIRCLE_STEPS,
+    units: turfUnits(unit),
+  });
+}
+
+export function bufferPoint(
+  position: [number, number],
+  distance: number,
+  unit: DistanceUnit
+): PolygonalFeature | null {
+  return (
+    buffer(point(position), distance, {
+      units: turfUnits(unit),
+      steps: BUFFER_STEPS,
+    }) ?? null
+  );
+}
+
+// A corridor of the given total width centred on the line
+export function corridorPolygon(
+  coordinates: [number, number][],
+  width: number,
+  unit: DistanceUnit
+): PolygonalFeature | null {
+  if (coordinates.length < 2) return null;
+  return (
+    buffer(lineString(coordinates), width / 2, {
+      units: turfUnits(unit),
+      steps: BUFFER_STEPS,
+    }) ?? null
+  );
+}
+
+// West > east means the box crosses the antimeridian; it's unwrapped past
+// 180° so validation can split it
+export function bboxToPolygon(
+  west: number,
+  south: number,
+  east: number,
+  north: number
+): PolygonalFeature {
+  return bboxPolygon([west, south, east < west ? east + 360 : east, north]);
+}
+
+// A closed, counter-clockwise ring from [lng, lat] vertices in any order
+export function verticesToPolygon(
+  vertices: [number, number][]
+): PolygonalFeature {
+  const ring = [...vertices];
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  if (first[0] !== last[0] || first[1] !== last[1]) ring.push(first);
+  const feature: PolygonalFeature = {
+    type: "Feature",
+    properties: {},
+    geometry: { type: "Polygon", coordinates: [ring] },
+  };
+  return rewind(feature) as PolygonalFeature;
+}
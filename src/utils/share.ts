@@ -0,0 +1,39 @@
+// utils/share.ts
+import {
+  createApiShortLinkStore,
+  createLocalShortLinkStore,
+} from "../api/shortLinks";
+import { API_BASE_URL } from "../config/checkout";
+import { PERMALINK_MAX_LENGTH, SHORT_LINK_PROVIDER } from "../config/sharing";
+import { decodePermalink, encodePermalink, permalinkHash } from "./permalink";
+import type { PermalinkRef, SharedState } from "./permalink";
+
+export const shortLinks =
+  SHORT_LINK_PROVIDER === "local"
+    ? createLocalShortLinkStore()
+    : createApiShortLinkStore(API_BASE_URL);
+
+// A link to `state` on the page at `baseUrl`, shortened only when the inline
+// one would be too long
+export async function createShareUrl(
+  state: SharedState,
+  baseUrl: string
+): Promise<{ url: string; short: boolean }> {
+  const data = encodePermalink(state);
+  const inline = `${baseUrl}${permalinkHash({ kind: "state", data })}`;
+  if (inline.length <= PERMALINK_MAX_LENGTH) {
+    return { url: inline, short: false };
+  }
+  const id = await shortLinks.save(data);
+  return {
+    url: `${baseUrl}${permalinkHash({ kind: "short", id })}`,
+    short: true,
+  };
+}
+
+export async function resolvePermalink(
+  ref: PermalinkRef
+): Promise<SharedState> {
+  const data = ref.kind === "state" ? ref.data : await shortLinks.load(ref.id);
+  return decodePermalink(data);
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { tileGrid } from "./tiling";
+import { areaKm2, polygonParts } from "./geometry";
+import { boxFeature } from "../test/regions";
+
+describe("tileGrid", () => {
+  it("tiles a region split at the antimeridian on both sides", () => {
+    const split: GeoJSON.MultiPolygon = {
+      type: "MultiPolygon",
+      coordinates: [
+        boxFeature(179.8, 0, 180, 0.2).geometry.coordinates,
+        boxFeature(-180, 0, -179.8, 0.2).geometry.coordinates,
+      ],
+    };
+    const tiles = tileGrid(split, { sizeKm: 10, alignment: "fixed" });
+    const total = tiles.reduce((a, t) => a + areaKm2(t.geometry), 0);
+    expect(total).toBeCloseTo(areaKm2(split), 0);
+
+    const lngs = tiles.flatMap((t) =>
+      polygonParts(t.geometry)
+        .flat(2)
+        .map(([lng]) => lng)
+    );
+    expect(Math.max(...lngs)).toBeLessThanOrEqual(180);
+    expect(Math.min(...lngs)).toBeGreaterThanOrEqual(-180);
+    expect(lngs.some((lng) => lng < 0)).toBe(true);
+  });
+});
@@ -0,0 +1,197 @@
+// utils/tiling.ts
+import { bboxPolygon, featureCollection, feature, intersect } from "@turf/turf";
+import type { RegionTile, TileGridOptions } from "../types";
+import { fromUtm, toUtm, utmZone } from "./coordinates";
+import {
+  areaKm2,
+  bounds,
+  outerVertices,
+  polygonParts,
+  regionCenter,
+  unwrappedPolygons,
+} from "./geometry";
+import type { GeometryInput } from "./geometry";
+import type { PolygonalGeometry } from "./validation";
+import { GEOMETRY_LIMITS } from "../config/geometry";
+import { MAX_TILES } from "../config/tiling";
+
+export class TileGridError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TileGridError";
+  }
+}
+
+interface Cell {
+  label: string;
+  ring: [number, number][];
+}
+
+// Points per cell edge when projecting UTM cells back to lng/lat, so the
+// slight curvature of grid lines is kept
+const EDGE_STEPS = 4;
+
+function checkCount(columns: number, rows: number) {
+  const count = columns * rows;
+  if (count > MAX_TILES) {
+    throw new TileGridError(
+      `That grid would have about ${count} cells; the limit is ${MAX_TILES}. Use larger cells.`
+    );
+  }
+}
+
+function utmCells(aoi: GeometryInput, sizeKm: number): Cell[] {
+  const [lng, lat] = regionCenter(aoi);
+  const zone = utmZone(lng, lat);
+  const hemisphere = lat < 0 ? "S" : "N";
+  const projected = outerVertices(aoi).map(([x, y]) =>
+    toUtm(x, y, zone, hemisphere)
+  );
+  const size = sizeKm * 1000;
+  const eastings = projected.map((p) => p.easting);
+  const northings = projected.map((p) => p.northing);
+  const minE = Math.floor(Math.min(...eastings) / size) * size;
+  const minN = Math.floor(Math.min(...northings) / size) * size;
+  const columns = Math.ceil((Math.max(...eastings) - minE) / size);
+  const rows = Math.ceil((Math.max(...northings) - minN) / size);
+  checkCount(columns, rows);
+
+  const toLngLat = (easting: number, northing: number) =>
+    fromUtm({ zone, hemisphere, easting, northing });
+  const cells: Cell[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < columns; col++) {
+      const e = minE + col * size;
+      const n = minN + row * size;
+      const ring: [number, number][] = [];
+      // South, east, north and west edges, counter-clockwise
+      const corners = [
+        [e, n],
+        [e + size, n],
+        [e + size, n + size],
+        [e, n + size],
+      ];
+      corners.forEach(([e0, n0], i) => {
+        const [e1, n1] = corners[(i + 1) % 4];
+        for (let step = 0; step < EDGE_STEPS; step++) {
+          const t = step / EDGE_STEPS;
+          ring.push(toLngLat(e0 + (e1 - e0) * t, n0 + (n1 - n0) * t));
+        }
+      });
+      ring.push(ring[0]);
+      cells.push({
+        label: `${zone}${hemisphere} ${e / 1000}E ${n / 1000}N`,
+        ring,
+      });
+    }
+  }
+  return cells;
+}
+
+const KM_PER_DEGREE_LAT = 110.574;
+const KM_PER_DEGREE_LNG_AT_EQUATOR = 111.32;
+
+// Squares of sizeKm from the south-west corner; each row's columns are sized
+// for the row's middle latitude
+function fixedCells(
+  [west, south, east, north]: [number, number, number, number],
+  sizeKm: number
+): Cell[] {
+  const dLat = sizeKm / KM_PER_DEGREE_LAT;
+  const rows = Math.ceil((north - south) / dLat);
+  const columnsAt = (lat: number) => {
+    const dLng =
+      sizeKm / (KM_PER_DEGREE_LNG_AT_EQUATOR * Math.cos((lat * Math.PI) / 180));
+    return { dLng, columns: Math.ceil((east - west) / dLng) };
+  };
+  // The row nearest the equator has the most columns
+  const widest = columnsAt(
+    south <= 0 && north >= 0 ? 0 : Math.min(Math.abs(south), Math.abs(north))
+  );
+  checkCount(widest.columns, rows);
+
+  const cells: Cell[] = [];
+  for (let row = 0; row < rows; row++) {
+    const s = south + row * dLat;
+    const n = s + dLat;
+    const { dLng, columns } = columnsAt((s + n) / 2);
+    for (let col = 0; col < columns; col++) {
+      const w = west + col * dLng;
+      const e = w + dLng;
+      cells.push({
+        label: `R${row + 1}C${col + 1}`,
+        ring: [
+          [w, s],
+          [e, s],
+          [e, n],
+          [w, n],
+          [w, s],
+        ],
+      });
+    }
+  }
+  return cells;
+}
+
+const WEST_OF_ANTIMERIDIAN = bboxPolygon([-180, -90, 180, 90]);
+const EAST_OF_ANTIMERIDIAN = bboxPolygon([180, -90, 540, 90]);
+
+// Bring a tile clipped past 180 back within ±180, cutting it in two where it
+// straddles the antimeridian
+function rewrap(tile: GeoJSON.Feature<PolygonalGeometry>): PolygonalGeometry {
+  const west = intersect(featureCollection([tile, WEST_OF_ANTIMERIDIAN]));
+  const east = intersect(featureCollection([tile, EAST_OF_ANTIMERIDIAN]));
+  const parts = [
+    ...polygonParts(west),
+    ...polygonParts(east).map((rings) =>
+      rings.map((ring) => ring.map(([x, y]) => [x - 360, y]))
+    ),
+  ];
+  return parts.length === 1
+    ? { type: "Polygon", coordinates: parts[0] }
+    : { type: "MultiPolygon", coordinates: parts };
+}
+
+// Split a region into grid cells clipped to it. Cells that only graze the
+// region (smaller than the minimum region area) are left out. Throws
+// TileGridError for grids over MAX_TILES cells.
+export function tileGrid(
+  aoi: GeoJSON.Feature<PolygonalGeometry> | PolygonalGeometry,
+  { sizeKm, alignment }: TileGridOptions
+): RegionTile[] {
+  if (!(sizeKm > 0)) throw new TileGridError("Cell size must be positive");
+  const box = bounds(aoi);
+  if (!box) return [];
+  const cells =
+    alignment === "utm" ? utmCells(aoi, sizeKm) : fixedCells(box, sizeKm);
+  // Across the antimeridian the region and its cells are clipped with
+  // longitudes running on past 180
+  const crosses = box[2] > 180;
+  const target = crosses
+    ? feature(unwrappedPolygons(aoi))
+    : aoi.type === "Feature"
+    ? aoi
+    : feature(aoi);
+  const unwrap = (ring: [number, number][]) =>
+    crosses ? ring.map(([x, y]) => [x < 0 ? x + 360 : x, y]) : ring;
+
+  const tiles: RegionTile[] = [];
+  for (const cell of cells) {
+    const clipped = intersect(
+      featureCollection([
+        target,
+        feature<GeoJSON.Polygon>({
+          type: "Polygon",
+          coordinates: [unwrap(cell.ring)],
+        }),
+      ])
+    );
+    if (!clipped || areaKm2(clipped) < GEOMETRY_LIMITS.minAreaKm2) continue;
+    tiles.push({
+      id: crypto.randomUUID(),
+      label: cell.label,
+      geometry: crosses ? rewrap(clipped) : clipped.geometry,
+    });
+  }
+  return tiles;
+}
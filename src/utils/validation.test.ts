@@ -0,0 +1,175 @@
+import { describe, expect, it } from "vitest";
+import {
+  crossesAntimeridian,
+  repairGeometry,
+  validateGeometry,
+  validateOrRepair,
+} from "./validation";
+import type { PolygonalGeometry } from "./validation";
+import { areaKm2 } from "./geometry";
+import { boxFeature } from "../test/regions";
+
+const ring = (coords: number[][]): GeoJSON.Feature => ({
+  type: "Feature",
+  properties: {},
+  geometry: { type: "Polygon", coordinates: [coords] },
+});
+
+const codes = (gj: GeoJSON.Feature) =>
+  validateGeometry(gj).issues.map((i) => i.code);
+
+// Edges cross at (1, 1)
+const bowtie = ring([
+  [0, 0],
+  [2, 2],
+  [2, 0],
+  [0, 2],
+  [0, 0],
+]);
+
+// 179°E to 179°W, written with the jump across the antimeridian
+const dateline = ring([
+  [179, -1],
+  [-179, -1],
+  [-179, 1],
+  [179, 1],
+  [179, -1],
+]);
+
+describe("validateGeometry", () => {
+  it("accepts a plain box", () => {
+    expect(validateGeometry(boxFeature(0, 0, 1, 1))).toEqual({
+      valid: true,
+      issues: [],
+    });
+  });
+
+  it("rejects non-areas and bad coordinates", () => {
+    expect(
+      codes({
+        type: "Feature",
+        properties: {},
+        geometry: { type: "Point", coordinates: [0, 0] },
+      })
+    ).toEqual(["not-polygonal"]);
+    expect(codes(boxFeature(0, 0, 1, 95))).toEqual(["invalid-coordinates"]);
+  });
+
+  it("flags unclosed rings and too few vertices", () => {
+    const open = ring([
+      [0, 0],
+      [1, 0],
+      [1, 1],
+      [0, 1],
+    ]);
+    expect(codes(open)).toEqual(["unclosed-ring"]);
+    const line = ring([
+      [0, 0],
+      [1, 1],
+      [0, 0],
+    ]);
+    expect(codes(line)).toEqual(["too-few-vertices"]);
+  });
+
+  it("marks where edges cross", () => {
+    const { valid, issues } = validateGeometry(bowtie);
+    expect(valid).toBe(false);
+    expect(issues[0]).toMatchObject({
+      code: "self-intersection",
+      points: [[1, 1]],
+      repairable: true,
+    });
+  });
+
+  it("warns about clockwise outer rings without blocking", () => {
+    const clockwise = ring([
+      [0, 0],
+      [0, 1],
+      [1, 1],
+      [1, 0],
+      [0, 0],
+    ]);
+    const { valid, issues } = validateGeometry(clockwise);
+    expect(valid).toBe(true);
+    expect(issues.map((i) => [i.code, i.severity])).toEqual([
+      ["ring-orientation", "warning"],
+    ]);
+  });
+
+  it("enforces the area limits", () => {
+    const limits = { minAreaKm2: 1, maxAreaKm2: 1000, maxVertices: 5 };
+    expect(
+      validateGeometry(boxFeature(0, 0, 0.001, 0.001), limits).issues[0].code
+    ).toBe("too-small");
+    expect(
+      validateGeometry(boxFeature(0, 0, 1, 1), limits).issues[0].code
+    ).toBe("too-large");
+    expect(
+      validateGeometry(boxFeature(0, 0, 0.1, 0.1), {
+        ...limits,
+        maxVertices: 4,
+      }).issues[0].code
+    ).toBe("too-many-vertices");
+  });
+
+  it("detects and measures shapes across the antimeridian", () => {
+    expect(crossesAntimeridian(dateline.geometry as PolygonalGeometry)).toBe(
+      true
+    );
+    expect(codes(dateline)).toEqual(["crosses-antimeridian"]);
+  });
+});
+
+describe("repair", () => {
+  it("splits a bow tie into two valid triangles", () => {
+    const checked = validateOrRepair(bowtie);
+    expect(checked.repaired).toBe(true);
+    expect(checked.feature?.geometry.type).toBe("MultiPolygon");
+    expect(validateGeometry(checked.feature!).valid).toBe(true);
+    expect(areaKm2(checked.feature)).toBeCloseTo(
+      areaKm2(boxFeature(0, 0, 2, 2)) / 2,
+      -2
+    );
+  });
+
+  it("closes open rings", () => {
+    const repaired = repairGeometry(
+      ring([
+        [0, 0],
+        [1, 0],
+        [1, 1],
+        [0, 1],
+      ])
+    );
+    expect(validateGeometry(repaired!).valid).toBe(true);
+  });
+
+  it("splits a shape at the antimeridian without losing area", () => {
+    const checked = validateOrRepair(dateline);
+    expect(checked.repaired).toBe(true);
+    const geometry = checked.feature!.geometry as GeoJSON.MultiPolygon;
+    expect(geometry.type).toBe("MultiPolygon");
+    expect(
+      geometry.coordinates.flat(2).every(([lng]) => Math.abs(lng) <= 180)
+    ).toBe(true);
+    // Two degrees wide, not 358
+    expect(areaKm2(checked.feature)).toBeCloseTo(
+      areaKm2(boxFeature(0, -1, 2, 1)),
+      -1
+    );
+  });
+
+  it("gives up on problems it can't fix", () => {
+    const checked = validateOrRepair(boxFeature(0, 0, 0.0001, 0.0001));
+    expect(checked.feature).toBeNull();
+    expect(checked.issues.map((i) => i.code)).toEqual(["too-small"]);
+  });
+
+  it("keeps the feature's properties", () => {
+    const repaired = repairGeometry({
+      ...bowtie,
+      properties: { name: "Field 7" },
+    });
+    expect(repaired?.properties).toEqual({ name: "Field 7" });
+  });
+});
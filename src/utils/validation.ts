@@ -0,0 +1,347 @@
+// utils/validation.ts
+import {
+  bboxPolygon,
+  booleanClockwise,
+  cleanCoords,
+  feature,
+  featureCollection,
+  intersect,
+  kinks,
+  polygon,
+  rewind,
+  unkinkPolygon,
+} from "@turf/turf";
+import { GEOMETRY_LIMITS } from "../config/geometry";
+import { areaKm2 as measureAreaKm2 } from "./geometry";
+
+export type PolygonalGeometry = GeoJSON.Polygon | GeoJSON.MultiPolygon;
+
+export type ValidationIssueCode =
+  | "not-polygonal"
+  | "invalid-coordinates"
+  | "unclosed-ring"
+  | "too-few-vertices"
+  | "too-many-vertices"
+  | "crosses-antimeridian"
+  | "ring-orientation"
+  | "self-intersection"
+  | "too-small"
+  | "too-large";
+
+export interface ValidationIssue {
+  code: ValidationIssueCode;
+  // Warnings are reported but don't block adding to the cart
+  severity: "error" | "warning";
+  message: string;
+  // Offending vertices as [lng, lat], for marking on the map
+  points: [number, number][];
+  repairable: boolean;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  issues: ValidationIssue[];
+}
+
+export interface GeometryLimits {
+  minAreaKm2: number;
+  maxAreaKm2: number;
+  maxVertices: number;
+}
+
+type Position = GeoJSON.Position;
+
+export function isPolygonal(
+  geometry: GeoJSON.Geometry | null
+): geometry is PolygonalGeometry {
+  return geometry?.type === "Polygon" || geometry?.type === "MultiPolygon";
+}
+
+const polygonsOf = (g: PolygonalGeometry): Position[][][] =>
+  g.type === "Polygon" ? [g.coordinates] : g.coordinates;
+
+const fromPolygons = (polygons: Position[][][]): PolygonalGeometry =>
+  polygons.length === 1
+    ? { type: "Polygon", coordinates: polygons[0] }
+    : { type: "MultiPolygon", coordinates: polygons };
+
+const toPoint = (c: Position): [number, number] => [c[0], c[1]];
+
+const samePosition = (a: Position, b: Position) =>
+  a[0] === b[0] && a[1] === b[1];
+
+const isClosed = (ring: Position[]) =>
+  ring.length > 0 && samePosition(ring[0], ring[ring.length - 1]);
+
+const closeRing = (ring: Position[]) =>
+  isClosed(ring) ? ring : [...ring, ring[0]];
+
+// Shift longitudes so no edge jumps more than 180°, starting near `reference`
+function unwrapRing(ring: Position[], reference = ring[0]?.[0] ?? 0) {
+  let prev = reference;
+  return ring.map(([lng, lat]) => {
+    let x = lng;
+    while (x - prev > 180) x -= 360;
+    while (x - prev < -180) x += 360;
+    prev = x;
+    return [x, lat];
+  });
+}
+
+function unwrap(geometry: PolygonalGeometry): PolygonalGeometry {
+  return fromPolygons(
+    polygonsOf(geometry).map(([outer, ...holes]) => {
+      const shell = unwrapRing(outer);
+      return [shell, ...holes.map((h) => unwrapRing(h, shell[0][0]))];
+    })
+  );
+}
+
+function antimeridianEdges(geometry: PolygonalGeometry): Position[] {
+  return polygonsOf(geometry).flatMap((rings) =>
+    rings.flatMap((ring) =>
+      ring.flatMap((c, i) => {
+        if (Math.abs(c[0]) > 180) return [c];
+        const prev = ring[i - 1];
+        return prev && Math.abs(c[0] - prev[0]) > 180 ? [prev, c] : [];
+      })
+    )
+  );
+}
+
+export function crossesAntimeridian(geometry: PolygonalGeometry): boolean {
+  return antimeridianEdges(geometry).length > 0;
+}
+
+// Cut an unwrapped geometry into pieces that each fit within ±180°
+function splitAtAntimeridian(geometry: PolygonalGeometry): PolygonalGeometry {
+  const pieces: Position[][][] = [];
+  for (const shift of [-360, 0, 360]) {
+    const clipped = intersect(
+      featureCollection([
+        feature(geometry),
+        bboxPolygon([-180 + shift, -90, 180 + shift, 90]),
+      ])
+    );
+    if (!clipped) continue;
+    for (const rings of polygonsOf(clipped.geometry)) {
+      pieces.push(rings.map((r) => r.map(([x, y]) => [x - shift, y])));
+    }
+  }
+  return fromPolygons(pieces);
+}
+
+export function validateGeometry(
+  gj: GeoJSON.Feature,
+  limits: GeometryLimits = GEOMETRY_LIMITS
+): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  const result = () => ({
+    valid: !issues.some((i) => i.severity === "error"),
+    issues,
+  });
+
+  const geometry = gj.geometry;
+  if (!isPolygonal(geometry)) {
+    issues.push({
+      code: "not-polygonal",
+      severity: "error",
+      message: `${geometry?.type ?? "Empty geometry"} is not an area`,
+      points: [],
+      repairable: false,
+    });
+    return result();
+  }
+
+  const polygons = polygonsOf(geometry);
+  const rings = polygons.flat();
+  const coords = rings.flat();
+
+  const badCoords = coords.filter(
+    (c) =>
+      !Number.isFinite(c[0]) || !Number.isFinite(c[1]) || Math.abs(c[1]) > 90
+  );
+  if (badCoords.length > 0) {
+    issues.push({
+      code: "invalid-coordinates",
+      severity: "error",
+      message: "Some coordinates are not valid longitude/latitude values",
+      points: badCoords.filter((c) => Math.abs(c[1]) <= 90).map(toPoint),
+      repairable: false,
+    });
+    return result();
+  }
+
+  const unclosed = rings.filter((r) => !isClosed(r));
+  if (unclosed.length > 0) {
+    issues.push({
+      code: "unclosed-ring",
+      severity: "error",
+      message: "Ring is not closed (first and last vertex differ)",
+      points: unclosed.flatMap((r) => [r[0], r[r.length - 1]]).map(toPoint),
+      repairable: true,
+    });
+  }
+
+  const tooFew = rings.filter(
+    (r) => new Set(r.map((c) => `${c[0]},${c[1]}`)).size < 3
+  );
+  if (tooFew.length > 0) {
+    issues.push({
+      code: "too-few-vertices",
+      severity: "error",
+      message: "A ring needs at least 3 distinct vertices",
+      points: tooFew.flat().map(toPoint),
+      repairable: false,
+    });
+  }
+
+  if (coords.length > limits.maxVertices) {
+    issues.push({
+      code: "too-many-vertices",
+      severity: "error",
+      message: `${coords.length} vertices exceeds the limit of ${limits.maxVertices}; simplify the shape`,
+      points: [],
+      repairable: false,
+    });
+  }
+
+  // The remaining checks need well-formed rings
+  if (unclosed.length > 0 || tooFew.length > 0) return result();
+
+  const crossing = antimeridianEdges(geometry);
+  if (crossing.length > 0) {
+    issues.push({
+      code: "crosses-antimeridian",
+      severity: "error",
+      message: "Shape crosses the antimeridian (180° longitude)",
+      points: crossing.map(toPoint),
+      repairable: true,
+    });
+  }
+
+  // Measure in unwrapped space so shapes across the antimeridian are sane
+  const planar = unwrap(geometry);
+
+  const misoriented = polygonsOf(planar).flatMap(([outer, ...holes]) => [
+    ...(booleanClockwise(outer) ? [outer] : []),
+    ...holes.filter((h) => !booleanClockwise(h)),
+  ]);
+  if (misoriented.length > 0) {
+    issues.push({
+      code: "ring-orientation",
+      severity: "warning",
+      message:
+        "Ring winding does not follow GeoJSON (outer counter-clockwise, holes clockwise)",
+      points: misoriented.map((r) => toPoint(r[0])),
+      repairable: true,
+    });
+  }
+
+  // Per polygon: members of a MultiPolygon may legitimately touch
+  const kinkPoints = polygonsOf(planar).flatMap((rings) =>
+    kinks(polygon(rings)).features.map((p) => toPoint(p.geometry.coordinates))
+  );
+  if (kinkPoints.length > 0) {
+    issues.push({
+      code: "self-intersection",
+      severity: "error",
+      message: `Edges cross each other at ${kinkPoints.length} point${
+        kinkPoints.length === 1 ? "" : "s"
+      }`,
+      points: kinkPoints,
+      repairable: true,
+    });
+  }
+
+  // Area is meaningless for a self-intersecting ring (lobes cancel out)
+  if (kinkPoints.length > 0) return result();
+
+  const areaKm2 = measureAreaKm2(planar);
+  if (areaKm2 < limits.minAreaKm2) {
+    issues.push({
+      code: "too-small",
+      severity: "error",
+      message: `Area ${areaKm2.toFixed(4)} km² is below the ${
+        limits.minAreaKm2
+      } km² minimum`,
+      points: [],
+      repairable: false,
+    });
+  } else if (areaKm2 > limits.maxAreaKm2) {
+    issues.push({
+      code: "too-large",
+      severity: "error",
+      message: `Area ${Math.round(
+        areaKm2
+      ).toLocaleString()} km² exceeds the ${limits.maxAreaKm2.toLocaleString()} km² maximum`,
+      points: [],
+      repairable: false,
+    });
+  }
+
+  return result();
+}
+
+// Best-effort fix: close rings, drop repeated vertices, split self-intersecting
+// rings into simple polygons, split at the antimeridian and rewind to the
+// GeoJSON winding order. Returns null when the geometry can't be repaired.
+export function repairGeometry(
+  gj: GeoJSON.Feature
+): GeoJSON.Feature<PolygonalGeometry> | null {
+  if (!isPolygonal(gj.geometry)) return null;
+  try {
+    const closed = fromPolygons(
+      polygonsOf(gj.geometry).map((rings) => rings.map(closeRing))
+    );
+    let repaired = unwrap(cleanCoords(closed) as PolygonalGeometry);
+
+    if (
+      polygonsOf(repaired).some(
+        (rings) => kinks(polygon(rings)).features.length > 0
+      )
+    ) {
+      repaired = fromPolygons(
+        unkinkPolygon(repaired).features.map((f) => f.geometry.coordinates)
+      );
+    }
+    if (
+      polygonsOf(repaired).some((p) =>
+        p.flat().some((c) => Math.abs(c[0]) > 180)
+      )
+    ) {
+      repaired = splitAtAntimeridian(repaired);
+    }
+    return {
+      ...gj,
+      geometry: rewind(repaired) as PolygonalGeometry,
+    } as GeoJSON.Feature<PolygonalGeometry>;
+  } catch (err) {
+    console.error("Geometry repair failed:", err);
+    return null;
+  }
+}
+
+export interface CheckedFeature {
+  feature: GeoJSON.Feature | null;
+  repaired: boolean;
+  issues: ValidationIssue[];
+}
+
+// Validate, and auto-repair when every blocking issue is repairable
+export function validateOrRepair(
+  gj: GeoJSON.Feature,
+  limits: GeometryLimits = GEOMETRY_LIMITS
+): CheckedFeature {
+  const { valid, issues } = validateGeometry(gj, limits);
+  if (valid) return { feature: gj, repaired: false, issues };
+  if (issues.some((i) => i.severity === "error" && !i.repairable)) {
+    return { feature: null, repaired: false, issues };
+  }
+
+  const repaired = repairGeometry(gj);
+  if (repaired && validateGeometry(repaired, limits).valid) {
+    return { feature: repaired, repaired: true, issues };
+  }
+  return { feature: null, repaired: false, issues };
+}
@@ -0,0 +1,18 @@
+// utils/webMercator.ts
+// The Web Mercator tile pyramid used by the tile cache and map snapshots
+
+export const TILE_SIZE = 256;
+// Web Mercator stops short of the poles
+export const MAX_LATITUDE = 85.0511287798;
+
+// Pixel position [x, y] in the whole world map at a zoom, from the
+// north-west corner. Longitudes beyond ±180° are not wrapped.
+export function worldPixel([lng, lat]: number[], z: number): [number, number] {
+  const scale = TILE_SIZE * 2 ** z;
+  const phi =
+    (Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat)) * Math.PI) / 180;
+  return [
+    ((lng + 180) / 360) * scale,
+    ((1 - Math.log(Math.tan(phi) + 1 / Math.cos(phi)) / Math.PI) / 2) * scale,
+  ];
+}
@@ -1 +1,24 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Our backend (orders etc.), defaults to "/api" on the same origin
+  readonly VITE_API_URL?: string;
+  // JSON file with extra basemaps and overlays, merged onto config/basemaps.ts
+  readonly VITE_BASEMAPS_URL?: string;
+  // Self-hosted admin boundary GeoJSON directory, see public/boundaries
+  readonly VITE_BOUNDARIES_URL?: string;
+  // Geocoding provider: "nominatim" or "offline"
+  readonly VITE_GEOCODER?: string;
+  // Contact address for Nominatim's usage policy
+  readonly VITE_GEOCODER_EMAIL?: string;
+  // Nominatim root, for self-hosted instances
+  readonly VITE_NOMINATIM_URL?: string;
+  // GeoJSON list of areas we can't sell imagery over, see config/rules.ts
+  readonly VITE_RESTRICTED_ZONES_URL?: string;
+  // Short-link storage for long permalinks: "api" or "local"
+  readonly VITE_SHORT_LINKS?: string;
+  // STAC API root, without a trailing slash
+  readonly VITE_STAC_API_URL?: string;
+  // "true" serves the APIs from the in-browser mocks in src/mocks
+  readonly VITE_USE_MOCKS?: string;
+}
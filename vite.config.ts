@@ -1,8 +1,13 @@
-import { defineConfig } from "vite";
+import { defineConfig } from "vitest/config";
 import react from "@vitejs/plugin-react";
 import tailwindcss from "@tailwindcss/vite";
 
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react(), tailwindcss()],
+  test: {
+    include: ["src/**/*.test.ts"],
+    // fetch in Node needs absolute URLs for the mocked backend
+    env: { VITE_API_URL: "http://localhost/api" },
+  },
 });